@@ -0,0 +1,127 @@
+import React from "react";
+import type { Meta, StoryObj } from "@storybook/react";
+import { within, userEvent, expect } from "@storybook/test";
+import { storyTheme } from "../styles/storyTheme";
+import { useCookieState } from "@usefy/use-cookie-state";
+
+type Theme = "light" | "dark";
+
+function CookieThemeDemo({ maxAge = 60 * 60 }: { maxAge?: number }) {
+  const [theme, setTheme, removeTheme] = useCookieState<Theme>(
+    "storybook-cookie-theme",
+    "light",
+    { maxAge }
+  );
+
+  return (
+    <div className={storyTheme.containerCentered}>
+      <h2 className={storyTheme.titleLarge}>useCookieState Demo</h2>
+      <p className={storyTheme.subtitle}>
+        Stored in a cookie, readable by the server on the next request
+      </p>
+      <div
+        className={
+          (theme === "dark" ? "bg-slate-800" : "bg-amber-100") +
+          " mb-8 p-10 rounded-3xl shadow-2xl"
+        }
+      >
+        <p
+          data-testid="theme"
+          className={
+            "text-5xl font-black m-0 " +
+            (theme === "dark" ? "text-white" : "text-slate-800")
+          }
+        >
+          {theme}
+        </p>
+      </div>
+      <div className="flex gap-3 justify-center">
+        <button
+          data-testid="toggle-btn"
+          onClick={() => setTheme((t) => (t === "light" ? "dark" : "light"))}
+          className={storyTheme.buttonPrimary}
+        >
+          Toggle theme
+        </button>
+        <button
+          data-testid="remove-btn"
+          onClick={removeTheme}
+          className={storyTheme.buttonNeutral}
+        >
+          Remove cookie
+        </button>
+      </div>
+      <p data-testid="cookie" className={storyTheme.subtitle + " mt-6"}>
+        document.cookie contains theme:{" "}
+        {String(document.cookie.includes("storybook-cookie-theme="))}
+      </p>
+    </div>
+  );
+}
+
+const meta: Meta<typeof CookieThemeDemo> = {
+  title: "Hooks/useCookieState",
+  component: CookieThemeDemo,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    maxAge: {
+      control: { type: "number" },
+      description: "Cookie lifetime in seconds",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof CookieThemeDemo>;
+
+export const Default: Story = {
+  args: {
+    maxAge: 60 * 60,
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import { useCookieState, CookieStateProvider } from "@usefy/use-cookie-state";
+
+function ThemeToggle() {
+  const [theme, setTheme, removeTheme] = useCookieState("theme", "light", {
+    maxAge: 60 * 60,
+  });
+
+  return (
+    <div>
+      <h2>Theme: {theme}</h2>
+      <button onClick={() => setTheme((t) => (t === "light" ? "dark" : "light"))}>
+        Toggle theme
+      </button>
+      <button onClick={removeTheme}>Remove cookie</button>
+    </div>
+  );
+}
+
+// Server and client render the same theme
+<CookieStateProvider cookies={request.headers.get("cookie")}>
+  <ThemeToggle />
+</CookieStateProvider>`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(canvas.getByTestId("remove-btn"));
+    await expect(canvas.getByTestId("theme")).toHaveTextContent("light");
+
+    await userEvent.click(canvas.getByTestId("toggle-btn"));
+    await expect(canvas.getByTestId("theme")).toHaveTextContent("dark");
+    await expect(document.cookie).toContain("storybook-cookie-theme=");
+
+    await userEvent.click(canvas.getByTestId("remove-btn"));
+    await expect(canvas.getByTestId("theme")).toHaveTextContent("light");
+  },
+};
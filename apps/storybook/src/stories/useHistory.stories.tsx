@@ -0,0 +1,178 @@
+import React from "react";
+import type { Meta, StoryObj } from "@storybook/react";
+import { within, userEvent, expect } from "@storybook/test";
+import { storyTheme } from "../styles/storyTheme";
+import { useHistory } from "@usefy/use-history";
+
+function HistoryDemo({ maxHistory = 100 }: { maxHistory?: number }) {
+  const { state, set, undo, redo, canUndo, canRedo, clear, reset } =
+    useHistory(0, { maxHistory });
+
+  return (
+    <div className={storyTheme.containerCentered}>
+      <h2 className={storyTheme.titleLarge}>useHistory Hook Demo</h2>
+      <div className={storyTheme.gradientBox + " mb-8 p-10 rounded-3xl shadow-2xl text-center"}>
+        <p data-testid="state" className="text-8xl font-black text-white m-0">
+          {state}
+        </p>
+      </div>
+      <div className="flex gap-3 justify-center mb-4">
+        <button
+          data-testid="decrement-btn"
+          onClick={() => set((prev) => prev - 1)}
+          className={storyTheme.buttonSecondary}
+        >
+          -1
+        </button>
+        <button
+          data-testid="increment-btn"
+          onClick={() => set((prev) => prev + 1)}
+          className={storyTheme.buttonPrimary}
+        >
+          +1
+        </button>
+      </div>
+      <div className="flex gap-3 justify-center">
+        <button
+          data-testid="undo-btn"
+          onClick={undo}
+          disabled={!canUndo}
+          className={storyTheme.buttonNeutral + " disabled:opacity-50"}
+        >
+          Undo
+        </button>
+        <button
+          data-testid="redo-btn"
+          onClick={redo}
+          disabled={!canRedo}
+          className={storyTheme.buttonNeutral + " disabled:opacity-50"}
+        >
+          Redo
+        </button>
+        <button
+          data-testid="clear-btn"
+          onClick={clear}
+          className={storyTheme.buttonNeutral}
+        >
+          Clear
+        </button>
+        <button
+          data-testid="reset-btn"
+          onClick={reset}
+          className={storyTheme.buttonNeutral}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const meta: Meta<typeof HistoryDemo> = {
+  title: "Hooks/useHistory",
+  component: HistoryDemo,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    maxHistory: {
+      control: { type: "number" },
+      description: "Maximum number of undo steps",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof HistoryDemo>;
+
+export const Default: Story = {
+  args: {
+    maxHistory: 100,
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import { useHistory } from "@usefy/use-history";
+
+function Counter() {
+  const { state, set, undo, redo, canUndo, canRedo, clear, reset } =
+    useHistory(0);
+
+  return (
+    <div>
+      <h2>Count: {state}</h2>
+      <button onClick={() => set((prev) => prev + 1)}>+1</button>
+      <button onClick={undo} disabled={!canUndo}>Undo</button>
+      <button onClick={redo} disabled={!canRedo}>Redo</button>
+      <button onClick={clear}>Clear</button>
+      <button onClick={reset}>Reset</button>
+    </div>
+  );
+}`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await expect(canvas.getByTestId("state")).toHaveTextContent("0");
+
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await expect(canvas.getByTestId("state")).toHaveTextContent("2");
+
+    // Undo and redo
+    await userEvent.click(canvas.getByTestId("undo-btn"));
+    await expect(canvas.getByTestId("state")).toHaveTextContent("1");
+    await userEvent.click(canvas.getByTestId("redo-btn"));
+    await expect(canvas.getByTestId("state")).toHaveTextContent("2");
+
+    // Reset returns to initial state
+    await userEvent.click(canvas.getByTestId("reset-btn"));
+    await expect(canvas.getByTestId("state")).toHaveTextContent("0");
+    await expect(canvas.getByTestId("undo-btn")).toBeDisabled();
+  },
+};
+
+export const LimitedHistory: Story = {
+  args: {
+    maxHistory: 2,
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import { useHistory } from "@usefy/use-history";
+
+function Counter() {
+  // Only the last 2 steps can be undone
+  const { state, set, undo, canUndo } = useHistory(0, { maxHistory: 2 });
+
+  return (
+    <div>
+      <h2>Count: {state}</h2>
+      <button onClick={() => set((prev) => prev + 1)}>+1</button>
+      <button onClick={undo} disabled={!canUndo}>Undo</button>
+    </div>
+  );
+}`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+
+    await userEvent.click(canvas.getByTestId("undo-btn"));
+    await userEvent.click(canvas.getByTestId("undo-btn"));
+    await expect(canvas.getByTestId("state")).toHaveTextContent("1");
+    await expect(canvas.getByTestId("undo-btn")).toBeDisabled();
+  },
+};
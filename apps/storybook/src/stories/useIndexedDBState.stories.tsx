@@ -0,0 +1,119 @@
+import React from "react";
+import type { Meta, StoryObj } from "@storybook/react";
+import { within, userEvent, expect, waitFor } from "@storybook/test";
+import { storyTheme } from "../styles/storyTheme";
+import { useIndexedDBState } from "@usefy/use-indexeddb-state";
+
+function DraftDemo({
+  storageKey = "storybook-draft",
+}: {
+  storageKey?: string;
+}) {
+  const [draft, setDraft, clearDraft, status] = useIndexedDBState(
+    storageKey,
+    ""
+  );
+
+  return (
+    <div className={storyTheme.container}>
+      <h2 className={storyTheme.title}>useIndexedDBState Demo</h2>
+      <p className={storyTheme.subtitle}>
+        The draft is kept in IndexedDB. Reload the page or open it in another
+        tab to see it restored.
+      </p>
+      <p data-testid="status" className={storyTheme.statText + " mb-4"}>
+        Status: <strong>{status}</strong>
+      </p>
+      <textarea
+        data-testid="draft-input"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={status === "loading"}
+        placeholder="Write a draft..."
+        className={storyTheme.textarea + " mb-4"}
+        rows={6}
+      />
+      <div className={storyTheme.buttonGroup}>
+        <button
+          data-testid="clear-btn"
+          onClick={clearDraft}
+          className={storyTheme.buttonNeutral}
+        >
+          Clear Draft
+        </button>
+      </div>
+      <p
+        data-testid="length"
+        className={storyTheme.statTextSecondary + " mt-4"}
+      >
+        {draft.length} characters stored
+      </p>
+    </div>
+  );
+}
+
+const meta: Meta<typeof DraftDemo> = {
+  title: "Hooks/useIndexedDBState",
+  component: DraftDemo,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    storageKey: {
+      control: "text",
+      description: "Key of the draft in the object store",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof DraftDemo>;
+
+export const Default: Story = {
+  args: {
+    storageKey: "storybook-draft",
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import { useIndexedDBState } from "@usefy/use-indexeddb-state";
+
+function DraftEditor() {
+  const [draft, setDraft, clearDraft, status] = useIndexedDBState("draft", "");
+
+  return (
+    <div>
+      <p>Status: {status}</p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        disabled={status === "loading"}
+      />
+      <button onClick={clearDraft}>Clear Draft</button>
+    </div>
+  );
+}`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await waitFor(() =>
+      expect(canvas.getByTestId("status")).toHaveTextContent("ready")
+    );
+
+    await userEvent.click(canvas.getByTestId("clear-btn"));
+    await userEvent.type(canvas.getByTestId("draft-input"), "Hello");
+    await expect(canvas.getByTestId("draft-input")).toHaveValue("Hello");
+    await expect(canvas.getByTestId("length")).toHaveTextContent(
+      "5 characters stored"
+    );
+
+    await userEvent.click(canvas.getByTestId("clear-btn"));
+    await expect(canvas.getByTestId("draft-input")).toHaveValue("");
+  },
+};
@@ -0,0 +1,160 @@
+import React from "react";
+import type { Meta, StoryObj } from "@storybook/react";
+import { within, userEvent, expect } from "@storybook/test";
+import { storyTheme } from "../styles/storyTheme";
+import {
+  usePersistentState,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryAdapter,
+  createCookieAdapter,
+  type StorageAdapter,
+} from "@usefy/use-persistent-state";
+
+const adapters: Record<string, StorageAdapter> = {
+  localStorage: localStorageAdapter,
+  sessionStorage: sessionStorageAdapter,
+  memory: createMemoryAdapter(),
+  cookie: createCookieAdapter({ maxAge: 60 * 60 }),
+};
+
+type AdapterName = keyof typeof adapters;
+
+function PersistentCounterDemo({
+  adapter = "localStorage",
+}: {
+  adapter?: AdapterName;
+}) {
+  const [count, setCount, removeCount, status] = usePersistentState(
+    "storybook-persistent-count",
+    0,
+    { adapter: adapters[adapter] }
+  );
+
+  return (
+    <div className={storyTheme.containerCentered}>
+      <h2 className={storyTheme.titleLarge}>usePersistentState Demo</h2>
+      <p className={storyTheme.subtitle}>
+        Adapter: <strong>{adapter}</strong> ({status})
+      </p>
+      <div
+        className={storyTheme.gradientBox + " mb-8 p-10 rounded-3xl shadow-2xl"}
+      >
+        <p data-testid="count" className="text-8xl font-black text-white m-0">
+          {count}
+        </p>
+      </div>
+      <div className="flex gap-3 justify-center">
+        <button
+          data-testid="increment-btn"
+          onClick={() => setCount((prev) => prev + 1)}
+          className={storyTheme.buttonPrimary}
+        >
+          +1
+        </button>
+        <button
+          data-testid="remove-btn"
+          onClick={removeCount}
+          className={storyTheme.buttonNeutral}
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const meta: Meta<typeof PersistentCounterDemo> = {
+  title: "Hooks/usePersistentState",
+  component: PersistentCounterDemo,
+  parameters: {
+    layout: "centered",
+  },
+  tags: ["autodocs"],
+  argTypes: {
+    adapter: {
+      control: { type: "select" },
+      options: Object.keys(adapters),
+      description: "Storage adapter",
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof PersistentCounterDemo>;
+
+export const Default: Story = {
+  args: {
+    adapter: "localStorage",
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import { usePersistentState } from "@usefy/use-persistent-state";
+
+function Counter() {
+  const [count, setCount, removeCount] = usePersistentState("count", 0);
+
+  return (
+    <div>
+      <h2>Count: {count}</h2>
+      <button onClick={() => setCount((prev) => prev + 1)}>+1</button>
+      <button onClick={removeCount}>Remove</button>
+    </div>
+  );
+}`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(canvas.getByTestId("remove-btn"));
+    await expect(canvas.getByTestId("count")).toHaveTextContent("0");
+
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await expect(canvas.getByTestId("count")).toHaveTextContent("2");
+
+    await userEvent.click(canvas.getByTestId("remove-btn"));
+    await expect(canvas.getByTestId("count")).toHaveTextContent("0");
+  },
+};
+
+export const Cookie: Story = {
+  args: {
+    adapter: "cookie",
+  },
+  parameters: {
+    docs: {
+      source: {
+        code: `import {
+  usePersistentState,
+  createCookieAdapter,
+} from "@usefy/use-persistent-state";
+
+const cookieAdapter = createCookieAdapter({ maxAge: 60 * 60 });
+
+function Counter() {
+  const [count, setCount] = usePersistentState("count", 0, {
+    adapter: cookieAdapter,
+  });
+
+  return <button onClick={() => setCount((prev) => prev + 1)}>{count}</button>;
+}`,
+        language: "tsx",
+        type: "code",
+      },
+    },
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+
+    await userEvent.click(canvas.getByTestId("remove-btn"));
+    await userEvent.click(canvas.getByTestId("increment-btn"));
+    await expect(canvas.getByTestId("count")).toHaveTextContent("1");
+    await expect(document.cookie).toContain("storybook-persistent-count=1");
+  },
+};
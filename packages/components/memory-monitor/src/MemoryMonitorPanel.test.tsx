@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { StrictMode } from "react";
+import { render, screen, fireEvent, waitFor, act } from "@testing-library/react";
 import { MemoryMonitorPanel } from "./MemoryMonitorPanel";
+import { LeakWarning } from "./components/Alerts/LeakWarning";
+import { markMemory } from "./utils/markers";
+import { generateMemoryReport } from "./utils/reportGenerator";
+import type { LeakSuspect, PanelSnapshot } from "./types";
 import {
   mockSupportedBrowser,
   mockUnsupportedBrowser,
@@ -266,4 +271,548 @@ describe("MemoryMonitorPanel", () => {
       expect(screen.getByTestId("custom-trigger")).toBeInTheDocument();
     });
   });
+
+  describe("Snapshot Persistence", () => {
+    const snapshotsKey = "memory-monitor-panel-settings:snapshots";
+
+    const createSnapshot = (number: number, sessionId: string): PanelSnapshot => ({
+      id: `snapshot-${number}`,
+      label: `Snapshot ${number}`,
+      timestamp: number * 1000,
+      heapUsed: 10_000_000,
+      heapTotal: 20_000_000,
+      heapLimit: 100_000_000,
+      notes: `note ${number}`,
+      analysisContext: {
+        trend: "stable",
+        leakProbability: 0,
+        severity: "normal",
+        usagePercentage: 10,
+      },
+      sessionId,
+    });
+
+    const storeSnapshots = (snapshots: PanelSnapshot[]) => {
+      window.localStorage.setItem(
+        snapshotsKey,
+        JSON.stringify({
+          version: 1,
+          sessionCount: 1,
+          snapshotCount: snapshots.length,
+          sessions: [{ id: "session-1", number: 1, startedAt: 1000 }],
+          snapshots,
+        })
+      );
+    };
+
+    const openSnapshotsTab = () => {
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+    };
+
+    const readStored = () =>
+      JSON.parse(window.localStorage.getItem(snapshotsKey) ?? "null");
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it("restores snapshots from a previous session", async () => {
+      storeSnapshots([createSnapshot(1, "session-1")]);
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      expect(await screen.findByText("Snapshot 1")).toBeInTheDocument();
+      expect(screen.getByText("note 1")).toBeInTheDocument();
+    });
+
+    it("groups snapshots per session and continues numbering", async () => {
+      storeSnapshots([createSnapshot(1, "session-1")]);
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+      fireEvent.click(await screen.findByRole("button", { name: "Take Snapshot" }));
+
+      expect(await screen.findByText("Snapshot 2")).toBeInTheDocument();
+      expect(screen.getByText("Session 1")).toBeInTheDocument();
+      expect(screen.getByText("Session 2")).toBeInTheDocument();
+      expect(screen.getByText("Current")).toBeInTheDocument();
+
+      const stored = readStored();
+      expect(stored.sessionCount).toBe(2);
+      expect(stored.snapshotCount).toBe(2);
+      expect(stored.sessions.map((s: { number: number }) => s.number)).toEqual([1, 2]);
+      expect(stored.snapshots[0]).toEqual(createSnapshot(1, "session-1"));
+      expect(stored.snapshots[1].sessionId).toBe(stored.sessions[1].id);
+    });
+
+    it("keeps at most maxSnapshots, dropping the oldest", async () => {
+      storeSnapshots(
+        Array.from({ length: 12 }, (_, i) => createSnapshot(i + 1, "session-1"))
+      );
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      expect(await screen.findByText("Snapshots (10/10)")).toBeInTheDocument();
+      expect(screen.queryByText("Snapshot 2")).not.toBeInTheDocument();
+      expect(screen.getByText("Snapshot 3")).toBeInTheDocument();
+      await waitFor(() => {
+        expect(readStored().snapshots).toHaveLength(10);
+      });
+    });
+
+    it("does not restore snapshots when persistSettings is false", async () => {
+      storeSnapshots([createSnapshot(1, "session-1")]);
+
+      render(<MemoryMonitorPanel defaultOpen persistSettings={false} />);
+      openSnapshotsTab();
+
+      expect(await screen.findByText("No Snapshots Yet")).toBeInTheDocument();
+    });
+
+    it("ignores unreadable stored snapshots", async () => {
+      window.localStorage.setItem(snapshotsKey, JSON.stringify({ version: 99 }));
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      expect(await screen.findByText("No Snapshots Yet")).toBeInTheDocument();
+    });
+
+    it("ignores stored snapshots with missing fields", async () => {
+      const { heapUsed: _heapUsed, ...withoutHeapUsed } = createSnapshot(
+        2,
+        "session-1"
+      );
+      storeSnapshots([
+        createSnapshot(1, "session-1"),
+        withoutHeapUsed as PanelSnapshot,
+      ]);
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      expect(await screen.findByText("No Snapshots Yet")).toBeInTheDocument();
+      expect(screen.queryByText("Snapshot 1")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Snapshot Import/Export", () => {
+    const snapshot: PanelSnapshot = {
+      id: "snapshot-qa-1",
+      label: "QA Snapshot",
+      timestamp: 1000,
+      heapUsed: 10_000_000,
+      heapTotal: 20_000_000,
+      heapLimit: 100_000_000,
+      notes: "after opening the editor",
+      sessionId: "session-qa",
+    };
+
+    const createFile = (content: unknown) =>
+      new File([JSON.stringify(content)], "snapshots.json", {
+        type: "application/json",
+      });
+
+    const openSnapshotsTab = () => {
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+    };
+
+    const readBlob = (blob: Blob) =>
+      new Promise<string>((resolve) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.readAsText(blob);
+      });
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("exports snapshots with environment metadata", async () => {
+      const createObjectURL = vi.fn((_blob: Blob) => "blob:snapshots");
+      vi.stubGlobal("URL", {
+        ...URL,
+        createObjectURL,
+        revokeObjectURL: vi.fn(),
+      });
+
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      expect(screen.getByRole("button", { name: /export json/i })).toBeDisabled();
+
+      fireEvent.click(screen.getByRole("button", { name: "Take Snapshot" }));
+      fireEvent.click(await screen.findByRole("button", { name: /export json/i }));
+
+      expect(createObjectURL).toHaveBeenCalledTimes(1);
+      const data = JSON.parse(await readBlob(createObjectURL.mock.calls[0][0]));
+      expect(data).toMatchObject({
+        format: "usefy-memory-snapshots",
+        version: 1,
+        environment: { support: { level: expect.any(String) } },
+      });
+      expect(data.snapshots).toHaveLength(1);
+      expect(data.sessions).toHaveLength(1);
+    });
+
+    it("imports snapshots from an export file", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      fireEvent.change(screen.getByLabelText("Import snapshot file"), {
+        target: {
+          files: [
+            createFile({
+              format: "usefy-memory-snapshots",
+              version: 1,
+              exportedAt: 2000,
+              environment: { support: {} },
+              sessions: [{ id: "session-qa", number: 3, startedAt: 500 }],
+              snapshots: [snapshot],
+            }),
+          ],
+        },
+      });
+
+      expect(await screen.findByText("QA Snapshot")).toBeInTheDocument();
+      expect(screen.getByText("after opening the editor")).toBeInTheDocument();
+    });
+
+    it("continues numbering after the imported snapshots", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      fireEvent.change(screen.getByLabelText("Import snapshot file"), {
+        target: {
+          files: [
+            createFile({
+              format: "usefy-memory-snapshots",
+              version: 1,
+              exportedAt: 2000,
+              environment: { support: {} },
+              sessions: [],
+              snapshots: [{ ...snapshot, label: "Snapshot 4" }],
+            }),
+          ],
+        },
+      });
+      expect(await screen.findByText("Snapshot 4")).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole("button", { name: "Take Snapshot" }));
+
+      expect(await screen.findByText("Snapshot 5")).toBeInTheDocument();
+      expect(screen.getAllByText("Snapshot 4")).toHaveLength(1);
+    });
+
+    it("drops malformed sessions of an imported file", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+
+      fireEvent.change(screen.getByLabelText("Import snapshot file"), {
+        target: {
+          files: [
+            createFile({
+              format: "usefy-memory-snapshots",
+              version: 1,
+              exportedAt: 2000,
+              environment: { support: {} },
+              sessions: [{ number: 3 }],
+              snapshots: [{ ...snapshot, sessionId: undefined }],
+            }),
+          ],
+        },
+      });
+      expect(await screen.findByText("QA Snapshot")).toBeInTheDocument();
+
+      await waitFor(() => {
+        const stored = JSON.parse(
+          window.localStorage.getItem("memory-monitor-panel-settings:snapshots") ??
+            "null"
+        );
+        expect(stored.snapshots).toHaveLength(1);
+        expect(stored.sessions).toEqual([]);
+      });
+    });
+
+    it("reports invalid files and keeps the current snapshots", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      openSnapshotsTab();
+      fireEvent.click(screen.getByRole("button", { name: "Take Snapshot" }));
+
+      fireEvent.change(screen.getByLabelText("Import snapshot file"), {
+        target: {
+          files: [
+            createFile({
+              format: "usefy-memory-snapshots",
+              version: 2,
+              snapshots: [],
+            }),
+          ],
+        },
+      });
+
+      expect(await screen.findByRole("alert")).toHaveTextContent(
+        "Unsupported snapshot export version: 2"
+      );
+      expect(screen.getByText("Snapshot 1")).toBeInTheDocument();
+    });
+  });
+
+  describe("Snapshot Matrix", () => {
+    const MB = 1024 * 1024;
+
+    const createSnapshot = (
+      number: number,
+      heapUsed: number,
+      domNodes: number
+    ): PanelSnapshot => ({
+      id: `snapshot-${number}`,
+      label: `Snapshot ${number}`,
+      timestamp: number * 1000,
+      heapUsed,
+      heapTotal: 100 * MB,
+      heapLimit: 1000 * MB,
+      domNodes,
+      eventListeners: 10,
+    });
+
+    const clickCard = (label: string) => {
+      // The list is rendered after the comparison, so its card comes last
+      const matches = screen.getAllByText(label);
+      fireEvent.click(matches[matches.length - 1]);
+    };
+
+    beforeEach(() => {
+      window.localStorage.clear();
+      window.localStorage.setItem(
+        "memory-monitor-panel-settings:snapshots",
+        JSON.stringify({
+          version: 1,
+          sessionCount: 0,
+          snapshotCount: 3,
+          sessions: [],
+          snapshots: [
+            createSnapshot(1, 10 * MB, 100),
+            createSnapshot(2, 12 * MB, 400),
+            createSnapshot(3, 30 * MB, 420),
+          ],
+        })
+      );
+    });
+
+    it("compares the selected snapshots step by step", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+
+      fireEvent.click(screen.getByRole("button", { name: "Compare multiple" }));
+      clickCard("Snapshot 3");
+      clickCard("Snapshot 1");
+      clickCard("Snapshot 2");
+
+      expect(
+        await screen.findByText("Snapshot Matrix (3 snapshots)")
+      ).toBeInTheDocument();
+      expect(screen.getByText("Snapshot 1 → Snapshot 3 (2s apart)")).toBeInTheDocument();
+      expect(
+        screen.getByRole("img", { name: "Heap used across the selected snapshots" })
+      ).toBeInTheDocument();
+
+      // Biggest jumps: heap between 2 and 3, DOM nodes between 1 and 2
+      const flagged = screen.getAllByTitle("Biggest jump");
+      expect(flagged.map((cell) => cell.textContent)).toEqual(["▲ +300", "▲ +18.0 MB"]);
+    });
+
+    it("falls back to the pairwise comparison when turned off", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+      const toggle = screen.getByRole("button", { name: "Compare multiple" });
+
+      fireEvent.click(toggle);
+      clickCard("Snapshot 1");
+      clickCard("Snapshot 2");
+      expect(await screen.findByText("Snapshot Matrix (2 snapshots)")).toBeInTheDocument();
+
+      fireEvent.click(toggle);
+      expect(toggle).toHaveAttribute("aria-pressed", "false");
+      expect(screen.queryByText(/Snapshot Matrix/)).not.toBeInTheDocument();
+
+      clickCard("Snapshot 1");
+      clickCard("Snapshot 2");
+      expect(await screen.findByText("Snapshot Comparison")).toBeInTheDocument();
+    });
+  });
+
+  describe("Markers", () => {
+    const snapshotsKey = "memory-monitor-panel-settings:snapshots";
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it("includes markers recorded with markMemory in the next snapshot", async () => {
+      render(<MemoryMonitorPanel defaultOpen />);
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+      const takeSnapshot = await screen.findByRole("button", { name: "Take Snapshot" });
+
+      act(() => {
+        markMemory("route:/settings", { from: "/" });
+      });
+      fireEvent.click(takeSnapshot);
+
+      await waitFor(() => {
+        const stored = JSON.parse(window.localStorage.getItem(snapshotsKey) ?? "null");
+        expect(stored?.snapshots).toHaveLength(1);
+        expect(stored.snapshots[0].markers).toEqual([
+          expect.objectContaining({ label: "route:/settings", meta: { from: "/" } }),
+        ]);
+      });
+
+      // Markers are only included once
+      fireEvent.click(takeSnapshot);
+      await waitFor(() => {
+        const stored = JSON.parse(window.localStorage.getItem(snapshotsKey) ?? "null");
+        expect(stored.snapshots).toHaveLength(2);
+        expect(stored.snapshots[1].markers).toEqual([]);
+      });
+    });
+
+    it("keeps markers when the oldest snapshot makes room under StrictMode", async () => {
+      window.localStorage.setItem(
+        snapshotsKey,
+        JSON.stringify({
+          version: 1,
+          sessionCount: 1,
+          snapshotCount: 10,
+          sessions: [{ id: "session-1", number: 1, startedAt: 1000 }],
+          snapshots: Array.from({ length: 10 }, (_, i) => ({
+            id: `snapshot-${i + 1}`,
+            label: `Snapshot ${i + 1}`,
+            timestamp: (i + 1) * 1000,
+            heapUsed: 10_000_000,
+            heapTotal: 20_000_000,
+            heapLimit: 100_000_000,
+            sessionId: "session-1",
+          })),
+        })
+      );
+
+      render(
+        <StrictMode>
+          <MemoryMonitorPanel defaultOpen />
+        </StrictMode>
+      );
+      fireEvent.click(screen.getByRole("tab", { name: /snapshots/i }));
+      const takeSnapshot = await screen.findByRole("button", {
+        name: "Take Snapshot (replace oldest)",
+      });
+
+      act(() => {
+        markMemory("modal:open");
+      });
+      fireEvent.click(takeSnapshot);
+
+      await waitFor(() => {
+        const stored = JSON.parse(window.localStorage.getItem(snapshotsKey) ?? "null");
+        expect(stored.snapshots).toHaveLength(10);
+        expect(stored.snapshots[0].id).toBe("snapshot-2");
+        expect(stored.snapshots[9].markers).toEqual([
+          expect.objectContaining({ label: "modal:open" }),
+        ]);
+      });
+    });
+
+    it("lists markers in the report timeline", () => {
+      const snapshots: PanelSnapshot[] = Array.from({ length: 5 }, (_, i) => ({
+        id: `snapshot-${i + 1}`,
+        label: `Snapshot ${i + 1}`,
+        timestamp: (i + 1) * 1000,
+        heapUsed: 10_000_000,
+        heapTotal: 20_000_000,
+        heapLimit: 100_000_000,
+        markers:
+          i === 2
+            ? [{ id: "marker-1", label: "modal:<open>", timestamp: 2500, heapUsed: 10_000_000 }]
+            : [],
+      }));
+
+      const html = generateMemoryReport(snapshots);
+
+      expect(html).toContain("Marker Timeline");
+      expect(html).toContain("<strong>modal:&lt;open&gt;</strong>");
+    });
+
+    it("omits the report timeline without markers", () => {
+      const snapshots: PanelSnapshot[] = Array.from({ length: 5 }, (_, i) => ({
+        id: `snapshot-${i + 1}`,
+        label: `Snapshot ${i + 1}`,
+        timestamp: (i + 1) * 1000,
+        heapUsed: 10_000_000,
+        heapTotal: 20_000_000,
+        heapLimit: 100_000_000,
+      }));
+
+      expect(generateMemoryReport(snapshots)).not.toContain("Marker Timeline");
+    });
+  });
+
+  describe("Leak Suspects", () => {
+    const suspects: LeakSuspect[] = [
+      {
+        type: "scope",
+        name: "ChatWidget",
+        score: 82,
+        growth: 12 * 1024 * 1024,
+        count: 3,
+        reason: "3 instances mounted but never unmounted",
+      },
+      {
+        type: "route",
+        name: "/editor",
+        score: 41,
+        growth: 4 * 1024 * 1024,
+        count: 4,
+        reason: "Visited 4 times",
+      },
+    ];
+
+    it("lists ranked suspects in the leak warning", () => {
+      render(
+        <LeakWarning isLeaking probability={80} trend="increasing" suspects={suspects} />
+      );
+
+      const items = screen.getAllByRole("listitem");
+      expect(items).toHaveLength(2);
+      expect(items[0]).toHaveTextContent("1.ChatWidgetScope+12.0 MB");
+      expect(items[0]).toHaveTextContent("3 instances mounted but never unmounted");
+      expect(items[1]).toHaveTextContent("2./editorRoute+4.0 MB");
+    });
+
+    it("shows suspect reasons as titles in compact mode", () => {
+      render(
+        <LeakWarning
+          isLeaking
+          probability={80}
+          trend="increasing"
+          suspects={suspects}
+          compact
+        />
+      );
+
+      const list = screen.getByRole("list", { name: "Leak suspects" });
+      expect(list.children[1]).toHaveAttribute("title", "Visited 4 times");
+      expect(screen.queryByText("Visited 4 times")).not.toBeInTheDocument();
+    });
+
+    it("omits the suspects list without suspects", () => {
+      render(<LeakWarning isLeaking probability={80} trend="increasing" suspects={[]} />);
+
+      expect(screen.queryByRole("list", { name: "Leak suspects" })).not.toBeInTheDocument();
+    });
+  });
 });
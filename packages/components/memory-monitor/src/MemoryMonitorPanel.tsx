@@ -1,6 +1,6 @@
 import React, { forwardRef, useState, useEffect, useCallback, useMemo } from "react";
 import { useMemoryMonitor } from "@usefy/use-memory-monitor";
-import type { MemoryMonitorPanelProps, PanelTab, Severity, PanelSnapshot, SnapshotAnalysisContext } from "./types";
+import type { MemoryMonitorPanelProps, PanelTab, Severity, PanelSnapshot, SnapshotAnalysisContext, SnapshotSession } from "./types";
 import {
   DEFAULT_SETTINGS,
   DEFAULT_TRIGGER_POSITION,
@@ -11,12 +11,19 @@ import {
   formatBytes,
   SNAPSHOT_SCHEDULE_OPTIONS,
 } from "./constants";
-import { cn, isSSR, getShouldRender, getShouldActivate } from "./utils";
+import {
+  cn,
+  isSSR,
+  getShouldRender,
+  getShouldActivate,
+  subscribeToMarkers,
+} from "./utils";
 import {
   useKeyboardShortcut,
   useEscapeKey,
   usePanelState,
   useSettings,
+  useSnapshots,
   useAutoGC,
   useTheme,
 } from "./hooks";
@@ -42,7 +49,13 @@ import {
   IntervalSelector,
   SnapshotSettings,
 } from "./components/Controls";
-import { SnapshotList, SnapshotCompare, ReportButton } from "./components/Snapshots";
+import {
+  SnapshotList,
+  SnapshotCompare,
+  ReportButton,
+  SnapshotFileActions,
+} from "./components/Snapshots";
+import type { SnapshotExport } from "./utils/snapshotFile";
 
 /**
  * Enterprise-grade React component for real-time browser memory monitoring.
@@ -108,6 +121,7 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       // Leak Detection
       enableLeakDetection = true,
       leakSensitivity = "medium",
+      enableAttribution = false,
 
       // UI Customization
       triggerContent,
@@ -199,6 +213,7 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       leakDetection: {
         enabled: enableLeakDetection,
         sensitivity: leakSensitivity,
+        attribution: enableAttribution,
       },
       onUpdate: onUpdate
         ? (memory) => {
@@ -261,6 +276,13 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       onAutoGC,
     });
 
+    // Record markers from markMemory while active
+    const { markMemory } = monitor;
+    useEffect(() => {
+      if (!shouldActivate) return;
+      return subscribeToMarkers(markMemory);
+    }, [shouldActivate, markMemory]);
+
     // Keyboard shortcuts
     useKeyboardShortcut(shortcut, toggle, mounted && shouldRender);
     useEscapeKey(close, mounted && shouldRender && isOpen);
@@ -271,12 +293,25 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
     // Current severity
     const severity: Severity = monitor.severity;
 
-    // Snapshot state management
-    const [snapshots, setSnapshots] = useState<PanelSnapshot[]>([]);
+    // Snapshot state management (persisted with the settings)
+    const {
+      snapshots,
+      setSnapshots,
+      sessions,
+      currentSession,
+      nextSnapshotNumber,
+      loadSnapshots,
+      isLoaded: snapshotsLoaded,
+    } = useSnapshots({
+      storageKey,
+      persist: persistSettings,
+      maxSnapshots: settings.snapshot?.maxSnapshots ?? DEFAULT_SETTINGS.snapshot.maxSnapshots,
+    });
     const [selectedSnapshotId, setSelectedSnapshotId] = useState<string | null>(null);
     const [compareSnapshotId, setCompareSnapshotId] = useState<string | null>(null);
-    // Counter for sequential snapshot numbering (persists through auto-delete cycles)
-    const snapshotCounterRef = React.useRef(0);
+    // Multi-selection for the snapshot matrix
+    const [isMultiSelect, setIsMultiSelect] = useState(false);
+    const [multiSelectedIds, setMultiSelectedIds] = useState<string[]>([]);
 
     // Get selected snapshots
     const selectedSnapshot = useMemo(
@@ -287,6 +322,10 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       () => snapshots.find((s) => s.id === compareSnapshotId) ?? null,
       [snapshots, compareSnapshotId]
     );
+    const multiSelectedSnapshots = useMemo(
+      () => snapshots.filter((s) => multiSelectedIds.includes(s.id)),
+      [snapshots, multiSelectedIds]
+    );
 
     // Take snapshot handler
     const handleTakeSnapshot = useCallback((isAuto = false) => {
@@ -301,39 +340,20 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
         usagePercentage: monitor.usagePercentage ?? 0,
       };
 
-      // Increment counter for sequential numbering
-      snapshotCounterRef.current += 1;
-      const snapshotNumber = snapshotCounterRef.current;
-
-      // If at max capacity
-      if (snapshots.length >= maxSnapshots) {
-        if (autoDeleteOldest) {
-          // Delete oldest and add new one
-          setSnapshots((prev) => {
-            const remaining = prev.slice(1);
-            const id = `snapshot-${Date.now()}`;
-            const label = isAuto ? `Auto ${snapshotNumber}` : `Snapshot ${snapshotNumber}`;
-            const newSnapshot: PanelSnapshot = {
-              id,
-              label,
-              timestamp: Date.now(),
-              heapUsed: monitor.memory?.heapUsed ?? 0,
-              heapTotal: monitor.memory?.heapTotal ?? 0,
-              heapLimit: monitor.memory?.heapLimit ?? 0,
-              domNodes: monitor.domNodes ?? undefined,
-              eventListeners: monitor.eventListeners ?? undefined,
-              isAuto,
-              analysisContext,
-            };
-            monitor.takeSnapshot(id);
-            return [...remaining, newSnapshot];
-          });
-        }
+      // Sequential numbering (continues across auto-delete cycles and reloads)
+      const snapshotNumber = nextSnapshotNumber();
+
+      // At max capacity, the oldest snapshot makes room unless auto-delete is off
+      const isFull = snapshots.length >= maxSnapshots;
+      if (isFull && !autoDeleteOldest) {
         return;
       }
 
+      // Taken outside the state updater, which may run twice (StrictMode)
+      // while takeSnapshot consumes the markers recorded since the last snapshot
       const id = `snapshot-${Date.now()}`;
       const label = isAuto ? `Auto ${snapshotNumber}` : `Snapshot ${snapshotNumber}`;
+      const memorySnapshot = monitor.takeSnapshot(id);
 
       const newSnapshot: PanelSnapshot = {
         id,
@@ -346,11 +366,12 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
         eventListeners: monitor.eventListeners ?? undefined,
         isAuto,
         analysisContext,
+        sessionId: currentSession.id,
+        markers: memorySnapshot?.markers,
       };
 
-      setSnapshots((prev) => [...prev, newSnapshot]);
-      monitor.takeSnapshot(id);
-    }, [snapshots.length, monitor, settings.snapshot]);
+      setSnapshots((prev) => [...(isFull ? prev.slice(1) : prev), newSnapshot]);
+    }, [snapshots.length, monitor, settings.snapshot, nextSnapshotNumber, currentSession.id]);
 
     // Ref for the latest handleTakeSnapshot to avoid stale closure in interval
     const handleTakeSnapshotRef = React.useRef(handleTakeSnapshot);
@@ -388,7 +409,14 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
 
     // Select snapshot handler
     const handleSelectSnapshot = useCallback((snapshot: PanelSnapshot) => {
-      if (selectedSnapshotId === snapshot.id) {
+      if (isMultiSelect) {
+        // Toggle the snapshot in the matrix selection
+        setMultiSelectedIds((prev) =>
+          prev.includes(snapshot.id)
+            ? prev.filter((id) => id !== snapshot.id)
+            : [...prev, snapshot.id]
+        );
+      } else if (selectedSnapshotId === snapshot.id) {
         // Deselect if clicking the same
         setSelectedSnapshotId(null);
         setCompareSnapshotId(null);
@@ -400,13 +428,28 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
         setCompareSnapshotId(selectedSnapshotId);
         setSelectedSnapshotId(snapshot.id);
       }
-    }, [selectedSnapshotId]);
+    }, [isMultiSelect, selectedSnapshotId]);
+
+    // Toggle multi-selection, starting from the current pair selection
+    const handleToggleMultiSelect = useCallback(() => {
+      if (isMultiSelect) {
+        setMultiSelectedIds([]);
+      } else {
+        setMultiSelectedIds(
+          [compareSnapshotId, selectedSnapshotId].filter(
+            (id): id is string => id !== null
+          )
+        );
+      }
+      setIsMultiSelect(!isMultiSelect);
+    }, [isMultiSelect, selectedSnapshotId, compareSnapshotId]);
 
     // Delete snapshot handler
     const handleDeleteSnapshot = useCallback((id: string) => {
       setSnapshots((prev) => prev.filter((s) => s.id !== id));
       if (selectedSnapshotId === id) setSelectedSnapshotId(null);
       if (compareSnapshotId === id) setCompareSnapshotId(null);
+      setMultiSelectedIds((prev) => prev.filter((selectedId) => selectedId !== id));
     }, [selectedSnapshotId, compareSnapshotId]);
 
     // Delete all snapshots handler
@@ -414,8 +457,17 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       setSnapshots([]);
       setSelectedSnapshotId(null);
       setCompareSnapshotId(null);
+      setMultiSelectedIds([]);
     }, []);
 
+    // Import snapshots handler (replaces the current snapshots)
+    const handleImportSnapshots = useCallback((data: SnapshotExport) => {
+      loadSnapshots(data.snapshots, data.sessions);
+      setSelectedSnapshotId(null);
+      setCompareSnapshotId(null);
+      setMultiSelectedIds([]);
+    }, [loadSnapshots]);
+
     // Memoized tab content
     const tabContent = useMemo(() => {
       switch (activeTab) {
@@ -436,6 +488,7 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
               leakProbability={monitor.leakProbability}
               severity={monitor.severity}
               heapLimit={monitor.memory?.heapLimit ?? null}
+              markers={monitor.markers}
               warningThreshold={settings.warningThreshold}
               criticalThreshold={settings.criticalThreshold}
               isDark={isDark}
@@ -445,11 +498,17 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
           return (
             <SnapshotsTab
               snapshots={snapshots}
+              sessions={sessions}
+              currentSessionId={currentSession.id}
               selectedSnapshot={selectedSnapshot}
               compareSnapshot={compareSnapshot}
+              isMultiSelect={isMultiSelect}
+              multiSelectedSnapshots={multiSelectedSnapshots}
+              onToggleMultiSelect={handleToggleMultiSelect}
               onSelect={handleSelectSnapshot}
               onDelete={handleDeleteSnapshot}
               onDeleteAll={handleDeleteAllSnapshots}
+              onImport={handleImportSnapshots}
               onTakeSnapshot={() => handleTakeSnapshot(false)}
               maxSnapshots={settings.snapshot?.maxSnapshots ?? DEFAULT_SETTINGS.snapshot.maxSnapshots}
               autoDeleteOldest={settings.snapshot?.autoDeleteOldest ?? true}
@@ -475,12 +534,18 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       updateSettings,
       isDark,
       snapshots,
+      sessions,
+      currentSession.id,
       selectedSnapshot,
       compareSnapshot,
+      isMultiSelect,
+      multiSelectedSnapshots,
+      handleToggleMultiSelect,
       handleTakeSnapshot,
       handleSelectSnapshot,
       handleDeleteSnapshot,
       handleDeleteAllSnapshots,
+      handleImportSnapshots,
     ]);
 
     // Don't render on server
@@ -493,8 +558,8 @@ export const MemoryMonitorPanel = forwardRef<HTMLDivElement, MemoryMonitorPanelP
       return null;
     }
 
-    // Don't render until settings are loaded
-    if (!isLoaded) {
+    // Don't render until settings and snapshots are loaded
+    if (!isLoaded || !snapshotsLoaded) {
       return null;
     }
 
@@ -626,6 +691,7 @@ function OverviewTab({ monitor, settings, isDark, onTakeSnapshot }: OverviewTabP
               ? "Moderate risk. Monitor memory usage closely."
               : undefined
         }
+        suspects={monitor.leakSuspects}
         compact
       />
 
@@ -647,6 +713,7 @@ interface HistoryTabProps {
   leakProbability: number;
   severity: Severity;
   heapLimit: number | null;
+  markers: ReturnType<typeof useMemoryMonitor>["markers"];
   warningThreshold: number;
   criticalThreshold: number;
   isDark: boolean;
@@ -657,6 +724,7 @@ function HistoryTab({
   trend,
   leakProbability,
   heapLimit,
+  markers,
   warningThreshold,
   criticalThreshold,
 }: HistoryTabProps) {
@@ -666,6 +734,7 @@ function HistoryTab({
       <HistoryChart
         history={history}
         heapLimit={heapLimit}
+        markers={markers}
         warningThreshold={warningThreshold}
         criticalThreshold={criticalThreshold}
         height={200}
@@ -722,11 +791,17 @@ function HistoryTab({
 
 interface SnapshotsTabProps {
   snapshots: PanelSnapshot[];
+  sessions: SnapshotSession[];
+  currentSessionId: string;
   selectedSnapshot: PanelSnapshot | null;
   compareSnapshot: PanelSnapshot | null;
+  isMultiSelect: boolean;
+  multiSelectedSnapshots: PanelSnapshot[];
+  onToggleMultiSelect: () => void;
   onSelect: (snapshot: PanelSnapshot) => void;
   onDelete: (id: string) => void;
   onDeleteAll: () => void;
+  onImport: (data: SnapshotExport) => void;
   onTakeSnapshot: () => void;
   maxSnapshots: number;
   autoDeleteOldest: boolean;
@@ -735,11 +810,17 @@ interface SnapshotsTabProps {
 
 function SnapshotsTab({
   snapshots,
+  sessions,
+  currentSessionId,
   selectedSnapshot,
   compareSnapshot,
+  isMultiSelect,
+  multiSelectedSnapshots,
+  onToggleMultiSelect,
   onSelect,
   onDelete,
   onDeleteAll,
+  onImport,
   onTakeSnapshot,
   maxSnapshots,
   autoDeleteOldest,
@@ -788,6 +869,13 @@ function SnapshotsTab({
       {/* Report Button */}
       <ReportButton snapshots={snapshots} />
 
+      {/* Export / Import */}
+      <SnapshotFileActions
+        snapshots={snapshots}
+        sessions={sessions}
+        onImport={onImport}
+      />
+
       {/* Capacity indicator */}
       <div className="flex items-center justify-between text-xs text-slate-500 dark:text-slate-400">
         <span>{snapshots.length} / {maxSnapshots} snapshots</span>
@@ -797,7 +885,9 @@ function SnapshotsTab({
       </div>
 
       {/* Snapshot Comparison */}
-      {selectedSnapshot && compareSnapshot && (
+      {isMultiSelect ? (
+        <SnapshotCompare snapshots={multiSelectedSnapshots} />
+      ) : selectedSnapshot && compareSnapshot && (
         <SnapshotCompare
           baseline={compareSnapshot}
           current={selectedSnapshot}
@@ -807,18 +897,38 @@ function SnapshotsTab({
       {/* Snapshot List */}
       <SnapshotList
         snapshots={snapshots}
-        selectedId={selectedSnapshot?.id}
-        compareId={compareSnapshot?.id}
+        sessions={sessions}
+        currentSessionId={currentSessionId}
+        selectedId={isMultiSelect ? undefined : selectedSnapshot?.id}
+        compareId={isMultiSelect ? undefined : compareSnapshot?.id}
+        selectedIds={isMultiSelect ? multiSelectedSnapshots.map((s) => s.id) : undefined}
         onSelect={onSelect}
         onDelete={onDelete}
         maxSnapshots={maxSnapshots}
       />
 
-      {/* Help text */}
-      {snapshots.length >= 2 && (
-        <p className="text-xs text-slate-500 dark:text-slate-400">
-          Select two snapshots to compare them
-        </p>
+      {/* Help text and multi-selection toggle */}
+      {(snapshots.length >= 2 || isMultiSelect) && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            {isMultiSelect
+              ? "Select snapshots to compare them as a matrix"
+              : "Select two snapshots to compare them"}
+          </p>
+          <button
+            type="button"
+            onClick={onToggleMultiSelect}
+            aria-pressed={isMultiSelect}
+            className={cn(
+              "px-2 py-1 text-xs font-medium rounded-md border transition-colors",
+              isMultiSelect
+                ? "bg-blue-500 border-blue-500 text-white hover:bg-blue-600"
+                : "border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800"
+            )}
+          >
+            Compare multiple
+          </button>
+        </div>
       )}
     </div>
   );
@@ -1,6 +1,7 @@
 import React from "react";
 import { cn } from "../../utils/cn";
-import type { Trend } from "../../types";
+import { formatBytes } from "../../constants";
+import type { LeakSuspect, Trend } from "../../types";
 
 export interface LeakWarningProps {
   /** Whether a memory leak is detected */
@@ -11,6 +12,8 @@ export interface LeakWarningProps {
   trend: Trend;
   /** Recommendation text */
   recommendation?: string;
+  /** Ranked leak suspects, most suspicious first */
+  suspects?: LeakSuspect[];
   /** Whether the alert can be dismissed */
   dismissible?: boolean;
   /** Callback when dismissed */
@@ -100,6 +103,46 @@ const severityColors = {
   },
 };
 
+/**
+ * Ranked list of leak suspects
+ */
+function SuspectList({
+  suspects,
+  colors,
+  compact,
+}: {
+  suspects: LeakSuspect[];
+  colors: (typeof severityColors)[keyof typeof severityColors];
+  compact: boolean;
+}) {
+  return (
+    <div>
+      <p className={cn("text-xs font-semibold", colors.title)}>Suspects</p>
+      <ol aria-label="Leak suspects" className="mt-1 space-y-1">
+        {suspects.map((suspect, index) => (
+          <li
+            key={`${suspect.type}:${suspect.name}`}
+            className={cn("text-xs", colors.text)}
+            title={compact ? suspect.reason : undefined}
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-mono">{index + 1}.</span>
+              <span className="font-medium truncate">{suspect.name}</span>
+              <span className="px-1.5 rounded bg-white dark:bg-slate-800">
+                {suspect.type === "route" ? "Route" : "Scope"}
+              </span>
+              <span className="ml-auto font-mono">
+                +{formatBytes(suspect.growth)}
+              </span>
+            </div>
+            {!compact && <div className="ml-5">{suspect.reason}</div>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
 /**
  * Memory leak warning banner component
  */
@@ -108,6 +151,7 @@ export function LeakWarning({
   probability,
   trend,
   recommendation,
+  suspects,
   dismissible = false,
   onDismiss,
   compact = false,
@@ -118,32 +162,40 @@ export function LeakWarning({
 
   const severityLevel = getSeverityLevel(probability);
   const colors = severityColors[severityLevel];
+  const rankedSuspects = suspects ?? [];
 
   if (compact) {
     return (
       <div
         className={cn(
-          "flex items-center gap-2 px-3 py-2 rounded-lg border shadow-sm",
+          "px-3 py-2 rounded-lg border shadow-sm",
           colors.bg,
           colors.border,
           className
         )}
       >
-        <WarningIcon className={cn("w-4 h-4 flex-shrink-0", colors.icon)} />
-        <span className={cn("text-sm font-medium", colors.title)}>
-          Memory leak detected ({probability.toFixed(0)}% probability)
-        </span>
-        {dismissible && onDismiss && (
-          <button
-            onClick={onDismiss}
-            className={cn(
-              "ml-auto p-0.5 rounded hover:bg-black/5 dark:hover:bg-white/10",
-              colors.icon
-            )}
-            aria-label="Dismiss warning"
-          >
-            <CloseIcon className="w-3.5 h-3.5" />
-          </button>
+        <div className="flex items-center gap-2">
+          <WarningIcon className={cn("w-4 h-4 flex-shrink-0", colors.icon)} />
+          <span className={cn("text-sm font-medium", colors.title)}>
+            Memory leak detected ({probability.toFixed(0)}% probability)
+          </span>
+          {dismissible && onDismiss && (
+            <button
+              onClick={onDismiss}
+              className={cn(
+                "ml-auto p-0.5 rounded hover:bg-black/5 dark:hover:bg-white/10",
+                colors.icon
+              )}
+              aria-label="Dismiss warning"
+            >
+              <CloseIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+        {rankedSuspects.length > 0 && (
+          <div className="mt-2">
+            <SuspectList suspects={rankedSuspects} colors={colors} compact />
+          </div>
         )}
       </div>
     );
@@ -216,6 +268,23 @@ export function LeakWarning({
         </div>
       )}
 
+      {/* Suspects */}
+      {rankedSuspects.length > 0 && (
+        <div
+          className={cn(
+            "px-4 py-3 border-t",
+            colors.border,
+            "bg-white/50 dark:bg-black/20"
+          )}
+        >
+          <SuspectList
+            suspects={rankedSuspects}
+            colors={colors}
+            compact={false}
+          />
+        </div>
+      )}
+
       {/* Action hints */}
       <div
         className={cn(
@@ -1,13 +1,24 @@
 import React from "react";
 import { cn } from "../../utils/cn";
-import { formatBytes } from "../../constants";
+import { formatBytes, formatTime } from "../../constants";
+import {
+  compareSnapshots,
+  getSnapshotMetricDelta,
+  type SnapshotComparison,
+  type SnapshotMetric,
+} from "../../utils/reportGenerator";
 import type { PanelSnapshot } from "../../types";
 
 export interface SnapshotCompareProps {
   /** First snapshot (baseline) */
-  baseline: PanelSnapshot;
+  baseline?: PanelSnapshot;
   /** Second snapshot (current) */
-  current: PanelSnapshot;
+  current?: PanelSnapshot;
+  /**
+   * Snapshots to compare as a matrix, in place of baseline and current
+   * Shown once at least two snapshots are given.
+   */
+  snapshots?: PanelSnapshot[];
   /** Custom class name */
   className?: string;
 }
@@ -194,14 +205,262 @@ function CompareRow({
   );
 }
 
+/**
+ * Format a signed count delta
+ */
+function formatCountDelta(delta: number): string {
+  return `${delta > 0 ? "+" : delta < 0 ? "-" : ""}${Math.abs(
+    delta
+  ).toLocaleString()}`;
+}
+
+/**
+ * Format a signed byte delta
+ */
+function formatBytesDelta(delta: number): string {
+  return `${delta > 0 ? "+" : delta < 0 ? "-" : ""}${formatBytes(
+    Math.abs(delta)
+  )}`;
+}
+
+/**
+ * Matrix cell with the delta of a metric
+ */
+interface DeltaCellProps {
+  delta: number | undefined;
+  format: (delta: number) => string;
+  flagged?: boolean;
+}
+
+function DeltaCell({ delta, format, flagged = false }: DeltaCellProps) {
+  if (delta === undefined) {
+    return (
+      <span className="text-xs text-slate-400 dark:text-slate-500 italic text-right">
+        N/A
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={cn(
+        "text-xs font-mono text-right rounded px-1",
+        flagged
+          ? "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 font-semibold"
+          : delta > 0
+          ? "text-red-600 dark:text-red-400"
+          : delta < 0
+          ? "text-green-600 dark:text-green-400"
+          : "text-slate-500 dark:text-slate-400"
+      )}
+      title={flagged ? "Biggest jump" : undefined}
+    >
+      {flagged && "▲ "}
+      {format(delta)}
+    </span>
+  );
+}
+
+/**
+ * Sparkline of heap usage across the compared snapshots
+ * Points of flagged heap jumps are highlighted.
+ */
+function HeapSparkline({ comparison }: { comparison: SnapshotComparison }) {
+  const width = 200;
+  const height = 32;
+  const padding = 3;
+
+  const values = comparison.snapshots.map((snapshot) => snapshot.heapUsed);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values.map((value, i) => ({
+    x: padding + (i / (values.length - 1)) * (width - padding * 2),
+    y: height - padding - ((value - min) / range) * (height - padding * 2),
+    flagged:
+      i > 0 && comparison.steps[i - 1].flagged.includes("heapUsed"),
+  }));
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="w-full h-8"
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Heap used across the selected snapshots"
+    >
+      <polyline
+        points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="1.5"
+        className="text-blue-500"
+        vectorEffect="non-scaling-stroke"
+      />
+      {points.map((p, i) => (
+        <circle
+          key={comparison.snapshots[i].id}
+          cx={p.x}
+          cy={p.y}
+          r={p.flagged ? 2.5 : 1.5}
+          className={p.flagged ? "fill-red-500" : "fill-blue-500"}
+        />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Matrix comparison of several snapshots
+ * Each row holds the deltas from the previous snapshot, the last row the
+ * change across the whole selection.
+ */
+function MatrixCompare({
+  snapshots,
+  className,
+}: {
+  snapshots: PanelSnapshot[];
+  className?: string;
+}) {
+  const comparison = compareSnapshots(snapshots);
+  const first = comparison.snapshots[0];
+  const last = comparison.snapshots[comparison.snapshots.length - 1];
+  const totalSeconds = Math.round(comparison.total.timeDelta / 1000);
+
+  const columns: {
+    metric: SnapshotMetric;
+    label: string;
+    format: (delta: number) => string;
+  }[] = [
+    { metric: "heapUsed", label: "Heap", format: formatBytesDelta },
+    { metric: "domNodes", label: "DOM Nodes", format: formatCountDelta },
+    { metric: "eventListeners", label: "Listeners", format: formatCountDelta },
+  ];
+  const jumpCount = comparison.steps.filter(
+    (step) => step.flagged.length > 0
+  ).length;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden",
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="bg-slate-50 dark:bg-slate-800 px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+        <h4 className="font-medium text-slate-900 dark:text-slate-100">
+          Snapshot Matrix ({comparison.snapshots.length} snapshots)
+        </h4>
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+          {first.label} → {last.label} ({totalSeconds}s apart)
+        </p>
+      </div>
+
+      {/* Sparkline */}
+      <div className="px-4 pt-3 bg-white dark:bg-slate-900">
+        <HeapSparkline comparison={comparison} />
+      </div>
+
+      {/* Matrix */}
+      <div className="px-4 py-2 bg-white dark:bg-slate-900" role="table">
+        <div
+          role="row"
+          className="grid grid-cols-4 gap-2 text-xs text-slate-500 dark:text-slate-400 pb-2 border-b border-slate-200 dark:border-slate-700 mb-1"
+        >
+          <span role="columnheader">Snapshot</span>
+          {columns.map((column) => (
+            <span key={column.metric} role="columnheader" className="text-right">
+              {column.label}
+            </span>
+          ))}
+        </div>
+
+        {/* First snapshot: absolute values */}
+        <div role="row" className="grid grid-cols-4 gap-2 items-center py-1.5">
+          <span role="cell" className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">
+            {first.label}
+          </span>
+          <span role="cell" className="text-xs font-mono text-right text-slate-600 dark:text-slate-400">
+            {formatBytes(first.heapUsed)}
+          </span>
+          <span role="cell" className="text-xs font-mono text-right text-slate-600 dark:text-slate-400">
+            {first.domNodes?.toLocaleString() ?? "N/A"}
+          </span>
+          <span role="cell" className="text-xs font-mono text-right text-slate-600 dark:text-slate-400">
+            {first.eventListeners?.toLocaleString() ?? "N/A"}
+          </span>
+        </div>
+
+        {/* Steps: deltas from the previous snapshot */}
+        {comparison.steps.map((step) => (
+          <div
+            key={step.to.id}
+            role="row"
+            className="grid grid-cols-4 gap-2 items-center py-1.5 border-t border-slate-100 dark:border-slate-800"
+          >
+            <span role="cell" className="text-xs text-slate-700 dark:text-slate-300 truncate" title={formatTime(step.to.timestamp)}>
+              {step.to.label}
+            </span>
+            {columns.map((column) => (
+              <DeltaCell
+                key={column.metric}
+                delta={getSnapshotMetricDelta(step.diff, column.metric)}
+                format={column.format}
+                flagged={step.flagged.includes(column.metric)}
+              />
+            ))}
+          </div>
+        ))}
+
+        {/* Total change */}
+        <div
+          role="row"
+          className="grid grid-cols-4 gap-2 items-center py-1.5 mt-1 border-t border-slate-200 dark:border-slate-700"
+        >
+          <span role="cell" className="text-xs font-semibold text-slate-900 dark:text-slate-100">
+            Total
+          </span>
+          {columns.map((column) => (
+            <DeltaCell
+              key={column.metric}
+              delta={getSnapshotMetricDelta(comparison.total, column.metric)}
+              format={column.format}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Analysis */}
+      {jumpCount > 0 && (
+        <div className="px-4 py-3 border-t bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-900">
+          <p className="text-xs text-red-700 dark:text-red-300">
+            Biggest jumps are marked with ▲. Check what happened between those
+            snapshots first.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Snapshot comparison component
+ * Compares a baseline with a current snapshot, or several snapshots as a
+ * matrix of deltas.
  */
 export function SnapshotCompare({
   baseline,
   current,
+  snapshots,
   className,
 }: SnapshotCompareProps) {
+  if (snapshots && snapshots.length >= 2) {
+    return <MatrixCompare snapshots={snapshots} className={className} />;
+  }
+  if (!baseline || !current) {
+    return null;
+  }
+
   const heapDiff = calculateDiff(baseline.heapUsed, current.heapUsed);
   const timeDiff = current.timestamp - baseline.timestamp;
   const timeDiffSeconds = Math.round(timeDiff / 1000);
@@ -0,0 +1,155 @@
+import React, { useCallback, useRef, useState } from "react";
+import { cn } from "../../utils/cn";
+import {
+  exportSnapshots,
+  importSnapshots,
+  type SnapshotExport,
+} from "../../utils/snapshotFile";
+import type { PanelSnapshot, SnapshotSession } from "../../types";
+
+export interface SnapshotFileActionsProps {
+  /** Snapshots to export */
+  snapshots: PanelSnapshot[];
+  /** Sessions of the snapshots */
+  sessions?: SnapshotSession[];
+  /** Callback with the content of an imported file */
+  onImport?: (data: SnapshotExport) => void;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * Download icon
+ */
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="7 10 12 15 17 10" />
+      <line x1="12" y1="15" x2="12" y2="3" />
+    </svg>
+  );
+}
+
+/**
+ * Upload icon
+ */
+function UploadIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+      <polyline points="17 8 12 3 7 8" />
+      <line x1="12" y1="3" x2="12" y2="15" />
+    </svg>
+  );
+}
+
+/**
+ * Buttons to export snapshots to, and import them from, a JSON file
+ */
+export function SnapshotFileActions({
+  snapshots,
+  sessions,
+  onImport,
+  disabled = false,
+  className,
+}: SnapshotFileActionsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = useCallback(() => {
+    setError(null);
+    exportSnapshots(snapshots, sessions);
+  }, [snapshots, sessions]);
+
+  const handleFileChange = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so the same file can be imported again
+      event.target.value = "";
+      if (!file) return;
+
+      try {
+        const data = await importSnapshots(file);
+        setError(null);
+        onImport?.(data);
+      } catch (importError) {
+        setError((importError as Error).message);
+      }
+    },
+    [onImport]
+  );
+
+  const buttonClassName = cn(
+    "flex-1 flex items-center justify-center gap-2",
+    "px-3 py-2 text-xs font-medium rounded-lg border",
+    "border-slate-200 dark:border-slate-700",
+    "text-slate-700 dark:text-slate-300",
+    "hover:bg-slate-50 dark:hover:bg-slate-800",
+    "disabled:opacity-50 disabled:cursor-not-allowed",
+    "transition-colors"
+  );
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={disabled || snapshots.length === 0}
+          className={buttonClassName}
+          title="Export snapshots as JSON"
+        >
+          <DownloadIcon className="w-3.5 h-3.5" />
+          <span>Export JSON</span>
+        </button>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className={buttonClassName}
+          title="Import snapshots from a JSON export"
+        >
+          <UploadIcon className="w-3.5 h-3.5" />
+          <span>Import JSON</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label="Import snapshot file"
+        />
+      </div>
+
+      {error && (
+        <p role="alert" className="text-xs text-red-600 dark:text-red-400">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+SnapshotFileActions.displayName = "SnapshotFileActions";
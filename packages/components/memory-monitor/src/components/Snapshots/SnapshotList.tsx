@@ -1,15 +1,22 @@
 import React, { useCallback } from "react";
 import { cn } from "../../utils/cn";
+import { formatTime } from "../../constants";
 import { SnapshotCard } from "./SnapshotCard";
-import type { PanelSnapshot } from "../../types";
+import type { PanelSnapshot, SnapshotSession } from "../../types";
 
 export interface SnapshotListProps {
   /** List of snapshots */
   snapshots: PanelSnapshot[];
+  /** Sessions of the snapshots, used to group snapshots taken across reloads */
+  sessions?: SnapshotSession[];
+  /** ID of the current session */
+  currentSessionId?: string;
   /** Currently selected snapshot ID (most recently selected = current) */
   selectedId?: string;
   /** Compare snapshot ID (first selected = baseline) */
   compareId?: string;
+  /** IDs of the snapshots selected for a matrix comparison */
+  selectedIds?: string[];
   /** Callback when a snapshot is selected */
   onSelect?: (snapshot: PanelSnapshot) => void;
   /** Callback when a snapshot is deleted */
@@ -43,13 +50,47 @@ function CameraIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Snapshots taken in one session
+ */
+interface SessionGroup {
+  session: SnapshotSession | null;
+  snapshots: PanelSnapshot[];
+}
+
+/**
+ * Group consecutive snapshots by session
+ * Snapshots of unknown sessions are grouped under a null session.
+ */
+function groupBySession(
+  snapshots: PanelSnapshot[],
+  sessions: SnapshotSession[]
+): SessionGroup[] {
+  const groups: SessionGroup[] = [];
+  snapshots.forEach((snapshot) => {
+    const session =
+      sessions.find((s) => s.id === snapshot.sessionId) ?? null;
+    const last = groups[groups.length - 1];
+    if (last && last.session === session) {
+      last.snapshots.push(snapshot);
+    } else {
+      groups.push({ session, snapshots: [snapshot] });
+    }
+  });
+  return groups;
+}
+
 /**
  * Snapshot list component displaying all captured snapshots
+ * Snapshots restored from earlier sessions are grouped per session.
  */
 export function SnapshotList({
   snapshots,
+  sessions = [],
+  currentSessionId,
   selectedId,
   compareId,
+  selectedIds,
   onSelect,
   onDelete,
   maxSnapshots = 10,
@@ -83,6 +124,28 @@ export function SnapshotList({
     return null;
   };
 
+  const renderCards = (items: PanelSnapshot[]) => (
+    <div className={cn("space-y-2", compact && "space-y-1")}>
+      {items.map((snapshot) => (
+        <SnapshotCard
+          key={snapshot.id}
+          snapshot={snapshot}
+          selected={
+            selectedId === snapshot.id ||
+            compareId === snapshot.id ||
+            !!selectedIds?.includes(snapshot.id)
+          }
+          selectionRole={getSelectionRole(snapshot.id)}
+          onClick={() => handleSelect(snapshot)}
+          onDelete={onDelete ? () => handleDelete(snapshot.id) : undefined}
+          compact={compact}
+        />
+      ))}
+    </div>
+  );
+
+  const groups = groupBySession(snapshots, sessions);
+
   // Empty state
   if (snapshots.length === 0) {
     return (
@@ -120,20 +183,31 @@ export function SnapshotList({
         )}
       </div>
 
-      {/* Snapshot list */}
-      <div className={cn("space-y-2", compact && "space-y-1")}>
-        {snapshots.map((snapshot) => (
-          <SnapshotCard
-            key={snapshot.id}
-            snapshot={snapshot}
-            selected={selectedId === snapshot.id || compareId === snapshot.id}
-            selectionRole={getSelectionRole(snapshot.id)}
-            onClick={() => handleSelect(snapshot)}
-            onDelete={onDelete ? () => handleDelete(snapshot.id) : undefined}
-            compact={compact}
-          />
-        ))}
-      </div>
+      {/* Snapshot list, grouped per session once snapshots span sessions */}
+      {groups.length > 1 ? (
+        groups.map((group, index) => (
+          <div
+            key={group.session?.id ?? `unknown-${index}`}
+            className="space-y-2"
+          >
+            <div className="flex items-center justify-between px-1 pt-1">
+              <span className="text-[11px] font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                {group.session ? `Session ${group.session.number}` : "Earlier"}
+              </span>
+              {group.session && (
+                <span className="text-[11px] text-slate-400 dark:text-slate-500">
+                  {group.session.id === currentSessionId
+                    ? "Current"
+                    : `Started ${formatTime(group.session.startedAt)}`}
+                </span>
+              )}
+            </div>
+            {renderCards(group.snapshots)}
+          </div>
+        ))
+      ) : (
+        renderCards(snapshots)
+      )}
     </div>
   );
 }
@@ -9,3 +9,6 @@ export type { SnapshotCompareProps } from "./SnapshotCompare";
 
 export { ReportButton } from "./ReportButton";
 export type { ReportButtonProps } from "./ReportButton";
+
+export { SnapshotFileActions } from "./SnapshotFileActions";
+export type { SnapshotFileActionsProps } from "./SnapshotFileActions";
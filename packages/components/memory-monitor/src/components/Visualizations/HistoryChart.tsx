@@ -11,7 +11,7 @@ import {
 } from "recharts";
 import { cn } from "../../utils/cn";
 import { CHART_COLORS, SEVERITY_COLORS, formatTime } from "../../constants";
-import type { MemoryInfo } from "../../types";
+import type { MemoryInfo, MemoryMarker } from "../../types";
 
 export interface HistoryChartProps {
   /** Memory history data */
@@ -24,6 +24,8 @@ export interface HistoryChartProps {
   heapLimit?: number | null;
   /** Show threshold reference lines */
   showThresholds?: boolean;
+  /** Markers to annotate as vertical lines */
+  markers?: MemoryMarker[];
   /** Height of the chart */
   height?: number;
   /** Custom class name */
@@ -38,6 +40,13 @@ interface ChartDataPoint {
   usagePercent: number;
 }
 
+interface MarkerLine {
+  id: string;
+  label: string;
+  /** Time of the data point nearest to the marker */
+  time: string;
+}
+
 /**
  * Area chart showing memory history over time
  */
@@ -47,6 +56,7 @@ export function HistoryChart({
   criticalThreshold = 90,
   heapLimit,
   showThresholds = true,
+  markers,
   height = 200,
   className,
 }: HistoryChartProps) {
@@ -63,6 +73,22 @@ export function HistoryChart({
     }));
   }, [history, heapLimit]);
 
+  // Place markers at the nearest data point (the X axis is categorical)
+  const markerLines = useMemo((): MarkerLine[] => {
+    if (!markers || chartData.length === 0) return [];
+    return markers
+      .filter((marker) => marker.timestamp >= chartData[0].timestamp)
+      .map((marker) => {
+        const nearest = chartData.reduce((closest, point) =>
+          Math.abs(point.timestamp - marker.timestamp) <
+          Math.abs(closest.timestamp - marker.timestamp)
+            ? point
+            : closest
+        );
+        return { id: marker.id, label: marker.label, time: nearest.time };
+      });
+  }, [markers, chartData]);
+
   // Calculate Y-axis domain
   const yDomain = useMemo(() => {
     if (chartData.length === 0) return [0, 100];
@@ -166,6 +192,22 @@ export function HistoryChart({
             />
           )}
 
+          {/* Marker annotations */}
+          {markerLines.map((marker) => (
+            <ReferenceLine
+              key={marker.id}
+              x={marker.time}
+              stroke={CHART_COLORS.grayDark}
+              strokeDasharray="3 3"
+              label={{
+                value: marker.label,
+                position: "insideTopLeft",
+                fontSize: 10,
+                fill: CHART_COLORS.grayDark,
+              }}
+            />
+          ))}
+
           {/* Total heap area (behind) */}
           <Area
             type="monotone"
@@ -3,6 +3,8 @@ export { usePanelState } from "./usePanelState";
 export type { UsePanelStateOptions, UsePanelStateReturn } from "./usePanelState";
 export { useSettings } from "./useSettings";
 export type { UseSettingsOptions, UseSettingsReturn } from "./useSettings";
+export { useSnapshots } from "./useSnapshots";
+export type { UseSnapshotsOptions, UseSnapshotsReturn } from "./useSnapshots";
 export { useAutoGC } from "./useAutoGC";
 export type { UseAutoGCOptions, UseAutoGCReturn } from "./useAutoGC";
 export { useTheme } from "./useTheme";
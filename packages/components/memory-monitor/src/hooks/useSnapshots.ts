@@ -0,0 +1,242 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import type { PanelSnapshot, SnapshotSession } from "../types";
+import { DEFAULT_MAX_SNAPSHOTS, DEFAULT_STORAGE_KEY } from "../constants";
+import { safeGetJSON, safeSetJSON, isBrowser } from "../utils/storage";
+import { isPanelSnapshot, isSnapshotSession } from "../utils/snapshotFile";
+
+/**
+ * Options for useSnapshots hook
+ */
+export interface UseSnapshotsOptions {
+  /** Storage key for persistence (snapshots are stored under `<storageKey>:snapshots`) */
+  storageKey?: string;
+  /** Whether to persist snapshots */
+  persist?: boolean;
+  /** Maximum number of snapshots to keep */
+  maxSnapshots?: number;
+}
+
+/**
+ * Return type for useSnapshots hook
+ */
+export interface UseSnapshotsReturn {
+  /** Snapshots, oldest first */
+  snapshots: PanelSnapshot[];
+  /** Update snapshots */
+  setSnapshots: Dispatch<SetStateAction<PanelSnapshot[]>>;
+  /** Sessions of the snapshots, oldest first, including the current session */
+  sessions: SnapshotSession[];
+  /** Session of this page load */
+  currentSession: SnapshotSession;
+  /** Get the next sequential snapshot number (continues across sessions) */
+  nextSnapshotNumber: () => number;
+  /** Replace all snapshots, e.g. with an imported snapshot file */
+  loadSnapshots: (
+    snapshots: PanelSnapshot[],
+    sessions: SnapshotSession[]
+  ) => void;
+  /** Whether snapshots have been loaded */
+  isLoaded: boolean;
+}
+
+/**
+ * Persisted snapshot state
+ */
+interface StoredSnapshots {
+  version: 1;
+  /** Number of the last session that took snapshots */
+  sessionCount: number;
+  /** Number of snapshots taken so far */
+  snapshotCount: number;
+  /** Sessions of the stored snapshots */
+  sessions: SnapshotSession[];
+  /** Stored snapshots, oldest first */
+  snapshots: PanelSnapshot[];
+}
+
+/**
+ * Suffix of the snapshots storage key
+ */
+const SNAPSHOTS_KEY_SUFFIX = ":snapshots";
+
+/**
+ * Check whether a stored value has the shape of persisted snapshot state,
+ * including every session and snapshot
+ */
+function isStoredSnapshots(value: unknown): value is StoredSnapshots {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const stored = value as Record<string, unknown>;
+  return (
+    stored.version === 1 &&
+    typeof stored.sessionCount === "number" &&
+    typeof stored.snapshotCount === "number" &&
+    Array.isArray(stored.sessions) &&
+    stored.sessions.every(isSnapshotSession) &&
+    Array.isArray(stored.snapshots) &&
+    stored.snapshots.every(isPanelSnapshot)
+  );
+}
+
+/**
+ * Get the highest snapshot number in the labels of the snapshots
+ * ("Snapshot 3", "Auto 7"), counting unnumbered labels by position
+ */
+function getHighestSnapshotNumber(snapshots: PanelSnapshot[]): number {
+  return snapshots.reduce((highest, snapshot) => {
+    const match = /^(?:Snapshot|Auto) (\d+)$/.exec(snapshot.label);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, snapshots.length);
+}
+
+/**
+ * Create the session of this page load
+ */
+function createSession(number: number): SnapshotSession {
+  const startedAt = Date.now();
+  return { id: `session-${startedAt}`, number, startedAt };
+}
+
+/**
+ * Hook to manage panel snapshots with optional persistence
+ * Snapshots are tagged with the session (page load) they were taken in, so
+ * snapshots restored after a reload can be told apart from new ones.
+ *
+ * @param options - Configuration options
+ * @returns Snapshots, sessions and update functions
+ *
+ * @example
+ * ```tsx
+ * const { snapshots, setSnapshots, currentSession, nextSnapshotNumber } =
+ *   useSnapshots({
+ *     storageKey: 'my-panel-settings',
+ *     persist: true,
+ *     maxSnapshots: 10,
+ *   });
+ *
+ * const number = nextSnapshotNumber();
+ * setSnapshots((prev) => [
+ *   ...prev,
+ *   { ...snapshot, label: `Snapshot ${number}`, sessionId: currentSession.id },
+ * ]);
+ * ```
+ */
+export function useSnapshots(
+  options: UseSnapshotsOptions = {}
+): UseSnapshotsReturn {
+  const {
+    storageKey = DEFAULT_STORAGE_KEY,
+    persist = true,
+    maxSnapshots = DEFAULT_MAX_SNAPSHOTS,
+  } = options;
+  const snapshotsKey = `${storageKey}${SNAPSHOTS_KEY_SUFFIX}`;
+
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [snapshots, setSnapshots] = useState<PanelSnapshot[]>([]);
+  const [currentSession, setCurrentSession] = useState<SnapshotSession>(() =>
+    createSession(1)
+  );
+  const [pastSessions, setPastSessions] = useState<SnapshotSession[]>([]);
+
+  // Snapshot counter restored from storage
+  const snapshotCountRef = useRef(0);
+
+  // Load snapshots from storage on mount
+  useEffect(() => {
+    if (!isBrowser() || !persist) {
+      setIsLoaded(true);
+      return;
+    }
+
+    const stored = safeGetJSON<unknown>(snapshotsKey, null);
+    if (isStoredSnapshots(stored)) {
+      snapshotCountRef.current = stored.snapshotCount;
+      setCurrentSession(createSession(stored.sessionCount + 1));
+      setPastSessions(stored.sessions);
+      setSnapshots((prev) => [...stored.snapshots, ...prev]);
+    }
+    setIsLoaded(true);
+  }, [snapshotsKey, persist]);
+
+  // Keep at most maxSnapshots, dropping the oldest
+  useEffect(() => {
+    if (snapshots.length > maxSnapshots) {
+      setSnapshots((prev) => prev.slice(prev.length - maxSnapshots));
+    }
+  }, [snapshots.length, maxSnapshots]);
+
+  // Sessions that still have snapshots, plus the current session
+  const sessions = useMemo(
+    () => [
+      ...pastSessions.filter((session) =>
+        snapshots.some((snapshot) => snapshot.sessionId === session.id)
+      ),
+      currentSession,
+    ],
+    [pastSessions, snapshots, currentSession]
+  );
+
+  // Save snapshots when they change
+  useEffect(() => {
+    if (!isLoaded || !persist || !isBrowser()) {
+      return;
+    }
+
+    // Sessions without snapshots are neither stored nor numbered
+    const kept = snapshots.slice(-maxSnapshots);
+    const hasSnapshots = (session: SnapshotSession) =>
+      kept.some((snapshot) => snapshot.sessionId === session.id);
+    const stored: StoredSnapshots = {
+      version: 1,
+      sessionCount: hasSnapshots(currentSession)
+        ? currentSession.number
+        : currentSession.number - 1,
+      snapshotCount: snapshotCountRef.current,
+      sessions: [...pastSessions, currentSession].filter(hasSnapshots),
+      snapshots: kept,
+    };
+    safeSetJSON(snapshotsKey, stored);
+  }, [
+    snapshots,
+    pastSessions,
+    currentSession,
+    maxSnapshots,
+    isLoaded,
+    persist,
+    snapshotsKey,
+  ]);
+
+  const nextSnapshotNumber = useCallback(() => {
+    snapshotCountRef.current += 1;
+    return snapshotCountRef.current;
+  }, []);
+
+  const loadSnapshots = useCallback(
+    (nextSnapshots: PanelSnapshot[], nextSessions: SnapshotSession[]) => {
+      setPastSessions(
+        nextSessions.filter((session) => session.id !== currentSession.id)
+      );
+      setSnapshots(nextSnapshots);
+
+      // Keep new labels from repeating the numbers of the imported snapshots
+      snapshotCountRef.current = Math.max(
+        snapshotCountRef.current,
+        getHighestSnapshotNumber(nextSnapshots)
+      );
+    },
+    [currentSession.id]
+  );
+
+  return {
+    snapshots,
+    setSnapshots,
+    sessions,
+    currentSession,
+    nextSnapshotNumber,
+    loadSnapshots,
+    isLoaded,
+  };
+}
@@ -4,6 +4,12 @@ export { MemoryMonitorPanel } from "./MemoryMonitorPanel";
 // Headless Hook (for production use without UI)
 export { useMemoryMonitorHeadless } from "./MemoryMonitorHeadless";
 
+// Markers (recorded in every mounted panel)
+export { markMemory } from "./utils/markers";
+
+// Scope hook for leak attribution (see enableAttribution)
+export { useMemoryScope } from "@usefy/use-memory-monitor";
+
 // Types
 export type {
   // Main component props
@@ -18,6 +24,7 @@ export type {
   PanelSettings,
   PanelState,
   PanelSnapshot,
+  SnapshotSession,
   ThemeSetting,
   TriggerPosition,
   LeakSensitivity,
@@ -33,7 +40,9 @@ export type {
   MemoryWarning,
   MemoryCritical,
   LeakAnalysis,
+  LeakSuspect,
   MemorySnapshot,
+  MemoryMarker,
   SnapshotDiff,
   Severity,
   Trend,
@@ -72,6 +81,8 @@ export { usePanelState } from "./hooks/usePanelState";
 export type { UsePanelStateOptions, UsePanelStateReturn } from "./hooks/usePanelState";
 export { useSettings } from "./hooks/useSettings";
 export type { UseSettingsOptions, UseSettingsReturn } from "./hooks/useSettings";
+export { useSnapshots } from "./hooks/useSnapshots";
+export type { UseSnapshotsOptions, UseSnapshotsReturn } from "./hooks/useSnapshots";
 export { useAutoGC } from "./hooks/useAutoGC";
 export type { UseAutoGCOptions, UseAutoGCReturn } from "./hooks/useAutoGC";
 export { useTheme } from "./hooks/useTheme";
@@ -94,3 +105,15 @@ export {
   getShouldRender,
   getShouldActivate,
 } from "./utils/environment";
+export {
+  exportSnapshots,
+  importSnapshots,
+  createSnapshotExport,
+  parseSnapshotExport,
+  SNAPSHOT_EXPORT_FORMAT,
+  SNAPSHOT_EXPORT_VERSION,
+} from "./utils/snapshotFile";
+export type {
+  SnapshotExport,
+  SnapshotExportEnvironment,
+} from "./utils/snapshotFile";
@@ -1,4 +1,5 @@
 import type { ReactNode } from "react";
+import type { MemoryMarker } from "@usefy/use-memory-monitor";
 
 // Re-export types from @usefy/use-memory-monitor
 export type {
@@ -6,7 +7,9 @@ export type {
   MemoryWarning,
   MemoryCritical,
   LeakAnalysis,
+  LeakSuspect,
   MemorySnapshot,
+  MemoryMarker,
   SnapshotDiff,
   Severity,
   Trend,
@@ -204,6 +207,22 @@ export interface PanelSnapshot {
   isAuto?: boolean;
   /** Analysis context captured at the time of snapshot */
   analysisContext?: SnapshotAnalysisContext;
+  /** ID of the session (page load) the snapshot was taken in */
+  sessionId?: string;
+  /** Markers recorded since the previous snapshot */
+  markers?: MemoryMarker[];
+}
+
+/**
+ * Page load that snapshots were taken in
+ */
+export interface SnapshotSession {
+  /** Unique session ID */
+  id: string;
+  /** Sequential session number, starting at 1 */
+  number: number;
+  /** Time the session started */
+  startedAt: number;
 }
 
 /**
@@ -357,6 +376,13 @@ export interface MemoryMonitorPanelProps {
    */
   leakSensitivity?: LeakSensitivity;
 
+  /**
+   * Attribute memory growth to useMemoryScope scopes and visited routes,
+   * listing ranked suspects in the leak warning
+   * @default false
+   */
+  enableAttribution?: boolean;
+
   // === UI Customization ===
   /**
    * Custom trigger button content
@@ -448,13 +474,14 @@ export interface MemoryMonitorPanelProps {
   shortcut?: string;
 
   /**
-   * Enable session persistence
+   * Enable session persistence of settings and snapshots
    * @default true
    */
   persistSettings?: boolean;
 
   /**
    * Storage key for persistence
+   * Snapshots are stored under `<storageKey>:snapshots`.
    * @default 'memory-monitor-panel-settings'
    */
   storageKey?: string;
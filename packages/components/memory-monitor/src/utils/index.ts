@@ -21,6 +21,9 @@ export {
   calculateStatistics,
   identifyLeakPatterns,
   assessMemoryHealth,
+  calculateSnapshotDiff,
+  compareSnapshots,
+  getSnapshotMetricDelta,
   MIN_SNAPSHOTS_FOR_REPORT,
   RECOMMENDED_SNAPSHOTS,
 } from "./reportGenerator";
@@ -33,4 +36,18 @@ export type {
   LeakPatternReport,
   HealthGrade,
   MemoryHealthAssessment,
+  SnapshotMetric,
+  SnapshotStep,
+  SnapshotComparison,
 } from "./reportGenerator";
+export {
+  exportSnapshots,
+  importSnapshots,
+  createSnapshotExport,
+  parseSnapshotExport,
+  SNAPSHOT_EXPORT_FORMAT,
+  SNAPSHOT_EXPORT_VERSION,
+} from "./snapshotFile";
+export type { SnapshotExport, SnapshotExportEnvironment } from "./snapshotFile";
+export { markMemory, subscribeToMarkers } from "./markers";
+export type { MarkerListener } from "./markers";
@@ -0,0 +1,47 @@
+/**
+ * Listener receiving markers recorded with markMemory
+ */
+export type MarkerListener = (
+  label: string,
+  meta?: Record<string, unknown>
+) => void;
+
+/**
+ * Mounted panels recording markers
+ */
+const listeners = new Set<MarkerListener>();
+
+/**
+ * Record a timestamped marker in every mounted memory monitor panel
+ * Markers are shown on the history chart, included in snapshots and listed
+ * in the HTML report timeline. Does nothing when no panel is mounted.
+ *
+ * @param label - Marker label, e.g. "route:/settings" or "modal:open"
+ * @param meta - Optional data stored with the marker
+ *
+ * @example
+ * ```tsx
+ * useEffect(() => {
+ *   markMemory(`route:${pathname}`);
+ * }, [pathname]);
+ * ```
+ */
+export function markMemory(
+  label: string,
+  meta?: Record<string, unknown>
+): void {
+  listeners.forEach((listener) => listener(label, meta));
+}
+
+/**
+ * Subscribe to markers recorded with markMemory
+ *
+ * @param listener - Called with the label and meta of each marker
+ * @returns Unsubscribe function
+ */
+export function subscribeToMarkers(listener: MarkerListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
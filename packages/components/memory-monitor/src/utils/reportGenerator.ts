@@ -5,7 +5,7 @@
  * with statistical analysis, leak detection, and recommendations.
  */
 
-import type { PanelSnapshot } from "../types";
+import type { PanelSnapshot, SnapshotDiff } from "../types";
 import { formatBytes } from "../constants";
 
 // ============================================================================
@@ -92,6 +92,37 @@ export interface MemoryHealthAssessment {
   recommendations: string[];
 }
 
+/**
+ * Metric compared across snapshots
+ */
+export type SnapshotMetric = "heapUsed" | "domNodes" | "eventListeners";
+
+/**
+ * Change between two consecutive snapshots of a comparison
+ */
+export interface SnapshotStep {
+  /** Earlier snapshot */
+  from: PanelSnapshot;
+  /** Later snapshot */
+  to: PanelSnapshot;
+  /** Deltas from the earlier to the later snapshot */
+  diff: SnapshotDiff;
+  /** Metrics for which this step is one of the biggest jumps */
+  flagged: SnapshotMetric[];
+}
+
+/**
+ * Comparison of several snapshots
+ */
+export interface SnapshotComparison {
+  /** Compared snapshots, oldest first */
+  snapshots: PanelSnapshot[];
+  /** Changes between consecutive snapshots */
+  steps: SnapshotStep[];
+  /** Change from the first to the last snapshot */
+  total: SnapshotDiff;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -248,6 +279,104 @@ export function calculateStatistics(
   return stats;
 }
 
+// ============================================================================
+// Snapshot Comparison
+// ============================================================================
+
+/**
+ * Calculate the deltas between two snapshots
+ */
+export function calculateSnapshotDiff(
+  baseline: PanelSnapshot,
+  current: PanelSnapshot
+): SnapshotDiff {
+  const heapDelta = current.heapUsed - baseline.heapUsed;
+  return {
+    heapDelta,
+    heapPercentChange:
+      baseline.heapUsed > 0 ? (heapDelta / baseline.heapUsed) * 100 : 0,
+    domNodesDelta:
+      baseline.domNodes !== undefined && current.domNodes !== undefined
+        ? current.domNodes - baseline.domNodes
+        : undefined,
+    eventListenersDelta:
+      baseline.eventListeners !== undefined &&
+      current.eventListeners !== undefined
+        ? current.eventListeners - baseline.eventListeners
+        : undefined,
+    timeDelta: current.timestamp - baseline.timestamp,
+  };
+}
+
+/**
+ * Get the delta of a metric from a diff
+ */
+export function getSnapshotMetricDelta(
+  diff: SnapshotDiff,
+  metric: SnapshotMetric
+): number | undefined {
+  switch (metric) {
+    case "heapUsed":
+      return diff.heapDelta;
+    case "domNodes":
+      return diff.domNodesDelta;
+    case "eventListeners":
+      return diff.eventListenersDelta;
+  }
+}
+
+/**
+ * Compare several snapshots step by step
+ * Per metric, the biggest increase is flagged, as are increases that are
+ * statistical outliers among the steps.
+ */
+export function compareSnapshots(
+  snapshots: PanelSnapshot[]
+): SnapshotComparison {
+  const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+
+  const steps: SnapshotStep[] = sorted.slice(1).map((to, i) => ({
+    from: sorted[i],
+    to,
+    diff: calculateSnapshotDiff(sorted[i], to),
+    flagged: [],
+  }));
+
+  const metrics: SnapshotMetric[] = ["heapUsed", "domNodes", "eventListeners"];
+  metrics.forEach((metric) => {
+    const measured = steps.filter(
+      (step) => getSnapshotMetricDelta(step.diff, metric) !== undefined
+    );
+    const deltas = measured.map(
+      (step) => getSnapshotMetricDelta(step.diff, metric)!
+    );
+    if (deltas.length === 0) return;
+
+    const biggest = Math.max(...deltas);
+    const { outliers } = calculateStatsSummary(
+      deltas,
+      measured.map((step) => step.to.label),
+      measured.map((step) => step.to.id),
+      measured.map((step) => step.to.timestamp)
+    );
+    measured.forEach((step, i) => {
+      const isOutlier = outliers.some(
+        (outlier) => outlier.snapshotId === step.to.id && outlier.value > 0
+      );
+      if ((biggest > 0 && deltas[i] === biggest) || isOutlier) {
+        step.flagged.push(metric);
+      }
+    });
+  });
+
+  const total =
+    sorted.length > 0
+      ? calculateSnapshotDiff(sorted[0], sorted[sorted.length - 1])
+      : { heapDelta: 0, heapPercentChange: 0, timeDelta: 0 };
+
+  return { snapshots: sorted, steps, total };
+}
+
 // ============================================================================
 // Leak Pattern Analysis
 // ============================================================================
@@ -667,6 +796,18 @@ function formatTimestamp(timestamp: number): string {
   return new Date(timestamp).toLocaleString();
 }
 
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 /**
  * Format duration in milliseconds to human-readable string
  */
@@ -766,6 +907,13 @@ export function generateMemoryReport(
   const domNodesData = sortedSnapshots.map((s) => s.domNodes ?? 0);
   const listenersData = sortedSnapshots.map((s) => s.eventListeners ?? 0);
 
+  // Markers with the snapshot they were included in, oldest first
+  const markerTimeline = sortedSnapshots
+    .flatMap((s) =>
+      (s.markers ?? []).map((marker) => ({ marker, snapshot: s }))
+    )
+    .sort((a, b) => a.marker.timestamp - b.marker.timestamp);
+
   // Trend distribution for pie chart
   const trendCounts = {
     stable: sortedSnapshots.filter((s) => s.analysisContext?.trend === "stable")
@@ -2170,6 +2318,53 @@ export function generateMemoryReport(
       </div>
     </section>
 
+    ${
+      markerTimeline.length > 0
+        ? `
+    <!-- Marker Timeline Section -->
+    <section class="section">
+      <h2 class="section-title">
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M4 22V4a1 1 0 0 1 1-1h12l-3 5 3 5H5"/></svg>
+        Marker Timeline
+      </h2>
+
+      <div class="card">
+        <div class="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Timestamp</th>
+                <th>Marker</th>
+                <th>Heap Used</th>
+                <th>Snapshot</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${markerTimeline
+                .map(
+                  ({ marker, snapshot }) => `
+              <tr>
+                <td>${formatTimestamp(marker.timestamp)}</td>
+                <td><strong>${escapeHtml(marker.label)}</strong></td>
+                <td>${
+                  marker.heapUsed !== undefined
+                    ? formatBytes(marker.heapUsed)
+                    : "N/A"
+                }</td>
+                <td>${escapeHtml(snapshot.label)}</td>
+              </tr>
+              `
+                )
+                .join("")}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+    `
+        : ""
+    }
+
     <!-- Snapshot Details Section -->
     <section class="section">
       <div class="card">
@@ -0,0 +1,208 @@
+import { detectBrowser, detectSupport } from "@usefy/use-memory-monitor";
+import type { BrowserSupport } from "@usefy/use-memory-monitor";
+import type { PanelSnapshot, SnapshotSession } from "../types";
+
+/**
+ * Format identifier of snapshot export files
+ */
+export const SNAPSHOT_EXPORT_FORMAT = "usefy-memory-snapshots";
+
+/**
+ * Current version of snapshot export files
+ */
+export const SNAPSHOT_EXPORT_VERSION = 1;
+
+/**
+ * Environment the snapshots were taken in
+ */
+export interface SnapshotExportEnvironment {
+  /** Browser name, from detectBrowser */
+  browser?: string;
+  /** Browser support for memory monitoring */
+  support: BrowserSupport;
+  /** User agent string */
+  userAgent?: string;
+}
+
+/**
+ * Snapshot export file content
+ */
+export interface SnapshotExport {
+  /** Format identifier */
+  format: typeof SNAPSHOT_EXPORT_FORMAT;
+  /** Format version */
+  version: typeof SNAPSHOT_EXPORT_VERSION;
+  /** Export timestamp */
+  exportedAt: number;
+  /** Environment the snapshots were taken in */
+  environment: SnapshotExportEnvironment;
+  /** Sessions of the snapshots */
+  sessions: SnapshotSession[];
+  /** Snapshots, oldest first */
+  snapshots: PanelSnapshot[];
+}
+
+/**
+ * Create the export of a snapshot list, including the current environment
+ *
+ * @param snapshots - Snapshots to export
+ * @param sessions - Sessions of the snapshots
+ * @returns Export content
+ */
+export function createSnapshotExport(
+  snapshots: PanelSnapshot[],
+  sessions: SnapshotSession[] = []
+): SnapshotExport {
+  return {
+    format: SNAPSHOT_EXPORT_FORMAT,
+    version: SNAPSHOT_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    environment: {
+      browser: detectBrowser(),
+      support: detectSupport(),
+      userAgent:
+        typeof navigator !== "undefined" ? navigator.userAgent : undefined,
+    },
+    sessions: sessions.filter((session) =>
+      snapshots.some((snapshot) => snapshot.sessionId === session.id)
+    ),
+    snapshots,
+  };
+}
+
+/**
+ * Check whether a value has the shape of a snapshot
+ */
+export function isPanelSnapshot(value: unknown): value is PanelSnapshot {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const snapshot = value as Record<string, unknown>;
+  return (
+    typeof snapshot.id === "string" &&
+    typeof snapshot.label === "string" &&
+    typeof snapshot.timestamp === "number" &&
+    typeof snapshot.heapUsed === "number" &&
+    typeof snapshot.heapTotal === "number" &&
+    typeof snapshot.heapLimit === "number"
+  );
+}
+
+/**
+ * Check whether a value has the shape of a snapshot session
+ */
+export function isSnapshotSession(value: unknown): value is SnapshotSession {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const session = value as Record<string, unknown>;
+  return (
+    typeof session.id === "string" &&
+    typeof session.number === "number" &&
+    typeof session.startedAt === "number"
+  );
+}
+
+/**
+ * Parse and validate snapshot export content
+ *
+ * @param json - Export file content
+ * @returns Parsed export
+ * @throws Error when the content is not a supported snapshot export
+ */
+export function parseSnapshotExport(json: string): SnapshotExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Invalid snapshot export: not a JSON document");
+  }
+
+  const content = data as Partial<Record<keyof SnapshotExport, unknown>>;
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    content.format !== SNAPSHOT_EXPORT_FORMAT
+  ) {
+    throw new Error("Invalid snapshot export: unknown format");
+  }
+  if (content.version !== SNAPSHOT_EXPORT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot export version: ${String(content.version)}`
+    );
+  }
+  if (
+    !Array.isArray(content.snapshots) ||
+    !content.snapshots.every(isPanelSnapshot)
+  ) {
+    throw new Error("Invalid snapshot export: malformed snapshots");
+  }
+
+  return {
+    ...(content as SnapshotExport),
+    // Malformed sessions are dropped, their snapshots are shown without a session
+    sessions: Array.isArray(content.sessions)
+      ? content.sessions.filter(isSnapshotSession)
+      : [],
+  };
+}
+
+/**
+ * Download snapshots as a JSON export file
+ *
+ * @param snapshots - Snapshots to export
+ * @param sessions - Sessions of the snapshots
+ * @param filename - File name (default: memory-snapshots-<date>.json)
+ */
+export function exportSnapshots(
+  snapshots: PanelSnapshot[],
+  sessions: SnapshotSession[] = [],
+  filename?: string
+): void {
+  const content = JSON.stringify(
+    createSnapshotExport(snapshots, sessions),
+    null,
+    2
+  );
+  const defaultFilename = `memory-snapshots-${new Date()
+    .toISOString()
+    .slice(0, 10)}.json`;
+
+  const blob = new Blob([content], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename ?? defaultFilename;
+  link.style.display = "none";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a snapshot export file
+ *
+ * @param file - Export file, e.g. from a file input
+ * @returns Parsed export, rejected when the file is not a supported snapshot export
+ */
+export function importSnapshots(file: Blob): Promise<SnapshotExport> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        resolve(parseSnapshotExport(String(reader.result)));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read snapshot export"));
+    reader.readAsText(file);
+  });
+}
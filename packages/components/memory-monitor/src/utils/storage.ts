@@ -1,3 +1,8 @@
+import {
+  localStorageAdapter,
+  type SyncStorageAdapter,
+} from "@usefy/use-persistent-state";
+
 /**
  * Check if we're running in a browser environment
  */
@@ -9,19 +14,23 @@ export function isBrowser(): boolean {
 }
 
 /**
- * Safely get item from localStorage
+ * Safely get item from storage
  * Returns null if not in browser or if key doesn't exist
  *
  * @param key - Storage key
+ * @param adapter - Storage to read from (default: localStorage)
  * @returns Stored value or null
  */
-export function safeGetItem(key: string): string | null {
+export function safeGetItem(
+  key: string,
+  adapter: SyncStorageAdapter = localStorageAdapter
+): string | null {
   if (!isBrowser()) {
     return null;
   }
 
   try {
-    return window.localStorage.getItem(key);
+    return adapter.get(key);
   } catch {
     // Handle cases where localStorage is blocked (e.g., private browsing)
     return null;
@@ -29,20 +38,25 @@ export function safeGetItem(key: string): string | null {
 }
 
 /**
- * Safely set item in localStorage
+ * Safely set item in storage
  * No-op if not in browser
  *
  * @param key - Storage key
  * @param value - Value to store
+ * @param adapter - Storage to write to (default: localStorage)
  * @returns Whether the operation succeeded
  */
-export function safeSetItem(key: string, value: string): boolean {
+export function safeSetItem(
+  key: string,
+  value: string,
+  adapter: SyncStorageAdapter = localStorageAdapter
+): boolean {
   if (!isBrowser()) {
     return false;
   }
 
   try {
-    window.localStorage.setItem(key, value);
+    adapter.set(key, value);
     return true;
   } catch {
     // Handle cases where localStorage is full or blocked
@@ -51,19 +65,23 @@ export function safeSetItem(key: string, value: string): boolean {
 }
 
 /**
- * Safely remove item from localStorage
+ * Safely remove item from storage
  * No-op if not in browser
  *
  * @param key - Storage key
+ * @param adapter - Storage to remove from (default: localStorage)
  * @returns Whether the operation succeeded
  */
-export function safeRemoveItem(key: string): boolean {
+export function safeRemoveItem(
+  key: string,
+  adapter: SyncStorageAdapter = localStorageAdapter
+): boolean {
   if (!isBrowser()) {
     return false;
   }
 
   try {
-    window.localStorage.removeItem(key);
+    adapter.remove(key);
     return true;
   } catch {
     return false;
@@ -71,14 +89,19 @@ export function safeRemoveItem(key: string): boolean {
 }
 
 /**
- * Safely get and parse JSON from localStorage
+ * Safely get and parse JSON from storage
  *
  * @param key - Storage key
  * @param defaultValue - Default value if not found or parse fails
+ * @param adapter - Storage to read from (default: localStorage)
  * @returns Parsed value or default
  */
-export function safeGetJSON<T>(key: string, defaultValue: T): T {
-  const item = safeGetItem(key);
+export function safeGetJSON<T>(
+  key: string,
+  defaultValue: T,
+  adapter: SyncStorageAdapter = localStorageAdapter
+): T {
+  const item = safeGetItem(key, adapter);
   if (item === null) {
     return defaultValue;
   }
@@ -91,15 +114,20 @@ export function safeGetJSON<T>(key: string, defaultValue: T): T {
 }
 
 /**
- * Safely stringify and set JSON to localStorage
+ * Safely stringify and set JSON to storage
  *
  * @param key - Storage key
  * @param value - Value to store
+ * @param adapter - Storage to write to (default: localStorage)
  * @returns Whether the operation succeeded
  */
-export function safeSetJSON<T>(key: string, value: T): boolean {
+export function safeSetJSON<T>(
+  key: string,
+  value: T,
+  adapter: SyncStorageAdapter = localStorageAdapter
+): boolean {
   try {
-    return safeSetItem(key, JSON.stringify(value));
+    return safeSetItem(key, JSON.stringify(value), adapter);
   } catch {
     return false;
   }
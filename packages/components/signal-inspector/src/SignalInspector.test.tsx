@@ -0,0 +1,304 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, act, within } from "@testing-library/react";
+import { createSignal, useSignal } from "@usefy/use-signal";
+import { SignalInspector } from "./SignalInspector";
+import { formatPayload } from "./utils";
+
+// Signals live in a module-level store, so every test uses its own names
+let testId = 0;
+const uniqueName = (name: string) => `test${testId}:${name}`;
+
+function Subscriber({ name }: { name: string }) {
+  const { info, signal } = useSignal<unknown>(name);
+  return (
+    <div data-testid={`subscriber-${name}`} data-signal={signal}>
+      {formatPayload(info.data)}
+    </div>
+  );
+}
+
+describe("SignalInspector", () => {
+  beforeEach(() => {
+    testId += 1;
+    vi.stubEnv("NODE_ENV", "development");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("Rendering", () => {
+    it("renders trigger button by default", () => {
+      render(<SignalInspector />);
+
+      expect(
+        screen.getByRole("button", { name: "Open Signal Inspector" })
+      ).toBeInTheDocument();
+    });
+
+    it("does not render in production mode by default", () => {
+      vi.stubEnv("NODE_ENV", "production");
+
+      const { container } = render(<SignalInspector />);
+
+      expect(container.firstChild).toBeNull();
+    });
+
+    it("renders in production when mode is 'always'", () => {
+      vi.stubEnv("NODE_ENV", "production");
+
+      render(<SignalInspector mode="always" />);
+
+      expect(
+        screen.getByRole("button", { name: "Open Signal Inspector" })
+      ).toBeInTheDocument();
+    });
+
+    it("does not render when mode is 'never'", () => {
+      const { container } = render(<SignalInspector mode="never" />);
+
+      expect(container.firstChild).toBeNull();
+    });
+
+    it("hides trigger when showTrigger is false", () => {
+      render(<SignalInspector showTrigger={false} />);
+
+      expect(screen.queryByRole("button")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Panel Interactions", () => {
+    it("opens panel when trigger is clicked", () => {
+      const onOpenChange = vi.fn();
+      render(<SignalInspector onOpenChange={onOpenChange} />);
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Open Signal Inspector" })
+      );
+
+      expect(
+        screen.getByRole("dialog", { name: "Signal Inspector" })
+      ).toBeInTheDocument();
+      expect(onOpenChange).toHaveBeenCalledWith(true);
+    });
+
+    it("closes panel with the close button and Escape", () => {
+      const onOpenChange = vi.fn();
+      render(<SignalInspector defaultOpen onOpenChange={onOpenChange} />);
+
+      fireEvent.click(screen.getByRole("button", { name: "Close panel" }));
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+
+      fireEvent.click(
+        screen.getByRole("button", { name: "Open Signal Inspector" })
+      );
+      fireEvent.keyDown(document, { key: "Escape" });
+
+      expect(screen.queryByRole("dialog")).not.toBeInTheDocument();
+      expect(onOpenChange).toHaveBeenLastCalledWith(false);
+    });
+  });
+
+  describe("Signals", () => {
+    it("lists signals with subscriber and emit counts", () => {
+      const name = uniqueName("refresh");
+      render(
+        <>
+          <Subscriber name={name} />
+          <Subscriber name={name} />
+          <SignalInspector defaultOpen />
+        </>
+      );
+
+      const row = screen.getByRole("button", { name: new RegExp(name) });
+      expect(row).toHaveTextContent("2 sub");
+      expect(row).toHaveTextContent("0 emit");
+    });
+
+    it("updates live when signals are emitted", () => {
+      const name = uniqueName("user");
+      render(
+        <>
+          <Subscriber name={name} />
+          <SignalInspector defaultOpen />
+        </>
+      );
+
+      act(() => {
+        createSignal<{ id: number }>(name).emit({ id: 7 });
+      });
+
+      const row = screen.getByRole("button", { name: new RegExp(name) });
+      expect(row).toHaveTextContent("1 emit");
+      expect(row).toHaveTextContent('{"id":7}');
+    });
+
+    it("removes signals that were never emitted after their subscribers unmount", () => {
+      const name = uniqueName("temporary");
+      const { rerender } = render(
+        <>
+          <Subscriber name={name} />
+          <SignalInspector defaultOpen />
+        </>
+      );
+      expect(screen.getByText(name)).toBeInTheDocument();
+
+      rerender(<SignalInspector defaultOpen />);
+
+      expect(screen.queryByText(name)).not.toBeInTheDocument();
+    });
+
+    it("filters signals by name", () => {
+      const cart = uniqueName("cart");
+      const user = uniqueName("user");
+      render(
+        <>
+          <Subscriber name={cart} />
+          <Subscriber name={user} />
+          <SignalInspector defaultOpen />
+        </>
+      );
+
+      fireEvent.change(screen.getByLabelText("Filter signals"), {
+        target: { value: cart },
+      });
+
+      expect(screen.getByText(cart)).toBeInTheDocument();
+      expect(screen.queryByText(user)).not.toBeInTheDocument();
+    });
+
+    it("shows the last payload of the selected signal", () => {
+      const name = uniqueName("selected");
+      act(() => {
+        createSignal(name).emit({ nested: { value: 1 } } as never);
+      });
+      render(<SignalInspector defaultOpen />);
+
+      fireEvent.click(screen.getByRole("button", { name: new RegExp(name) }));
+
+      expect(screen.getByText(`Last payload of ${name}`)).toBeInTheDocument();
+      expect(screen.getByLabelText("Signal name")).toHaveValue(name);
+    });
+  });
+
+  describe("Timeline", () => {
+    it("lists recent emits newest first", () => {
+      const first = uniqueName("first");
+      const second = uniqueName("second");
+      // Emits are only kept while the inspector is subscribed
+      render(<SignalInspector defaultOpen />);
+      vi.useFakeTimers();
+      act(() => {
+        vi.setSystemTime(new Date(2030, 0, 1, 0, 0, 0));
+        createSignal<number>(first).emit(1);
+        vi.setSystemTime(new Date(2030, 0, 1, 0, 0, 1));
+        createSignal<number>(second).emit(2);
+      });
+      vi.useRealTimers();
+
+      fireEvent.click(screen.getByRole("tab", { name: "Timeline" }));
+
+      const items = within(screen.getByRole("list", { name: "Timeline" }))
+        .getAllByRole("listitem")
+        .filter((item) => item.textContent?.includes(`test${testId}:`));
+      expect(items.map((item) => item.textContent)).toEqual([
+        `00:00:01.000${second}2`,
+        `00:00:00.000${first}1`,
+      ]);
+    });
+
+    it("limits the timeline to timelineSize", () => {
+      const name = uniqueName("many");
+      render(<SignalInspector defaultOpen timelineSize={3} />);
+      act(() => {
+        [1, 2, 3, 4].forEach((value) => createSignal<number>(name).emit(value));
+      });
+
+      fireEvent.click(screen.getByRole("tab", { name: "Timeline" }));
+
+      expect(
+        within(screen.getByRole("list", { name: "Timeline" })).getAllByRole(
+          "listitem"
+        )
+      ).toHaveLength(3);
+    });
+  });
+
+  describe("Manual Emit", () => {
+    it("emits a signal with a JSON payload", () => {
+      const name = uniqueName("manual");
+      const onEmit = vi.fn();
+      render(
+        <>
+          <Subscriber name={name} />
+          <SignalInspector defaultOpen onEmit={onEmit} />
+        </>
+      );
+
+      fireEvent.change(screen.getByLabelText("Signal name"), {
+        target: { value: name },
+      });
+      fireEvent.change(screen.getByLabelText("Payload"), {
+        target: { value: '{"page": 2}' },
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Emit signal" }));
+
+      expect(screen.getByTestId(`subscriber-${name}`)).toHaveTextContent(
+        '{"page":2}'
+      );
+      expect(screen.getByTestId(`subscriber-${name}`)).toHaveAttribute(
+        "data-signal",
+        "1"
+      );
+      expect(onEmit).toHaveBeenCalledWith(name, { page: 2 });
+    });
+
+    it("emits without data when the payload is empty", () => {
+      const name = uniqueName("empty");
+      const onEmit = vi.fn();
+      render(<SignalInspector defaultOpen onEmit={onEmit} />);
+
+      fireEvent.change(screen.getByLabelText("Signal name"), {
+        target: { value: name },
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Emit signal" }));
+
+      expect(onEmit).toHaveBeenCalledWith(name, undefined);
+      expect(createSignal(name).info.emitCount).toBe(1);
+    });
+
+    it("shows an error for invalid JSON", () => {
+      const onEmit = vi.fn();
+      render(<SignalInspector defaultOpen onEmit={onEmit} />);
+
+      fireEvent.change(screen.getByLabelText("Signal name"), {
+        target: { value: uniqueName("invalid") },
+      });
+      fireEvent.change(screen.getByLabelText("Payload"), {
+        target: { value: "{page: 2}" },
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Emit signal" }));
+
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Payload must be valid JSON"
+      );
+      expect(onEmit).not.toHaveBeenCalled();
+    });
+
+    it("rejects wildcard names", () => {
+      const onEmit = vi.fn();
+      render(<SignalInspector defaultOpen onEmit={onEmit} />);
+
+      fireEvent.change(screen.getByLabelText("Signal name"), {
+        target: { value: uniqueName("*") },
+      });
+      fireEvent.click(screen.getByRole("button", { name: "Emit signal" }));
+
+      expect(screen.getByRole("alert")).toHaveTextContent(
+        "Wildcard signals cannot be emitted"
+      );
+      expect(onEmit).not.toHaveBeenCalled();
+    });
+  });
+});
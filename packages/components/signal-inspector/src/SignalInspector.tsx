@@ -0,0 +1,279 @@
+import React, {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { createSignal } from "@usefy/use-signal";
+import type { InspectorTab, SignalInspectorProps } from "./types";
+import {
+  DEFAULT_TIMELINE_SIZE,
+  DEFAULT_WIDTH,
+  INSPECTOR_TABS,
+  Z_INDEX,
+} from "./constants";
+import { cn, formatPayload, getShouldRender } from "./utils";
+import { useSignalRegistry } from "./hooks";
+import { EmitForm, SignalList, SignalTimeline } from "./components";
+
+/**
+ * Signal icon SVG
+ */
+function SignalIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M4.9 19.1C1 15.2 1 8.8 4.9 4.9" />
+      <path d="M7.8 16.2c-2.3-2.3-2.3-6.1 0-8.5" />
+      <circle cx="12" cy="12" r="2" />
+      <path d="M16.2 7.8c2.3 2.3 2.3 6.1 0 8.5" />
+      <path d="M19.1 4.9C23 8.8 23 15.1 19.1 19" />
+    </svg>
+  );
+}
+
+/**
+ * Devtools panel for @usefy/use-signal.
+ *
+ * Features:
+ * - Every registered signal with subscriber count, emit count and last payload
+ * - Timeline of recent emits across all signals
+ * - Manual emit with a JSON payload
+ * - Environment-aware (development only by default)
+ *
+ * @example
+ * ```tsx
+ * // Basic usage - shows only in development
+ * function App() {
+ *   return (
+ *     <>
+ *       <YourApp />
+ *       <SignalInspector />
+ *     </>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With custom configuration
+ * <SignalInspector
+ *   position="left"
+ *   timelineSize={100}
+ *   onEmit={(name, data) => console.log("Emitted from inspector", name, data)}
+ * />
+ * ```
+ */
+export const SignalInspector = forwardRef<HTMLDivElement, SignalInspectorProps>(
+  (props, ref) => {
+    const {
+      mode = "development",
+      defaultOpen = false,
+      position = "right",
+      width = DEFAULT_WIDTH,
+      zIndex = Z_INDEX.panel,
+      showTrigger = true,
+      timelineSize = DEFAULT_TIMELINE_SIZE,
+      className,
+      onOpenChange,
+      onEmit,
+    } = props;
+
+    // SSR check - don't render anything on server
+    const [mounted, setMounted] = useState(false);
+    useEffect(() => {
+      setMounted(true);
+    }, []);
+
+    const shouldRender = getShouldRender(mode);
+
+    const [isOpen, setIsOpen] = useState(defaultOpen);
+    const [activeTab, setActiveTab] = useState<InspectorTab>("signals");
+    const [selectedName, setSelectedName] = useState<string | null>(null);
+    const [filter, setFilter] = useState("");
+
+    const setOpen = useCallback(
+      (open: boolean) => {
+        setIsOpen(open);
+        onOpenChange?.(open);
+      },
+      [onOpenChange]
+    );
+
+    // Close on Escape
+    useEffect(() => {
+      if (!isOpen) {
+        return;
+      }
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === "Escape") {
+          setOpen(false);
+        }
+      };
+      document.addEventListener("keydown", handleKeyDown);
+      return () => document.removeEventListener("keydown", handleKeyDown);
+    }, [isOpen, setOpen]);
+
+    // Only track the registry while the panel is visible
+    const { signals, timeline } = useSignalRegistry({
+      enabled: shouldRender && isOpen,
+      timelineSize,
+    });
+
+    const filteredSignals = useMemo(() => {
+      const query = filter.trim().toLowerCase();
+      return query
+        ? signals.filter((signal) => signal.name.toLowerCase().includes(query))
+        : signals;
+    }, [signals, filter]);
+
+    const selectedSignal = signals.find(
+      (signal) => signal.name === selectedName
+    );
+
+    const handleSelect = useCallback((name: string) => {
+      setSelectedName(name);
+      setActiveTab("signals");
+    }, []);
+
+    const handleEmit = useCallback(
+      (name: string, data: unknown) => {
+        createSignal<unknown>(name).emit(data);
+        setSelectedName(name);
+        onEmit?.(name, data);
+      },
+      [onEmit]
+    );
+
+    if (!mounted || !shouldRender) {
+      return null;
+    }
+
+    return (
+      <>
+        {showTrigger && !isOpen && (
+          <button
+            type="button"
+            onClick={() => setOpen(true)}
+            aria-label="Open Signal Inspector"
+            className={cn(
+              "fixed bottom-5 w-12 h-12 rounded-2xl p-0 border-0",
+              position === "right" ? "right-20" : "left-20",
+              "bg-gradient-to-br from-violet-500 to-indigo-600 text-white",
+              "shadow-lg shadow-indigo-500/20 hover:scale-110 active:scale-95",
+              "transition-transform focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            )}
+            style={{ zIndex: zIndex - 1 }}
+          >
+            <SignalIcon className="w-6 h-6 absolute inset-0 m-auto" />
+          </button>
+        )}
+
+        {isOpen && (
+          <div
+            ref={ref}
+            role="dialog"
+            aria-label="Signal Inspector"
+            className={cn(
+              "fixed top-0 bottom-0 flex flex-col",
+              position === "right" ? "right-0 border-l" : "left-0 border-r",
+              "bg-white/95 dark:bg-slate-900/95 backdrop-blur-md shadow-2xl",
+              "border-slate-200 dark:border-slate-800",
+              className
+            )}
+            style={{ width: `${width}px`, zIndex }}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between px-5 py-4 border-b border-slate-100 dark:border-slate-800">
+              <div className="flex items-center gap-3">
+                <h2 className="text-lg font-bold text-slate-800 dark:text-slate-100 tracking-tight">
+                  Signal Inspector
+                </h2>
+                <span className="px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wider bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">
+                  {signals.length} signals
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setOpen(false)}
+                aria-label="Close panel"
+                className="p-2 rounded-lg text-slate-400 hover:text-slate-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+              >
+                ✕
+              </button>
+            </div>
+
+            {/* Tabs */}
+            <div role="tablist" className="flex gap-1 px-5 pt-3">
+              {INSPECTOR_TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  type="button"
+                  role="tab"
+                  aria-selected={activeTab === tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md text-xs font-semibold transition-colors",
+                    activeTab === tab.id
+                      ? "bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-300"
+                      : "text-slate-500 hover:text-slate-700 dark:hover:text-slate-300"
+                  )}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {/* Content */}
+            <div
+              role="tabpanel"
+              className="flex-1 overflow-y-auto px-5 py-4 space-y-4"
+            >
+              {activeTab === "signals" ? (
+                <>
+                  <input
+                    type="search"
+                    value={filter}
+                    onChange={(event) => setFilter(event.target.value)}
+                    placeholder="Filter signals"
+                    aria-label="Filter signals"
+                    className="w-full px-2.5 py-1.5 rounded-md text-xs bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-slate-100"
+                  />
+                  <SignalList
+                    signals={filteredSignals}
+                    selectedName={selectedName}
+                    onSelect={handleSelect}
+                  />
+                  {selectedSignal && (
+                    <div className="p-3 rounded-lg border border-slate-200 dark:border-slate-700">
+                      <div className="text-xs font-semibold text-slate-500 dark:text-slate-400 mb-1">
+                        Last payload of {selectedSignal.name}
+                      </div>
+                      <pre className="font-mono text-xs text-slate-800 dark:text-slate-200 whitespace-pre-wrap break-all">
+                        {formatPayload(selectedSignal.data, Infinity)}
+                      </pre>
+                    </div>
+                  )}
+                  <EmitForm defaultName={selectedName} onEmit={handleEmit} />
+                </>
+              ) : (
+                <SignalTimeline events={timeline} onSelect={handleSelect} />
+              )}
+            </div>
+          </div>
+        )}
+      </>
+    );
+  }
+);
+
+SignalInspector.displayName = "SignalInspector";
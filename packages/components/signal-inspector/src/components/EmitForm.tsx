@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from "react";
+import { cn } from "../utils/cn";
+import { parsePayload } from "../utils/format";
+
+export interface EmitFormProps {
+  /** Signal name to prefill (e.g. the selected signal) */
+  defaultName?: string | null;
+  /** Called with the signal name and parsed payload */
+  onEmit: (name: string, data: unknown) => void;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * Form to emit a signal manually, with an optional JSON payload
+ */
+export function EmitForm({ defaultName, onEmit, className }: EmitFormProps) {
+  const [name, setName] = useState(defaultName ?? "");
+  const [payload, setPayload] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the selection
+  useEffect(() => {
+    if (defaultName) {
+      setName(defaultName);
+      setError(null);
+    }
+  }, [defaultName]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const signalName = name.trim();
+    if (!signalName) {
+      setError("Enter a signal name");
+      return;
+    }
+    if (signalName.endsWith("*")) {
+      setError("Wildcard signals cannot be emitted");
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = parsePayload(payload);
+    } catch {
+      setError("Payload must be valid JSON");
+      return;
+    }
+
+    setError(null);
+    onEmit(signalName, data);
+  };
+
+  const inputClassName = cn(
+    "w-full px-2.5 py-1.5 rounded-md font-mono text-xs",
+    "bg-white dark:bg-slate-900",
+    "border border-slate-200 dark:border-slate-700",
+    "text-slate-900 dark:text-slate-100",
+    "focus:outline-none focus:ring-2 focus:ring-indigo-500"
+  );
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label="Emit signal"
+      className={cn(
+        "space-y-2 p-3 rounded-lg",
+        "bg-slate-50 dark:bg-slate-800",
+        "border border-slate-200 dark:border-slate-700",
+        className
+      )}
+    >
+      <div className="text-xs font-semibold text-slate-500 dark:text-slate-400">
+        Emit
+      </div>
+      <input
+        type="text"
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        placeholder="signal:name"
+        aria-label="Signal name"
+        className={inputClassName}
+      />
+      <textarea
+        value={payload}
+        onChange={(event) => setPayload(event.target.value)}
+        placeholder='Payload as JSON, e.g. {"id": 1} (optional)'
+        aria-label="Payload"
+        rows={3}
+        className={cn(inputClassName, "resize-y")}
+      />
+      {error && (
+        <div role="alert" className="text-xs text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+      <button
+        type="submit"
+        className={cn(
+          "w-full py-1.5 rounded-md text-xs font-semibold",
+          "bg-indigo-600 hover:bg-indigo-500 text-white",
+          "transition-colors"
+        )}
+      >
+        Emit signal
+      </button>
+    </form>
+  );
+}
+
+EmitForm.displayName = "EmitForm";
@@ -0,0 +1,92 @@
+import React from "react";
+import { cn } from "../utils/cn";
+import { formatPayload } from "../utils/format";
+import type { SignalInfo } from "../types";
+
+export interface SignalListProps {
+  /** Signals to list */
+  signals: SignalInfo[];
+  /** Name of the selected signal */
+  selectedName?: string | null;
+  /** Called when a signal is clicked */
+  onSelect?: (name: string) => void;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * List of registered signals with subscriber count, emit count and last payload
+ */
+export function SignalList({
+  signals,
+  selectedName,
+  onSelect,
+  className,
+}: SignalListProps) {
+  if (signals.length === 0) {
+    return (
+      <div
+        className={cn(
+          "p-6 text-center text-sm text-slate-500 dark:text-slate-400",
+          className
+        )}
+      >
+        No signals registered yet
+      </div>
+    );
+  }
+
+  return (
+    <ul className={cn("space-y-2", className)} aria-label="Signals">
+      {signals.map((signal) => {
+        const isWildcard = signal.name.endsWith("*");
+        const isSelected = signal.name === selectedName;
+
+        return (
+          <li key={signal.name}>
+            <button
+              type="button"
+              onClick={() => onSelect?.(signal.name)}
+              aria-pressed={isSelected}
+              className={cn(
+                "w-full text-left p-3 rounded-lg border transition-colors",
+                "bg-slate-50 dark:bg-slate-800",
+                isSelected
+                  ? "border-indigo-400 dark:border-indigo-500"
+                  : "border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm font-semibold text-slate-900 dark:text-slate-100 truncate">
+                  {signal.name}
+                </span>
+                <span className="flex shrink-0 gap-1 text-[10px] font-semibold uppercase tracking-wider">
+                  <span
+                    className="px-1.5 py-0.5 rounded bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
+                    title="Subscribers"
+                  >
+                    {signal.subscriberCount} sub
+                  </span>
+                  <span
+                    className="px-1.5 py-0.5 rounded bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300"
+                    title="Emits"
+                  >
+                    {signal.emitCount} emit
+                  </span>
+                </span>
+              </div>
+              <div className="mt-1 font-mono text-xs text-slate-500 dark:text-slate-400 truncate">
+                {isWildcard && signal.emittedName && (
+                  <span className="text-indigo-500">{signal.emittedName} </span>
+                )}
+                {formatPayload(signal.data)}
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+SignalList.displayName = "SignalList";
@@ -0,0 +1,65 @@
+import React from "react";
+import { cn } from "../utils/cn";
+import { formatPayload, formatTime } from "../utils/format";
+import type { TimelineEvent } from "../types";
+
+export interface SignalTimelineProps {
+  /** Recent emits, newest first */
+  events: TimelineEvent[];
+  /** Called when a signal name is clicked */
+  onSelect?: (name: string) => void;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * Timeline of recent emits across all signals
+ */
+export function SignalTimeline({
+  events,
+  onSelect,
+  className,
+}: SignalTimelineProps) {
+  if (events.length === 0) {
+    return (
+      <div
+        className={cn(
+          "p-6 text-center text-sm text-slate-500 dark:text-slate-400",
+          className
+        )}
+      >
+        No emits yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className={cn("space-y-1", className)} aria-label="Timeline">
+      {events.map((event) => (
+        <li
+          key={event.key}
+          className="flex items-baseline gap-2 px-2 py-1.5 rounded-md hover:bg-slate-50 dark:hover:bg-slate-800"
+        >
+          <time
+            className="shrink-0 font-mono text-[10px] text-slate-400"
+            dateTime={new Date(event.timestamp).toISOString()}
+          >
+            {formatTime(event.timestamp)}
+          </time>
+          <button
+            type="button"
+            onClick={() => onSelect?.(event.name)}
+            className="shrink-0 font-mono text-xs font-semibold text-indigo-600 dark:text-indigo-300 hover:underline"
+          >
+            {event.name}
+          </button>
+          <span className="font-mono text-xs text-slate-500 dark:text-slate-400 truncate">
+            {formatPayload(event.data)}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+SignalTimeline.displayName = "SignalTimeline";
@@ -0,0 +1,3 @@
+export { SignalList, type SignalListProps } from "./SignalList";
+export { SignalTimeline, type SignalTimelineProps } from "./SignalTimeline";
+export { EmitForm, type EmitFormProps } from "./EmitForm";
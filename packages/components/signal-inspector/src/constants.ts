@@ -0,0 +1,32 @@
+import type { InspectorTab } from "./types";
+
+/**
+ * Default panel width in pixels
+ */
+export const DEFAULT_WIDTH = 380;
+
+/**
+ * Default number of emits shown in the timeline
+ */
+export const DEFAULT_TIMELINE_SIZE = 50;
+
+/**
+ * Maximum length of payload previews in lists
+ */
+export const PAYLOAD_PREVIEW_LENGTH = 60;
+
+/**
+ * Z-index values (below MemoryMonitorPanel's)
+ */
+export const Z_INDEX = {
+  trigger: 9996,
+  panel: 9997,
+} as const;
+
+/**
+ * Inspector tabs
+ */
+export const INSPECTOR_TABS: { id: InspectorTab; label: string }[] = [
+  { id: "signals", label: "Signals" },
+  { id: "timeline", label: "Timeline" },
+];
@@ -0,0 +1,5 @@
+export { useSignalRegistry } from "./useSignalRegistry";
+export type {
+  UseSignalRegistryOptions,
+  UseSignalRegistryReturn,
+} from "./useSignalRegistry";
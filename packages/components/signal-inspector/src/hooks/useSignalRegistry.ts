@@ -0,0 +1,94 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { inspectSignals, subscribeToSignals } from "@usefy/use-signal";
+import type { SignalInfo, TimelineEvent } from "../types";
+
+/**
+ * Options for useSignalRegistry hook
+ */
+export interface UseSignalRegistryOptions {
+  /** Track the registry (default: true) */
+  enabled?: boolean;
+  /** Maximum number of emits in the timeline (default: 50) */
+  timelineSize?: number;
+}
+
+/**
+ * Return type for useSignalRegistry hook
+ */
+export interface UseSignalRegistryReturn {
+  /** Every registered signal, sorted by name */
+  signals: SignalInfo[];
+  /** Recent emits across all signals, newest first */
+  timeline: TimelineEvent[];
+}
+
+/**
+ * Hook that re-renders on every signal subscribe, unsubscribe and emit
+ *
+ * @param options - Configuration options
+ * @returns Registered signals and a timeline of recent emits
+ *
+ * @example
+ * ```tsx
+ * const { signals, timeline } = useSignalRegistry({ timelineSize: 20 });
+ * ```
+ */
+export function useSignalRegistry(
+  options: UseSignalRegistryOptions = {}
+): UseSignalRegistryReturn {
+  const { enabled = true, timelineSize = 50 } = options;
+
+  // Incremented on every store change, used as the snapshot
+  const versionRef = useRef(0);
+
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => {
+      if (!enabled) {
+        return () => {};
+      }
+      const unsubscribe = subscribeToSignals(() => {
+        versionRef.current += 1;
+        onStoreChange();
+      });
+      // Changes made before subscribing (e.g. by components committed
+      // together with this one) are picked up by the post-subscribe check
+      versionRef.current += 1;
+      return unsubscribe;
+    },
+    [enabled]
+  );
+
+  const getSnapshot = useCallback(() => versionRef.current, []);
+  const getServerSnapshot = useCallback(() => 0, []);
+
+  const version = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  // Re-read the registry whenever the version changes
+  const signals = useMemo(
+    () => (enabled && version >= 0 ? inspectSignals() : []),
+    [enabled, version]
+  );
+
+  const timeline = useMemo(() => {
+    const events: TimelineEvent[] = [];
+    signals.forEach((signal) => {
+      // Wildcard signals repeat the emits of the signals they match
+      if (signal.name.endsWith("*")) {
+        return;
+      }
+      signal.history.forEach((event) => {
+        events.push({ ...event, key: `${signal.name}#${event.sequence}` });
+      });
+    });
+
+    return events
+      .sort((a, b) => b.timestamp - a.timestamp || b.sequence - a.sequence)
+      .slice(0, Math.max(0, timelineSize));
+  }, [signals, timelineSize]);
+
+  return { signals, timeline };
+}
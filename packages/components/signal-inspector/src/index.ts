@@ -0,0 +1,33 @@
+// Main Component
+export { SignalInspector } from "./SignalInspector";
+
+// Types
+export type {
+  SignalInspectorProps,
+  InspectorMode,
+  InspectorPosition,
+  InspectorTab,
+  TimelineEvent,
+
+  // Re-exported from @usefy/use-signal
+  SignalInfo,
+  SignalEvent,
+} from "./types";
+
+// Constants (for customization)
+export {
+  DEFAULT_WIDTH,
+  DEFAULT_TIMELINE_SIZE,
+  Z_INDEX,
+  INSPECTOR_TABS,
+} from "./constants";
+
+// Hooks (for advanced usage)
+export { useSignalRegistry } from "./hooks";
+export type {
+  UseSignalRegistryOptions,
+  UseSignalRegistryReturn,
+} from "./hooks";
+
+// Utilities (for advanced usage)
+export { formatPayload, formatTime } from "./utils";
@@ -0,0 +1,97 @@
+/**
+ * Type definitions for @usefy/signal-inspector
+ */
+
+import type { SignalEvent, SignalInfo } from "@usefy/use-signal";
+
+// Re-export signal types for convenience
+export type { SignalEvent, SignalInfo };
+
+/**
+ * Inspector visibility mode
+ * - development: Only show in development environment (default)
+ * - production: Show in production environment
+ * - always: Always show
+ * - never: Never show
+ */
+export type InspectorMode = "development" | "production" | "always" | "never";
+
+/**
+ * Inspector panel position
+ */
+export type InspectorPosition = "right" | "left";
+
+/**
+ * Active tab in the inspector
+ */
+export type InspectorTab = "signals" | "timeline";
+
+/**
+ * Recent emit shown in the timeline
+ */
+export interface TimelineEvent extends SignalEvent {
+  /** Key unique within the timeline */
+  key: string;
+}
+
+/**
+ * Props for the SignalInspector component
+ */
+export interface SignalInspectorProps {
+  /**
+   * Visibility mode
+   * @default "development"
+   */
+  mode?: InspectorMode;
+
+  /**
+   * Initial panel open state
+   * @default false
+   */
+  defaultOpen?: boolean;
+
+  /**
+   * Panel position
+   * @default "right"
+   */
+  position?: InspectorPosition;
+
+  /**
+   * Panel width in pixels
+   * @default 380
+   */
+  width?: number;
+
+  /**
+   * Z-index of the panel (the trigger uses zIndex - 1)
+   * @default 9999
+   */
+  zIndex?: number;
+
+  /**
+   * Show the floating trigger button
+   * @default true
+   */
+  showTrigger?: boolean;
+
+  /**
+   * Maximum number of emits shown in the timeline
+   * @default 50
+   */
+  timelineSize?: number;
+
+  /**
+   * Custom class name for the panel
+   */
+  className?: string;
+
+  /**
+   * Callback when the panel opens or closes
+   */
+  onOpenChange?: (isOpen: boolean) => void;
+
+  /**
+   * Callback after a signal is emitted from the panel
+   */
+  onEmit?: (name: string, data: unknown) => void;
+}
@@ -0,0 +1,53 @@
+import type { InspectorMode } from "../types";
+
+/**
+ * Check if running in development mode
+ */
+export function isDevelopment(): boolean {
+  if (typeof process !== "undefined" && process.env) {
+    return process.env.NODE_ENV === "development";
+  }
+
+  // Fallback: check if running on localhost
+  if (typeof window !== "undefined") {
+    const hostname = window.location?.hostname;
+    return (
+      hostname === "localhost" ||
+      hostname === "127.0.0.1" ||
+      hostname === "0.0.0.0" ||
+      hostname?.endsWith(".local")
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Check if running in production mode
+ */
+export function isProduction(): boolean {
+  if (typeof process !== "undefined" && process.env) {
+    return process.env.NODE_ENV === "production";
+  }
+  return !isDevelopment();
+}
+
+/**
+ * Determine if the inspector should render based on mode
+ *
+ * @param mode - Inspector visibility mode
+ * @returns Whether the inspector should render
+ */
+export function getShouldRender(mode: InspectorMode): boolean {
+  switch (mode) {
+    case "always":
+      return true;
+    case "never":
+      return false;
+    case "production":
+      return isProduction();
+    case "development":
+    default:
+      return isDevelopment();
+  }
+}
@@ -0,0 +1,60 @@
+import { PAYLOAD_PREVIEW_LENGTH } from "../constants";
+
+/**
+ * Format a signal payload for display
+ * Values that cannot be serialized (functions, circular objects) fall back to String().
+ *
+ * @param data - The payload
+ * @param maxLength - Truncate longer output with an ellipsis
+ * @returns Display string ("—" for undefined)
+ *
+ * @example
+ * ```ts
+ * formatPayload({ id: 1 }) // => '{"id":1}'
+ * formatPayload(undefined) // => "—"
+ * ```
+ */
+export function formatPayload(
+  data: unknown,
+  maxLength: number = PAYLOAD_PREVIEW_LENGTH
+): string {
+  if (data === undefined) {
+    return "—";
+  }
+
+  let text: string;
+  try {
+    text = JSON.stringify(data) ?? String(data);
+  } catch {
+    text = String(data);
+  }
+
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Format a timestamp as a wall-clock time with milliseconds
+ *
+ * @example
+ * ```ts
+ * formatTime(Date.now()) // => "14:03:07.512"
+ * ```
+ */
+export function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+/**
+ * Parse the payload typed into the emit form
+ * An empty input emits without data; anything else must be JSON.
+ *
+ * @throws SyntaxError when the input is not valid JSON
+ */
+export function parsePayload(input: string): unknown {
+  return input.trim() === "" ? undefined : JSON.parse(input);
+}
@@ -0,0 +1,3 @@
+export { cn } from "./cn";
+export { isDevelopment, isProduction, getShouldRender } from "./environment";
+export { formatPayload, formatTime, parsePayload } from "./format";
@@ -5,7 +5,7 @@
  *
  * @example
  * ```tsx
- * import { MemoryMonitorPanel } from "@usefy/components";
+ * import { MemoryMonitorPanel, SignalInspector } from "@usefy/components";
  * ```
  */
 
@@ -20,3 +20,11 @@ export {
   type MemoryWarningData,
   type MemoryCriticalData,
 } from "@usefy/memory-monitor";
+
+// Signal Inspector
+export {
+  SignalInspector,
+  useSignalRegistry,
+  type SignalInspectorProps,
+  type TimelineEvent,
+} from "@usefy/signal-inspector";
@@ -24,6 +24,13 @@ export {
   type UseSignalReturn,
   type SignalOptions,
   type SignalInfo,
+  type SignalEvent,
+  createSignal,
+  type SignalHandle,
+  type SignalEmit,
+  type CreateSignalOptions,
+  inspectSignals,
+  subscribeToSignals,
 } from "@usefy/use-signal";
 
 // useToggle
@@ -55,6 +62,24 @@ export {
   type UseLocalStorageOptions,
   type UseLocalStorageReturn,
   type InitialValue,
+  type StorageValidator,
+  type StorageMigrations,
+  type StandardSchemaV1,
+  type StandardSchemaV1Result,
+  getStorageUsage,
+  type StorageUsage,
+  type StorageKeyUsage,
+  type StorageUsageOptions,
+  type QuotaExceededInfo,
+  type UseEncryptedLocalStorageReturn,
+  type StorageEncryption,
+  type LocalStorageStatus,
+  StorageDecryptionError,
+  useLocalStorageSelector,
+  type UseLocalStorageSelectorOptions,
+  createStorageNamespace,
+  type StorageNamespace,
+  type CreateStorageNamespaceOptions,
 } from "@usefy/use-local-storage";
 
 // useSessionStorage
@@ -63,8 +88,45 @@ export {
   type UseSessionStorageOptions,
   type UseSessionStorageReturn,
   type InitialValue as SessionStorageInitialValue,
+  type SessionStorageShareMode,
 } from "@usefy/use-session-storage";
 
+// useIndexedDBState
+export {
+  useIndexedDBState,
+  type UseIndexedDBStateOptions,
+  type UseIndexedDBStateReturn,
+  type IndexedDBStateStatus,
+  type InitialValue as IndexedDBStateInitialValue,
+} from "@usefy/use-indexeddb-state";
+
+// usePersistentState
+export {
+  usePersistentState,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryAdapter,
+  createCookieAdapter,
+  readCookie,
+  type UsePersistentStateOptions,
+  type UsePersistentStateReturn,
+  type PersistentStateStatus,
+  type StorageAdapter,
+  type SyncStorageAdapter,
+  type CookieAdapterOptions,
+  type InitialValue as PersistentStateInitialValue,
+} from "@usefy/use-persistent-state";
+
+// useCookieState
+export {
+  useCookieState,
+  CookieStateProvider,
+  type UseCookieStateOptions,
+  type UseCookieStateReturn,
+  type CookieStateProviderProps,
+  type InitialValue as CookieStateInitialValue,
+} from "@usefy/use-cookie-state";
+
 // useOnClickOutside
 export {
   useOnClickOutside,
@@ -131,6 +193,7 @@ export {
 // useMemoryMonitor
 export {
   useMemoryMonitor,
+  useMemoryScope,
   formatBytes,
   detectSupport,
   CircularBuffer,
@@ -141,8 +204,10 @@ export {
   type UseMemoryMonitorReturn,
   type MemoryInfo,
   type MemorySnapshot,
+  type MemoryMarker,
   type SnapshotDiff,
   type LeakAnalysis,
+  type LeakSuspect,
   type UnsupportedInfo,
   type SupportLevel,
   type AvailableMetric,
@@ -153,3 +218,24 @@ export {
   type FormattedMemory,
   type BrowserSupport,
 } from "@usefy/use-memory-monitor";
+
+// useHistory
+export {
+  useHistory,
+  HISTORY_FORMAT_VERSION,
+  type UseHistoryOptions,
+  type UseHistoryReturn,
+  type InitialState as HistoryInitialState,
+  type HistoryEntry,
+  type HistoryAction,
+  type SetOptions as HistorySetOptions,
+  type BatchControls as HistoryBatchControls,
+  type HistoryMiddleware,
+  type HistoryMiddlewareEntry,
+  type HistoryBranch,
+  type HistoryDocument,
+  type HistoryDocumentEntry,
+  type PatchOperation as HistoryPatchOperation,
+  type HistoryStorageType,
+  type PersistOptions as HistoryPersistOptions,
+} from "@usefy/use-history";
@@ -0,0 +1,57 @@
+import { createContext, useContext } from "react";
+import type { ReactNode } from "react";
+
+/**
+ * Props for CookieStateProvider
+ */
+export interface CookieStateProviderProps {
+  /**
+   * Cookie header of the request being rendered (e.g. `"theme=%22dark%22"`).
+   * Pass the same string on the server and on the client so both render the
+   * same values. Hooks render their initial value when null or undefined.
+   */
+  cookies?: string | null;
+  children?: ReactNode;
+}
+
+/** Cookie header provided to useCookieState, undefined without a provider */
+const CookieStateContext = createContext<string | null | undefined>(undefined);
+
+/**
+ * Provides the request cookies to useCookieState for server rendering and hydration
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx (Next.js App Router)
+ * import { headers } from 'next/headers';
+ *
+ * export default async function RootLayout({ children }) {
+ *   const cookies = (await headers()).get('cookie');
+ *   return (
+ *     <html>
+ *       <body>
+ *         <CookieStateProvider cookies={cookies}>{children}</CookieStateProvider>
+ *       </body>
+ *     </html>
+ *   );
+ * }
+ * ```
+ */
+export function CookieStateProvider({
+  cookies,
+  children,
+}: CookieStateProviderProps) {
+  return (
+    <CookieStateContext.Provider value={cookies}>
+      {children}
+    </CookieStateContext.Provider>
+  );
+}
+
+/**
+ * Get the cookie header of the nearest CookieStateProvider
+ * @internal
+ */
+export function useProvidedCookies(): string | null | undefined {
+  return useContext(CookieStateContext);
+}
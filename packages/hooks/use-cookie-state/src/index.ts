@@ -0,0 +1,10 @@
+export {
+  useCookieState,
+  type UseCookieStateOptions,
+  type UseCookieStateReturn,
+  type InitialValue,
+} from "./useCookieState";
+export {
+  CookieStateProvider,
+  type CookieStateProviderProps,
+} from "./CookieStateProvider";
@@ -0,0 +1,258 @@
+import { renderHook, act } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot } from "react-dom/client";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { ReactNode } from "react";
+import { useCookieState } from "./useCookieState";
+import { CookieStateProvider } from "./CookieStateProvider";
+
+// Remove all cookies set through document.cookie
+function clearCookies() {
+  document.cookie.split(";").forEach((cookie) => {
+    const name = cookie.split("=")[0].trim();
+    if (name) {
+      document.cookie = `${name}=; path=/; max-age=0`;
+    }
+  });
+}
+
+// Cookie header as sent by the browser for the given values
+function cookieHeader(values: Record<string, unknown>) {
+  return Object.entries(values)
+    .map(
+      ([name, value]) =>
+        `${encodeURIComponent(name)}=${encodeURIComponent(
+          JSON.stringify(value)
+        )}`
+    )
+    .join("; ");
+}
+
+function Theme() {
+  const [theme] = useCookieState("theme", "light");
+  return <span>{theme}</span>;
+}
+
+describe("useCookieState", () => {
+  beforeEach(() => {
+    clearCookies();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("client", () => {
+    it("should return the initial value when the cookie is not set", () => {
+      const { result } = renderHook(() => useCookieState("theme", "light"));
+
+      expect(result.current[0]).toBe("light");
+    });
+
+    it("should read the stored cookie", () => {
+      document.cookie = cookieHeader({ theme: "dark" });
+
+      const { result } = renderHook(() => useCookieState("theme", "light"));
+
+      expect(result.current[0]).toBe("dark");
+    });
+
+    it("should write and remove the cookie with its attributes", () => {
+      const cookieSetter = vi.spyOn(document, "cookie", "set");
+      const { result } = renderHook(() =>
+        useCookieState("theme", "light", {
+          maxAge: 3600,
+          sameSite: "strict",
+          secure: true,
+        })
+      );
+
+      act(() => {
+        result.current[1]("dark");
+      });
+
+      expect(result.current[0]).toBe("dark");
+      expect(cookieSetter).toHaveBeenLastCalledWith(
+        `theme=${encodeURIComponent(
+          '"dark"'
+        )}; path=/; samesite=strict; max-age=3600; secure`
+      );
+
+      act(() => {
+        result.current[2]();
+      });
+
+      expect(result.current[0]).toBe("light");
+      expect(cookieSetter).toHaveBeenLastCalledWith(
+        "theme=; path=/; samesite=strict; max-age=0; secure"
+      );
+    });
+
+    it("should support functional updates and custom serialization", () => {
+      const { result } = renderHook(() =>
+        useCookieState("count", 0, {
+          serializer: String,
+          deserializer: Number,
+        })
+      );
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(2);
+      expect(document.cookie).toContain("count=2");
+    });
+
+    it("should call onError for unparseable cookies", () => {
+      document.cookie = "theme=not-json";
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useCookieState("theme", "light", { onError })
+      );
+
+      expect(result.current[0]).toBe("light");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should sync components using the same cookie with different attributes", () => {
+      const { result: first } = renderHook(() =>
+        useCookieState("theme", "light")
+      );
+      const { result: second } = renderHook(() =>
+        useCookieState("theme", "light", { maxAge: 60 })
+      );
+
+      act(() => {
+        first.current[1]("dark");
+      });
+
+      expect(second.current[0]).toBe("dark");
+    });
+
+    it("should keep setValue stable while the attributes are unchanged", () => {
+      const { result, rerender } = renderHook(
+        ({ maxAge }) => useCookieState("theme", "light", { maxAge }),
+        { initialProps: { maxAge: 60 } }
+      );
+      const [, setValue] = result.current;
+
+      rerender({ maxAge: 60 });
+      expect(result.current[1]).toBe(setValue);
+
+      rerender({ maxAge: 120 });
+      expect(result.current[1]).not.toBe(setValue);
+    });
+  });
+
+  describe("server rendering", () => {
+    it("should render the initial value without a provider", () => {
+      expect(renderToString(<Theme />)).toBe("<span>light</span>");
+    });
+
+    it("should render the cookie from the provided header", () => {
+      const html = renderToString(
+        <CookieStateProvider cookies={cookieHeader({ theme: "dark" })}>
+          <Theme />
+        </CookieStateProvider>
+      );
+
+      expect(html).toBe("<span>dark</span>");
+    });
+
+    it("should render the initial value when the header lacks the cookie", () => {
+      const html = renderToString(
+        <CookieStateProvider cookies={cookieHeader({ other: 1 })}>
+          <Theme />
+        </CookieStateProvider>
+      );
+
+      expect(html).toBe("<span>light</span>");
+    });
+
+    it("should render the initial value for a null header", () => {
+      const html = renderToString(
+        <CookieStateProvider cookies={null}>
+          <Theme />
+        </CookieStateProvider>
+      );
+
+      expect(html).toBe("<span>light</span>");
+    });
+  });
+
+  describe("hydration", () => {
+    it("should hydrate the server value without a mismatch", async () => {
+      const cookies = cookieHeader({ theme: "dark" });
+      document.cookie = cookies;
+      const app = (
+        <CookieStateProvider cookies={cookies}>
+          <Theme />
+        </CookieStateProvider>
+      );
+
+      const container = document.createElement("div");
+      container.innerHTML = renderToString(app);
+      const onRecoverableError = vi.fn();
+      const renders: string[] = [];
+      const observer = new MutationObserver(() => {
+        renders.push(container.innerHTML);
+      });
+      observer.observe(container, {
+        subtree: true,
+        childList: true,
+        characterData: true,
+      });
+
+      const root = await act(async () =>
+        hydrateRoot(container, app, { onRecoverableError })
+      );
+
+      expect(container.innerHTML).toBe("<span>dark</span>");
+      expect(renders).toEqual([]);
+      expect(onRecoverableError).not.toHaveBeenCalled();
+
+      observer.disconnect();
+      act(() => root.unmount());
+    });
+
+    it("should update to the client cookie after hydrating without a provider", () => {
+      document.cookie = cookieHeader({ theme: "dark" });
+      const renders: string[] = [];
+
+      renderHook(
+        () => {
+          const [theme] = useCookieState("theme", "light");
+          renders.push(theme);
+        },
+        { hydrate: true }
+      );
+
+      expect(renders[0]).toBe("light");
+      expect(renders[renders.length - 1]).toBe("dark");
+    });
+
+    it("should render the provided cookie during hydration", () => {
+      document.cookie = cookieHeader({ theme: "dark" });
+      const renders: string[] = [];
+      const wrapper = ({ children }: { children: ReactNode }) => (
+        <CookieStateProvider cookies={cookieHeader({ theme: "dark" })}>
+          {children}
+        </CookieStateProvider>
+      );
+
+      renderHook(
+        () => {
+          const [theme] = useCookieState("theme", "light");
+          renders.push(theme);
+        },
+        { hydrate: true, wrapper }
+      );
+
+      expect(renders).not.toContain("light");
+      expect(renders[renders.length - 1]).toBe("dark");
+    });
+  });
+});
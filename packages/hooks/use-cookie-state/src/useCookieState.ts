@@ -0,0 +1,128 @@
+import { useMemo } from "react";
+import {
+  usePersistentState,
+  createCookieAdapter,
+  readCookie,
+  type CookieAdapterOptions,
+  type InitialValue,
+} from "@usefy/use-persistent-state";
+import { useProvidedCookies } from "./CookieStateProvider";
+
+export type { InitialValue };
+
+/**
+ * Options for useCookieState hook
+ */
+export interface UseCookieStateOptions<T> extends CookieAdapterOptions {
+  /**
+   * Custom serializer function for converting value to string
+   * @default JSON.stringify
+   */
+  serializer?: (value: T) => string;
+  /**
+   * Custom deserializer function for parsing stored string to value
+   * @default JSON.parse
+   */
+  deserializer?: (value: string) => T;
+  /**
+   * Callback function called when an error occurs
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Return type for useCookieState hook - similar to useState with removeValue
+ */
+export type UseCookieStateReturn<T> = readonly [
+  /** Current cookie value */
+  T,
+  /** Function to update the value (same signature as useState setter) */
+  React.Dispatch<React.SetStateAction<T>>,
+  /** Function to remove the cookie */
+  () => void
+];
+
+/**
+ * A hook for persisting state in a cookie, rendered the same on the server
+ * and the client. Cookies are sent with every request, so wrapping the app in
+ * a CookieStateProvider with the request's Cookie header lets the server render
+ * the persisted value instead of the initial value, avoiding a flash of wrong
+ * content (e.g. the theme) after hydration.
+ *
+ * Features:
+ * - SSR hydration: Server and client render the cookie value from CookieStateProvider
+ * - Same-tab synchronization: Components using the same cookie stay in sync
+ * - Cross-tab synchronization: Where the Cookie Store API is available
+ * - Cookie attributes: maxAge, path, domain, sameSite and secure
+ *
+ * Without a provider, the initial value is rendered on the server and during
+ * hydration, like useLocalStorage.
+ *
+ * @template T - The type of the stored value
+ * @param key - The cookie name
+ * @param initialValue - Initial value or function returning initial value (lazy initialization)
+ * @param options - Cookie attributes, serialization, and error handling
+ * @returns Tuple of [storedValue, setValue, removeValue]
+ *
+ * @example
+ * ```tsx
+ * function ThemeToggle() {
+ *   const [theme, setTheme] = useCookieState<'light' | 'dark'>('theme', 'light', {
+ *     maxAge: 60 * 60 * 24 * 365,
+ *   });
+ *
+ *   return (
+ *     <button onClick={() => setTheme(t => (t === 'light' ? 'dark' : 'light'))}>
+ *       {theme}
+ *     </button>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Seed server rendering and hydration from the request
+ * <CookieStateProvider cookies={request.headers.get('cookie')}>
+ *   <App />
+ * </CookieStateProvider>
+ * ```
+ */
+export function useCookieState<T>(
+  key: string,
+  initialValue: InitialValue<T>,
+  options: UseCookieStateOptions<T> = {}
+): UseCookieStateReturn<T> {
+  const {
+    maxAge,
+    path,
+    domain,
+    sameSite,
+    secure,
+    serializer,
+    deserializer,
+    onError,
+  } = options;
+
+  const cookies = useProvidedCookies();
+
+  // Recreate the adapter only when the cookie attributes change
+  const adapter = useMemo(
+    () => createCookieAdapter({ maxAge, path, domain, sameSite, secure }),
+    [maxAge, path, domain, sameSite, secure]
+  );
+
+  const [storedValue, setValue, removeValue] = usePersistentState(
+    key,
+    initialValue,
+    {
+      adapter,
+      serializer,
+      deserializer,
+      onError,
+      serverRawValue:
+        cookies === undefined ? undefined : readCookie(cookies ?? "", key),
+    }
+  );
+
+  return [storedValue, setValue, removeValue] as const;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  createEntry,
+  createHistory,
+  materialize,
+  pushEntry,
+  undo,
+  type HistoryState,
+  type RecordOptions,
+} from "./core";
+
+const options: RecordOptions = { maxHistory: 3, keyframeInterval: 2 };
+
+function push<T>(
+  history: HistoryState<T>,
+  state: T,
+  overrides: Partial<RecordOptions> = {}
+): HistoryState<T> {
+  return pushEntry(history, createEntry("set"), state, {
+    ...options,
+    ...overrides,
+  });
+}
+
+describe("core", () => {
+  describe("pushEntry", () => {
+    it("does not change the node map of the previous history", () => {
+      const first = createHistory(0);
+      const second = push(first, 1);
+
+      expect(first.nodes.size).toBe(1);
+      expect(second.nodes).not.toBe(first.nodes);
+      expect(second.nodes.size).toBe(2);
+    });
+
+    it("trims the oldest entries beyond maxHistory", () => {
+      let history = createHistory(0);
+      for (let value = 1; value <= 10; value++) {
+        history = push(history, value);
+      }
+
+      expect(history.nodes.size).toBe(4);
+      expect(history.path).toHaveLength(4);
+      expect(materialize(history.nodes, history.path[0])).toBe(7);
+      expect(history.nodes.get(history.path[0])!.parentId).toBeNull();
+    });
+
+    it("drops branches forking off the trimmed entries only", () => {
+      let history = createHistory(0);
+      history = push(history, 1);
+      history = push(history, 2);
+      // Fork after the root: dropped once the root is trimmed
+      history = push(undo(undo(history)), 10, { branching: true });
+      history = push(history, 11);
+      history = push(history, 12);
+      // Fork after 11: kept as long as 11 is
+      history = push(undo(history), 20, { branching: true });
+
+      expect(history.branches).toHaveLength(3);
+
+      history = push(history, 21);
+
+      expect(history.branches).toHaveLength(2);
+      expect(history.nodes.size).toBe(5);
+      expect(history.path.map((id) => materialize(history.nodes, id))).toEqual([
+        10, 11, 20, 21,
+      ]);
+      const other = history.branches.find((b) => b.id !== history.branchId)!;
+      expect(materialize(history.nodes, other.headId)).toBe(12);
+    });
+  });
+});
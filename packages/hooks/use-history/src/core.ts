@@ -0,0 +1,798 @@
+/**
+ * Internal history transitions for the useHistory hook
+ * The history is a tree of entries: every divergence (a set() after undo)
+ * starts a new branch. The active branch is kept as a flat path from the
+ * root to its head so that navigation only moves an index.
+ *
+ * Entries do not store full states. Each node keeps the structural patch
+ * from its parent (and the inverse patch back to it); only the root and
+ * every n-th entry (keyframes) keep the full state. The state of the
+ * present entry is kept materialized, so undo/redo apply a single patch
+ * and any other entry is rebuilt from its nearest keyframe.
+ *
+ * With selective tracking, patches only contain changes to tracked paths.
+ * Untracked values live in the present state only: undo/redo leave them
+ * untouched and jumps carry them over.
+ *
+ * All functions return a new history (or the same reference when nothing
+ * changes) and never mutate the node map of the history they are given.
+ * Recording a step copies the map once and trims the oldest entries from
+ * the copy incrementally: only the dropped entries and the branches forking
+ * off them are visited, never the whole tree.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import type {
+  HistoryAction,
+  HistoryBranch,
+  HistoryEntry,
+  PatchOperation,
+} from "./types";
+import { applyPatch, diff } from "./utils/patch";
+import { filterPatch, type PathFilter } from "./utils/paths";
+
+/**
+ * Entry metadata (everything except the state)
+ */
+export type HistoryEntryInfo = Omit<HistoryEntry<unknown>, "state">;
+
+/**
+ * A node in the history tree
+ */
+export interface HistoryNode<T> {
+  entry: HistoryEntryInfo;
+  /** Id of the parent entry (null for the root) */
+  parentId: string | null;
+  /** Distance from the original root, used to place keyframes */
+  depth: number;
+  /** Operations turning the parent state into this state */
+  patch: PatchOperation[];
+  /** Operations turning this state back into the parent state */
+  inversePatch: PatchOperation[];
+  /** Full state, only stored on keyframes (always on the root) */
+  keyframe?: { state: T };
+}
+
+/**
+ * History structure: entry tree, branches and position on the active branch
+ */
+export interface HistoryState<T> {
+  /** Map of entry id -> node (never mutated once shared, see above) */
+  nodes: Map<string, HistoryNode<T>>;
+  /** All branches, in creation order */
+  branches: HistoryBranch[];
+  /** Id of the active branch */
+  branchId: string;
+  /** Entry ids from the root to the head of the active branch */
+  path: string[];
+  /** Position of the present entry in path */
+  index: number;
+  /** Materialized state of the present entry */
+  present: T;
+}
+
+/**
+ * Options for recording a new entry
+ */
+export interface RecordOptions {
+  /** Maximum number of steps kept before the present entry */
+  maxHistory: number;
+  /** Store the full state on every n-th entry */
+  keyframeInterval: number;
+  /** Start a new branch instead of discarding redo steps */
+  branching?: boolean;
+  /** Filter for tracked paths (null records every change) */
+  isTracked?: PathFilter | null;
+}
+
+/** Counter used to keep generated ids unique within the same millisecond */
+let idCounter = 0;
+
+/**
+ * Generate a unique id for entries and branches
+ */
+export function createId(prefix: string): string {
+  idCounter += 1;
+  return `${prefix}-${Date.now().toString(36)}-${idCounter.toString(36)}`;
+}
+
+/**
+ * Create the metadata of a history entry
+ */
+export function createEntry(
+  action: HistoryAction,
+  details: Pick<HistoryEntryInfo, "label" | "meta"> = {},
+  timestamp: number = Date.now()
+): HistoryEntryInfo {
+  const entry: HistoryEntryInfo = { id: createId("entry"), timestamp, action };
+  if (details.label !== undefined) {
+    entry.label = details.label;
+  }
+  if (details.meta !== undefined) {
+    entry.meta = details.meta;
+  }
+  return entry;
+}
+
+/**
+ * Create a branch pointing at the given head entry
+ */
+export function createBranch(headId: string, name?: string): HistoryBranch {
+  const id = createId("branch");
+  const createdAt = Date.now();
+  return name === undefined
+    ? { id, headId, createdAt }
+    : { id, name, headId, createdAt };
+}
+
+/**
+ * Create a root node holding the full state
+ */
+export function createRootNode<T>(
+  entry: HistoryEntryInfo,
+  state: T,
+  depth: number = 0
+): HistoryNode<T> {
+  return {
+    entry,
+    parentId: null,
+    depth,
+    patch: [],
+    inversePatch: [],
+    keyframe: { state },
+  };
+}
+
+/**
+ * Create a node for a state recorded after its parent state
+ */
+export function createChildNode<T>(
+  entry: HistoryEntryInfo,
+  parent: { id: string; depth: number; state: T },
+  state: T,
+  keyframeInterval: number,
+  isTracked: PathFilter | null = null
+): HistoryNode<T> {
+  const depth = parent.depth + 1;
+  const { patch, inversePatch } = diff(parent.state, state);
+  const node: HistoryNode<T> = {
+    entry,
+    parentId: parent.id,
+    depth,
+    patch: filterPatch(patch, isTracked),
+    inversePatch: filterPatch(inversePatch, isTracked),
+  };
+  if (depth % keyframeInterval === 0) {
+    node.keyframe = { state };
+  }
+  return node;
+}
+
+/**
+ * Create an empty history starting at the given state
+ */
+export function createHistory<T>(state: T): HistoryState<T> {
+  const root = createEntry("init");
+  const branch = createBranch(root.id, "main");
+
+  return {
+    nodes: new Map([[root.id, createRootNode(root, state)]]),
+    branches: [branch],
+    branchId: branch.id,
+    path: [root.id],
+    index: 0,
+    present: state,
+  };
+}
+
+/**
+ * Rebuild the state of an entry from its nearest keyframe ancestor
+ */
+export function materialize<T>(
+  nodes: Map<string, HistoryNode<T>>,
+  id: string
+): T {
+  const chain: HistoryNode<T>[] = [];
+  let node = nodes.get(id)!;
+  while (!node.keyframe) {
+    chain.push(node);
+    node = nodes.get(node.parentId!)!;
+  }
+
+  let state = node.keyframe.state;
+  for (let i = chain.length - 1; i >= 0; i--) {
+    state = applyPatch(state, chain[i].patch);
+  }
+  return state;
+}
+
+/**
+ * Count the patches between an entry and its nearest keyframe ancestor
+ */
+function distanceToKeyframe<T>(
+  nodes: Map<string, HistoryNode<T>>,
+  id: string
+): number {
+  let distance = 0;
+  let node = nodes.get(id)!;
+  while (!node.keyframe) {
+    distance += 1;
+    node = nodes.get(node.parentId!)!;
+  }
+  return distance;
+}
+
+/**
+ * Check whether a change touches at least one tracked path
+ */
+export function hasTrackedChanges(
+  from: unknown,
+  to: unknown,
+  isTracked: PathFilter | null
+): boolean {
+  return !isTracked || filterPatch(diff(from, to).patch, isTracked).length > 0;
+}
+
+/**
+ * Take the tracked values from a recorded state and the untracked values from the live state
+ */
+function withUntracked<T>(
+  recorded: T,
+  live: T,
+  isTracked: PathFilter | null
+): T {
+  if (!isTracked) {
+    return recorded;
+  }
+  return applyPatch(live, filterPatch(diff(live, recorded).patch, isTracked));
+}
+
+/**
+ * Create a public entry whose state is rebuilt lazily on first access
+ */
+function toEntry<T>(
+  nodes: Map<string, HistoryNode<T>>,
+  id: string,
+  knownState?: { state: T }
+): HistoryEntry<T> {
+  const node = nodes.get(id)!;
+  let cached = knownState ?? node.keyframe;
+  return Object.defineProperty({ ...node.entry }, "state", {
+    enumerable: true,
+    get: () => {
+      if (!cached) {
+        cached = { state: materialize(nodes, id) };
+      }
+      return cached.state;
+    },
+  }) as HistoryEntry<T>;
+}
+
+/**
+ * Get the present entry
+ */
+export function getPresent<T>(history: HistoryState<T>): HistoryEntry<T> {
+  return toEntry(history.nodes, history.path[history.index], {
+    state: history.present,
+  });
+}
+
+/**
+ * Get the entries before the present one on the active branch, oldest first
+ */
+export function getPast<T>(history: HistoryState<T>): HistoryEntry<T>[] {
+  return history.path
+    .slice(0, history.index)
+    .map((id) => toEntry(history.nodes, id));
+}
+
+/**
+ * Get the entries after the present one on the active branch, nearest first
+ */
+export function getFuture<T>(history: HistoryState<T>): HistoryEntry<T>[] {
+  return history.path
+    .slice(history.index + 1)
+    .map((id) => toEntry(history.nodes, id));
+}
+
+/**
+ * Get the state at a position on the active branch.
+ * Walks patch by patch from the present entry when that is cheaper than
+ * rebuilding from the nearest keyframe.
+ */
+export function getStateAt<T>(
+  history: HistoryState<T>,
+  index: number,
+  isTracked: PathFilter | null = null
+): T {
+  const { nodes, path } = history;
+  const distance = Math.abs(index - history.index);
+
+  if (distance > distanceToKeyframe(nodes, path[index])) {
+    return withUntracked(
+      materialize(nodes, path[index]),
+      history.present,
+      isTracked
+    );
+  }
+
+  let state = history.present;
+  for (let i = history.index; i > index; i--) {
+    state = applyPatch(state, nodes.get(path[i])!.inversePatch);
+  }
+  for (let i = history.index + 1; i <= index; i++) {
+    state = applyPatch(state, nodes.get(path[i])!.patch);
+  }
+  return state;
+}
+
+/**
+ * Get the operations turning the state at one position of the active
+ * branch into the state at another position.
+ * Out of range or non-integer indexes produce an empty patch.
+ */
+export function getDiff<T>(
+  history: HistoryState<T>,
+  fromIndex: number,
+  toIndex: number,
+  isTracked: PathFilter | null = null
+): PatchOperation[] {
+  const isValid = (index: number) =>
+    Number.isInteger(index) && index >= 0 && index < history.path.length;
+
+  if (!isValid(fromIndex) || !isValid(toIndex) || fromIndex === toIndex) {
+    return [];
+  }
+
+  // Adjacent entries: the stored patch is already the difference
+  if (toIndex === fromIndex + 1) {
+    return [...history.nodes.get(history.path[toIndex])!.patch];
+  }
+  if (fromIndex === toIndex + 1) {
+    return [...history.nodes.get(history.path[fromIndex])!.inversePatch];
+  }
+
+  return diff(
+    getStateAt(history, fromIndex, isTracked),
+    getStateAt(history, toIndex, isTracked)
+  ).patch;
+}
+
+/**
+ * Collect the ids of a node and all of its descendants
+ */
+function collectSubtree<T>(
+  nodes: Map<string, HistoryNode<T>>,
+  rootId: string
+): Set<string> {
+  const children = new Map<string, string[]>();
+  for (const [id, { parentId }] of nodes) {
+    if (parentId !== null) {
+      const siblings = children.get(parentId);
+      if (siblings) {
+        siblings.push(id);
+      } else {
+        children.set(parentId, [id]);
+      }
+    }
+  }
+
+  const subtree = new Set<string>();
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    subtree.add(id);
+    stack.push(...(children.get(id) ?? []));
+  }
+  return subtree;
+}
+
+/**
+ * Remove the given ids from the tree and drop the branches whose head was removed
+ */
+function removeNodes<T>(
+  history: HistoryState<T>,
+  removed: Set<string>
+): Pick<HistoryState<T>, "nodes" | "branches"> {
+  const nodes = new Map<string, HistoryNode<T>>();
+  for (const [id, node] of history.nodes) {
+    if (!removed.has(id)) {
+      nodes.set(id, node);
+    }
+  }
+
+  return {
+    nodes,
+    branches: history.branches.filter((branch) => !removed.has(branch.headId)),
+  };
+}
+
+/**
+ * Build the path from the root to the given entry
+ */
+function buildPath<T>(
+  nodes: Map<string, HistoryNode<T>>,
+  headId: string
+): string[] {
+  const path: string[] = [];
+  let id: string | null = headId;
+  while (id !== null) {
+    path.push(id);
+    id = nodes.get(id)!.parentId;
+  }
+  return path.reverse();
+}
+
+/**
+ * Record a new state after the present one.
+ * - At the head of the active branch, the branch simply grows.
+ * - Behind the head with branching enabled, a new branch is created and
+ *   activated, keeping the previous redo steps on the old branch.
+ * - Behind the head without branching, the redo steps are discarded.
+ * The oldest entries beyond maxHistory are trimmed afterwards.
+ * A change that only touches untracked paths updates the present state
+ * without recording an entry.
+ */
+export function pushEntry<T>(
+  history: HistoryState<T>,
+  entry: HistoryEntryInfo,
+  state: T,
+  options: RecordOptions
+): HistoryState<T> {
+  const {
+    maxHistory,
+    keyframeInterval,
+    branching = false,
+    isTracked = null,
+  } = options;
+  const presentId = history.path[history.index];
+  const isAtHead = history.index === history.path.length - 1;
+
+  const node = createChildNode(
+    entry,
+    {
+      id: presentId,
+      depth: history.nodes.get(presentId)!.depth,
+      state: history.present,
+    },
+    state,
+    keyframeInterval,
+    isTracked
+  );
+  if (isTracked && node.patch.length === 0) {
+    return updatePresent(history, state);
+  }
+
+  const nodes = new Map(history.nodes);
+  let branches = history.branches;
+  let branchId = history.branchId;
+
+  if (!isAtHead) {
+    if (branching) {
+      const branch = createBranch(entry.id);
+      branches = [...branches, branch];
+      branchId = branch.id;
+    } else {
+      const discarded = collectSubtree(
+        history.nodes,
+        history.path[history.index + 1]
+      );
+      discarded.forEach((id) => nodes.delete(id));
+      branches = branches.filter((branch) => !discarded.has(branch.headId));
+    }
+  }
+
+  nodes.set(entry.id, node);
+  branches = branches.map((branch) =>
+    branch.id === branchId ? { ...branch, headId: entry.id } : branch
+  );
+
+  // Re-adding the active branch if it was dropped together with the redo steps
+  if (!branches.some((branch) => branch.id === branchId)) {
+    const active = history.branches.find((branch) => branch.id === branchId)!;
+    branches = [...branches, { ...active, headId: entry.id }];
+  }
+
+  const next: HistoryState<T> = {
+    nodes,
+    branches,
+    branchId,
+    path: [...history.path.slice(0, history.index + 1), entry.id],
+    index: history.index + 1,
+    present: state,
+  };
+  const overflow = next.index - maxHistory;
+  return overflow > 0 ? trimOldest(next, overflow) : next;
+}
+
+/**
+ * Update the present state without touching the recorded entries
+ * (used for changes to untracked paths)
+ */
+export function updatePresent<T>(
+  history: HistoryState<T>,
+  state: T
+): HistoryState<T> {
+  return { ...history, present: state };
+}
+
+/**
+ * Replace the present state without recording a new step.
+ * The entry keeps the id of the present entry; its patches are
+ * recalculated against the parent state.
+ */
+export function replacePresent<T>(
+  history: HistoryState<T>,
+  entry: HistoryEntryInfo,
+  state: T,
+  isTracked: PathFilter | null = null
+): HistoryState<T> {
+  const presentId = history.path[history.index];
+  const node = history.nodes.get(presentId)!;
+  const info = { ...entry, id: presentId };
+
+  let next: HistoryNode<T>;
+  if (node.parentId === null) {
+    next = createRootNode(info, state, node.depth);
+  } else {
+    const parentState = applyPatch(history.present, node.inversePatch);
+    const { patch, inversePatch } = diff(parentState, state);
+    next = {
+      ...node,
+      entry: info,
+      patch: filterPatch(patch, isTracked),
+      inversePatch: filterPatch(inversePatch, isTracked),
+    };
+    if (node.keyframe) {
+      next.keyframe = { state };
+    }
+  }
+
+  return {
+    ...history,
+    nodes: new Map(history.nodes).set(presentId, next),
+    present: state,
+  };
+}
+
+/**
+ * Move one step back on the active branch (applies one inverse patch)
+ */
+export function undo<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.index === 0) {
+    return history;
+  }
+
+  const node = history.nodes.get(history.path[history.index])!;
+  return {
+    ...history,
+    index: history.index - 1,
+    present: applyPatch(history.present, node.inversePatch),
+  };
+}
+
+/**
+ * Move one step forward on the active branch (applies one patch)
+ */
+export function redo<T>(history: HistoryState<T>): HistoryState<T> {
+  if (history.index === history.path.length - 1) {
+    return history;
+  }
+
+  const node = history.nodes.get(history.path[history.index + 1])!;
+  return {
+    ...history,
+    index: history.index + 1,
+    present: applyPatch(history.present, node.patch),
+  };
+}
+
+/**
+ * Jump to a position on the active branch.
+ * Out of range or non-integer indexes are ignored.
+ */
+export function goTo<T>(
+  history: HistoryState<T>,
+  index: number,
+  isTracked: PathFilter | null = null
+): HistoryState<T> {
+  if (
+    !Number.isInteger(index) ||
+    index < 0 ||
+    index >= history.path.length ||
+    index === history.index
+  ) {
+    return history;
+  }
+  return {
+    ...history,
+    index,
+    present: getStateAt(history, index, isTracked),
+  };
+}
+
+/**
+ * Activate a branch and move to its head.
+ * Unknown branch ids are ignored.
+ */
+export function switchBranch<T>(
+  history: HistoryState<T>,
+  branchId: string,
+  isTracked: PathFilter | null = null
+): HistoryState<T> {
+  const branch = history.branches.find((b) => b.id === branchId);
+  if (!branch) {
+    return history;
+  }
+
+  const path = buildPath(history.nodes, branch.headId);
+  if (branchId === history.branchId && history.index === path.length - 1) {
+    return history;
+  }
+
+  return {
+    ...history,
+    branchId,
+    path,
+    index: path.length - 1,
+    present: withUntracked(
+      materialize(history.nodes, branch.headId),
+      history.present,
+      isTracked
+    ),
+  };
+}
+
+/**
+ * Rename a branch (undefined removes the name).
+ * Unknown branch ids are ignored.
+ */
+export function renameBranch<T>(
+  history: HistoryState<T>,
+  branchId: string,
+  name: string | undefined
+): HistoryState<T> {
+  if (!history.branches.some((b) => b.id === branchId)) {
+    return history;
+  }
+
+  return {
+    ...history,
+    branches: history.branches.map((branch) => {
+      if (branch.id !== branchId) {
+        return branch;
+      }
+      const { name: _previous, ...rest } = branch;
+      return name === undefined ? rest : { ...rest, name };
+    }),
+  };
+}
+
+/**
+ * Drop all undo/redo steps and other branches, keeping the present entry
+ */
+export function clear<T>(history: HistoryState<T>): HistoryState<T> {
+  const presentId = history.path[history.index];
+  if (history.path.length === 1 && history.branches.length === 1) {
+    return history;
+  }
+
+  const active = history.branches.find((b) => b.id === history.branchId)!;
+  const node = history.nodes.get(presentId)!;
+  return {
+    nodes: new Map([
+      [presentId, createRootNode(node.entry, history.present, node.depth)],
+    ]),
+    branches: [{ ...active, headId: presentId }],
+    branchId: active.id,
+    path: [presentId],
+    index: 0,
+    present: history.present,
+  };
+}
+
+/**
+ * Drop the first entries of the active path, and the branches forking off
+ * them, from a history whose node map is not shared yet (it is updated in place).
+ * Every entry leads to a branch head, so the forks are found by walking the
+ * other branches up to the active path.
+ */
+function trimOldest<T>(
+  history: HistoryState<T>,
+  overflow: number
+): HistoryState<T> {
+  const { nodes, path } = history;
+  const baseDepth = nodes.get(path[0])!.depth;
+  const pathIndexOf = (id: string) => {
+    const index = nodes.get(id)!.depth - baseDepth;
+    return path[index] === id ? index : -1;
+  };
+
+  const removed = new Set(path.slice(0, overflow));
+  const kept = new Set<string>();
+  const branches = history.branches.filter((branch) => {
+    if (branch.id === history.branchId) {
+      return true;
+    }
+
+    const chain: string[] = [];
+    let id = branch.headId;
+    let drop: boolean;
+    for (;;) {
+      if (removed.has(id) || kept.has(id)) {
+        drop = removed.has(id);
+        break;
+      }
+      const index = pathIndexOf(id);
+      if (index !== -1) {
+        drop = index < overflow;
+        break;
+      }
+      chain.push(id);
+      id = nodes.get(id)!.parentId!;
+    }
+    const visited = drop ? removed : kept;
+    chain.forEach((chainId) => visited.add(chainId));
+    return !drop;
+  });
+
+  const rootId = path[overflow];
+  const root = nodes.get(rootId)!;
+  const rootState = root.keyframe
+    ? root.keyframe.state
+    : materialize(nodes, rootId);
+  removed.forEach((id) => nodes.delete(id));
+  nodes.set(rootId, createRootNode(root.entry, rootState, root.depth));
+
+  return {
+    nodes,
+    branches,
+    branchId: history.branchId,
+    path: path.slice(overflow),
+    index: history.index - overflow,
+    present: history.present,
+  };
+}
+
+/**
+ * Drop the oldest entries so that at most maxHistory steps lie before the present entry.
+ * The tree is re-rooted on the active branch (the new root becomes a
+ * keyframe); branches forking off the dropped entries are removed.
+ * Walks the whole tree, so entries of loaded or imported histories that
+ * lead to no branch head are dropped as well.
+ */
+export function limitHistory<T>(
+  history: HistoryState<T>,
+  maxHistory: number
+): HistoryState<T> {
+  const overflow = history.index - maxHistory;
+  if (overflow <= 0) {
+    return history;
+  }
+
+  const rootId = history.path[overflow];
+  const kept = collectSubtree(history.nodes, rootId);
+  const removed = new Set(
+    [...history.nodes.keys()].filter((id) => !kept.has(id))
+  );
+  const { nodes, branches } = removeNodes(history, removed);
+  const root = nodes.get(rootId)!;
+  nodes.set(
+    rootId,
+    createRootNode(
+      root.entry,
+      root.keyframe ? root.keyframe.state : materialize(history.nodes, rootId),
+      root.depth
+    )
+  );
+
+  return {
+    nodes,
+    branches,
+    branchId: history.branchId,
+    path: history.path.slice(overflow),
+    index: history.index - overflow,
+    present: history.present,
+  };
+}
@@ -0,0 +1,21 @@
+export { useHistory } from "./useHistory";
+export { HISTORY_FORMAT_VERSION } from "./persistence";
+
+export type {
+  UseHistoryOptions,
+  UseHistoryReturn,
+  InitialState,
+  HistoryAction,
+  HistoryEntry,
+  SetOptions,
+  SetHistoryState,
+  BatchControls,
+  HistoryMiddleware,
+  HistoryMiddlewareEntry,
+  HistoryBranch,
+  HistoryDocument,
+  HistoryDocumentEntry,
+  PatchOperation,
+  HistoryStorageType,
+  PersistOptions,
+} from "./types";
@@ -0,0 +1,351 @@
+/**
+ * Internal persistence helpers for the useHistory hook
+ * Converts history to and from the versioned document format and
+ * resolves the Web Storage used by the persist option.
+ *
+ * @internal This module is not exported publicly (except HISTORY_FORMAT_VERSION)
+ */
+
+import {
+  createBranch,
+  createChildNode,
+  createId,
+  createRootNode,
+  materialize,
+  type HistoryEntryInfo,
+  type HistoryNode,
+  type HistoryState,
+} from "./core";
+import type {
+  HistoryBranch,
+  HistoryDocument,
+  HistoryDocumentEntry,
+  HistoryStorageType,
+} from "./types";
+import { isPatchOperation } from "./utils/patch";
+
+/**
+ * Current version of the history document format
+ * - 1: linear { past, present, future }
+ * - 2: entry tree with branches, full state on every entry
+ * - 3: entry tree with branches, patches with periodic keyframes
+ */
+export const HISTORY_FORMAT_VERSION = 3;
+
+/**
+ * Entry of a version 1 or 2 document, storing the full state
+ */
+interface FullStateEntry extends HistoryEntryInfo {
+  state: unknown;
+  parentId: string | null;
+}
+
+/**
+ * Create a versioned document from the history
+ */
+export function toDocument<T>(history: HistoryState<T>): HistoryDocument<T> {
+  return {
+    version: HISTORY_FORMAT_VERSION,
+    entries: [...history.nodes.values()].map((node) => {
+      const entry: HistoryDocumentEntry<T> = {
+        ...node.entry,
+        parentId: node.parentId,
+        patch: node.patch,
+        inversePatch: node.inversePatch,
+      };
+      if (node.keyframe) {
+        entry.state = node.keyframe.state;
+      }
+      return entry;
+    }),
+    branches: history.branches,
+    currentBranchId: history.branchId,
+    currentId: history.path[history.index],
+  };
+}
+
+/**
+ * Check whether a value has the shape of a history entry (without state)
+ * (ids are optional because version 1 documents have none)
+ */
+function isEntryInfo(value: unknown): value is HistoryEntryInfo {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.timestamp === "number" &&
+    typeof entry.action === "string" &&
+    (entry.label === undefined || typeof entry.label === "string") &&
+    (entry.meta === undefined ||
+      (typeof entry.meta === "object" && entry.meta !== null))
+  );
+}
+
+/**
+ * Check whether a value is a list of patch operations
+ */
+function isPatch(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isPatchOperation);
+}
+
+/**
+ * Check whether a value has the shape of a version 1 or 2 entry
+ */
+function isFullStateEntry(value: unknown): value is HistoryEntryInfo & {
+  state: unknown;
+} {
+  return isEntryInfo(value) && "state" in value;
+}
+
+/**
+ * Check whether a value has the shape of a version 3 entry
+ */
+function isPatchEntry(value: unknown): value is HistoryDocumentEntry<unknown> {
+  return (
+    isEntryInfo(value) &&
+    isPatch((value as HistoryDocumentEntry<unknown>).patch) &&
+    isPatch((value as HistoryDocumentEntry<unknown>).inversePatch)
+  );
+}
+
+/**
+ * Check whether a value has the shape of a branch
+ */
+function isHistoryBranch(value: unknown): value is HistoryBranch {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const branch = value as Record<string, unknown>;
+  return (
+    typeof branch.id === "string" &&
+    typeof branch.headId === "string" &&
+    typeof branch.createdAt === "number" &&
+    (branch.name === undefined || typeof branch.name === "string")
+  );
+}
+
+/**
+ * Convert a version 1 (linear) document into a version 2 document
+ */
+function migrateLinearDocument(document: Record<string, unknown>): {
+  entries: FullStateEntry[];
+  branches: HistoryBranch[];
+  currentBranchId: string;
+  currentId: string;
+} | null {
+  const { past, present, future } = document;
+
+  if (
+    !Array.isArray(past) ||
+    !Array.isArray(future) ||
+    !past.every(isFullStateEntry) ||
+    !future.every(isFullStateEntry) ||
+    !isFullStateEntry(present)
+  ) {
+    return null;
+  }
+
+  const line = [...past, present, ...future].map((entry) => ({
+    ...entry,
+    id: createId("entry"),
+  }));
+  const entries = line.map((entry, index) => ({
+    ...entry,
+    parentId: index === 0 ? null : line[index - 1].id,
+  }));
+  const branch = createBranch(line[line.length - 1].id, "main");
+
+  return {
+    entries,
+    branches: [branch],
+    currentBranchId: branch.id,
+    currentId: line[past.length].id,
+  };
+}
+
+/**
+ * Calculate the depth of every entry, guarding against missing parents and cycles
+ * @returns Map of entry id -> depth, or null if an entry does not lead back to a root
+ */
+function computeDepths(
+  parents: Record<string, string | null>
+): Record<string, number> | null {
+  const depths: Record<string, number> = {};
+
+  for (const id of Object.keys(parents)) {
+    const chain: string[] = [];
+    const visited = new Set<string>();
+    let current: string | null = id;
+
+    while (current !== null && depths[current] === undefined) {
+      if (!(current in parents) || visited.has(current)) {
+        return null;
+      }
+      visited.add(current);
+      chain.push(current);
+      current = parents[current];
+    }
+
+    let depth = current === null ? -1 : depths[current];
+    for (let i = chain.length - 1; i >= 0; i--) {
+      depth += 1;
+      depths[chain[i]] = depth;
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Build the path from the root to an entry
+ */
+function buildPath(
+  parents: Record<string, string | null>,
+  headId: string
+): string[] {
+  const path: string[] = [];
+  let id: string | null = headId;
+  while (id !== null) {
+    path.push(id);
+    id = parents[id];
+  }
+  return path.reverse();
+}
+
+/**
+ * Convert a parsed document back into history
+ * Version 1 and 2 documents are migrated to the current format; their
+ * entries are converted to patches with a keyframe every keyframeInterval entries.
+ * @returns The history, or null if the document is not a valid history document
+ */
+export function fromDocument<T>(
+  document: unknown,
+  keyframeInterval: number
+): HistoryState<T> | null {
+  if (typeof document !== "object" || document === null) {
+    return null;
+  }
+
+  const source = document as Record<string, unknown>;
+  const migrated =
+    source.version === 1
+      ? migrateLinearDocument(source)
+      : source.version === 2 || source.version === HISTORY_FORMAT_VERSION
+        ? (source as unknown as HistoryDocument<unknown>)
+        : null;
+
+  if (!migrated) {
+    return null;
+  }
+
+  const { entries, branches, currentBranchId, currentId } = migrated;
+  const hasFullStates = source.version !== HISTORY_FORMAT_VERSION;
+  if (
+    !Array.isArray(entries) ||
+    entries.length === 0 ||
+    !Array.isArray(branches) ||
+    !branches.every(isHistoryBranch)
+  ) {
+    return null;
+  }
+
+  // Validate the entries and link them to their parents
+  const items: Record<string, HistoryDocumentEntry<unknown>> = {};
+  const parents: Record<string, string | null> = {};
+  for (const value of entries as unknown[]) {
+    if (!(hasFullStates ? isFullStateEntry(value) : isPatchEntry(value))) {
+      return null;
+    }
+    const item = value as HistoryDocumentEntry<unknown>;
+    if (
+      typeof item.id !== "string" ||
+      !(item.parentId === null || typeof item.parentId === "string")
+    ) {
+      return null;
+    }
+    items[item.id] = item;
+    parents[item.id] = item.parentId;
+  }
+
+  // Every entry must lead back to the single root without cycles
+  const depths = computeDepths(parents);
+  const rootIds = Object.keys(parents).filter((id) => parents[id] === null);
+  const active = branches.find((branch) => branch.id === currentBranchId);
+  if (
+    !depths ||
+    rootIds.length !== 1 ||
+    !active ||
+    !branches.every((branch) => branch.headId in parents) ||
+    (!hasFullStates && !("state" in items[rootIds[0]]))
+  ) {
+    return null;
+  }
+
+  const path = buildPath(parents, active.headId);
+  const index = path.indexOf(currentId);
+  if (index === -1) {
+    return null;
+  }
+
+  // Rebuild the tree, parents before children
+  const nodes = new Map<string, HistoryNode<T>>();
+  const ids = Object.keys(items).sort((a, b) => depths[a] - depths[b]);
+  for (const id of ids) {
+    const { parentId, patch, inversePatch, state, ...entry } = items[id];
+    const depth = depths[id];
+
+    if (parentId === null) {
+      nodes.set(id, createRootNode(entry, state as T, depth));
+    } else if (hasFullStates) {
+      const parent = {
+        id: parentId,
+        depth: depths[parentId],
+        state: items[parentId].state as T,
+      };
+      nodes.set(
+        id,
+        createChildNode(entry, parent, state as T, keyframeInterval)
+      );
+    } else {
+      const node: HistoryNode<T> = {
+        entry,
+        parentId,
+        depth,
+        patch,
+        inversePatch,
+      };
+      if ("state" in items[id]) {
+        node.keyframe = { state: state as T };
+      }
+      nodes.set(id, node);
+    }
+  }
+
+  return {
+    nodes,
+    branches,
+    branchId: active.id,
+    path,
+    index,
+    present: materialize(nodes, currentId),
+  };
+}
+
+/**
+ * Resolve the Web Storage for the given type
+ * @returns The storage, or null during SSR or when storage access is blocked
+ */
+export function getStorage(type: HistoryStorageType): Storage | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    return type === "session" ? window.sessionStorage : window.localStorage;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Type for initial state that can be a value or a function returning a value (lazy initialization)
+ */
+export type InitialState<T> = T | (() => T);
+
+/**
+ * How a history entry was created
+ * - init: initial state (or the state after reset)
+ * - set: a single set() call (or a debounced group of set() calls)
+ * - batch: all changes made inside a batch() call
+ */
+export type HistoryAction = "init" | "set" | "batch";
+
+/**
+ * A single step in the history
+ */
+export interface HistoryEntry<T> {
+  /** Unique id of this step */
+  id: string;
+  /** State at this step */
+  state: T;
+  /** Optional description of the change */
+  label?: string;
+  /** Timestamp when this step was recorded (Date.now()) */
+  timestamp: number;
+  /** How this step was created */
+  action: HistoryAction;
+  /** Custom data attached by middleware */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * A single structural change between two states (JSON Patch style).
+ * The path is a JSON Pointer into the state, e.g. "/blocks/0/text"
+ * ("" addresses the whole state).
+ */
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string };
+
+/**
+ * A line of history ending at a head entry.
+ * A new branch is created whenever a change is made after undoing
+ * (when branching is enabled).
+ */
+export interface HistoryBranch {
+  /** Unique id of this branch */
+  id: string;
+  /** Optional display name (the initial branch is named "main") */
+  name?: string;
+  /** Id of the newest entry on this branch */
+  headId: string;
+  /** Timestamp when this branch was created (Date.now()) */
+  createdAt: number;
+}
+
+/**
+ * Options accepted by set() and batch()
+ */
+export interface SetOptions {
+  /** Description of the change, stored on the history entry */
+  label?: string;
+}
+
+/**
+ * Setter function - same signature as useState setter with optional entry options
+ */
+export type SetHistoryState<T> = (
+  value: React.SetStateAction<T>,
+  options?: SetOptions
+) => void;
+
+/**
+ * Controls passed to the batch() callback
+ */
+export interface BatchControls<T> {
+  /** Change the working state of the batch without recording a step */
+  set: (value: React.SetStateAction<T>) => void;
+  /** Read the working state of the batch */
+  getState: () => T;
+}
+
+/**
+ * A change about to be recorded, as seen by middleware
+ */
+export interface HistoryMiddlewareEntry<T> {
+  /** State to record */
+  state: T;
+  /** State of the current entry */
+  previousState: T;
+  /** How the change was made */
+  action: HistoryAction;
+  /** Description of the change */
+  label?: string;
+  /** Custom data to attach to the entry */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Middleware run before a change is recorded.
+ * Call next() with the (possibly transformed or annotated) entry to continue;
+ * not calling it vetoes the change. next() must be called synchronously.
+ *
+ * @example
+ * ```ts
+ * const stripHover: HistoryMiddleware<Doc> = (entry, next) => {
+ *   next({ ...entry, state: { ...entry.state, hovered: null } });
+ * };
+ * ```
+ */
+export type HistoryMiddleware<T> = (
+  entry: HistoryMiddlewareEntry<T>,
+  next: (entry: HistoryMiddlewareEntry<T>) => void
+) => void;
+
+/**
+ * Web Storage used to persist the history
+ */
+export type HistoryStorageType = "local" | "session";
+
+/**
+ * History entry as stored in a document, linked to its parent entry.
+ * Only keyframes (always the root) store the full state; every other
+ * entry is rebuilt by applying its patch to the parent state.
+ */
+export interface HistoryDocumentEntry<T> extends Omit<HistoryEntry<T>, "state"> {
+  /** Id of the parent entry (null for the root) */
+  parentId: string | null;
+  /** Operations turning the parent state into this state */
+  patch: PatchOperation[];
+  /** Operations turning this state back into the parent state */
+  inversePatch: PatchOperation[];
+  /** Full state (keyframes only) */
+  state?: T;
+}
+
+/**
+ * Versioned document used for persistence and import/export
+ */
+export interface HistoryDocument<T> {
+  /** Format version of the document */
+  version: number;
+  /** All entries of the history tree, parents before children */
+  entries: HistoryDocumentEntry<T>[];
+  /** All branches */
+  branches: HistoryBranch[];
+  /** Id of the active branch */
+  currentBranchId: string;
+  /** Id of the present entry */
+  currentId: string;
+}
+
+/**
+ * Options for persisting the history in localStorage or sessionStorage
+ */
+export interface PersistOptions<T> {
+  /** Storage key to store the history under */
+  key: string;
+  /**
+   * Which Web Storage to use
+   * @default "local"
+   */
+  storage?: HistoryStorageType;
+  /**
+   * Custom serializer for the history document
+   * (also used by exportHistory)
+   * @default JSON.stringify
+   */
+  serializer?: (document: HistoryDocument<T>) => string;
+  /**
+   * Custom deserializer for the history document
+   * (also used by importHistory)
+   * @default JSON.parse
+   */
+  deserializer?: (raw: string) => HistoryDocument<T>;
+  /**
+   * Whether to sync the history across browser tabs via storage event
+   * @default true
+   */
+  syncTabs?: boolean;
+  /**
+   * Callback function called when reading or writing the storage fails
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Options for useHistory hook
+ */
+export interface UseHistoryOptions<T = unknown> {
+  /**
+   * Maximum number of undo steps kept in history.
+   * The oldest entries are dropped when the limit is exceeded.
+   * @default 100
+   */
+  maxHistory?: number;
+  /**
+   * Group consecutive set() calls made within this many milliseconds
+   * of each other into a single history entry. 0 disables grouping.
+   * @default 0
+   */
+  debounce?: number;
+  /**
+   * Keep the redo steps when a change is made after undoing by moving
+   * them to their own branch, instead of discarding them.
+   * @default false
+   */
+  enableBranching?: boolean;
+  /**
+   * Store the full state on every n-th entry (keyframe). All other entries
+   * only store the patch from their parent, so lower values make jumping
+   * to distant entries faster at the cost of memory.
+   * @default 50
+   */
+  keyframeInterval?: number;
+  /**
+   * Only record changes inside these paths (dot notation, e.g. "blocks" or "meta.title").
+   * Changes to other paths update the state without creating an undo step
+   * and are left untouched by undo/redo.
+   */
+  track?: string[];
+  /**
+   * Never record changes inside these paths (dot notation, e.g. "ui.selection").
+   * Takes precedence over track.
+   */
+  ignore?: string[];
+  /**
+   * Functions run in order before every change is recorded.
+   * Each can veto, transform or annotate the entry.
+   */
+  middleware?: HistoryMiddleware<T>[];
+  /**
+   * Persist the history so it survives reloads.
+   * Components using the same key stay in sync.
+   */
+  persist?: PersistOptions<T>;
+}
+
+/**
+ * Return type for useHistory hook
+ */
+export interface UseHistoryReturn<T> {
+  /** Current state */
+  state: T;
+  /** Set a new state and record it as a history step */
+  set: SetHistoryState<T>;
+  /**
+   * Run several changes as one transaction that is recorded as a single step.
+   * If the callback throws, none of its changes are applied.
+   */
+  batch: (fn: (controls: BatchControls<T>) => void, options?: SetOptions) => void;
+  /** Go back to the previous state */
+  undo: () => void;
+  /** Go forward to the next state */
+  redo: () => void;
+  /** Jump to a position on the current branch (0 is the oldest entry) */
+  goTo: (index: number) => void;
+  /**
+   * Get the operations turning the state at one position of the current
+   * branch into the state at another (empty for invalid positions)
+   */
+  getDiff: (fromIndex: number, toIndex: number) => PatchOperation[];
+  /** Drop all undo/redo steps while keeping the current state */
+  clear: () => void;
+  /** Return to the initial state and drop all undo/redo steps */
+  reset: () => void;
+  /** Whether there is a previous state to go back to */
+  canUndo: boolean;
+  /** Whether there is a next state to go forward to */
+  canRedo: boolean;
+  /**
+   * Entries before the current one, oldest first.
+   * The state of an entry is rebuilt from the stored patches when it is first read.
+   */
+  past: HistoryEntry<T>[];
+  /** The current entry */
+  present: HistoryEntry<T>;
+  /** Entries after the current one, nearest first */
+  future: HistoryEntry<T>[];
+  /** Position of the current entry in currentPath (equals past.length) */
+  currentIndex: number;
+  /** Entries of the current branch from the oldest to its head (past + present + future) */
+  currentPath: HistoryEntry<T>[];
+  /** All branches, in creation order */
+  branches: HistoryBranch[];
+  /** Id of the current branch */
+  currentBranchId: string;
+  /** Activate a branch and move to its newest entry */
+  switchBranch: (branchId: string) => void;
+  /** Give a branch a display name (undefined removes the name) */
+  renameBranch: (branchId: string, name: string | undefined) => void;
+  /** Serialize the whole history into a versioned document string */
+  exportHistory: () => string;
+  /**
+   * Replace the history with a document created by exportHistory.
+   * Returns false (and keeps the current history) if the document is invalid.
+   */
+  importHistory: (serialized: string) => boolean;
+}
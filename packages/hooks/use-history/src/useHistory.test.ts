@@ -0,0 +1,1436 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { useHistory } from "./useHistory";
+import { clearAllListeners } from "./store";
+import { HISTORY_FORMAT_VERSION } from "./persistence";
+
+describe("useHistory", () => {
+  describe("initialization", () => {
+    it("should initialize with given state", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      expect(result.current.state).toBe(0);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should support lazy initialization with function", () => {
+      const initializer = vi.fn(() => ({ count: 1 }));
+
+      const { result, rerender } = renderHook(() => useHistory(initializer));
+
+      expect(result.current.state).toEqual({ count: 1 });
+
+      rerender();
+      expect(initializer).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return all required properties", () => {
+      const { result } = renderHook(() => useHistory("value"));
+
+      expect(typeof result.current.set).toBe("function");
+      expect(typeof result.current.undo).toBe("function");
+      expect(typeof result.current.redo).toBe("function");
+      expect(typeof result.current.clear).toBe("function");
+      expect(typeof result.current.reset).toBe("function");
+      expect(typeof result.current.canUndo).toBe("boolean");
+      expect(typeof result.current.canRedo).toBe("boolean");
+      expect(typeof result.current.batch).toBe("function");
+      expect(typeof result.current.goTo).toBe("function");
+      expect(Array.isArray(result.current.past)).toBe(true);
+      expect(Array.isArray(result.current.future)).toBe(true);
+    });
+  });
+
+  describe("set", () => {
+    it("should update state with a value", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(5);
+      });
+
+      expect(result.current.state).toBe(5);
+      expect(result.current.canUndo).toBe(true);
+    });
+
+    it("should support functional updates", () => {
+      const { result } = renderHook(() => useHistory(1));
+
+      act(() => {
+        result.current.set((prev) => prev + 1);
+        result.current.set((prev) => prev * 10);
+      });
+
+      expect(result.current.state).toBe(20);
+    });
+
+    it("should not record a step when the value is unchanged", () => {
+      const { result } = renderHook(() => useHistory("same"));
+
+      act(() => {
+        result.current.set("same");
+      });
+
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should work with object state", () => {
+      const { result } = renderHook(() =>
+        useHistory({ title: "", done: false })
+      );
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, title: "Hello" }));
+      });
+
+      expect(result.current.state).toEqual({ title: "Hello", done: false });
+    });
+  });
+
+  describe("undo/redo", () => {
+    it("should undo to previous state", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.canRedo).toBe(true);
+    });
+
+    it("should redo to next state", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.undo();
+      });
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should not undo when canUndo is false", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe(0);
+    });
+
+    it("should not redo when canRedo is false", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.redo();
+      });
+
+      expect(result.current.state).toBe(1);
+    });
+
+    it("should discard redo stack when setting after undo", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.undo();
+        result.current.set(3);
+      });
+
+      expect(result.current.state).toBe(3);
+      expect(result.current.canRedo).toBe(false);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state).toBe(1);
+    });
+
+    it("should handle rapid consecutive undo/redo", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.set(3);
+      });
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+        result.current.undo();
+        result.current.undo();
+      });
+      expect(result.current.state).toBe(0);
+
+      act(() => {
+        result.current.redo();
+        result.current.redo();
+      });
+      expect(result.current.state).toBe(2);
+    });
+  });
+
+  describe("maxHistory", () => {
+    it("should limit history to maxHistory", () => {
+      const { result } = renderHook(() => useHistory(0, { maxHistory: 2 }));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.set(3);
+      });
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should keep a single step with maxHistory = 1", () => {
+      const { result } = renderHook(() => useHistory("a", { maxHistory: 1 }));
+
+      act(() => {
+        result.current.set("b");
+        result.current.set("c");
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe("b");
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should disable undo with maxHistory = 0", () => {
+      const { result } = renderHook(() => useHistory(0, { maxHistory: 0 }));
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
+  describe("clear and reset", () => {
+    it("should clear history but keep current state", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.undo();
+      });
+      act(() => {
+        result.current.clear();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should reset to initial state", () => {
+      const { result } = renderHook(() => useHistory({ count: 0 }));
+
+      act(() => {
+        result.current.set({ count: 1 });
+        result.current.set({ count: 2 });
+      });
+      act(() => {
+        result.current.reset();
+      });
+
+      expect(result.current.state).toEqual({ count: 0 });
+      expect(result.current.canUndo).toBe(false);
+      expect(result.current.canRedo).toBe(false);
+    });
+  });
+
+  describe("labels and entries", () => {
+    it("should expose past, present and future entries", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1, { label: "one" });
+        result.current.set(2, { label: "two" });
+        result.current.undo();
+      });
+
+      expect(result.current.past.map((e) => e.state)).toEqual([0]);
+      expect(result.current.present).toMatchObject({
+        state: 1,
+        label: "one",
+        action: "set",
+      });
+      expect(result.current.future).toHaveLength(1);
+      expect(result.current.future[0]).toMatchObject({ state: 2, label: "two" });
+      expect(result.current.currentIndex).toBe(1);
+    });
+
+    it("should mark the initial entry with init action", () => {
+      const { result } = renderHook(() => useHistory("start"));
+
+      expect(result.current.present.action).toBe("init");
+      expect(result.current.present.label).toBeUndefined();
+      expect(typeof result.current.present.timestamp).toBe("number");
+    });
+  });
+
+  describe("goTo", () => {
+    it("should jump to a specific index", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.set(3);
+      });
+      act(() => {
+        result.current.goTo(1);
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.currentIndex).toBe(1);
+      expect(result.current.future.map((e) => e.state)).toEqual([2, 3]);
+
+      act(() => {
+        result.current.goTo(3);
+      });
+      expect(result.current.state).toBe(3);
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it("should ignore out of range indexes", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+      });
+      act(() => {
+        result.current.goTo(-1);
+        result.current.goTo(5);
+        result.current.goTo(0.5);
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.currentIndex).toBe(1);
+    });
+  });
+
+  describe("debounce", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should group rapid changes into single history entry", () => {
+      const { result } = renderHook(() => useHistory("", { debounce: 300 }));
+
+      act(() => {
+        result.current.set("h");
+        vi.advanceTimersByTime(100);
+        result.current.set("he");
+        vi.advanceTimersByTime(100);
+        result.current.set("hey");
+      });
+
+      expect(result.current.state).toBe("hey");
+      expect(result.current.past).toHaveLength(1);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state).toBe("");
+    });
+
+    it("should create separate entries after debounce period", () => {
+      const { result } = renderHook(() => useHistory("", { debounce: 300 }));
+
+      act(() => {
+        result.current.set("a");
+        vi.advanceTimersByTime(300);
+        result.current.set("ab");
+      });
+
+      expect(result.current.past.map((e) => e.state)).toEqual(["", "a"]);
+    });
+
+    it("should start a new group after undo", () => {
+      const { result } = renderHook(() => useHistory(0, { debounce: 300 }));
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.undo();
+        result.current.set(3);
+      });
+
+      expect(result.current.state).toBe(3);
+      expect(result.current.past.map((e) => e.state)).toEqual([0]);
+    });
+
+    it("should keep the group label unless a new one is given", () => {
+      const { result } = renderHook(() => useHistory("", { debounce: 300 }));
+
+      act(() => {
+        result.current.set("a", { label: "Typing" });
+        result.current.set("ab");
+      });
+
+      expect(result.current.present.label).toBe("Typing");
+    });
+  });
+
+  describe("batch", () => {
+    it("should group multiple changes into single undo", () => {
+      const { result } = renderHook(() => useHistory({ color: "red", size: 1 }));
+
+      act(() => {
+        result.current.batch(
+          ({ set }) => {
+            set((s) => ({ ...s, color: "blue" }));
+            set((s) => ({ ...s, size: 2 }));
+          },
+          { label: "Apply preset" }
+        );
+      });
+
+      expect(result.current.state).toEqual({ color: "blue", size: 2 });
+      expect(result.current.past).toHaveLength(1);
+      expect(result.current.present).toMatchObject({
+        action: "batch",
+        label: "Apply preset",
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state).toEqual({ color: "red", size: 1 });
+    });
+
+    it("should collect the hook set() calls made inside the batch", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.batch(({ getState }) => {
+          result.current.set(1);
+          result.current.set((prev) => prev + 1);
+          expect(getState()).toBe(2);
+        });
+      });
+
+      expect(result.current.state).toBe(2);
+      expect(result.current.past).toHaveLength(1);
+    });
+
+    it("should merge nested batches into the outer one", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.batch(({ set }) => {
+          set(1);
+          result.current.batch(({ set: innerSet }) => {
+            innerSet(2);
+          });
+          set((prev) => prev + 1);
+        });
+      });
+
+      expect(result.current.state).toBe(3);
+      expect(result.current.past).toHaveLength(1);
+    });
+
+    it("should not record a step when the batch changes nothing", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.batch(({ set }) => {
+          set(1);
+          set(0);
+        });
+      });
+
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should discard changes when the batch throws", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      expect(() =>
+        act(() => {
+          result.current.batch(({ set }) => {
+            set(1);
+            throw new Error("failed");
+          });
+        })
+      ).toThrow("failed");
+
+      expect(result.current.state).toBe(0);
+      expect(result.current.canUndo).toBe(false);
+
+      act(() => {
+        result.current.set(5);
+      });
+      expect(result.current.past).toHaveLength(1);
+    });
+  });
+
+  describe("branching", () => {
+    it("should start with a single main branch", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      expect(result.current.branches).toHaveLength(1);
+      expect(result.current.branches[0].name).toBe("main");
+      expect(result.current.currentBranchId).toBe(result.current.branches[0].id);
+    });
+
+    it("should create a branch when setting after undo", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.undo();
+        result.current.set(3);
+      });
+
+      expect(result.current.state).toBe(3);
+      expect(result.current.canRedo).toBe(false);
+      expect(result.current.branches).toHaveLength(2);
+      expect(result.current.currentBranchId).toBe(result.current.branches[1].id);
+      expect(result.current.currentPath.map((e) => e.state)).toEqual([0, 1, 3]);
+    });
+
+    it("should switch between branches without losing work", () => {
+      const { result } = renderHook(() =>
+        useHistory("a", { enableBranching: true })
+      );
+
+      act(() => {
+        result.current.set("b");
+        result.current.set("c");
+        result.current.undo();
+        result.current.set("x");
+      });
+
+      const [main, alternative] = result.current.branches;
+
+      act(() => {
+        result.current.switchBranch(main.id);
+      });
+      expect(result.current.state).toBe("c");
+      expect(result.current.currentPath.map((e) => e.state)).toEqual([
+        "a",
+        "b",
+        "c",
+      ]);
+
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+        result.current.switchBranch(alternative.id);
+      });
+      expect(result.current.state).toBe("x");
+      expect(result.current.currentIndex).toBe(2);
+    });
+
+    it("should grow the current branch when setting at its head", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.undo();
+        result.current.set(2);
+        result.current.set(3);
+      });
+
+      const current = result.current.branches.find(
+        (b) => b.id === result.current.currentBranchId
+      )!;
+      expect(result.current.branches).toHaveLength(2);
+      expect(current.headId).toBe(result.current.present.id);
+    });
+
+    it("should ignore unknown branch ids", () => {
+      const { result } = renderHook(() => useHistory(0));
+      const before = result.current.currentBranchId;
+
+      act(() => {
+        result.current.switchBranch("unknown");
+        result.current.renameBranch("unknown", "name");
+      });
+
+      expect(result.current.currentBranchId).toBe(before);
+      expect(result.current.branches[0].name).toBe("main");
+    });
+
+    it("should name branches", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.undo();
+        result.current.set(2);
+      });
+      act(() => {
+        result.current.renameBranch(result.current.currentBranchId, "experiment");
+      });
+
+      expect(result.current.branches[1].name).toBe("experiment");
+
+      act(() => {
+        result.current.renameBranch(result.current.currentBranchId, undefined);
+      });
+      expect(result.current.branches[1]).not.toHaveProperty("name");
+    });
+
+    it("should drop branches forking off trimmed entries", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true, maxHistory: 2 })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.undo();
+        result.current.set(2);
+        result.current.set(3);
+        result.current.set(4);
+      });
+
+      expect(result.current.branches).toHaveLength(1);
+      expect(result.current.currentPath.map((e) => e.state)).toEqual([2, 3, 4]);
+    });
+
+    it("should drop other branches on clear", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.undo();
+        result.current.set(2);
+      });
+      act(() => {
+        result.current.clear();
+      });
+
+      expect(result.current.branches).toHaveLength(1);
+      expect(result.current.state).toBe(2);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should restore branches from storage", () => {
+      window.localStorage.clear();
+      clearAllListeners();
+
+      const first = renderHook(() =>
+        useHistory(0, { enableBranching: true, persist: { key: "tree" } })
+      );
+      act(() => {
+        first.result.current.set(1);
+        first.result.current.undo();
+        first.result.current.set(2);
+      });
+      first.unmount();
+
+      const { result } = renderHook(() =>
+        useHistory(0, { enableBranching: true, persist: { key: "tree" } })
+      );
+
+      expect(result.current.state).toBe(2);
+      expect(result.current.branches).toHaveLength(2);
+
+      act(() => {
+        result.current.switchBranch(result.current.branches[0].id);
+      });
+      expect(result.current.state).toBe(1);
+    });
+  });
+
+  describe("persistence", () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+      window.sessionStorage.clear();
+      clearAllListeners();
+    });
+
+    it("should save to storage", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { persist: { key: "history" } })
+      );
+
+      act(() => {
+        result.current.set(1, { label: "one" });
+      });
+
+      const stored = JSON.parse(window.localStorage.getItem("history")!);
+      expect(stored.version).toBe(HISTORY_FORMAT_VERSION);
+      expect(stored.entries).toHaveLength(2);
+      expect(stored.currentId).toBe(result.current.present.id);
+      expect(stored.entries[0].state).toBe(0);
+      expect(stored.entries[1]).toMatchObject({
+        label: "one",
+        parentId: stored.entries[0].id,
+        patch: [{ op: "replace", path: "", value: 1 }],
+        inversePatch: [{ op: "replace", path: "", value: 0 }],
+      });
+      expect(stored.entries[1]).not.toHaveProperty("state");
+    });
+
+    it("should load from storage on init", () => {
+      const first = renderHook(() =>
+        useHistory("a", { persist: { key: "history" } })
+      );
+      act(() => {
+        first.result.current.set("b");
+        first.result.current.set("c");
+        first.result.current.undo();
+      });
+      first.unmount();
+
+      const { result } = renderHook(() =>
+        useHistory("a", { persist: { key: "history" } })
+      );
+
+      expect(result.current.state).toBe("b");
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.canRedo).toBe(true);
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.state).toBe("c");
+    });
+
+    it("should use sessionStorage when storage is session", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { persist: { key: "history", storage: "session" } })
+      );
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      expect(window.sessionStorage.getItem("history")).not.toBeNull();
+      expect(window.localStorage.getItem("history")).toBeNull();
+    });
+
+    it("should support custom serializer and deserializer", () => {
+      const serializer = vi.fn((doc: unknown) => "custom:" + JSON.stringify(doc));
+      const deserializer = vi.fn((raw: string) =>
+        JSON.parse(raw.slice("custom:".length))
+      );
+      const persist = { key: "history", serializer, deserializer };
+
+      const first = renderHook(() => useHistory(0, { persist }));
+      act(() => {
+        first.result.current.set(7);
+      });
+      first.unmount();
+
+      expect(window.localStorage.getItem("history")).toMatch(/^custom:/);
+
+      const { result } = renderHook(() => useHistory(0, { persist }));
+      expect(result.current.state).toBe(7);
+      expect(deserializer).toHaveBeenCalled();
+    });
+
+    it("should fall back to initial state and call onError for invalid data", () => {
+      window.localStorage.setItem("history", "invalid json {{{");
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useHistory("initial", { persist: { key: "history", onError } })
+      );
+
+      expect(result.current.state).toBe("initial");
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it("should ignore documents with an unknown version", () => {
+      window.localStorage.setItem(
+        "history",
+        JSON.stringify({
+          version: 999,
+          past: [],
+          present: { state: "stale", timestamp: 0, action: "set" },
+          future: [],
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useHistory("initial", { persist: { key: "history" } })
+      );
+
+      expect(result.current.state).toBe("initial");
+    });
+
+    it("should keep components using the same key in sync", () => {
+      const a = renderHook(() => useHistory(0, { persist: { key: "shared" } }));
+      const b = renderHook(() => useHistory(0, { persist: { key: "shared" } }));
+
+      act(() => {
+        a.result.current.set(3);
+      });
+
+      expect(b.result.current.state).toBe(3);
+      expect(b.result.current.canUndo).toBe(true);
+    });
+
+    it("should sync across tabs via storage event", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, { persist: { key: "history" } })
+      );
+
+      const otherTab = renderHook(() => useHistory(0));
+      act(() => {
+        otherTab.result.current.set(9);
+      });
+      const raw = otherTab.result.current.exportHistory();
+
+      act(() => {
+        window.localStorage.setItem("history", raw);
+        window.dispatchEvent(
+          new StorageEvent("storage", { key: "history", newValue: raw })
+        );
+      });
+
+      expect(result.current.state).toBe(9);
+    });
+
+    it("should trim loaded history to maxHistory", () => {
+      const first = renderHook(() =>
+        useHistory(0, { persist: { key: "history" } })
+      );
+      act(() => {
+        first.result.current.set(1);
+        first.result.current.set(2);
+        first.result.current.set(3);
+      });
+      first.unmount();
+
+      const { result } = renderHook(() =>
+        useHistory(0, { maxHistory: 1, persist: { key: "history" } })
+      );
+
+      expect(result.current.past.map((e) => e.state)).toEqual([2]);
+    });
+  });
+
+  describe("import/export", () => {
+    it("should export a versioned document", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1, { label: "one" });
+      });
+
+      const exported = JSON.parse(result.current.exportHistory());
+      expect(exported.version).toBe(HISTORY_FORMAT_VERSION);
+      expect(exported.entries).toHaveLength(2);
+      expect(exported.currentId).toBe(result.current.present.id);
+      expect(exported.currentBranchId).toBe(result.current.currentBranchId);
+      expect(exported.branches).toEqual(result.current.branches);
+    });
+
+    it("should import an exported history", () => {
+      const source = renderHook(() => useHistory({ text: "" }));
+      act(() => {
+        source.result.current.set({ text: "a" });
+        source.result.current.set({ text: "ab" });
+        source.result.current.undo();
+      });
+      const exported = source.result.current.exportHistory();
+
+      const { result } = renderHook(() => useHistory({ text: "" }));
+      let imported = false;
+      act(() => {
+        imported = result.current.importHistory(exported);
+      });
+
+      expect(imported).toBe(true);
+      expect(result.current.state).toEqual({ text: "a" });
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.canRedo).toBe(true);
+    });
+
+    it("should reject invalid documents", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      let imported = true;
+      act(() => {
+        imported = result.current.importHistory("not json");
+      });
+      expect(imported).toBe(false);
+
+      act(() => {
+        imported = result.current.importHistory(
+          JSON.stringify({ version: HISTORY_FORMAT_VERSION, past: "nope" })
+        );
+      });
+      expect(imported).toBe(false);
+      expect(result.current.state).toBe(1);
+    });
+
+    it("should reject documents with broken parent links", () => {
+      const { result } = renderHook(() => useHistory(0));
+      act(() => {
+        result.current.set(1);
+      });
+
+      const document = JSON.parse(result.current.exportHistory());
+      document.entries[1].parentId = "missing";
+
+      let imported = true;
+      act(() => {
+        imported = result.current.importHistory(JSON.stringify(document));
+      });
+      expect(imported).toBe(false);
+    });
+
+    it("should migrate version 1 (linear) documents", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      let imported = false;
+      act(() => {
+        imported = result.current.importHistory(
+          JSON.stringify({
+            version: 1,
+            past: [{ state: 0, timestamp: 1, action: "init" }],
+            present: { state: 1, label: "one", timestamp: 2, action: "set" },
+            future: [{ state: 2, timestamp: 3, action: "set" }],
+          })
+        );
+      });
+
+      expect(imported).toBe(true);
+      expect(result.current.state).toBe(1);
+      expect(result.current.present.label).toBe("one");
+      expect(result.current.currentPath.map((e) => e.state)).toEqual([0, 1, 2]);
+      expect(result.current.branches).toHaveLength(1);
+    });
+
+    it("should migrate version 2 (full state) documents", () => {
+      const { result } = renderHook(() => useHistory({ count: 0 }));
+
+      let imported = false;
+      act(() => {
+        imported = result.current.importHistory(
+          JSON.stringify({
+            version: 2,
+            entries: [
+              { id: "a", state: { count: 0 }, timestamp: 1, action: "init", parentId: null },
+              { id: "b", state: { count: 1 }, timestamp: 2, action: "set", parentId: "a" },
+              { id: "c", state: { count: 2 }, timestamp: 3, action: "set", parentId: "b" },
+            ],
+            branches: [{ id: "main", name: "main", headId: "c", createdAt: 1 }],
+            currentBranchId: "main",
+            currentId: "b",
+          })
+        );
+      });
+
+      expect(imported).toBe(true);
+      expect(result.current.state).toEqual({ count: 1 });
+      expect(result.current.getDiff(1, 2)).toEqual([
+        { op: "replace", path: "/count", value: 2 },
+      ]);
+
+      const exported = JSON.parse(result.current.exportHistory());
+      expect(exported.version).toBe(HISTORY_FORMAT_VERSION);
+      expect(exported.entries[2]).not.toHaveProperty("state");
+    });
+
+    it("should reject documents without a root keyframe", () => {
+      const { result } = renderHook(() => useHistory(0));
+      act(() => {
+        result.current.set(1);
+      });
+
+      const document = JSON.parse(result.current.exportHistory());
+      delete document.entries[0].state;
+
+      let imported = true;
+      act(() => {
+        imported = result.current.importHistory(JSON.stringify(document));
+      });
+      expect(imported).toBe(false);
+    });
+  });
+
+  describe("structural diffs", () => {
+    type Doc = { title: string; items: { id: number; done: boolean }[] };
+    const initialDoc: Doc = {
+      title: "list",
+      items: [
+        { id: 1, done: false },
+        { id: 2, done: false },
+      ],
+    };
+
+    it("should return the diff between adjacent entries", () => {
+      const { result } = renderHook(() => useHistory(initialDoc));
+
+      act(() => {
+        result.current.set((doc) => ({
+          ...doc,
+          items: doc.items.map((item) =>
+            item.id === 2 ? { ...item, done: true } : item
+          ),
+        }));
+      });
+
+      expect(result.current.getDiff(0, 1)).toEqual([
+        { op: "replace", path: "/items/1/done", value: true },
+      ]);
+      expect(result.current.getDiff(1, 0)).toEqual([
+        { op: "replace", path: "/items/1/done", value: false },
+      ]);
+    });
+
+    it("should return the diff between distant entries", () => {
+      const { result } = renderHook(() => useHistory(initialDoc));
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, title: "todo" }));
+        result.current.set((doc) => ({
+          ...doc,
+          items: [...doc.items, { id: 3, done: false }],
+        }));
+        result.current.set((doc) => ({ ...doc, title: "list" }));
+      });
+
+      expect(result.current.getDiff(0, 3)).toEqual([
+        { op: "add", path: "/items/2", value: { id: 3, done: false } },
+      ]);
+    });
+
+    it("should return an empty diff for invalid indexes", () => {
+      const { result } = renderHook(() => useHistory(0));
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      expect(result.current.getDiff(0, 0)).toEqual([]);
+      expect(result.current.getDiff(-1, 1)).toEqual([]);
+      expect(result.current.getDiff(0, 5)).toEqual([]);
+      expect(result.current.getDiff(0.5, 1)).toEqual([]);
+    });
+
+    it("should rebuild entry states from patches and keyframes", () => {
+      const { result } = renderHook(() =>
+        useHistory({ count: 0 }, { keyframeInterval: 3 })
+      );
+
+      act(() => {
+        for (let i = 1; i <= 10; i++) {
+          result.current.set({ count: i });
+        }
+      });
+
+      expect(result.current.currentPath.map((entry) => entry.state)).toEqual(
+        Array.from({ length: 11 }, (_, i) => ({ count: i }))
+      );
+
+      act(() => {
+        result.current.goTo(2);
+      });
+      expect(result.current.state).toEqual({ count: 2 });
+      expect(result.current.future[0].state).toEqual({ count: 3 });
+
+      act(() => {
+        result.current.undo();
+        result.current.undo();
+      });
+      expect(result.current.state).toEqual({ count: 0 });
+
+      act(() => {
+        result.current.goTo(10);
+      });
+      expect(result.current.state).toEqual({ count: 10 });
+    });
+
+    it("should keep unchanged parts of the state shared across undo/redo", () => {
+      const { result } = renderHook(() => useHistory(initialDoc));
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, title: "changed" }));
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toEqual(initialDoc);
+      expect(result.current.state.items).toBe(initialDoc.items);
+    });
+
+    it("should store a long history of a large object as patches", () => {
+      const large = {
+        items: Array.from({ length: 200 }, (_, id) => ({ id, value: 0 })),
+      };
+      const { result } = renderHook(() =>
+        useHistory(large, { maxHistory: Infinity })
+      );
+
+      act(() => {
+        for (let step = 1; step <= 5000; step++) {
+          result.current.set((state) => ({
+            items: state.items.map((item) =>
+              item.id === step % 200 ? { ...item, value: step } : item
+            ),
+          }));
+        }
+      });
+
+      expect(result.current.currentIndex).toBe(5000);
+
+      const exported = JSON.parse(result.current.exportHistory());
+      const keyframes = exported.entries.filter(
+        (entry: object) => "state" in entry
+      );
+      // One keyframe every 50 entries instead of 5001 full states
+      expect(keyframes).toHaveLength(101);
+      expect(JSON.stringify(exported).length).toBeLessThan(
+        JSON.stringify(large).length * 500
+      );
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state.items[4999 % 200].value).toBe(4999);
+      expect(result.current.state.items[5000 % 200].value).toBe(4800);
+
+      act(() => {
+        result.current.goTo(0);
+      });
+      expect(result.current.state).toEqual(large);
+    });
+  });
+
+  describe("middleware", () => {
+    it("should veto changes when next is not called", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, {
+          middleware: [
+            (entry, next) => {
+              if (entry.state >= 0) {
+                next(entry);
+              }
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.set(1);
+      });
+      act(() => {
+        result.current.set(-1);
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.past).toHaveLength(1);
+    });
+
+    it("should record the transformed entry", () => {
+      const { result } = renderHook(() =>
+        useHistory(
+          { text: "", hovered: false },
+          {
+            middleware: [
+              (entry, next) =>
+                next({ ...entry, state: { ...entry.state, hovered: false } }),
+            ],
+          }
+        )
+      );
+
+      act(() => {
+        result.current.set({ text: "a", hovered: true });
+      });
+
+      expect(result.current.state).toEqual({ text: "a", hovered: false });
+    });
+
+    it("should attach annotations to the entry", () => {
+      const { result } = renderHook(() =>
+        useHistory(0, {
+          middleware: [
+            (entry, next) =>
+              next({ ...entry, label: entry.label ?? "edit", meta: { user: "u1" } }),
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      expect(result.current.present.label).toBe("edit");
+      expect(result.current.present.meta).toEqual({ user: "u1" });
+
+      const exported = JSON.parse(result.current.exportHistory());
+      expect(exported.entries[1].meta).toEqual({ user: "u1" });
+    });
+
+    it("should run middleware in order", () => {
+      const calls: string[] = [];
+      const { result } = renderHook(() =>
+        useHistory(1, {
+          middleware: [
+            (entry, next) => {
+              calls.push(`first:${entry.state}`);
+              next({ ...entry, state: entry.state * 10 });
+            },
+            (entry, next) => {
+              calls.push(`second:${entry.state}`);
+              next(entry);
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.set(2);
+      });
+
+      expect(calls).toEqual(["first:2", "second:20"]);
+      expect(result.current.state).toBe(20);
+    });
+
+    it("should pass the previous state and action", () => {
+      const seen = vi.fn();
+      const { result } = renderHook(() =>
+        useHistory(0, {
+          middleware: [
+            (entry, next) => {
+              seen(entry);
+              next(entry);
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.batch(({ set }) => {
+          set(1);
+          set(2);
+        }, { label: "two" });
+      });
+
+      expect(seen).toHaveBeenCalledTimes(1);
+      expect(seen).toHaveBeenCalledWith(
+        expect.objectContaining({
+          state: 2,
+          previousState: 0,
+          action: "batch",
+          label: "two",
+        })
+      );
+    });
+
+    it("should ignore next calls after the chain returned", () => {
+      let deferred: (() => void) | null = null;
+      const { result } = renderHook(() =>
+        useHistory(0, {
+          middleware: [
+            (entry, next) => {
+              deferred = () => next(entry);
+            },
+          ],
+        })
+      );
+
+      act(() => {
+        result.current.set(1);
+      });
+      act(() => {
+        deferred!();
+      });
+
+      expect(result.current.state).toBe(0);
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
+  describe("selective tracking", () => {
+    type Doc = {
+      title: string;
+      selection: number | null;
+      ui: { scroll: number; zoom: number };
+    };
+    const initialDoc: Doc = {
+      title: "a",
+      selection: null,
+      ui: { scroll: 0, zoom: 1 },
+    };
+
+    it("should not record changes to ignored paths", () => {
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { ignore: ["selection"] })
+      );
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, selection: 3 }));
+      });
+
+      expect(result.current.state.selection).toBe(3);
+      expect(result.current.canUndo).toBe(false);
+    });
+
+    it("should keep untracked values on undo/redo", () => {
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { ignore: ["selection", "ui.scroll"] })
+      );
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, title: "b" }));
+      });
+      act(() => {
+        result.current.set((doc) => ({
+          ...doc,
+          selection: 1,
+          ui: { ...doc.ui, scroll: 200 },
+        }));
+      });
+
+      expect(result.current.past).toHaveLength(1);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.state).toEqual({
+        title: "a",
+        selection: 1,
+        ui: { scroll: 200, zoom: 1 },
+      });
+
+      act(() => {
+        result.current.redo();
+      });
+      expect(result.current.state.title).toBe("b");
+      expect(result.current.state.selection).toBe(1);
+    });
+
+    it("should only record changes inside tracked paths", () => {
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { track: ["title", "ui.zoom"] })
+      );
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, selection: 2 }));
+      });
+      act(() => {
+        result.current.set((doc) => ({ ...doc, ui: { ...doc.ui, scroll: 5 } }));
+      });
+      expect(result.current.canUndo).toBe(false);
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, ui: { ...doc.ui, zoom: 2 } }));
+      });
+      expect(result.current.canUndo).toBe(true);
+      expect(result.current.getDiff(0, 1)).toEqual([
+        { op: "replace", path: "/ui/zoom", value: 2 },
+      ]);
+    });
+
+    it("should record only the tracked part of mixed changes", () => {
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { ignore: ["selection"] })
+      );
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, title: "b", selection: 4 }));
+      });
+
+      expect(result.current.getDiff(0, 1)).toEqual([
+        { op: "replace", path: "/title", value: "b" },
+      ]);
+    });
+
+    it("should carry untracked values over when jumping", () => {
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { ignore: ["selection"], keyframeInterval: 1 })
+      );
+
+      act(() => {
+        for (const title of ["b", "c", "d"]) {
+          result.current.set((doc) => ({ ...doc, title }));
+        }
+      });
+      act(() => {
+        result.current.set((doc) => ({ ...doc, selection: 7 }));
+      });
+      act(() => {
+        result.current.goTo(1);
+      });
+
+      expect(result.current.state.title).toBe("b");
+      expect(result.current.state.selection).toBe(7);
+    });
+
+    it("should not run middleware for untracked changes", () => {
+      const middleware = vi.fn((entry, next) => next(entry));
+      const { result } = renderHook(() =>
+        useHistory(initialDoc, { ignore: ["selection"], middleware: [middleware] })
+      );
+
+      act(() => {
+        result.current.set((doc) => ({ ...doc, selection: 1 }));
+      });
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("function stability", () => {
+    it("should keep stable function references across renders", () => {
+      const { result } = renderHook(() => useHistory(0));
+      const initial = result.current;
+
+      act(() => {
+        result.current.set(1);
+      });
+
+      expect(result.current.set).toBe(initial.set);
+      expect(result.current.undo).toBe(initial.undo);
+      expect(result.current.redo).toBe(initial.redo);
+      expect(result.current.clear).toBe(initial.clear);
+      expect(result.current.reset).toBe(initial.reset);
+      expect(result.current.batch).toBe(initial.batch);
+      expect(result.current.goTo).toBe(initial.goTo);
+      expect(result.current.getDiff).toBe(initial.getDiff);
+    });
+  });
+});
@@ -0,0 +1,692 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  clear as clearHistory,
+  createEntry,
+  createHistory,
+  getDiff as getHistoryDiff,
+  getFuture,
+  getPast,
+  getPresent,
+  goTo as goToIndex,
+  hasTrackedChanges,
+  limitHistory,
+  pushEntry,
+  redo as redoHistory,
+  renameBranch as renameHistoryBranch,
+  replacePresent,
+  switchBranch as switchHistoryBranch,
+  undo as undoHistory,
+  updatePresent,
+  type HistoryState,
+} from "./core";
+import { fromDocument, getStorage, toDocument } from "./persistence";
+import { notifyListeners, subscribe } from "./store";
+import { createPathFilter } from "./utils/paths";
+import type {
+  BatchControls,
+  HistoryAction,
+  HistoryMiddleware,
+  HistoryMiddlewareEntry,
+  InitialState,
+  PatchOperation,
+  PersistOptions,
+  SetHistoryState,
+  SetOptions,
+  UseHistoryOptions,
+  UseHistoryReturn,
+} from "./types";
+
+/**
+ * Default maximum number of undo steps kept in history
+ */
+const DEFAULT_MAX_HISTORY = 100;
+
+/**
+ * Default number of entries between two stored full states
+ */
+const DEFAULT_KEYFRAME_INTERVAL = 50;
+
+/**
+ * Helper function to resolve initial state (supports lazy initialization)
+ */
+function resolveInitialState<T>(initialState: InitialState<T>): T {
+  return typeof initialState === "function"
+    ? (initialState as () => T)()
+    : initialState;
+}
+
+/**
+ * Helper function to resolve a value or functional update against the previous state
+ */
+function resolveValue<T>(value: React.SetStateAction<T>, prev: T): T {
+  return value instanceof Function ? value(prev) : value;
+}
+
+/**
+ * Read and parse the persisted history
+ * @returns The raw stored string and the parsed history (null if missing or invalid)
+ */
+function readPersistedHistory<T>(
+  persist: PersistOptions<T>,
+  keyframeInterval: number
+): {
+  raw: string | null;
+  history: HistoryState<T> | null;
+} {
+  const storage = getStorage(persist.storage ?? "local");
+  if (!storage) {
+    return { raw: null, history: null };
+  }
+
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(persist.key);
+    if (raw === null) {
+      return { raw, history: null };
+    }
+
+    const deserializer = persist.deserializer ?? JSON.parse;
+    const history = fromDocument<T>(deserializer(raw), keyframeInterval);
+    if (!history) {
+      throw new Error(`Invalid history document in storage key "${persist.key}"`);
+    }
+    return { raw, history };
+  } catch (error) {
+    persist.onError?.(error as Error);
+    return { raw, history: null };
+  }
+}
+
+/**
+ * Run an entry through the middleware chain
+ * @returns The entry passed on by the last middleware, or null if vetoed
+ */
+function runMiddleware<T>(
+  middleware: HistoryMiddleware<T>[],
+  entry: HistoryMiddlewareEntry<T>
+): HistoryMiddlewareEntry<T> | null {
+  let result: HistoryMiddlewareEntry<T> | null = null;
+  let finished = false;
+
+  const dispatch = (index: number, current: HistoryMiddlewareEntry<T>) => {
+    if (finished) {
+      return;
+    }
+    if (index === middleware.length) {
+      result = current;
+      return;
+    }
+
+    let called = false;
+    middleware[index](current, (next) => {
+      // Ignore repeated calls of the same next()
+      if (!called) {
+        called = true;
+        dispatch(index + 1, next);
+      }
+    });
+  };
+
+  dispatch(0, entry);
+  // Calls of next() after the chain returned are ignored
+  finished = true;
+  return result;
+}
+
+/**
+ * Normalize maxHistory to a non-negative integer (Infinity is allowed)
+ */
+function normalizeMaxHistory(maxHistory: number): number {
+  if (Number.isNaN(maxHistory)) {
+    return DEFAULT_MAX_HISTORY;
+  }
+  return Math.max(0, Math.floor(maxHistory));
+}
+
+/**
+ * Normalize keyframeInterval to a positive integer
+ */
+function normalizeKeyframeInterval(keyframeInterval: number): number {
+  if (!Number.isFinite(keyframeInterval)) {
+    return DEFAULT_KEYFRAME_INTERVAL;
+  }
+  return Math.max(1, Math.floor(keyframeInterval));
+}
+
+/**
+ * A hook for managing undo/redo history of any state.
+ * Works like useState, but every change is recorded so it can be reverted.
+ *
+ * Features:
+ * - Universal: Works with primitives, objects and arrays
+ * - maxHistory limit: Oldest steps are dropped when the limit is exceeded
+ * - Debounce: Consecutive set() calls can be grouped into a single step
+ * - Batch: Several changes can be recorded as one transaction
+ * - Time travel: Jump to any recorded step with goTo()
+ * - Structural diffs: Steps are stored as patches with periodic keyframes, readable via getDiff()
+ * - Selective tracking: Changes outside the tracked paths never create undo steps
+ * - Middleware: Entries can be vetoed, transformed or annotated before they are recorded
+ * - Labels: Every entry can carry a description of the change
+ * - Branching: Changes after undo can start a new branch instead of discarding redo steps
+ * - Persistence: History survives reloads via localStorage/sessionStorage
+ * - Import/Export: History can be saved to and restored from a versioned document
+ * - Stable references: All functions keep the same identity across renders
+ *
+ * @template T - The type of the state
+ * @param initialState - Initial state or function returning initial state (lazy initialization)
+ * @param options - Configuration options
+ * @returns Object containing the state, history entries, mutation and navigation functions
+ *
+ * @example
+ * ```tsx
+ * function Counter() {
+ *   const { state, set, undo, redo, canUndo, canRedo } = useHistory(0);
+ *
+ *   return (
+ *     <div>
+ *       <p>Count: {state}</p>
+ *       <button onClick={() => set((prev) => prev + 1)}>+1</button>
+ *       <button onClick={undo} disabled={!canUndo}>Undo</button>
+ *       <button onClick={redo} disabled={!canRedo}>Redo</button>
+ *     </div>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Typing within 300ms is grouped into one undo step
+ * const { state, set } = useHistory({ title: "" }, { debounce: 300 });
+ *
+ * <input
+ *   value={state.title}
+ *   onChange={(e) => set((s) => ({ ...s, title: e.target.value }))}
+ * />
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Apply several fields as a single labeled step
+ * const applyPreset = (preset: Preset) => {
+ *   batch(({ set }) => {
+ *     set((s) => ({ ...s, color: preset.color }));
+ *     set((s) => ({ ...s, size: preset.size }));
+ *   }, { label: `Apply ${preset.name}` });
+ * };
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // History panel with labels and time travel
+ * const { past, present, future, goTo } = useHistory(initialDesign);
+ *
+ * {[...past, present, ...future].map((entry, index) => (
+ *   <li key={entry.timestamp} onClick={() => goTo(index)}>
+ *     {entry.label ?? `Step ${index}`}
+ *   </li>
+ * ))}
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Explore alternatives without losing work
+ * const { branches, currentBranchId, switchBranch, renameBranch } = useHistory(
+ *   initialCanvas,
+ *   { enableBranching: true }
+ * );
+ *
+ * {branches.map((branch) => (
+ *   <button key={branch.id} onClick={() => switchBranch(branch.id)}>
+ *     {branch.name ?? "Untitled"} {branch.id === currentBranchId && "(current)"}
+ *   </button>
+ * ))}
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Selection changes never create undo steps; analytics see every recorded step
+ * const { state, set } = useHistory(initialCanvas, {
+ *   ignore: ["selection", "scroll"],
+ *   middleware: [
+ *     (entry, next) => {
+ *       track("canvas_edit", { label: entry.label });
+ *       next({ ...entry, meta: { user: currentUser.id } });
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Restore the undo stack after a reload
+ * const { state, set, exportHistory, importHistory } = useHistory(
+ *   { content: "" },
+ *   { persist: { key: "editor-history", storage: "local" } }
+ * );
+ * ```
+ */
+export function useHistory<T>(
+  initialState: InitialState<T>,
+  options: UseHistoryOptions<T> = {}
+): UseHistoryReturn<T> {
+  const {
+    maxHistory = DEFAULT_MAX_HISTORY,
+    debounce = 0,
+    enableBranching = false,
+    keyframeInterval = DEFAULT_KEYFRAME_INTERVAL,
+    track,
+    ignore,
+    middleware,
+    persist,
+  } = options;
+
+  // Store options in refs for stable references and access to latest values
+  const maxHistoryRef = useRef(normalizeMaxHistory(maxHistory));
+  const debounceRef = useRef(debounce);
+  const enableBranchingRef = useRef(enableBranching);
+  const keyframeIntervalRef = useRef(normalizeKeyframeInterval(keyframeInterval));
+  const trackRef = useRef(track);
+  const ignoreRef = useRef(ignore);
+  const middlewareRef = useRef(middleware);
+  const persistRef = useRef(persist);
+  maxHistoryRef.current = normalizeMaxHistory(maxHistory);
+  debounceRef.current = debounce;
+  enableBranchingRef.current = enableBranching;
+  keyframeIntervalRef.current = normalizeKeyframeInterval(keyframeInterval);
+  trackRef.current = track;
+  ignoreRef.current = ignore;
+  middlewareRef.current = middleware;
+  persistRef.current = persist;
+
+  const persistKey = persist?.key;
+  const persistStorage = persist?.storage ?? "local";
+  const syncTabs = persist?.syncTabs ?? true;
+
+  // Last raw value read from or written to storage
+  // Used to skip notifications caused by this hook's own writes
+  const lastRawRef = useRef<string | null>(null);
+
+  // Keep the resolved initial state for reset()
+  const initialStateRef = useRef<{ value: T } | null>(null);
+  if (initialStateRef.current === null) {
+    initialStateRef.current = { value: resolveInitialState(initialState) };
+  }
+
+  const [history, setHistory] = useState<HistoryState<T>>(() => {
+    const fallback = createHistory(initialStateRef.current!.value);
+    if (!persist) {
+      return fallback;
+    }
+
+    // Restore the persisted history on mount
+    const { raw, history: persisted } = readPersistedHistory(
+      persist,
+      keyframeIntervalRef.current
+    );
+    lastRawRef.current = raw;
+    return persisted
+      ? limitHistory(persisted, maxHistoryRef.current)
+      : fallback;
+  });
+
+  // Latest history, readable synchronously inside batch() and consecutive set() calls
+  const historyRef = useRef(history);
+
+  // Timestamp of the last set() in the current debounce group (null when no group is open)
+  const debounceGroupRef = useRef<number | null>(null);
+
+  // Working state of the running batch (null when not batching)
+  const batchRef = useRef<{ state: T; label?: string } | null>(null);
+
+  // writePersisted - save the history and notify other components using the same key
+  const writePersisted = useCallback((next: HistoryState<T>) => {
+    const currentPersist = persistRef.current;
+    if (!currentPersist) {
+      return;
+    }
+
+    try {
+      const storage = getStorage(currentPersist.storage ?? "local");
+      if (!storage) {
+        return;
+      }
+
+      const serializer = currentPersist.serializer ?? JSON.stringify;
+      const raw = serializer(toDocument(next));
+      storage.setItem(currentPersist.key, raw);
+      lastRawRef.current = raw;
+
+      notifyListeners(
+        `${currentPersist.storage ?? "local"}:${currentPersist.key}`
+      );
+    } catch (error) {
+      currentPersist.onError?.(error as Error);
+    }
+  }, []);
+
+  // commit - update the history ref, trigger a re-render and persist
+  const commit = useCallback(
+    (next: HistoryState<T>, shouldPersist: boolean = true) => {
+      if (next === historyRef.current) {
+        return;
+      }
+      historyRef.current = next;
+      setHistory(next);
+
+      if (shouldPersist) {
+        writePersisted(next);
+      }
+    },
+    [writePersisted]
+  );
+
+  // Sync with the persisted history
+  // Handles same-tab (internal store), cross-tab (storage event) and key changes
+  useEffect(() => {
+    if (persistKey === undefined) {
+      return;
+    }
+
+    const reload = () => {
+      const currentPersist = persistRef.current;
+      if (!currentPersist) {
+        return;
+      }
+
+      const { raw, history: persisted } = readPersistedHistory(
+        currentPersist,
+        keyframeIntervalRef.current
+      );
+      if (raw === lastRawRef.current) {
+        return;
+      }
+      lastRawRef.current = raw;
+
+      if (persisted) {
+        debounceGroupRef.current = null;
+        commit(limitHistory(persisted, maxHistoryRef.current), false);
+      }
+    };
+
+    const unsubscribeStore = subscribe(`${persistStorage}:${persistKey}`, reload);
+
+    // Pick up a history stored under a new key
+    reload();
+
+    let handleStorageEvent: ((event: StorageEvent) => void) | null = null;
+    if (typeof window !== "undefined" && syncTabs) {
+      handleStorageEvent = (event: StorageEvent) => {
+        if (event.key === persistKey) {
+          reload();
+        }
+      };
+      window.addEventListener("storage", handleStorageEvent);
+    }
+
+    return () => {
+      unsubscribeStore();
+      if (handleStorageEvent) {
+        window.removeEventListener("storage", handleStorageEvent);
+      }
+    };
+  }, [persistKey, persistStorage, syncTabs, commit]);
+
+  // recordChange - run a change through tracking and middleware, then record it
+  // Returns true if an entry was recorded or extended
+  const recordChange = useCallback(
+    (
+      nextState: T,
+      action: HistoryAction,
+      label: string | undefined,
+      timestamp: number,
+      grouped: boolean
+    ): boolean => {
+      const current = historyRef.current;
+      const isTracked = createPathFilter(trackRef.current, ignoreRef.current);
+
+      // Untracked changes only: update the state without creating a step
+      if (!hasTrackedChanges(current.present, nextState, isTracked)) {
+        commit(updatePresent(current, nextState));
+        return false;
+      }
+
+      const present = current.nodes.get(current.path[current.index])!.entry;
+      const entry = runMiddleware(middlewareRef.current ?? [], {
+        state: nextState,
+        previousState: current.present,
+        action: grouped ? present.action : action,
+        label: label ?? (grouped ? present.label : undefined),
+        meta: grouped ? present.meta : undefined,
+      });
+
+      if (!entry || Object.is(entry.state, current.present)) {
+        return false;
+      }
+
+      const info = createEntry(entry.action, entry, timestamp);
+      commit(
+        grouped
+          ? // Extend the open group: replace the present entry instead of adding one
+            replacePresent(current, info, entry.state, isTracked)
+          : pushEntry(current, info, entry.state, {
+              maxHistory: maxHistoryRef.current,
+              keyframeInterval: keyframeIntervalRef.current,
+              branching: enableBranchingRef.current,
+              isTracked,
+            })
+      );
+      return true;
+    },
+    [commit]
+  );
+
+  // set - records a new step (or extends the open debounce group)
+  const set = useCallback<SetHistoryState<T>>(
+    (value, setOptions) => {
+      const batchState = batchRef.current;
+      if (batchState) {
+        batchState.state = resolveValue(value, batchState.state);
+        if (setOptions?.label !== undefined) {
+          batchState.label = setOptions.label;
+        }
+        return;
+      }
+
+      const current = historyRef.current;
+      const nextState = resolveValue(value, current.present);
+
+      if (Object.is(nextState, current.present)) {
+        return;
+      }
+
+      const now = Date.now();
+      const lastSetAt = debounceGroupRef.current;
+      const delay = debounceRef.current;
+      const grouped =
+        delay > 0 && lastSetAt !== null && now - lastSetAt < delay;
+
+      if (recordChange(nextState, "set", setOptions?.label, now, grouped)) {
+        debounceGroupRef.current = delay > 0 ? now : null;
+      }
+    },
+    [recordChange]
+  );
+
+  // batch - records all changes made inside fn as a single step
+  const batch = useCallback(
+    (fn: (controls: BatchControls<T>) => void, batchOptions?: SetOptions) => {
+      // Nested batches are merged into the outermost one
+      if (batchRef.current) {
+        if (batchRef.current.label === undefined) {
+          batchRef.current.label = batchOptions?.label;
+        }
+        fn({
+          set: (value) => set(value),
+          getState: () => batchRef.current!.state,
+        });
+        return;
+      }
+
+      const presentState = historyRef.current.present;
+      batchRef.current = {
+        state: presentState,
+        label: batchOptions?.label,
+      };
+
+      let result: { state: T; label?: string };
+      try {
+        fn({
+          set: (value) => set(value),
+          getState: () => batchRef.current!.state,
+        });
+        result = batchRef.current;
+      } finally {
+        // Discard all changes if fn throws
+        batchRef.current = null;
+      }
+
+      debounceGroupRef.current = null;
+
+      if (Object.is(result.state, presentState)) {
+        return;
+      }
+
+      recordChange(result.state, "batch", result.label, Date.now(), false);
+    },
+    [set, recordChange]
+  );
+
+  const undo = useCallback(() => {
+    debounceGroupRef.current = null;
+    commit(undoHistory(historyRef.current));
+  }, [commit]);
+
+  const redo = useCallback(() => {
+    debounceGroupRef.current = null;
+    commit(redoHistory(historyRef.current));
+  }, [commit]);
+
+  const goTo = useCallback(
+    (index: number) => {
+      debounceGroupRef.current = null;
+      commit(
+        goToIndex(
+          historyRef.current,
+          index,
+          createPathFilter(trackRef.current, ignoreRef.current)
+        )
+      );
+    },
+    [commit]
+  );
+
+  // getDiff - structural difference between two positions on the current branch
+  const getDiff = useCallback(
+    (fromIndex: number, toIndex: number): PatchOperation[] =>
+      getHistoryDiff(
+        historyRef.current,
+        fromIndex,
+        toIndex,
+        createPathFilter(trackRef.current, ignoreRef.current)
+      ),
+    []
+  );
+
+  const switchBranch = useCallback(
+    (branchId: string) => {
+      debounceGroupRef.current = null;
+      commit(
+        switchHistoryBranch(
+          historyRef.current,
+          branchId,
+          createPathFilter(trackRef.current, ignoreRef.current)
+        )
+      );
+    },
+    [commit]
+  );
+
+  const renameBranch = useCallback(
+    (branchId: string, name: string | undefined) => {
+      commit(renameHistoryBranch(historyRef.current, branchId, name));
+    },
+    [commit]
+  );
+
+  const clear = useCallback(() => {
+    debounceGroupRef.current = null;
+    commit(clearHistory(historyRef.current));
+  }, [commit]);
+
+  const reset = useCallback(() => {
+    debounceGroupRef.current = null;
+    commit(createHistory(initialStateRef.current!.value));
+  }, [commit]);
+
+  // exportHistory - serialize the whole history into a versioned document
+  const exportHistory = useCallback((): string => {
+    const serializer = persistRef.current?.serializer ?? JSON.stringify;
+    return serializer(toDocument(historyRef.current));
+  }, []);
+
+  // importHistory - replace the history with an exported document
+  const importHistory = useCallback(
+    (serialized: string): boolean => {
+      try {
+        const deserializer = persistRef.current?.deserializer ?? JSON.parse;
+        const imported = fromDocument<T>(
+          deserializer(serialized),
+          keyframeIntervalRef.current
+        );
+        if (!imported) {
+          return false;
+        }
+
+        debounceGroupRef.current = null;
+        commit(limitHistory(imported, maxHistoryRef.current));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    [commit]
+  );
+
+  // Derived entry lists for the current branch
+  const { past, present, future, currentPath } = useMemo(() => {
+    const pastEntries = getPast(history);
+    const presentEntry = getPresent(history);
+    const futureEntries = getFuture(history);
+    return {
+      past: pastEntries,
+      present: presentEntry,
+      future: futureEntries,
+      currentPath: [...pastEntries, presentEntry, ...futureEntries],
+    };
+  }, [history]);
+
+  return {
+    state: history.present,
+    set,
+    batch,
+    undo,
+    redo,
+    goTo,
+    getDiff,
+    clear,
+    reset,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.path.length - 1,
+    past,
+    present,
+    future,
+    currentIndex: history.index,
+    currentPath,
+    branches: history.branches,
+    currentBranchId: history.branchId,
+    switchBranch,
+    renameBranch,
+    exportHistory,
+    importHistory,
+  };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import { applyPatch, diff, isPatchOperation } from "./patch";
+
+describe("patch", () => {
+  describe("diff", () => {
+    it("returns an empty patch for identical values", () => {
+      const state = { a: 1 };
+      expect(diff(state, state)).toEqual({ patch: [], inversePatch: [] });
+    });
+
+    it("replaces primitives at the root", () => {
+      expect(diff(1, 2)).toEqual({
+        patch: [{ op: "replace", path: "", value: 2 }],
+        inversePatch: [{ op: "replace", path: "", value: 1 }],
+      });
+    });
+
+    it("only reports changed object keys", () => {
+      const { patch } = diff(
+        { a: 1, b: { c: 2, d: 3 }, e: 4 },
+        { a: 1, b: { c: 2, d: 5 }, f: 6 }
+      );
+
+      expect(patch).toEqual([
+        { op: "replace", path: "/b/d", value: 5 },
+        { op: "remove", path: "/e" },
+        { op: "add", path: "/f", value: 6 },
+      ]);
+    });
+
+    it("adds and removes array items at the end", () => {
+      expect(diff([1, 2], [1, 2, 3]).patch).toEqual([
+        { op: "add", path: "/2", value: 3 },
+      ]);
+      expect(diff([1, 2, 3], [1]).patch).toEqual([
+        { op: "remove", path: "/2" },
+        { op: "remove", path: "/1" },
+      ]);
+    });
+
+    it("inserts and removes array items in the middle with one operation each", () => {
+      const items = Array.from({ length: 100 }, (_, i) => ({ id: i }));
+
+      const removed = diff(items, items.slice(1));
+      expect(removed.patch).toEqual([{ op: "remove", path: "/0" }]);
+      expect(applyPatch(items.slice(1), removed.inversePatch)).toEqual(items);
+
+      const inserted = diff(items, [
+        ...items.slice(0, 50),
+        { id: -1 },
+        ...items.slice(50),
+      ]);
+      expect(inserted.patch).toEqual([
+        { op: "add", path: "/50", value: { id: -1 } },
+      ]);
+    });
+
+    it("diffs changed items between unchanged ones", () => {
+      const items = [{ id: 1 }, { id: 2, done: false }, { id: 3 }];
+      const next = [items[0], { id: 2, done: true }, { id: 4 }, items[2]];
+      const { patch, inversePatch } = diff(items, next);
+
+      expect(patch).toEqual([
+        { op: "replace", path: "/1/done", value: true },
+        { op: "add", path: "/2", value: { id: 4 } },
+      ]);
+      expect(applyPatch(items, patch)).toEqual(next);
+      expect(applyPatch(next, inversePatch)).toEqual(items);
+    });
+
+    it("escapes keys containing / and ~", () => {
+      const { patch } = diff({ "a/b": 1, "c~d": 1 }, { "a/b": 2, "c~d": 2 });
+
+      expect(patch.map((operation) => operation.path)).toEqual([
+        "/a~1b",
+        "/c~0d",
+      ]);
+    });
+
+    it("treats non-plain objects as atomic values", () => {
+      const from = new Date(0);
+      const to = new Date(1);
+
+      expect(diff({ at: from }, { at: to }).patch).toEqual([
+        { op: "replace", path: "/at", value: to },
+      ]);
+    });
+  });
+
+  describe("applyPatch", () => {
+    it("applies forward and inverse patches", () => {
+      const from = { title: "a", tags: ["x", "y"], meta: { draft: true } };
+      const to = { title: "b", tags: ["x"], meta: {}, extra: 1 };
+      const { patch, inversePatch } = diff(from, to);
+
+      expect(applyPatch(from, patch)).toEqual(to);
+      expect(applyPatch(to, inversePatch)).toEqual(from);
+    });
+
+    it("does not mutate the given state", () => {
+      const state = { list: [1, 2], nested: { value: 1 } };
+      const snapshot = JSON.parse(JSON.stringify(state));
+
+      applyPatch(state, [
+        { op: "add", path: "/list/-", value: 3 },
+        { op: "replace", path: "/nested/value", value: 2 },
+      ]);
+
+      expect(state).toEqual(snapshot);
+    });
+
+    it("shares unchanged branches with the previous state", () => {
+      const state = { changed: { value: 1 }, untouched: { value: 1 } };
+      const next = applyPatch(state, [
+        { op: "replace", path: "/changed/value", value: 2 },
+      ]);
+
+      expect(next.untouched).toBe(state.untouched);
+      expect(next.changed).not.toBe(state.changed);
+    });
+
+    it("throws for paths that do not exist", () => {
+      expect(() =>
+        applyPatch({ a: 1 }, [{ op: "replace", path: "/a/b/c", value: 1 }])
+      ).toThrow();
+    });
+  });
+
+  describe("isPatchOperation", () => {
+    it("validates operation shapes", () => {
+      expect(isPatchOperation({ op: "add", path: "/a", value: 1 })).toBe(true);
+      expect(isPatchOperation({ op: "remove", path: "/a" })).toBe(true);
+      expect(isPatchOperation({ op: "replace", path: "/a" })).toBe(false);
+      expect(isPatchOperation({ op: "move", path: "/a", from: "/b" })).toBe(
+        false
+      );
+      expect(isPatchOperation(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Structural diff and patch utilities (JSON Patch style)
+ * Plain objects and arrays are compared key by key; every other value
+ * (primitives, Date, Map, class instances, ...) is treated as atomic.
+ * Patches are applied immutably with structural sharing: only the
+ * containers along a changed path are copied.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import type { PatchOperation } from "../types";
+
+/**
+ * Forward patch (from -> to) and inverse patch (to -> from)
+ */
+export interface PatchPair {
+  patch: PatchOperation[];
+  inversePatch: PatchOperation[];
+}
+
+/**
+ * Check whether a value is a plain object ({} or Object.create(null))
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Escape a key for use as a JSON Pointer segment
+ */
+function escapeSegment(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * Split a JSON Pointer into unescaped segments
+ */
+export function parsePath(path: string): string[] {
+  if (path === "") {
+    return [];
+  }
+  return path
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Recursively collect the operations turning `from` into `to`.
+ * Inverse operations are collected in application order and reversed by the caller.
+ */
+function diffValue(
+  from: unknown,
+  to: unknown,
+  path: string,
+  patch: PatchOperation[],
+  inverse: PatchOperation[]
+): void {
+  if (Object.is(from, to)) {
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    // Skip the unchanged items at both ends, so that inserting or removing
+    // items shifts the rest with a single operation per item instead of
+    // replacing every following index
+    const shortest = Math.min(from.length, to.length);
+    let start = 0;
+    while (start < shortest && Object.is(from[start], to[start])) {
+      start += 1;
+    }
+    let end = 0;
+    while (
+      end < shortest - start &&
+      Object.is(from[from.length - 1 - end], to[to.length - 1 - end])
+    ) {
+      end += 1;
+    }
+
+    const fromEnd = from.length - end;
+    const toEnd = to.length - end;
+    const common = Math.min(fromEnd, toEnd);
+    for (let i = start; i < common; i++) {
+      diffValue(from[i], to[i], `${path}/${i}`, patch, inverse);
+    }
+    for (let i = common; i < toEnd; i++) {
+      patch.push({ op: "add", path: `${path}/${i}`, value: to[i] });
+      inverse.push({ op: "remove", path: `${path}/${i}` });
+    }
+    // Remove from the end so that indexes stay valid
+    for (let i = fromEnd - 1; i >= common; i--) {
+      patch.push({ op: "remove", path: `${path}/${i}` });
+      inverse.push({ op: "add", path: `${path}/${i}`, value: from[i] });
+    }
+    return;
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of Object.keys(from)) {
+      const childPath = `${path}/${escapeSegment(key)}`;
+      if (!(key in to)) {
+        patch.push({ op: "remove", path: childPath });
+        inverse.push({ op: "add", path: childPath, value: from[key] });
+      } else {
+        diffValue(from[key], to[key], childPath, patch, inverse);
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if (!(key in from)) {
+        const childPath = `${path}/${escapeSegment(key)}`;
+        patch.push({ op: "add", path: childPath, value: to[key] });
+        inverse.push({ op: "remove", path: childPath });
+      }
+    }
+    return;
+  }
+
+  patch.push({ op: "replace", path, value: to });
+  inverse.push({ op: "replace", path, value: from });
+}
+
+/**
+ * Calculate the forward and inverse patches between two states
+ *
+ * @example
+ * ```ts
+ * const { patch } = diff({ a: 1, b: [1] }, { a: 2, b: [1, 2] });
+ * // [{ op: "replace", path: "/a", value: 2 }, { op: "add", path: "/b/1", value: 2 }]
+ * ```
+ */
+export function diff(from: unknown, to: unknown): PatchPair {
+  const patch: PatchOperation[] = [];
+  const inverse: PatchOperation[] = [];
+  diffValue(from, to, "", patch, inverse);
+  return { patch, inversePatch: inverse.reverse() };
+}
+
+/**
+ * Apply a single operation below the given container, copying only the changed path
+ */
+function applyAt(
+  container: unknown,
+  segments: string[],
+  depth: number,
+  operation: PatchOperation
+): unknown {
+  const key = segments[depth];
+  const isLast = depth === segments.length - 1;
+
+  if (Array.isArray(container)) {
+    const copy = container.slice();
+    const index = key === "-" ? copy.length : Number(key);
+
+    if (!isLast) {
+      copy[index] = applyAt(copy[index], segments, depth + 1, operation);
+    } else if (operation.op === "add") {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === "replace") {
+      copy[index] = operation.value;
+    } else {
+      copy.splice(index, 1);
+    }
+    return copy;
+  }
+
+  if (typeof container !== "object" || container === null) {
+    throw new Error(`Cannot apply patch: path "/${segments.join("/")}" not found`);
+  }
+
+  const copy: Record<string, unknown> = { ...(container as object) };
+  if (!isLast) {
+    copy[key] = applyAt(copy[key], segments, depth + 1, operation);
+  } else if (operation.op === "remove") {
+    delete copy[key];
+  } else {
+    copy[key] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * Apply patch operations to a state without mutating it
+ *
+ * @example
+ * ```ts
+ * applyPatch({ a: 1 }, [{ op: "replace", path: "/a", value: 2 }]); // { a: 2 }
+ * ```
+ */
+export function applyPatch<T>(state: T, patch: PatchOperation[]): T {
+  let result: unknown = state;
+
+  for (const operation of patch) {
+    const segments = parsePath(operation.path);
+    if (segments.length === 0) {
+      result = operation.op === "remove" ? undefined : operation.value;
+    } else {
+      result = applyAt(result, segments, 0, operation);
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Check whether a value has the shape of a patch operation
+ */
+export function isPatchOperation(value: unknown): value is PatchOperation {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const operation = value as Record<string, unknown>;
+  return (
+    typeof operation.path === "string" &&
+    (operation.op === "remove" ||
+      ((operation.op === "add" || operation.op === "replace") &&
+        "value" in operation))
+  );
+}
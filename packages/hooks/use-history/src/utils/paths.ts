@@ -0,0 +1,69 @@
+/**
+ * Path filter utilities for selective field tracking
+ * Tracked and ignored paths use dot notation ("title", "ui.selection");
+ * patch operation paths are JSON Pointers ("/ui/selection").
+ *
+ * @internal This module is not exported publicly
+ */
+
+import type { PatchOperation } from "../types";
+import { parsePath } from "./patch";
+
+/**
+ * Decides whether a change at the given JSON Pointer path is recorded
+ */
+export type PathFilter = (path: string) => boolean;
+
+/**
+ * Check whether `prefix` addresses the same value as `segments` or one of its ancestors
+ */
+function isPrefix(prefix: string[], segments: string[]): boolean {
+  return (
+    prefix.length <= segments.length &&
+    prefix.every((segment, index) => segment === segments[index])
+  );
+}
+
+/**
+ * Create a filter from the track and ignore options
+ * - track: only changes inside these paths are recorded
+ * - ignore: changes inside these paths are never recorded
+ * Changes replacing an ancestor of a tracked path (e.g. the whole state)
+ * are always recorded.
+ * @returns The filter, or null when every change is recorded
+ */
+export function createPathFilter(
+  track?: string[],
+  ignore?: string[]
+): PathFilter | null {
+  if (track === undefined && (ignore === undefined || ignore.length === 0)) {
+    return null;
+  }
+
+  const toSegments = (path: string) => path.split(".").filter(Boolean);
+  const tracked = track?.map(toSegments);
+  const ignored = (ignore ?? []).map(toSegments);
+
+  return (path) => {
+    const segments = parsePath(path);
+    if (ignored.some((prefix) => isPrefix(prefix, segments))) {
+      return false;
+    }
+    return (
+      !tracked ||
+      tracked.some(
+        (prefix) => isPrefix(prefix, segments) || isPrefix(segments, prefix)
+      )
+    );
+  };
+}
+
+/**
+ * Keep only the operations on tracked paths
+ */
+export function filterPatch(
+  patch: PatchOperation[],
+  isTracked: PathFilter | null
+): PatchOperation[] {
+  return isTracked ? patch.filter((operation) => isTracked(operation.path)) : patch;
+}
@@ -0,0 +1,169 @@
+/**
+ * Internal IndexedDB access for the useIndexedDBState hook
+ * Wraps the request-based IndexedDB API in promises and keeps one open
+ * connection per database. Object stores are created on demand by upgrading
+ * the database version.
+ *
+ * @internal This module is not exported publicly
+ */
+
+/**
+ * Location of a value in IndexedDB
+ */
+export interface EntryLocation {
+  /** Database name */
+  dbName: string;
+  /** Object store name */
+  storeName: string;
+  /** Key of the value in the object store */
+  key: string;
+}
+
+/**
+ * Result of reading a value
+ */
+export interface ReadResult {
+  /** Whether a value is stored under the key */
+  found: boolean;
+  /** Stored value (structured clone) */
+  value?: unknown;
+}
+
+/** Map of database name -> open connection */
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Open a database that contains the object store
+ * Upgrades the database to the next version when the store is missing.
+ * Rejects when the upgrade is blocked by a connection that stays open
+ * (e.g. another tab running an older version of the app).
+ */
+function openDatabase(
+  dbName: string,
+  storeName: string,
+  version?: number
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment"));
+      return;
+    }
+
+    const request = indexedDB.open(dbName, version);
+    let blocked = false;
+
+    request.onblocked = () => {
+      blocked = true;
+      reject(
+        new Error(
+          `Opening IndexedDB database "${dbName}" is blocked by another open connection`
+        )
+      );
+    };
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.createObjectStore(storeName);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) {
+        // Opened once unblocked, after the caller gave up: the next access reopens it
+        db.close();
+        return;
+      }
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.close();
+        resolve(openDatabase(dbName, storeName, db.version + 1));
+        return;
+      }
+
+      // Let other tabs (and other stores) upgrade the database
+      db.onversionchange = () => {
+        db.close();
+        connections.delete(dbName);
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Get an open connection to a database containing the object store
+ */
+function getDatabase(dbName: string, storeName: string): Promise<IDBDatabase> {
+  const connection = connections.get(dbName);
+
+  const next = (connection ?? openDatabase(dbName, storeName)).then((db) =>
+    db.objectStoreNames.contains(storeName)
+      ? db
+      : openDatabase(dbName, storeName, db.version + 1)
+  );
+  connections.set(dbName, next);
+
+  // Forget failed connections so the next access retries
+  next.catch(() => {
+    if (connections.get(dbName) === next) {
+      connections.delete(dbName);
+    }
+  });
+  return next;
+}
+
+/**
+ * Run a single request in a transaction and resolve once the transaction completes
+ */
+async function runRequest<R>(
+  location: EntryLocation,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> {
+  const db = await getDatabase(location.dbName, location.storeName);
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(location.storeName, mode);
+    const request = createRequest(transaction.objectStore(location.storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? request.error);
+  });
+}
+
+/**
+ * Read a value
+ * A stored `undefined` reads as not found.
+ */
+export async function readValue(location: EntryLocation): Promise<ReadResult> {
+  const value = await runRequest(location, "readonly", (store) =>
+    store.get(location.key)
+  );
+  return value === undefined ? { found: false } : { found: true, value };
+}
+
+/**
+ * Write a value
+ * @throws DataCloneError when the value cannot be structured-cloned
+ */
+export async function writeValue(
+  location: EntryLocation,
+  value: unknown
+): Promise<void> {
+  await runRequest(location, "readwrite", (store) =>
+    store.put(value, location.key)
+  );
+}
+
+/**
+ * Delete a value
+ */
+export async function deleteValue(location: EntryLocation): Promise<void> {
+  await runRequest(location, "readwrite", (store) =>
+    store.delete(location.key)
+  );
+}
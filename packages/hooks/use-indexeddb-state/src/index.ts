@@ -0,0 +1,7 @@
+export {
+  useIndexedDBState,
+  type UseIndexedDBStateOptions,
+  type UseIndexedDBStateReturn,
+  type IndexedDBStateStatus,
+  type InitialValue,
+} from "./useIndexedDBState";
@@ -0,0 +1,347 @@
+/**
+ * Internal Store Manager for IndexedDB state
+ * Caches the value of every subscribed key so all components using the key
+ * share one read, stay in sync in the same tab, and are notified of writes
+ * in other tabs via BroadcastChannel.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import {
+  readValue,
+  writeValue,
+  deleteValue,
+  type EntryLocation,
+} from "./database";
+import type { IndexedDBStateStatus } from "./useIndexedDBState";
+
+/**
+ * Cached state of a key
+ */
+export interface StoredEntry {
+  /** Whether the stored value has been read */
+  status: IndexedDBStateStatus;
+  /** Whether a value is stored under the key */
+  found: boolean;
+  /** Stored value */
+  value?: unknown;
+}
+
+/** BroadcastChannel name shared by all tabs */
+const CHANNEL_NAME = "usefy:indexeddb-state";
+
+/** Entry of keys that have not been read yet */
+const LOADING_ENTRY: StoredEntry = { status: "loading", found: false };
+
+/** Map of entry id -> cached entry */
+const entries = new Map<string, StoredEntry>();
+
+/** Map of entry id -> Set of listener callbacks */
+const listeners = new Map<string, Set<() => void>>();
+
+/** Map of entry id -> updates waiting for the first read */
+const pendingUpdates = new Map<string, Array<() => void>>();
+
+/** Map of entry id -> revision, bumped by every local change to ignore stale reads */
+const revisions = new Map<string, number>();
+
+/** Number of hooks listening for changes in other tabs */
+let connectionCount = 0;
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Get the id of an entry
+ */
+function getEntryId(location: EntryLocation): string {
+  return JSON.stringify([location.dbName, location.storeName, location.key]);
+}
+
+/**
+ * Bump the revision of an entry
+ * @returns The new revision
+ */
+function bumpRevision(id: string): number {
+  const revision = (revisions.get(id) ?? 0) + 1;
+  revisions.set(id, revision);
+  return revision;
+}
+
+/**
+ * Notify all listeners subscribed to an entry
+ */
+function notifyListeners(id: string): void {
+  const entryListeners = listeners.get(id);
+  if (entryListeners) {
+    entryListeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Store an entry and notify its listeners
+ */
+function setEntry(id: string, entry: StoredEntry): void {
+  entries.set(id, entry);
+  notifyListeners(id);
+}
+
+/**
+ * Forget an entry nobody is subscribed to
+ */
+function releaseEntry(id: string): void {
+  if (!listeners.has(id) && !pendingUpdates.has(id)) {
+    entries.delete(id);
+  }
+}
+
+/**
+ * Read an entry from IndexedDB and store the result
+ * Results are ignored when the entry changed locally while reading.
+ */
+function readEntry(
+  location: EntryLocation,
+  onError: (error: Error) => void
+): void {
+  const id = getEntryId(location);
+  const revision = bumpRevision(id);
+
+  readValue(location)
+    .then(
+      (result): StoredEntry => ({ status: "ready", ...result }),
+      (error): StoredEntry => {
+        onError(error as Error);
+        return entries.get(id)?.status === "ready"
+          ? entries.get(id)!
+          : { status: "ready", found: false };
+      }
+    )
+    .then((entry) => {
+      if (revisions.get(id) !== revision || !entries.has(id)) {
+        return;
+      }
+      setEntry(id, entry);
+
+      const updates = pendingUpdates.get(id);
+      if (updates) {
+        pendingUpdates.delete(id);
+        updates.forEach((update) => update());
+      }
+      releaseEntry(id);
+    });
+}
+
+/**
+ * Start reading an entry unless it is cached or being read
+ */
+function loadEntry(
+  location: EntryLocation,
+  onError: (error: Error) => void
+): void {
+  const id = getEntryId(location);
+  if (!entries.has(id)) {
+    entries.set(id, LOADING_ENTRY);
+    readEntry(location, onError);
+  }
+}
+
+/**
+ * Tell other tabs that an entry changed
+ */
+function broadcast(location: EntryLocation): void {
+  if (typeof BroadcastChannel === "undefined") {
+    return;
+  }
+
+  const message: EntryLocation = {
+    dbName: location.dbName,
+    storeName: location.storeName,
+    key: location.key,
+  };
+
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  // Nobody listens in this tab, but other tabs might
+  const sender = new BroadcastChannel(CHANNEL_NAME);
+  sender.postMessage(message);
+  sender.close();
+}
+
+/**
+ * Check whether a value has the shape of an entry location
+ */
+function isEntryLocation(value: unknown): value is EntryLocation {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const location = value as Record<string, unknown>;
+  return (
+    typeof location.dbName === "string" &&
+    typeof location.storeName === "string" &&
+    typeof location.key === "string"
+  );
+}
+
+/**
+ * Re-read an entry changed in another tab
+ */
+function handleMessage(value: unknown): void {
+  if (!isEntryLocation(value)) {
+    return;
+  }
+
+  const id = getEntryId(value);
+  const entry = entries.get(id);
+  if (entry?.status === "ready") {
+    // Errors were reported by the hook that read the entry first
+    readEntry(value, () => {});
+  }
+}
+
+/**
+ * Subscribe a listener to an entry, reading it on first use
+ * @param location - Location of the value
+ * @param listener - Callback to invoke when the entry changes
+ * @param onError - Callback for read errors
+ * @returns Unsubscribe function
+ */
+export function subscribe(
+  location: EntryLocation,
+  listener: () => void,
+  onError: (error: Error) => void
+): () => void {
+  const id = getEntryId(location);
+  if (!listeners.has(id)) {
+    listeners.set(id, new Set());
+  }
+
+  const entryListeners = listeners.get(id)!;
+  entryListeners.add(listener);
+  loadEntry(location, onError);
+
+  return () => {
+    entryListeners.delete(listener);
+
+    // Cleanup: forget the entry if no more listeners
+    if (entryListeners.size === 0) {
+      listeners.delete(id);
+      releaseEntry(id);
+    }
+  };
+}
+
+/**
+ * Get the cached entry of a location
+ * Entries that are not cached yet are loading.
+ */
+export function getEntry(location: EntryLocation): StoredEntry {
+  return entries.get(getEntryId(location)) ?? LOADING_ENTRY;
+}
+
+/**
+ * Get the entry used during server rendering
+ */
+export function getServerEntry(): StoredEntry {
+  return LOADING_ENTRY;
+}
+
+/**
+ * Update an entry and persist the change
+ * Updates made before the first read are applied once the stored value is read,
+ * so functional updates never overwrite a value that has not been read yet.
+ * @param location - Location of the value
+ * @param update - Computes the next entry from the current one
+ * @param onError - Callback for update and write errors
+ */
+export function updateEntry(
+  location: EntryLocation,
+  update: (current: StoredEntry) => Omit<StoredEntry, "status">,
+  onError: (error: Error) => void
+): void {
+  const id = getEntryId(location);
+
+  const apply = () => {
+    let next: Omit<StoredEntry, "status">;
+    try {
+      next = update(getEntry(location));
+    } catch (error) {
+      onError(error as Error);
+      return;
+    }
+
+    bumpRevision(id);
+    setEntry(id, { status: "ready", ...next });
+
+    (next.found ? writeValue(location, next.value) : deleteValue(location))
+      .then(() => broadcast(location))
+      .catch((error) => {
+        onError(error as Error);
+        // Show what is actually stored again
+        if (entries.has(id)) {
+          readEntry(location, onError);
+        }
+      });
+  };
+
+  if (getEntry(location).status === "ready") {
+    apply();
+    return;
+  }
+
+  if (!pendingUpdates.has(id)) {
+    pendingUpdates.set(id, []);
+  }
+  pendingUpdates.get(id)!.push(apply);
+  loadEntry(location, onError);
+}
+
+/**
+ * Listen for changes made in other tabs
+ * @returns Disconnect function
+ */
+export function connect(): () => void {
+  if (connectionCount === 0 && typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => handleMessage(event.data);
+  }
+  connectionCount += 1;
+
+  let connected = true;
+  return () => {
+    if (!connected) {
+      return;
+    }
+    connected = false;
+
+    connectionCount -= 1;
+    if (connectionCount === 0) {
+      channel?.close();
+      channel = null;
+    }
+  };
+}
+
+/**
+ * Get the count of listeners for a location (for testing purposes)
+ * @internal
+ */
+export function getListenerCount(location: EntryLocation): number {
+  return listeners.get(getEntryId(location))?.size ?? 0;
+}
+
+/**
+ * Clear all entries, listeners and connections (for testing purposes)
+ * @internal
+ */
+export function clearStore(): void {
+  entries.clear();
+  listeners.clear();
+  pendingUpdates.clear();
+  revisions.clear();
+  channel?.close();
+  channel = null;
+  connectionCount = 0;
+}
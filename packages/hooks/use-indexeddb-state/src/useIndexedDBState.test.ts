@@ -0,0 +1,580 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { useIndexedDBState } from "./useIndexedDBState";
+import { clearStore, getListenerCount } from "./store";
+import { readValue, writeValue, deleteValue } from "./database";
+import type { EntryLocation } from "./database";
+
+// In-memory IndexedDB: values are structured-cloned like the real thing
+const { database, locationKey } = vi.hoisted(() => ({
+  database: new Map<string, unknown>(),
+  locationKey: ({ dbName, storeName, key }: EntryLocation) =>
+    `${dbName}/${storeName}/${key}`,
+}));
+
+vi.mock("./database", () => ({
+  readValue: vi.fn(async (location: EntryLocation) =>
+    database.has(locationKey(location))
+      ? {
+          found: true,
+          value: structuredClone(database.get(locationKey(location))),
+        }
+      : { found: false }
+  ),
+  writeValue: vi.fn(async (location: EntryLocation, value: unknown) => {
+    database.set(locationKey(location), structuredClone(value));
+  }),
+  deleteValue: vi.fn(async (location: EntryLocation) => {
+    database.delete(locationKey(location));
+  }),
+}));
+
+const location = (key: string, dbName = "usefy", storeName = "state") => ({
+  dbName,
+  storeName,
+  key,
+});
+
+// Render the hook and wait for the first read
+async function renderLoaded<T>(
+  key: string,
+  initialValue: T,
+  options?: Parameters<typeof useIndexedDBState<T>>[2]
+) {
+  const rendered = renderHook(() =>
+    useIndexedDBState<T>(key, initialValue, options)
+  );
+  await waitFor(() => expect(rendered.result.current[3]).toBe("ready"));
+  return rendered;
+}
+
+// Resolve pending writes and their notifications
+const flushWrites = () =>
+  act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+
+describe("useIndexedDBState", () => {
+  beforeEach(() => {
+    database.clear();
+    clearStore();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("initialization", () => {
+    it("should return the initial value while loading", async () => {
+      database.set(locationKey(location("key")), "stored");
+      const { result } = renderHook(() => useIndexedDBState("key", "initial"));
+
+      expect(result.current[0]).toBe("initial");
+      expect(result.current[3]).toBe("loading");
+      await waitFor(() => expect(result.current[3]).toBe("ready"));
+    });
+
+    it("should return the stored value once ready", async () => {
+      database.set(locationKey(location("key")), "stored");
+
+      const { result } = await renderLoaded("key", "initial");
+
+      expect(result.current[0]).toBe("stored");
+      expect(readValue).toHaveBeenCalledWith(location("key"));
+    });
+
+    it("should return the initial value when nothing is stored", async () => {
+      const { result } = await renderLoaded("key", "initial");
+
+      expect(result.current[0]).toBe("initial");
+    });
+
+    it("should support lazy initialization", async () => {
+      const initializer = vi.fn(() => "lazy");
+
+      const { result } = await renderLoaded("key", initializer);
+
+      expect(result.current[0]).toBe("lazy");
+    });
+
+    it("should read from the configured database and object store", async () => {
+      database.set(locationKey(location("key", "mail", "outbox")), "stored");
+
+      const { result } = await renderLoaded("key", "initial", {
+        dbName: "mail",
+        storeName: "outbox",
+      });
+
+      expect(result.current[0]).toBe("stored");
+    });
+
+    it("should read a key once for all components using it", async () => {
+      database.set(locationKey(location("key")), "stored");
+
+      renderHook(() => useIndexedDBState("key", "initial"));
+      const { result } = await renderLoaded("key", "initial");
+
+      expect(result.current[0]).toBe("stored");
+      expect(readValue).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("setValue", () => {
+    it("should update the value and IndexedDB", async () => {
+      const { result } = await renderLoaded("key", "initial");
+
+      act(() => {
+        result.current[1]("updated");
+      });
+
+      expect(result.current[0]).toBe("updated");
+      expect(writeValue).toHaveBeenCalledWith(location("key"), "updated");
+      await flushWrites();
+      expect(database.get(locationKey(location("key")))).toBe("updated");
+    });
+
+    it("should support functional updates", async () => {
+      database.set(locationKey(location("count")), 5);
+      const { result } = await renderLoaded("count", 0);
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(7);
+    });
+
+    it("should apply updates made while loading to the stored value", async () => {
+      database.set(locationKey(location("drafts")), ["a"]);
+      const { result } = renderHook(() =>
+        useIndexedDBState<string[]>("drafts", [])
+      );
+
+      act(() => {
+        result.current[1]((prev) => [...prev, "b"]);
+      });
+      expect(result.current[3]).toBe("loading");
+
+      await waitFor(() => expect(result.current[3]).toBe("ready"));
+      expect(result.current[0]).toEqual(["a", "b"]);
+      await flushWrites();
+      expect(database.get(locationKey(location("drafts")))).toEqual(["a", "b"]);
+    });
+
+    it("should keep structured-clone values", async () => {
+      const { result, unmount } = await renderLoaded(
+        "data",
+        new Map<string, Date>()
+      );
+
+      act(() => {
+        result.current[1](new Map([["created", new Date(1000)]]));
+      });
+      await flushWrites();
+      unmount();
+
+      const { result: reloaded } = await renderLoaded(
+        "data",
+        new Map<string, Date>()
+      );
+
+      expect(reloaded.current[0]).toBeInstanceOf(Map);
+      expect(reloaded.current[0].get("created")).toBeInstanceOf(Date);
+      expect(reloaded.current[0].get("created")!.getTime()).toBe(1000);
+    });
+
+    it("should call onError when the updater throws", async () => {
+      const onError = vi.fn();
+      const { result } = await renderLoaded("key", "initial", { onError });
+
+      act(() => {
+        result.current[1](() => {
+          throw new Error("Updater failed");
+        });
+      });
+
+      expect(onError).toHaveBeenCalledWith(new Error("Updater failed"));
+      expect(result.current[0]).toBe("initial");
+      expect(writeValue).not.toHaveBeenCalled();
+    });
+
+    it("should call onError and restore the stored value when the write fails", async () => {
+      database.set(locationKey(location("key")), "stored");
+      vi.mocked(writeValue).mockRejectedValueOnce(new Error("DataCloneError"));
+      const onError = vi.fn();
+      const { result } = await renderLoaded("key", "initial", { onError });
+
+      act(() => {
+        result.current[1]("not cloneable");
+      });
+      expect(result.current[0]).toBe("not cloneable");
+
+      await waitFor(() => expect(result.current[0]).toBe("stored"));
+      expect(onError).toHaveBeenCalledWith(new Error("DataCloneError"));
+    });
+  });
+
+  describe("removeValue", () => {
+    it("should reset to the initial value and delete the stored value", async () => {
+      database.set(locationKey(location("key")), "stored");
+      const { result } = await renderLoaded("key", "initial");
+
+      act(() => {
+        result.current[2]();
+      });
+
+      expect(result.current[0]).toBe("initial");
+      expect(deleteValue).toHaveBeenCalledWith(location("key"));
+      await flushWrites();
+      expect(database.has(locationKey(location("key")))).toBe(false);
+    });
+  });
+
+  describe("errors", () => {
+    it("should call onError and use the initial value when the read fails", async () => {
+      vi.mocked(readValue).mockRejectedValueOnce(new Error("Blocked"));
+      const onError = vi.fn();
+
+      const { result } = await renderLoaded("key", "initial", { onError });
+
+      expect(result.current[0]).toBe("initial");
+      expect(onError).toHaveBeenCalledWith(new Error("Blocked"));
+    });
+  });
+
+  describe("same-tab synchronization", () => {
+    it("should sync components using the same key", async () => {
+      const { result: first } = await renderLoaded("shared", 0);
+      const { result: second } = await renderLoaded("shared", 0);
+
+      act(() => {
+        first.current[1](42);
+      });
+
+      expect(second.current[0]).toBe(42);
+
+      act(() => {
+        second.current[2]();
+      });
+
+      expect(first.current[0]).toBe(0);
+    });
+
+    it("should not sync components using different keys", async () => {
+      const { result: first } = await renderLoaded("a", 0);
+      const { result: second } = await renderLoaded("b", 0);
+
+      act(() => {
+        first.current[1](1);
+      });
+
+      expect(second.current[0]).toBe(0);
+    });
+
+    it("should not sync the same key in different object stores", async () => {
+      const { result: first } = await renderLoaded("key", 0);
+      const { result: second } = await renderLoaded("key", 0, {
+        storeName: "other",
+      });
+
+      act(() => {
+        first.current[1](1);
+      });
+
+      expect(second.current[0]).toBe(0);
+    });
+  });
+
+  describe("cross-tab synchronization", () => {
+    let otherTab: BroadcastChannel;
+
+    beforeEach(() => {
+      otherTab = new BroadcastChannel("usefy:indexeddb-state");
+    });
+
+    afterEach(() => {
+      otherTab.close();
+    });
+
+    // Simulate a write in another tab
+    const writeFromOtherTab = async (key: string, value: unknown) => {
+      await act(async () => {
+        database.set(locationKey(location(key)), value);
+        otherTab.postMessage(location(key));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+    };
+
+    it("should re-read values changed in other tabs", async () => {
+      const { result } = await renderLoaded("key", "initial");
+
+      await writeFromOtherTab("key", "from other tab");
+
+      expect(result.current[0]).toBe("from other tab");
+    });
+
+    it("should tell other tabs about writes", async () => {
+      const received = vi.fn();
+      otherTab.onmessage = (event) => received(event.data);
+      const { result } = await renderLoaded("key", "initial");
+
+      act(() => {
+        result.current[1]("updated");
+      });
+
+      await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1));
+      expect(received).toHaveBeenCalledWith(location("key"));
+    });
+
+    it("should tell other tabs about writes when syncTabs is false", async () => {
+      const received = vi.fn();
+      otherTab.onmessage = (event) => received(event.data);
+      const { result } = await renderLoaded("key", "initial", {
+        syncTabs: false,
+      });
+
+      act(() => {
+        result.current[2]();
+      });
+
+      await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1));
+    });
+
+    it("should ignore other tabs when syncTabs is false", async () => {
+      const { result } = await renderLoaded("key", "initial", {
+        syncTabs: false,
+      });
+
+      await writeFromOtherTab("key", "from other tab");
+
+      expect(result.current[0]).toBe("initial");
+    });
+
+    it("should ignore unrelated messages", async () => {
+      const { result } = await renderLoaded("key", "initial");
+
+      await act(async () => {
+        otherTab.postMessage({ key: "key" });
+        otherTab.postMessage(location("other"));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+
+      expect(result.current[0]).toBe("initial");
+      expect(readValue).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("key changes", () => {
+    it("should read the new key when the key changes", async () => {
+      database.set(locationKey(location("a")), "value a");
+      database.set(locationKey(location("b")), "value b");
+
+      const { result, rerender } = renderHook(
+        ({ storageKey }) => useIndexedDBState(storageKey, "initial"),
+        { initialProps: { storageKey: "a" } }
+      );
+      await waitFor(() => expect(result.current[0]).toBe("value a"));
+
+      rerender({ storageKey: "b" });
+
+      await waitFor(() => expect(result.current[0]).toBe("value b"));
+    });
+  });
+
+  describe("function reference stability", () => {
+    it("should keep setValue and removeValue stable across renders", async () => {
+      const { result, rerender } = await renderLoaded("key", 0);
+      const [, setValue, removeValue] = result.current;
+
+      act(() => {
+        result.current[1](1);
+      });
+      rerender();
+
+      expect(result.current[1]).toBe(setValue);
+      expect(result.current[2]).toBe(removeValue);
+    });
+  });
+
+  describe("cleanup", () => {
+    it("should unsubscribe on unmount", async () => {
+      const { unmount } = await renderLoaded("key", 0);
+
+      expect(getListenerCount(location("key"))).toBe(1);
+
+      unmount();
+
+      expect(getListenerCount(location("key"))).toBe(0);
+    });
+
+    it("should read the stored value again after remount", async () => {
+      const { unmount } = await renderLoaded("key", "initial");
+      unmount();
+      database.set(locationKey(location("key")), "changed while unmounted");
+
+      const { result } = await renderLoaded("key", "initial");
+
+      expect(result.current[0]).toBe("changed while unmounted");
+    });
+  });
+
+  describe("database", () => {
+    type Database = typeof import("./database");
+    let actual: Database;
+
+    // Minimal asynchronous IndexedDB: databases, versions, object stores and transactions
+    const createFakeIndexedDB = () => {
+      const databases = new Map<
+        string,
+        { version: number; stores: Map<string, Map<string, unknown>> }
+      >();
+      const connections: Array<{
+        onversionchange: (() => void) | null;
+        closed: boolean;
+      }> = [];
+
+      const open = (name: string, version?: number) => {
+        const request: Record<string, any> = {};
+        setTimeout(() => {
+          const data = databases.get(name) ?? { version: 0, stores: new Map() };
+          databases.set(name, data);
+          const connection = {
+            version: 0,
+            objectStoreNames: {
+              contains: (store: string) => data.stores.has(store),
+            },
+            createObjectStore: (store: string) =>
+              data.stores.set(store, new Map()),
+            onversionchange: null as (() => void) | null,
+            closed: false,
+            close: vi.fn(() => {
+              connection.closed = true;
+            }),
+            transaction: (store: string) => {
+              const transaction: Record<string, any> = {
+                objectStore: () => {
+                  const values = data.stores.get(store)!;
+                  const run = (operation: () => unknown) => {
+                    const request: Record<string, unknown> = {};
+                    setTimeout(() => {
+                      request.result = operation();
+                      transaction.oncomplete();
+                    });
+                    return request;
+                  };
+                  return {
+                    get: (key: string) =>
+                      run(() => structuredClone(values.get(key))),
+                    put: (value: unknown, key: string) =>
+                      run(() => values.set(key, structuredClone(value))),
+                    delete: (key: string) => run(() => values.delete(key)),
+                  };
+                },
+              };
+              return transaction;
+            },
+          };
+          request.result = connection;
+
+          const target = version ?? Math.max(data.version, 1);
+          if (target > data.version) {
+            const open = connections.filter((other) => !other.closed);
+            open.forEach((other) => other.onversionchange?.());
+            if (open.some((other) => !other.closed)) {
+              request.onblocked();
+              return;
+            }
+            data.version = target;
+            request.onupgradeneeded();
+          }
+          connection.version = data.version;
+          connections.push(connection);
+          request.onsuccess();
+        });
+        return request;
+      };
+
+      return { open: vi.fn(open), databases, connections };
+    };
+
+    let fakeIndexedDB: ReturnType<typeof createFakeIndexedDB>;
+
+    beforeEach(async () => {
+      actual = await vi.importActual<Database>("./database");
+      fakeIndexedDB = createFakeIndexedDB();
+      vi.stubGlobal("indexedDB", fakeIndexedDB);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should write, read and delete values", async () => {
+      const at = location("key", "db-roundtrip");
+
+      expect(await actual.readValue(at)).toEqual({ found: false });
+
+      await actual.writeValue(at, new Set([1, 2]));
+      const result = await actual.readValue(at);
+      expect(result.found).toBe(true);
+      expect(result.value).toEqual(new Set([1, 2]));
+
+      await actual.deleteValue(at);
+      expect(await actual.readValue(at)).toEqual({ found: false });
+    });
+
+    it("should create the object store on first use and reuse the connection", async () => {
+      await actual.writeValue(location("a", "db-reuse"), 1);
+      await actual.writeValue(location("b", "db-reuse"), 2);
+
+      expect(fakeIndexedDB.open).toHaveBeenCalledTimes(1);
+      expect(fakeIndexedDB.databases.get("db-reuse")!.version).toBe(1);
+    });
+
+    it("should upgrade the database to add another object store", async () => {
+      await actual.writeValue(location("key", "db-upgrade", "first"), 1);
+      await actual.writeValue(location("key", "db-upgrade", "second"), 2);
+
+      const data = fakeIndexedDB.databases.get("db-upgrade")!;
+      expect(data.version).toBe(2);
+      expect(data.stores.get("first")!.get("key")).toBe(1);
+      expect(data.stores.get("second")!.get("key")).toBe(2);
+    });
+
+    it("should close the connection when the database is upgraded elsewhere", async () => {
+      await actual.writeValue(location("key", "db-versionchange"), 1);
+      const [connection] = fakeIndexedDB.connections;
+
+      // Another tab upgrades the database
+      const upgrade = fakeIndexedDB.open("db-versionchange", 2);
+      upgrade.onupgradeneeded = () => {};
+      upgrade.onsuccess = () => {};
+      await vi.waitFor(() => expect(connection.closed).toBe(true));
+
+      expect(
+        await actual.readValue(location("key", "db-versionchange"))
+      ).toEqual({ found: true, value: 1 });
+      expect(fakeIndexedDB.open).toHaveBeenCalledTimes(3);
+    });
+
+    it("should reject when an upgrade is blocked by another connection", async () => {
+      await actual.writeValue(location("key", "db-blocked", "first"), 1);
+      // A connection in another tab that ignores versionchange
+      fakeIndexedDB.connections.push({ onversionchange: null, closed: false });
+
+      await expect(
+        actual.writeValue(location("key", "db-blocked", "second"), 2)
+      ).rejects.toThrow('Opening IndexedDB database "db-blocked" is blocked');
+    });
+
+    it("should reject when IndexedDB is not available", async () => {
+      vi.stubGlobal("indexedDB", undefined);
+
+      await expect(
+        actual.readValue(location("key", "db-unavailable"))
+      ).rejects.toThrow("IndexedDB is not available");
+    });
+  });
+});
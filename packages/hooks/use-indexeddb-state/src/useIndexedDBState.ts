@@ -0,0 +1,224 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import {
+  subscribe,
+  connect,
+  getEntry,
+  getServerEntry,
+  updateEntry,
+} from "./store";
+
+/** Default database name */
+const DEFAULT_DB_NAME = "usefy";
+
+/** Default object store name */
+const DEFAULT_STORE_NAME = "state";
+
+/**
+ * Type for initial value that can be a value or a function returning a value (lazy initialization)
+ */
+export type InitialValue<T> = T | (() => T);
+
+/**
+ * Status of the stored value
+ * - `loading`: the stored value is being read, the initial value is returned meanwhile
+ * - `ready`: the stored value (or the initial value when nothing is stored) is returned
+ */
+export type IndexedDBStateStatus = "loading" | "ready";
+
+/**
+ * Options for useIndexedDBState hook
+ */
+export interface UseIndexedDBStateOptions {
+  /**
+   * Name of the IndexedDB database
+   * @default "usefy"
+   */
+  dbName?: string;
+  /**
+   * Name of the object store within the database (created on first use)
+   * @default "state"
+   */
+  storeName?: string;
+  /**
+   * Whether to sync value across browser tabs via BroadcastChannel
+   * @default true
+   */
+  syncTabs?: boolean;
+  /**
+   * Callback function called when an error occurs
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Return type for useIndexedDBState hook - useLocalStorage tuple with the read status
+ */
+export type UseIndexedDBStateReturn<T> = readonly [
+  /** Current stored value (the initial value while loading) */
+  T,
+  /** Function to update the value (same signature as useState setter) */
+  React.Dispatch<React.SetStateAction<T>>,
+  /** Function to remove the value from IndexedDB */
+  () => void,
+  /** Whether the stored value has been read */
+  IndexedDBStateStatus
+];
+
+/**
+ * Helper function to resolve initial value (supports lazy initialization)
+ */
+function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
+  return typeof initialValue === "function"
+    ? (initialValue as () => T)()
+    : initialValue;
+}
+
+/**
+ * A hook for persisting state in IndexedDB with automatic synchronization.
+ * Works like useLocalStorage, without its size limit and string serialization:
+ * values are stored as structured clones, so Date, Map, Set, Blob and typed
+ * arrays are kept as they are.
+ *
+ * Features:
+ * - Same-tab synchronization: Multiple components using the same key will stay in sync
+ * - Cross-tab synchronization: Changes in other tabs are reflected via BroadcastChannel
+ * - Async first read: `status` is "loading" until the stored value has been read
+ * - SSR compatible: Returns the initial value with status "loading" on the server
+ *
+ * Updates made while loading are applied once the stored value is read,
+ * so functional updates always receive the stored value.
+ *
+ * @template T - The type of the stored value
+ * @param key - The key to store the value under
+ * @param initialValue - Initial value or function returning initial value (lazy initialization)
+ * @param options - Configuration options for the database, sync, and error handling
+ * @returns Tuple of [storedValue, setValue, removeValue, status]
+ *
+ * @example
+ * ```tsx
+ * // Offline drafts larger than localStorage allows
+ * function DraftEditor() {
+ *   const [drafts, setDrafts, clearDrafts, status] = useIndexedDBState<Draft[]>(
+ *     'drafts',
+ *     []
+ *   );
+ *
+ *   if (status === 'loading') return <Spinner />;
+ *
+ *   return (
+ *     <Editor
+ *       drafts={drafts}
+ *       onSave={(draft) => setDrafts((prev) => [...prev, draft])}
+ *       onClear={clearDrafts}
+ *     />
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Structured-clone values, in a dedicated database
+ * const [attachments, setAttachments] = useIndexedDBState(
+ *   'attachments',
+ *   () => new Map<string, Blob>(),
+ *   { dbName: 'mail', storeName: 'outbox' }
+ * );
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With error handling
+ * const [value, setValue] = useIndexedDBState('key', 'default', {
+ *   onError: (error) => console.error('IndexedDB error:', error),
+ * });
+ * ```
+ */
+export function useIndexedDBState<T>(
+  key: string,
+  initialValue: InitialValue<T>,
+  options: UseIndexedDBStateOptions = {}
+): UseIndexedDBStateReturn<T> {
+  const {
+    dbName = DEFAULT_DB_NAME,
+    storeName = DEFAULT_STORE_NAME,
+    syncTabs = true,
+    onError,
+  } = options;
+
+  // Store options in refs for stable references and access to latest values
+  const onErrorRef = useRef(onError);
+  const initialValueRef = useRef(initialValue);
+
+  onErrorRef.current = onError;
+  initialValueRef.current = initialValue;
+
+  const location = useMemo(
+    () => ({ dbName, storeName, key }),
+    [dbName, storeName, key]
+  );
+
+  // Report errors to the latest onError
+  const reportError = useCallback((error: Error) => {
+    onErrorRef.current?.(error);
+  }, []);
+
+  // Subscribe function for useSyncExternalStore
+  // Reads the value on first use and handles same-tab and cross-tab synchronization
+  const subscribeToStore = useCallback(
+    (onStoreChange: () => void) => {
+      const unsubscribeStore = subscribe(location, onStoreChange, reportError);
+      const disconnect = syncTabs ? connect() : null;
+
+      return () => {
+        unsubscribeStore();
+        disconnect?.();
+      };
+    },
+    [location, syncTabs, reportError]
+  );
+
+  const getSnapshot = useCallback(() => getEntry(location), [location]);
+
+  // Use useSyncExternalStore for synchronized state
+  const entry = useSyncExternalStore(
+    subscribeToStore,
+    getSnapshot,
+    getServerEntry
+  );
+
+  // Resolve the initial value once per key
+  const resolvedInitialValue = useMemo(
+    () => resolveInitialValue(initialValueRef.current),
+    [location]
+  );
+
+  const storedValue = entry.found ? (entry.value as T) : resolvedInitialValue;
+
+  // setValue - stable reference that updates IndexedDB and notifies listeners
+  const setValue = useCallback<React.Dispatch<React.SetStateAction<T>>>(
+    (value) => {
+      updateEntry(
+        location,
+        (current) => {
+          const currentValue = current.found
+            ? (current.value as T)
+            : resolveInitialValue(initialValueRef.current);
+
+          return {
+            found: true,
+            value: value instanceof Function ? value(currentValue) : value,
+          };
+        },
+        reportError
+      );
+    },
+    [location, reportError]
+  );
+
+  // removeValue - stable reference
+  const removeValue = useCallback(() => {
+    updateEntry(location, () => ({ found: false }), reportError);
+  }, [location, reportError]);
+
+  return [storedValue, setValue, removeValue, entry.status] as const;
+}
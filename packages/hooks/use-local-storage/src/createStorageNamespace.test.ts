@@ -0,0 +1,297 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createStorageNamespace } from "./createStorageNamespace";
+import { useLocalStorage } from "./useLocalStorage";
+import { clearAllListeners } from "./store";
+
+interface AppSchema extends Record<string, unknown> {
+  theme: "light" | "dark";
+  count: number;
+}
+
+// Helper to create and dispatch storage event (jsdom compatible)
+function dispatchStorageEvent(key: string | null, newValue: string | null) {
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key,
+      newValue,
+      oldValue: null,
+      url: window.location.href,
+    })
+  );
+}
+
+describe("createStorageNamespace", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    clearAllListeners();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("useItem", () => {
+    it("should store items under the namespace prefix", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      const { result } = renderHook(() => app.useItem("theme", "light"));
+
+      act(() => {
+        result.current[1]("dark");
+      });
+
+      expect(result.current[0]).toBe("dark");
+      expect(app.prefix).toBe("myapp:");
+      expect(window.localStorage.getItem("myapp:theme")).toBe('"dark"');
+    });
+
+    it("should share items with useLocalStorage using the prefixed key", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      const { result: item } = renderHook(() => app.useItem("count", 0));
+      const { result: plain } = renderHook(() =>
+        useLocalStorage("myapp:count", 0)
+      );
+
+      act(() => {
+        item.current[1](5);
+      });
+
+      expect(plain.current[0]).toBe(5);
+    });
+
+    it("should use the namespace serialization unless overridden", () => {
+      const app = createStorageNamespace<AppSchema>("myapp", {
+        serializer: (value) => `v:${JSON.stringify(value)}`,
+        deserializer: (value) => JSON.parse(value.slice(2)),
+      });
+      const { result: theme } = renderHook(() =>
+        app.useItem("theme", "light")
+      );
+      const { result: count } = renderHook(() =>
+        app.useItem("count", 0, {
+          serializer: String,
+          deserializer: Number,
+        })
+      );
+
+      act(() => {
+        theme.current[1]("dark");
+        count.current[1](3);
+      });
+
+      expect(window.localStorage.getItem("myapp:theme")).toBe('v:"dark"');
+      expect(window.localStorage.getItem("myapp:count")).toBe("3");
+      expect(count.current[0]).toBe(3);
+    });
+  });
+
+  describe("keys and clear", () => {
+    it("should reject names that would nest namespaces", () => {
+      expect(() => createStorageNamespace("myapp:settings")).toThrow(
+        'Storage namespace name "myapp:settings" must not contain ":"'
+      );
+    });
+
+    it("should list the stored keys of the namespace only", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:theme", '"dark"');
+      window.localStorage.setItem("myapp:count", "1");
+      window.localStorage.setItem("other:theme", '"light"');
+      window.localStorage.setItem("myapp", "1");
+
+      expect(app.keys()).toEqual(["count", "theme"]);
+    });
+
+    it("should remove the items of the namespace and reset mounted hooks", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("other:theme", '"dark"');
+      const { result } = renderHook(() => app.useItem("theme", "light"));
+      act(() => {
+        result.current[1]("dark");
+      });
+
+      act(() => {
+        app.clear();
+      });
+
+      expect(result.current[0]).toBe("light");
+      expect(app.keys()).toEqual([]);
+      expect(window.localStorage.getItem("other:theme")).toBe('"dark"');
+    });
+  });
+
+  describe("export and import", () => {
+    it("should round-trip the stored strings", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:theme", '"dark"');
+      window.localStorage.setItem(
+        "myapp:count",
+        JSON.stringify({ __version: 2, value: "1" })
+      );
+
+      const backup = app.export();
+      app.clear();
+      app.import(backup);
+
+      expect(JSON.parse(backup)).toEqual({
+        count: '{"__version":2,"value":"1"}',
+        theme: '"dark"',
+      });
+      expect(window.localStorage.getItem("myapp:theme")).toBe('"dark"');
+      expect(window.localStorage.getItem("myapp:count")).toBe(
+        '{"__version":2,"value":"1"}'
+      );
+    });
+
+    it("should update mounted hooks and keep items missing from the import", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:count", "1");
+      const { result } = renderHook(() => app.useItem("theme", "light"));
+
+      act(() => {
+        app.import(JSON.stringify({ theme: '"dark"' }));
+      });
+
+      expect(result.current[0]).toBe("dark");
+      expect(window.localStorage.getItem("myapp:count")).toBe("1");
+    });
+
+    it("should reject invalid exports", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+
+      expect(() => app.import("[]")).toThrow(
+        'Invalid export of storage namespace "myapp"'
+      );
+      expect(() => app.import(JSON.stringify({ count: 1 }))).toThrow(
+        'Invalid export of storage namespace "myapp"'
+      );
+      expect(() => app.import("not json")).toThrow();
+      expect(app.keys()).toEqual([]);
+    });
+  });
+
+  describe("useAll", () => {
+    it("should read every item of the namespace", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:theme", '"dark"');
+      window.localStorage.setItem("myapp:count", "2");
+      window.localStorage.setItem("other:count", "3");
+
+      const { result } = renderHook(() => app.useAll());
+
+      expect(result.current).toEqual({ theme: "dark", count: 2 });
+    });
+
+    it("should re-render when an item changes", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      const { result: all } = renderHook(() => app.useAll());
+      const { result: count } = renderHook(() => app.useItem("count", 0));
+
+      expect(all.current).toEqual({});
+
+      act(() => {
+        count.current[1](1);
+      });
+      expect(all.current).toEqual({ count: 1 });
+
+      act(() => {
+        count.current[2]();
+      });
+      expect(all.current).toEqual({});
+    });
+
+    it("should keep its reference while nothing changed", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:count", "2");
+      const { result, rerender } = renderHook(() => app.useAll());
+      const first = result.current;
+
+      rerender();
+
+      expect(result.current).toBe(first);
+    });
+
+    it("should unwrap envelopes and leave out expired items", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000);
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem(
+        "myapp:theme",
+        JSON.stringify({ __version: 1, value: '"dark"' })
+      );
+      window.localStorage.setItem(
+        "myapp:count",
+        JSON.stringify({ __expiresAt: 500, value: "1" })
+      );
+
+      const { result } = renderHook(() => app.useAll());
+
+      expect(result.current).toEqual({ theme: "dark" });
+    });
+
+    it("should re-render when an item expires", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000);
+      const app = createStorageNamespace<AppSchema>("myapp");
+      window.localStorage.setItem("myapp:theme", '"dark"');
+      window.localStorage.setItem(
+        "myapp:count",
+        JSON.stringify({ __expiresAt: 2_000, value: "1" })
+      );
+      const { result } = renderHook(() => app.useAll());
+
+      expect(result.current).toEqual({ theme: "dark", count: 1 });
+
+      act(() => {
+        vi.advanceTimersByTime(1_000);
+      });
+
+      expect(result.current).toEqual({ theme: "dark" });
+      expect(window.localStorage.getItem("myapp:count")).toBeNull();
+    });
+
+    it("should report unreadable items once and leave them out", () => {
+      const onError = vi.fn();
+      const app = createStorageNamespace<AppSchema>("myapp", { onError });
+      window.localStorage.setItem("myapp:theme", "not-json");
+      window.localStorage.setItem("myapp:count", "1");
+
+      const { result, rerender } = renderHook(() => app.useAll());
+      rerender();
+
+      expect(result.current).toEqual({ count: 1 });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should sync changes from other tabs", () => {
+      const app = createStorageNamespace<AppSchema>("myapp");
+      const { result } = renderHook(() => app.useAll());
+
+      act(() => {
+        window.localStorage.setItem("myapp:count", "4");
+        dispatchStorageEvent("myapp:count", "4");
+      });
+      expect(result.current).toEqual({ count: 4 });
+
+      act(() => {
+        window.localStorage.clear();
+        dispatchStorageEvent(null, null);
+      });
+      expect(result.current).toEqual({});
+    });
+
+    it("should not sync other tabs when syncTabs is false", () => {
+      const app = createStorageNamespace<AppSchema>("myapp", {
+        syncTabs: false,
+      });
+      const { result } = renderHook(() => app.useAll());
+
+      act(() => {
+        window.localStorage.setItem("myapp:count", "4");
+        dispatchStorageEvent("myapp:count", "4");
+      });
+
+      expect(result.current).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  localStorageAdapter,
+  unwrapEnvelope,
+  isExpired,
+  scheduleExpiry,
+} from "@usefy/use-persistent-state";
+import { subscribePrefix, notifyListeners } from "./store";
+import { cancelEncryptedWrite } from "./encryption";
+import {
+  useLocalStorage,
+  type InitialValue,
+  type StorageEncryption,
+  type UseEncryptedLocalStorageReturn,
+  type UseLocalStorageOptions,
+  type UseLocalStorageReturn,
+} from "./useLocalStorage";
+
+/**
+ * Options for createStorageNamespace
+ */
+export interface CreateStorageNamespaceOptions {
+  /**
+   * Default serializer of the items
+   * @default JSON.stringify
+   */
+  serializer?: (value: unknown) => string;
+  /**
+   * Default deserializer of the items, also used by useAll
+   * @default JSON.parse
+   */
+  deserializer?: (value: string) => unknown;
+  /**
+   * Whether useAll syncs with other browser tabs via storage event
+   * @default true
+   */
+  syncTabs?: boolean;
+  /**
+   * Called when useAll cannot read an item
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Typed handle for the localStorage keys of a namespace
+ */
+export interface StorageNamespace<S extends Record<string, unknown>> {
+  /** Namespace name */
+  readonly name: string;
+  /** Prefix of the storage keys of the namespace (`<name>:`) */
+  readonly prefix: string;
+  /**
+   * useLocalStorage for an item of the namespace
+   */
+  useItem<K extends keyof S & string>(
+    key: K,
+    initialValue: InitialValue<S[K]>,
+    options: UseLocalStorageOptions<S[K]> & { encryption: StorageEncryption }
+  ): UseEncryptedLocalStorageReturn<S[K]>;
+  useItem<K extends keyof S & string>(
+    key: K,
+    initialValue: InitialValue<S[K]>,
+    options?: UseLocalStorageOptions<S[K]>
+  ): UseLocalStorageReturn<S[K]>;
+  /**
+   * Keys of the stored items (without the prefix), sorted
+   */
+  keys(): Array<keyof S & string>;
+  /**
+   * Remove every stored item of the namespace
+   */
+  clear(): void;
+  /**
+   * Export the stored items as JSON, keyed without the prefix
+   * Values are the stored strings, so versions, expiry and encryption are kept.
+   */
+  export(): string;
+  /**
+   * Write the items of an export, keeping other stored items
+   * @throws Error when the JSON is not an export
+   */
+  import(json: string): void;
+  /**
+   * Read every stored item, re-rendering when any of them changes
+   * Values are read as stored: not migrated nor validated. Expired items are
+   * left out (and removed once they expire while mounted), as are items that
+   * cannot be read (reported through onError).
+   */
+  useAll(): Partial<S>;
+}
+
+/**
+ * Read item parsed by useAll, cached per stored string
+ */
+interface ReadItem {
+  /** Stored string */
+  rawValue: string;
+  /** Deserialized value, unset when the item cannot be read */
+  value?: unknown;
+  /** Whether the item could be read */
+  readable: boolean;
+  /** Expiry time of the stored value */
+  expiresAt?: number;
+}
+
+/**
+ * Snapshot returned by useAll
+ */
+interface AllSnapshot<S> {
+  /** Stored string per key */
+  rawValues: Map<string, string>;
+  /** Earliest expiry time of the included values */
+  expiresAt?: number;
+  /** Values per key */
+  values: Partial<S>;
+}
+
+/**
+ * Create a typed handle for the localStorage keys of a namespace.
+ * Items are stored under `<name>:<key>`, so the keys of the namespace can be
+ * listed, cleared and exported together.
+ *
+ * @template S - Value type per item key
+ * @param name - Namespace name, the prefix of the storage keys (without ":")
+ * @param options - Default serialization and useAll options
+ * @returns Typed namespace handle
+ * @throws Error when the name contains ":", as its keys would overlap another namespace
+ *
+ * @example
+ * ```tsx
+ * // storage.ts
+ * export const appStorage = createStorageNamespace<{
+ *   theme: "light" | "dark";
+ *   sidebarOpen: boolean;
+ * }>("myapp");
+ *
+ * // In a component
+ * const [theme, setTheme] = appStorage.useItem("theme", "light");
+ *
+ * // Everything the app stored
+ * const settings = appStorage.useAll(); // { theme?: ..., sidebarOpen?: ... }
+ *
+ * // Outside React
+ * const backup = appStorage.export();
+ * appStorage.clear();
+ * appStorage.import(backup);
+ * ```
+ */
+export function createStorageNamespace<
+  S extends Record<string, unknown> = Record<string, unknown>
+>(
+  name: string,
+  options: CreateStorageNamespaceOptions = {}
+): StorageNamespace<S> {
+  const {
+    serializer,
+    deserializer = JSON.parse,
+    syncTabs = true,
+    onError,
+  } = options;
+
+  // "app" would otherwise list, export and clear the keys of "app:settings"
+  if (name.includes(":")) {
+    throw new Error(`Storage namespace name "${name}" must not contain ":"`);
+  }
+  const prefix = `${name}:`;
+
+  // Stored strings of the namespace per key (without the prefix), sorted by key
+  const readRawValues = (): Map<string, string> => {
+    const rawValues = new Map<string, string>();
+    if (typeof window === "undefined") {
+      return rawValues;
+    }
+
+    // Listing keys needs Web Storage itself, storage adapters cannot enumerate keys
+    const storageKeys: string[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const storageKey = window.localStorage.key(i);
+      if (storageKey !== null && storageKey.startsWith(prefix)) {
+        storageKeys.push(storageKey);
+      }
+    }
+    storageKeys.sort().forEach((storageKey) => {
+      const rawValue = window.localStorage.getItem(storageKey);
+      if (rawValue !== null) {
+        rawValues.set(storageKey.slice(prefix.length), rawValue);
+      }
+    });
+    return rawValues;
+  };
+
+  // Server snapshot of useAll, shared so it keeps its reference
+  const emptySnapshot: Partial<S> = {};
+
+  function useItem<K extends keyof S & string>(
+    key: K,
+    initialValue: InitialValue<S[K]>,
+    itemOptions: UseLocalStorageOptions<S[K]> = {}
+  ): UseLocalStorageReturn<S[K]> | UseEncryptedLocalStorageReturn<S[K]> {
+    return useLocalStorage<S[K]>(prefix + key, initialValue, {
+      serializer,
+      deserializer: deserializer as (value: string) => S[K],
+      ...itemOptions,
+    });
+  }
+
+  function useAll(): Partial<S> {
+    // Read items per key, so each stored string is parsed (and reported) once
+    const itemsRef = useRef(new Map<string, ReadItem>());
+    const snapshotRef = useRef<AllSnapshot<S> | null>(null);
+
+    const subscribe = useCallback((onStoreChange: () => void) => {
+      const unsubscribeStore = subscribePrefix(prefix, onStoreChange);
+
+      let handleStorageEvent: ((event: StorageEvent) => void) | null = null;
+      if (typeof window !== "undefined" && syncTabs) {
+        handleStorageEvent = (event: StorageEvent) => {
+          // A null key means the whole storage was cleared
+          if (event.key === null || event.key.startsWith(prefix)) {
+            onStoreChange();
+          }
+        };
+        window.addEventListener("storage", handleStorageEvent);
+      }
+
+      return () => {
+        unsubscribeStore();
+        if (handleStorageEvent) {
+          window.removeEventListener("storage", handleStorageEvent);
+        }
+      };
+    }, []);
+
+    const getSnapshot = useCallback((): Partial<S> => {
+      let rawValues: Map<string, string>;
+      try {
+        rawValues = readRawValues();
+      } catch (error) {
+        onError?.(error as Error);
+        return snapshotRef.current?.values ?? emptySnapshot;
+      }
+
+      // Return the cached snapshot while nothing changed or expired
+      const snapshot = snapshotRef.current;
+      if (
+        snapshot &&
+        !isExpired(snapshot.expiresAt) &&
+        snapshot.rawValues.size === rawValues.size &&
+        Array.from(rawValues).every(
+          ([key, rawValue]) => snapshot.rawValues.get(key) === rawValue
+        )
+      ) {
+        return snapshot.values;
+      }
+
+      const items = new Map<string, ReadItem>();
+      const values: Record<string, unknown> = {};
+      let expiresAt: number | undefined;
+      rawValues.forEach((rawValue, key) => {
+        let item = itemsRef.current.get(key);
+        if (!item || item.rawValue !== rawValue) {
+          try {
+            const envelope = unwrapEnvelope(rawValue);
+            item = {
+              rawValue,
+              value: isExpired(envelope.expiresAt)
+                ? undefined
+                : deserializer(envelope.serialized),
+              readable: true,
+              expiresAt: envelope.expiresAt,
+            };
+          } catch (error) {
+            onError?.(error as Error);
+            item = { rawValue, readable: false };
+          }
+        }
+        items.set(key, item);
+
+        if (item.readable && !isExpired(item.expiresAt)) {
+          values[key] = item.value;
+          if (
+            item.expiresAt !== undefined &&
+            (expiresAt === undefined || item.expiresAt < expiresAt)
+          ) {
+            expiresAt = item.expiresAt;
+          }
+        }
+      });
+
+      itemsRef.current = items;
+      snapshotRef.current = {
+        rawValues,
+        expiresAt,
+        values: values as Partial<S>,
+      };
+      return snapshotRef.current.values;
+    }, []);
+
+    const getServerSnapshot = useCallback(() => emptySnapshot, []);
+
+    const values = useSyncExternalStore(
+      subscribe,
+      getSnapshot,
+      getServerSnapshot
+    );
+
+    // Remove items once they have expired, so every subscriber re-renders
+    const currentExpiresAt = snapshotRef.current?.expiresAt;
+    useEffect(() => {
+      if (currentExpiresAt === undefined) {
+        return;
+      }
+      return scheduleExpiry(currentExpiresAt, () => {
+        let rawValues: Map<string, string>;
+        try {
+          rawValues = readRawValues();
+        } catch (error) {
+          onError?.(error as Error);
+          return;
+        }
+
+        rawValues.forEach((rawValue, key) => {
+          try {
+            if (isExpired(unwrapEnvelope(rawValue).expiresAt)) {
+              cancelEncryptedWrite(prefix + key);
+              localStorageAdapter.remove(prefix + key);
+              notifyListeners(prefix + key);
+            }
+          } catch {
+            // Unreadable items are reported by getSnapshot
+          }
+        });
+      });
+    }, [currentExpiresAt]);
+
+    return values;
+  }
+
+  return {
+    name,
+    prefix,
+    useItem: useItem as StorageNamespace<S>["useItem"],
+    keys: () => Array.from(readRawValues().keys()) as Array<keyof S & string>,
+    clear: () => {
+      readRawValues().forEach((_, key) => {
+        cancelEncryptedWrite(prefix + key);
+        localStorageAdapter.remove(prefix + key);
+        notifyListeners(prefix + key);
+      });
+    },
+    export: () => JSON.stringify(Object.fromEntries(readRawValues())),
+    import: (json) => {
+      const items: unknown = JSON.parse(json);
+      if (
+        typeof items !== "object" ||
+        items === null ||
+        Array.isArray(items) ||
+        Object.values(items).some((rawValue) => typeof rawValue !== "string")
+      ) {
+        throw new Error(`Invalid export of storage namespace "${name}"`);
+      }
+      if (typeof window === "undefined") {
+        return;
+      }
+
+      Object.entries(items as Record<string, string>).forEach(
+        ([key, rawValue]) => {
+          cancelEncryptedWrite(prefix + key);
+          localStorageAdapter.set(prefix + key, rawValue);
+          notifyListeners(prefix + key);
+        }
+      );
+    },
+    useAll,
+  };
+}
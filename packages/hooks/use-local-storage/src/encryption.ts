@@ -0,0 +1,396 @@
+/**
+ * Internal encryption utilities for useLocalStorage
+ * Encrypts serialized values with AES-GCM through the Web Crypto API and keeps
+ * track of decryptions and writes in flight, shared by every hook using a key.
+ *
+ * Only the serialized value is encrypted, as `<salt>.<iv>.<ciphertext>`
+ * (base64) inside the usual envelope; version and expiry stay readable, and
+ * are authenticated as additional data so they cannot be changed without
+ * failing decryption. The salt is only set for keys derived from a passphrase
+ * (PBKDF2, SHA-256).
+ *
+ * Reads return the "plain raw" string: the stored string with the serialized
+ * value decrypted, as it would be stored without encryption.
+ *
+ * Only StorageDecryptionError is exported publicly.
+ */
+
+import {
+  isExpired,
+  unwrapEnvelope,
+  wrapEnvelope,
+  type EnvelopeMeta,
+} from "@usefy/use-persistent-state";
+
+/** PBKDF2 iterations for passphrases (OWASP recommendation for SHA-256) */
+const PBKDF2_ITERATIONS = 600_000;
+
+/** Salt length in bytes */
+const SALT_LENGTH = 16;
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/** Maximum number of decryptions kept for synchronous reads */
+const MAX_DECRYPTIONS = 100;
+
+/**
+ * Key used to encrypt values: a CryptoKey for AES-GCM, or a passphrase
+ */
+export type EncryptionKey = CryptoKey | string;
+
+/**
+ * Error reported when a stored value cannot be decrypted
+ * (wrong key, tampered or unencrypted data)
+ */
+export class StorageDecryptionError extends Error {
+  /** Storage key of the value */
+  readonly key: string;
+  /** Error thrown while decrypting */
+  readonly cause: unknown;
+
+  constructor(key: string, cause?: unknown) {
+    super(
+      `Failed to decrypt the stored value of "${key}": wrong key, or the data was tampered with`
+    );
+    this.name = "StorageDecryptionError";
+    this.key = key;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Result of reading an encrypted value
+ */
+export type DecryptResult =
+  | { status: "loading"; promise: Promise<void> }
+  | { status: "ready"; raw: string }
+  | { status: "error"; error: Error };
+
+/**
+ * Last decryption of a storage key
+ */
+interface Decryption {
+  /** Stored string */
+  stored: string;
+  encryptionKey: EncryptionKey;
+  result: DecryptResult;
+}
+
+/**
+ * Write waiting for its encryption
+ */
+interface PendingWrite {
+  /** Plain raw string being written */
+  raw: string;
+}
+
+/** Last decryption per storage key, least recently used first */
+const decryptions = new Map<string, Decryption>();
+
+/** Latest write in flight per storage key */
+const pendingWrites = new Map<string, PendingWrite>();
+
+/** Derived keys per passphrase digest and salt */
+const derivedKeys = new Map<string, Promise<CryptoKey>>();
+
+/** Salt used for new writes per passphrase digest */
+const writeSalts = new Map<string, Uint8Array>();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Digest a passphrase, so caches are not keyed by the passphrase itself
+ */
+async function digestPassphrase(passphrase: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(passphrase)
+  );
+  return toBase64(new Uint8Array(digest));
+}
+
+/**
+ * Additional data authenticated with a value: its envelope metadata
+ */
+function toAdditionalData(meta: EnvelopeMeta): BufferSource {
+  return new TextEncoder().encode(
+    JSON.stringify([meta.version ?? null, meta.expiresAt ?? null])
+  );
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase (cached per passphrase digest and salt)
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array
+): Promise<CryptoKey> {
+  const cacheKey = `${toBase64(salt)}:${await digestPassphrase(passphrase)}`;
+  let derived = derivedKeys.get(cacheKey);
+  if (!derived) {
+    derived = crypto.subtle
+      .importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+        "deriveKey",
+      ])
+      .then((baseKey) =>
+        crypto.subtle.deriveKey(
+          {
+            name: "PBKDF2",
+            salt: salt as BufferSource,
+            iterations: PBKDF2_ITERATIONS,
+            hash: "SHA-256",
+          },
+          baseKey,
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        )
+      );
+    derivedKeys.set(cacheKey, derived);
+  }
+  return derived;
+}
+
+/**
+ * Encrypt a string
+ * @param plaintext - String to encrypt
+ * @param encryptionKey - Key to encrypt with
+ * @param meta - Envelope metadata stored alongside, authenticated with the value
+ * @returns Payload in the `<salt>.<iv>.<ciphertext>` format
+ */
+export async function encryptString(
+  plaintext: string,
+  encryptionKey: EncryptionKey,
+  meta: EnvelopeMeta = {}
+): Promise<string> {
+  let salt: Uint8Array | undefined;
+  let cryptoKey: CryptoKey;
+  if (typeof encryptionKey === "string") {
+    const digest = await digestPassphrase(encryptionKey);
+    salt = writeSalts.get(digest);
+    if (!salt) {
+      salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+      writeSalts.set(digest, salt);
+    }
+    cryptoKey = await deriveKey(encryptionKey, salt);
+  } else {
+    cryptoKey = encryptionKey;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv as BufferSource,
+      additionalData: toAdditionalData(meta),
+    },
+    cryptoKey,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return [
+    salt ? toBase64(salt) : "",
+    toBase64(iv),
+    toBase64(new Uint8Array(ciphertext)),
+  ].join(".");
+}
+
+/**
+ * Decrypt a payload written by encryptString
+ * @param key - Storage key, for errors
+ * @param payload - Payload to decrypt
+ * @param encryptionKey - Key to decrypt with
+ * @param meta - Envelope metadata stored alongside the payload
+ * @throws StorageDecryptionError for wrong keys, tampered or malformed payloads
+ */
+export async function decryptString(
+  key: string,
+  payload: string,
+  encryptionKey: EncryptionKey,
+  meta: EnvelopeMeta = {}
+): Promise<string> {
+  try {
+    const parts = payload.split(".");
+    const hasSalt = parts[0] !== "";
+    if (parts.length !== 3 || hasSalt !== (typeof encryptionKey === "string")) {
+      throw new Error("Stored value is not encrypted with this kind of key");
+    }
+
+    const [salt, iv, ciphertext] = parts.map(fromBase64);
+    const cryptoKey =
+      typeof encryptionKey === "string"
+        ? await deriveKey(encryptionKey, salt)
+        : encryptionKey;
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: iv as BufferSource,
+        additionalData: toAdditionalData(meta),
+      },
+      cryptoKey,
+      ciphertext as BufferSource
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch (error) {
+    throw new StorageDecryptionError(key, error);
+  }
+}
+
+/**
+ * Keep the last decryption of a key, dropping the least recently used ones
+ * beyond MAX_DECRYPTIONS
+ */
+function setDecryption(key: string, decryption: Decryption): void {
+  decryptions.delete(key);
+  decryptions.set(key, decryption);
+  if (decryptions.size > MAX_DECRYPTIONS) {
+    const oldest = decryptions.keys().next().value as string;
+    decryptions.delete(oldest);
+  }
+}
+
+/**
+ * Read the plain raw string of a storage key
+ * Writes in flight take precedence over the stored string. Decryptions are
+ * started on first read and shared by every hook using the key; expired values
+ * are not decrypted. Only the last MAX_DECRYPTIONS keys read are kept.
+ *
+ * @param key - Storage key
+ * @param stored - Stored string, null when nothing is stored
+ * @param encryptionKey - Key to decrypt with
+ * @param onSettled - Called once a decryption started by this read finishes
+ * @returns The read result, or null when nothing is stored
+ */
+export function readDecrypted(
+  key: string,
+  stored: string | null,
+  encryptionKey: EncryptionKey,
+  onSettled: () => void
+): DecryptResult | null {
+  const pending = pendingWrites.get(key);
+  if (pending) {
+    return { status: "ready", raw: pending.raw };
+  }
+  if (stored === null) {
+    decryptions.delete(key);
+    return null;
+  }
+
+  const { version, expiresAt, serialized } = unwrapEnvelope(stored);
+  if (isExpired(expiresAt)) {
+    return { status: "ready", raw: stored };
+  }
+
+  const cached = decryptions.get(key);
+  if (
+    cached &&
+    cached.stored === stored &&
+    cached.encryptionKey === encryptionKey
+  ) {
+    setDecryption(key, cached);
+    return cached.result;
+  }
+
+  const promise = decryptString(key, serialized, encryptionKey, {
+    version,
+    expiresAt,
+  }).then(
+    (plaintext) => {
+      decryption.result = {
+        status: "ready",
+        raw: wrapEnvelope(plaintext, { version, expiresAt }),
+      };
+    },
+    (error: Error) => {
+      decryption.result = { status: "error", error };
+    }
+  );
+  const decryption: Decryption = {
+    stored,
+    encryptionKey,
+    result: { status: "loading", promise },
+  };
+  setDecryption(key, decryption);
+
+  promise.then(() => {
+    if (decryptions.get(key) === decryption) {
+      onSettled();
+    }
+  });
+  return decryption.result;
+}
+
+/**
+ * Encrypt and write a value
+ * The value reads as written right away. Only the latest write of a key is
+ * stored; writes overtaken by a later one are dropped.
+ *
+ * @param key - Storage key
+ * @param raw - Plain raw string to write
+ * @param encryptionKey - Key to encrypt with
+ * @param store - Writes the encrypted string to storage
+ * @returns Resolves once stored (or dropped), rejects when encryption or storing fails
+ */
+export function writeEncrypted(
+  key: string,
+  raw: string,
+  encryptionKey: EncryptionKey,
+  store: (stored: string) => void
+): Promise<void> {
+  const write: PendingWrite = { raw };
+  pendingWrites.set(key, write);
+
+  const { version, expiresAt, serialized } = unwrapEnvelope(raw);
+  return encryptString(serialized, encryptionKey, { version, expiresAt })
+    .then((payload) => {
+      if (pendingWrites.get(key) !== write) {
+        return;
+      }
+      const stored = wrapEnvelope(payload, { version, expiresAt });
+      store(stored);
+      setDecryption(key, {
+        stored,
+        encryptionKey,
+        result: { status: "ready", raw },
+      });
+    })
+    .finally(() => {
+      if (pendingWrites.get(key) === write) {
+        pendingWrites.delete(key);
+      }
+    });
+}
+
+/**
+ * Drop the write in flight of a key, e.g. when the value is removed
+ */
+export function cancelEncryptedWrite(key: string): void {
+  pendingWrites.delete(key);
+}
+
+/**
+ * Clear all decryptions, writes in flight and derived keys (for testing purposes)
+ * @internal
+ */
+export function clearEncryptionState(): void {
+  decryptions.clear();
+  pendingWrites.clear();
+  derivedKeys.clear();
+  writeSalts.clear();
+}
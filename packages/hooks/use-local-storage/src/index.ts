@@ -3,4 +3,28 @@ export {
   type UseLocalStorageOptions,
   type UseLocalStorageReturn,
   type InitialValue,
+  type StorageValidator,
+  type StorageMigrations,
+  type StandardSchemaV1,
+  type StandardSchemaV1Result,
+  type UseEncryptedLocalStorageReturn,
+  type StorageEncryption,
+  type LocalStorageStatus,
 } from "./useLocalStorage";
+export {
+  useLocalStorageSelector,
+  type UseLocalStorageSelectorOptions,
+} from "./useLocalStorageSelector";
+export { StorageDecryptionError } from "./encryption";
+export {
+  createStorageNamespace,
+  type StorageNamespace,
+  type CreateStorageNamespaceOptions,
+} from "./createStorageNamespace";
+export {
+  getStorageUsage,
+  type StorageUsage,
+  type StorageKeyUsage,
+  type StorageUsageOptions,
+  type QuotaExceededInfo,
+} from "./quota";
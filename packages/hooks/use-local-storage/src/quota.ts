@@ -0,0 +1,280 @@
+/**
+ * Quota handling for useLocalStorage
+ * Keeps track of when the keys of a managed namespace were last used, so the
+ * least recently used ones can be evicted when localStorage is full, and
+ * reports how much storage keys use.
+ *
+ * Only getStorageUsage and its types are exported publicly.
+ */
+
+import { localStorageAdapter } from "@usefy/use-persistent-state";
+
+/** Prefix of the keys holding the last-used times of a namespace */
+const INDEX_PREFIX = "__usefy_lru__:";
+
+/**
+ * Storage used by one key
+ */
+export interface StorageKeyUsage {
+  /** Storage key */
+  key: string;
+  /** Bytes used by the key and its value (strings are stored as UTF-16) */
+  bytes: number;
+  /** When the key was last used through useLocalStorage (namespaced keys only) */
+  lastUsed?: number;
+}
+
+/**
+ * Storage used by all keys, or by the keys of a namespace
+ */
+export interface StorageUsage {
+  /** Bytes used by all reported keys */
+  totalBytes: number;
+  /** Usage per key, largest first */
+  keys: StorageKeyUsage[];
+}
+
+/**
+ * Options for getStorageUsage
+ */
+export interface StorageUsageOptions {
+  /**
+   * Only report the keys of this namespace
+   */
+  namespace?: string;
+  /**
+   * Storage to inspect
+   * @default window.localStorage
+   */
+  storage?: Storage;
+}
+
+/**
+ * Information passed to onQuotaExceeded
+ */
+export interface QuotaExceededInfo {
+  /** Key that could not be written */
+  key: string;
+  /** Bytes the write needs */
+  bytes: number;
+  /** Error thrown by localStorage.setItem */
+  error: Error;
+}
+
+/**
+ * Options controlling what happens when a write exceeds the quota
+ */
+export interface QuotaOptions {
+  /** Namespace whose least recently used keys may be evicted */
+  namespace?: string;
+  /** Called first; return true after freeing space to retry the write */
+  onQuotaExceeded?: (info: QuotaExceededInfo) => boolean | void;
+}
+
+/**
+ * Bytes used by a key and its value
+ */
+function getEntryBytes(key: string, value: string): number {
+  return (key.length + value.length) * 2;
+}
+
+/**
+ * Check whether an error is a storage quota error
+ * Browsers disagree on the name, Firefox uses NS_ERROR_DOM_QUOTA_REACHED.
+ * The name is checked rather than the class, as DOMException does not extend
+ * Error in every environment.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  const name =
+    typeof error === "object" && error !== null
+      ? (error as { name?: unknown }).name
+      : undefined;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
+
+/**
+ * Read the last-used times of the keys of a namespace
+ */
+function readIndex(namespace: string): Record<string, number> {
+  try {
+    const raw = localStorageAdapter.get(INDEX_PREFIX + namespace);
+    const index = raw === null ? null : JSON.parse(raw);
+    return index && typeof index === "object" ? index : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Write the last-used times of the keys of a namespace
+ * Failures are ignored: a missing entry only makes a key the last to be evicted.
+ */
+function writeIndex(namespace: string, index: Record<string, number>): void {
+  try {
+    if (Object.keys(index).length === 0) {
+      localStorageAdapter.remove(INDEX_PREFIX + namespace);
+    } else {
+      localStorageAdapter.set(INDEX_PREFIX + namespace, JSON.stringify(index));
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Record that a key of a namespace was used
+ */
+export function touchKey(
+  namespace: string,
+  key: string,
+  now: number = Date.now()
+): void {
+  const index = readIndex(namespace);
+  index[key] = now;
+  writeIndex(namespace, index);
+}
+
+/**
+ * Stop tracking a key of a namespace
+ */
+export function forgetKey(namespace: string, key: string): void {
+  const index = readIndex(namespace);
+  if (key in index) {
+    delete index[key];
+    writeIndex(namespace, index);
+  }
+}
+
+/**
+ * Remove the least recently used key of a namespace
+ * @param namespace - Namespace to evict from
+ * @param exceptKey - Key being written, never evicted
+ * @returns The evicted key, or null when there is nothing left to evict
+ */
+function evictLeastRecentlyUsed(
+  namespace: string,
+  exceptKey: string
+): string | null {
+  const index = readIndex(namespace);
+  const candidates = Object.keys(index)
+    .filter((key) => key !== exceptKey)
+    .sort((a, b) => index[a] - index[b]);
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const evicted = candidates[0];
+  localStorageAdapter.remove(evicted);
+  delete index[evicted];
+  writeIndex(namespace, index);
+  return evicted;
+}
+
+/**
+ * Write a value to localStorage, making room when the quota is exceeded
+ * onQuotaExceeded gets the first chance to free space, then the least
+ * recently used keys of the namespace are evicted one at a time until the
+ * write succeeds. The last quota error is thrown when nothing helps.
+ *
+ * @param key - Storage key
+ * @param value - String to store
+ * @param options - Namespace and onQuotaExceeded
+ * @param onEvict - Called with every evicted key
+ */
+export function setItemWithQuota(
+  key: string,
+  value: string,
+  options: QuotaOptions,
+  onEvict: (key: string) => void
+): void {
+  // Returns the quota error of a failed write, rethrows other errors
+  const trySetItem = (): Error | null => {
+    try {
+      localStorageAdapter.set(key, value);
+      return null;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) {
+        throw error;
+      }
+      return error as Error;
+    }
+  };
+
+  let error = trySetItem();
+  if (error === null) {
+    return;
+  }
+
+  const retry = options.onQuotaExceeded?.({
+    key,
+    bytes: getEntryBytes(key, value),
+    error,
+  });
+  if (retry === true) {
+    error = trySetItem();
+  }
+
+  if (options.namespace !== undefined) {
+    let evicted: string | null;
+    while (
+      error !== null &&
+      (evicted = evictLeastRecentlyUsed(options.namespace, key)) !== null
+    ) {
+      onEvict(evicted);
+      error = trySetItem();
+    }
+  }
+
+  if (error !== null) {
+    throw error;
+  }
+}
+
+/**
+ * Report the bytes used per key in localStorage
+ * Strings are stored as UTF-16, so each character of a key or value counts
+ * as two bytes. Browsers typically allow about 5MB per origin.
+ *
+ * @param options - Namespace filter and storage to inspect
+ * @returns Total bytes and usage per key, largest first
+ *
+ * @example
+ * ```tsx
+ * const { totalBytes, keys } = getStorageUsage();
+ * console.log(`${(totalBytes / 1024).toFixed(1)} KB used`, keys.slice(0, 5));
+ *
+ * // Keys written through useLocalStorage with namespace "app"
+ * const appUsage = getStorageUsage({ namespace: 'app' });
+ * ```
+ */
+export function getStorageUsage(
+  options: StorageUsageOptions = {}
+): StorageUsage {
+  if (options.storage === undefined && typeof window === "undefined") {
+    return { totalBytes: 0, keys: [] };
+  }
+
+  const storage = options.storage ?? window.localStorage;
+  const index =
+    options.namespace !== undefined ? readIndex(options.namespace) : undefined;
+
+  const keys: StorageKeyUsage[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key === null || (index && !(key in index))) {
+      continue;
+    }
+    const value = storage.getItem(key) ?? "";
+    keys.push(
+      index
+        ? { key, bytes: getEntryBytes(key, value), lastUsed: index[key] }
+        : { key, bytes: getEntryBytes(key, value) }
+    );
+  }
+
+  keys.sort((a, b) => b.bytes - a.bytes);
+  return {
+    totalBytes: keys.reduce((total, usage) => total + usage.bytes, 0),
+    keys,
+  };
+}
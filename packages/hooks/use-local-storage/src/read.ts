@@ -0,0 +1,76 @@
+/**
+ * Internal read pipeline for useLocalStorage and useLocalStorageSelector
+ * Turns a stored string into a value: unwraps the envelope, then
+ * deserializes, migrates and validates the value unless it has expired.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import { isExpired, unwrapEnvelope } from "@usefy/use-persistent-state";
+import { deserializeShared } from "./store";
+import { migrateValue, validateValue } from "./schema";
+import type { StorageMigrations, StorageValidator } from "./useLocalStorage";
+
+/**
+ * Options controlling how stored strings are read
+ */
+export interface ReadOptions<T> {
+  deserializer: (value: string) => T;
+  version?: number;
+  migrate?: StorageMigrations;
+  validate?: StorageValidator<T>;
+}
+
+/**
+ * Value read from a stored string
+ */
+export interface ReadResult<T> {
+  /** Read value, unset when expired */
+  value?: T;
+  /** Expiry time of the stored value */
+  expiresAt?: number;
+  /** Whether the stored value had expired when read */
+  expired: boolean;
+}
+
+/**
+ * Read a stored string
+ * Deserialized values are shared between hooks reading the key, except
+ * for values that need migrating: migrations get their own copy, so they
+ * cannot change the value other hooks read.
+ * @throws When the value cannot be deserialized, migrated or validated
+ */
+export function readValue<T>(
+  key: string,
+  rawValue: string,
+  options: ReadOptions<T>
+): ReadResult<T> {
+  const { version, expiresAt, serialized } = unwrapEnvelope(rawValue);
+  if (isExpired(expiresAt)) {
+    return { expiresAt, expired: true };
+  }
+
+  const storedVersion = version ?? 0;
+  const needsMigration =
+    options.version !== undefined && storedVersion < options.version;
+
+  let value: unknown = needsMigration
+    ? options.deserializer(serialized)
+    : deserializeShared(key, serialized, options.deserializer);
+  if (options.version !== undefined) {
+    value = migrateValue(
+      value,
+      storedVersion,
+      options.version,
+      options.migrate
+    );
+  }
+
+  return {
+    value: options.validate
+      ? validateValue(value, options.validate)
+      : (value as T),
+    expiresAt,
+    expired: false,
+  };
+}
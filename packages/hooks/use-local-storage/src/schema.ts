@@ -0,0 +1,67 @@
+/**
+ * Internal schema utilities for useLocalStorage
+ * Validates read values (type guards, Standard Schema validators, zod-like parsers)
+ * and migrates versioned values on read.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import type { StorageMigrations, StorageValidator } from "./useLocalStorage";
+
+/**
+ * Upgrade a value from its stored version to the current version
+ * Runs migrations[from], migrations[from + 1], ... in order; missing steps leave the value unchanged.
+ * @throws When the stored version is newer than the current version
+ */
+export function migrateValue(
+  value: unknown,
+  from: number,
+  to: number,
+  migrations: StorageMigrations = {}
+): unknown {
+  if (from > to) {
+    throw new Error(
+      `Stored value has version ${from}, which is newer than version ${to}`
+    );
+  }
+
+  let migrated = value;
+  for (let version = from; version < to; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      migrated = migration(migrated);
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Validate a read value
+ * @returns The value (or the parser's output)
+ * @throws When the value is invalid, or the schema validates asynchronously
+ */
+export function validateValue<T>(
+  value: unknown,
+  validator: StorageValidator<T>
+): T {
+  if (typeof validator === "function") {
+    if (!validator(value)) {
+      throw new Error("Stored value failed validation");
+    }
+    return value as T;
+  }
+
+  if ("~standard" in validator) {
+    const result = validator["~standard"].validate(value);
+    if (result instanceof Promise) {
+      throw new Error("Async schemas are not supported for stored values");
+    }
+    if (result.issues) {
+      const messages = result.issues.map((issue) => issue.message).join("; ");
+      throw new Error(`Stored value failed validation: ${messages}`);
+    }
+    return result.value;
+  }
+
+  return validator.parse(value);
+}
@@ -1,7 +1,7 @@
 /**
  * Internal Store Manager for localStorage synchronization
  * This module manages listeners for same-tab synchronization across components
- * using the same localStorage key.
+ * using the same localStorage key, and the deserialized values they share.
  *
  * @internal This module is not exported publicly
  */
@@ -9,6 +9,23 @@
 /** Map of key -> Set of listener callbacks */
 const listeners = new Map<string, Set<() => void>>();
 
+/** Map of key prefix -> Set of listener callbacks (used by storage namespaces) */
+const prefixListeners = new Map<string, Set<(key: string) => void>>();
+
+/**
+ * Last deserialized value of a key
+ */
+interface DeserializedValue {
+  /** Serialized string the value was read from */
+  serialized: string;
+  /** Deserializer the value was read with */
+  deserializer: (value: string) => unknown;
+  value: unknown;
+}
+
+/** Map of key -> last deserialized value, shared by every hook reading the key */
+const deserializedValues = new Map<string, DeserializedValue>();
+
 /**
  * Subscribe a listener to changes for a specific key
  * @param key - The localStorage key to subscribe to
@@ -26,9 +43,37 @@ export function subscribe(key: string, listener: () => void): () => void {
   return () => {
     keyListeners.delete(listener);
 
-    // Cleanup: remove the key entry if no more listeners
+    // Cleanup: remove the key entry and its deserialized value if no more listeners
     if (keyListeners.size === 0) {
       listeners.delete(key);
+      deserializedValues.delete(key);
+    }
+  };
+}
+
+/**
+ * Subscribe a listener to changes for every key starting with a prefix
+ * @param prefix - The key prefix to subscribe to
+ * @param listener - Callback to invoke with the key that changed
+ * @returns Unsubscribe function
+ */
+export function subscribePrefix(
+  prefix: string,
+  listener: (key: string) => void
+): () => void {
+  if (!prefixListeners.has(prefix)) {
+    prefixListeners.set(prefix, new Set());
+  }
+
+  const keyListeners = prefixListeners.get(prefix)!;
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+
+    // Cleanup: remove the prefix entry if no more listeners
+    if (keyListeners.size === 0) {
+      prefixListeners.delete(prefix);
     }
   };
 }
@@ -45,6 +90,42 @@ export function notifyListeners(key: string): void {
   if (keyListeners) {
     keyListeners.forEach((listener) => listener());
   }
+
+  prefixListeners.forEach((prefixKeyListeners, prefix) => {
+    if (key.startsWith(prefix)) {
+      prefixKeyListeners.forEach((listener) => listener(key));
+    }
+  });
+}
+
+/**
+ * Deserialize the stored string of a key, once for every hook reading it
+ * Hooks using the same deserializer get the same value (and reference)
+ * until the stored string changes, or until the last hook subscribed to
+ * the key unsubscribes. The value must not be mutated.
+ *
+ * @param key - The localStorage key
+ * @param serialized - The serialized value (unwrapped from its envelope)
+ * @param deserializer - The deserializer of the reading hook
+ * @returns The deserialized value
+ */
+export function deserializeShared<T>(
+  key: string,
+  serialized: string,
+  deserializer: (value: string) => T
+): T {
+  const cached = deserializedValues.get(key);
+  if (
+    cached &&
+    cached.serialized === serialized &&
+    cached.deserializer === deserializer
+  ) {
+    return cached.value as T;
+  }
+
+  const value = deserializer(serialized);
+  deserializedValues.set(key, { serialized, deserializer, value });
+  return value;
 }
 
 /**
@@ -61,5 +142,6 @@ export function getListenerCount(key: string): number {
  */
 export function clearAllListeners(): void {
   listeners.clear();
+  prefixListeners.clear();
+  deserializedValues.clear();
 }
-
@@ -1,7 +1,9 @@
-import { renderHook, act } from "@testing-library/react";
+import { renderHook, act, waitFor } from "@testing-library/react";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { useLocalStorage } from "./useLocalStorage";
+import { useLocalStorage, type StandardSchemaV1 } from "./useLocalStorage";
 import { clearAllListeners, getListenerCount } from "./store";
+import { getStorageUsage } from "./quota";
+import { StorageDecryptionError, clearEncryptionState } from "./encryption";
 
 // Mock localStorage
 const createLocalStorageMock = () => {
@@ -25,6 +27,25 @@ const createLocalStorageMock = () => {
 };
 
 const localStorageMock = createLocalStorageMock();
+const setItemImplementation = localStorageMock.setItem.getMockImplementation()!;
+
+// Make setItem throw a quota error once the stored strings exceed maxBytes
+function limitStorage(maxBytes: number) {
+  localStorageMock.setItem.mockImplementation((key: string, value: string) => {
+    let bytes = (key.length + value.length) * 2;
+    for (let i = 0; i < localStorageMock.length; i++) {
+      const storedKey = localStorageMock.key(i)!;
+      if (storedKey !== key) {
+        bytes +=
+          (storedKey.length + localStorageMock.getItem(storedKey)!.length) * 2;
+      }
+    }
+    if (bytes > maxBytes) {
+      throw new DOMException("The quota has been exceeded.", "QuotaExceededError");
+    }
+    setItemImplementation(key, value);
+  });
+}
 
 Object.defineProperty(window, "localStorage", {
   value: localStorageMock,
@@ -328,6 +349,979 @@ describe("useLocalStorage", () => {
     });
   });
 
+  describe("validation", () => {
+    interface Settings {
+      theme: string;
+    }
+
+    const isSettings = (value: unknown): value is Settings =>
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as Settings).theme === "string";
+
+    it("should accept values passing a type guard", () => {
+      localStorageMock.setItem("settings", JSON.stringify({ theme: "dark" }));
+
+      const { result } = renderHook(() =>
+        useLocalStorage<Settings>("settings", { theme: "light" }, {
+          validate: isSettings,
+        })
+      );
+
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("should fall back to the initial value for invalid values", () => {
+      localStorageMock.setItem("settings", JSON.stringify({ darkMode: true }));
+      const onError = vi.fn();
+
+      const { result, rerender } = renderHook(() =>
+        useLocalStorage<Settings>("settings", { theme: "light" }, {
+          validate: isSettings,
+          onError,
+        })
+      );
+      rerender();
+
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0].message).toBe(
+        "Stored value failed validation"
+      );
+      // The stored value is left untouched
+      expect(localStorageMock.getItem("settings")).toBe(
+        JSON.stringify({ darkMode: true })
+      );
+    });
+
+    it("should support Standard Schema validators", () => {
+      const schema: StandardSchemaV1<unknown, number> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: (value) =>
+            typeof value === "number"
+              ? { value: Math.round(value) }
+              : { issues: [{ message: "Expected number" }] },
+        },
+      };
+      const onError = vi.fn();
+
+      localStorageMock.setItem("count", "1.6");
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, { validate: schema, onError })
+      );
+      expect(result.current[0]).toBe(2);
+
+      act(() => {
+        localStorageMock.setItem("count", JSON.stringify("text"));
+        dispatchStorageEvent("count", JSON.stringify("text"));
+      });
+
+      expect(result.current[0]).toBe(0);
+      expect(onError.mock.calls[0][0].message).toBe(
+        "Stored value failed validation: Expected number"
+      );
+    });
+
+    it("should reject async Standard Schema validators", () => {
+      const schema: StandardSchemaV1<unknown, number> = {
+        "~standard": {
+          version: 1,
+          vendor: "test",
+          validate: async (value) => ({ value: value as number }),
+        },
+      };
+      const onError = vi.fn();
+      localStorageMock.setItem("count", "1");
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, { validate: schema, onError })
+      );
+
+      expect(result.current[0]).toBe(0);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: "Async schemas are not supported for stored values",
+        })
+      );
+    });
+
+    it("should support parsers with a throwing parse method", () => {
+      const parser = {
+        parse: (value: unknown): Settings => {
+          if (!isSettings(value)) {
+            throw new Error("Invalid settings");
+          }
+          return { theme: value.theme.toLowerCase() };
+        },
+      };
+      localStorageMock.setItem("settings", JSON.stringify({ theme: "DARK" }));
+      localStorageMock.setItem("other", JSON.stringify(null));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() => ({
+        valid: useLocalStorage<Settings>("settings", { theme: "light" }, {
+          validate: parser,
+        }),
+        invalid: useLocalStorage<Settings>("other", { theme: "light" }, {
+          validate: parser,
+          onError,
+        }),
+      }));
+
+      expect(result.current.valid[0]).toEqual({ theme: "dark" });
+      expect(result.current.invalid[0]).toEqual({ theme: "light" });
+      expect(onError.mock.calls[0][0].message).toBe("Invalid settings");
+    });
+
+    it("should validate the current value for functional updates", () => {
+      localStorageMock.setItem("count", JSON.stringify("garbage"));
+      const isNumber = (value: unknown): value is number =>
+        typeof value === "number";
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 10, { validate: isNumber })
+      );
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(11);
+    });
+  });
+
+  describe("versioned migrations", () => {
+    it("should store values in a version envelope", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light" }, { version: 2 })
+      );
+
+      act(() => {
+        result.current[1]({ theme: "dark" });
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("settings")!)).toEqual({
+        __version: 2,
+        value: JSON.stringify({ theme: "dark" }),
+      });
+      expect(result.current[0]).toEqual({ theme: "dark" });
+    });
+
+    it("should read values stored with the current version", () => {
+      localStorageMock.setItem(
+        "settings",
+        JSON.stringify({ __version: 2, value: JSON.stringify({ theme: "dark" }) })
+      );
+      const migration = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light" }, {
+          version: 2,
+          migrate: { 1: migration },
+        })
+      );
+
+      expect(result.current[0]).toEqual({ theme: "dark" });
+      expect(migration).not.toHaveBeenCalled();
+    });
+
+    it("should migrate unversioned values from version 0", () => {
+      localStorageMock.setItem("settings", JSON.stringify({ darkMode: true }));
+
+      const { result } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light", fontSize: 12 }, {
+          version: 2,
+          migrate: {
+            0: (old) => ({
+              theme: (old as { darkMode: boolean }).darkMode ? "dark" : "light",
+            }),
+            1: (old) => ({ ...(old as { theme: string }), fontSize: 14 }),
+          },
+        })
+      );
+
+      expect(result.current[0]).toEqual({ theme: "dark", fontSize: 14 });
+    });
+
+    it("should only run migrations from the stored version", () => {
+      localStorageMock.setItem(
+        "count",
+        JSON.stringify({ __version: 1, value: "5" })
+      );
+      const fromZero = vi.fn((value: unknown) => (value as number) * 100);
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, {
+          version: 3,
+          migrate: { 0: fromZero, 2: (value) => (value as number) + 1 },
+        })
+      );
+
+      expect(result.current[0]).toBe(6);
+      expect(fromZero).not.toHaveBeenCalled();
+    });
+
+    it("should write the upgraded value with the current version", () => {
+      localStorageMock.setItem("count", JSON.stringify(5));
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, {
+          version: 1,
+          migrate: { 0: (value) => (value as number) * 2 },
+        })
+      );
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("count")!)).toEqual({
+        __version: 1,
+        value: "11",
+      });
+    });
+
+    it("should not read values from a newer version", () => {
+      const stored = JSON.stringify({ __version: 3, value: "5" });
+      localStorageMock.setItem("count", stored);
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, { version: 2, onError })
+      );
+
+      expect(result.current[0]).toBe(0);
+      expect(onError.mock.calls[0][0].message).toBe(
+        "Stored value has version 3, which is newer than version 2"
+      );
+      expect(localStorageMock.getItem("count")).toBe(stored);
+    });
+
+    it("should validate migrated values", () => {
+      localStorageMock.setItem("count", JSON.stringify("5"));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, {
+          version: 1,
+          migrate: { 0: (value) => String(value).length },
+          validate: (value): value is number => typeof value === "number",
+          onError,
+        })
+      );
+
+      expect(result.current[0]).toBe(1);
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it("should keep custom serializers inside the envelope", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage<Date>("date", new Date(0), {
+          version: 1,
+          serializer: (date) => date.toISOString(),
+          deserializer: (value) => new Date(value),
+        })
+      );
+
+      act(() => {
+        result.current[1](new Date(1000));
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("date")!)).toEqual({
+        __version: 1,
+        value: "1970-01-01T00:00:01.000Z",
+      });
+      expect(result.current[0].getTime()).toBe(1000);
+    });
+  });
+
+  describe("expiry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should store values with an expiry time when ttl is set", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("token", "", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("token")!)).toEqual({
+        __expiresAt: 1_005_000,
+        value: JSON.stringify("abc"),
+      });
+      expect(result.current[0]).toBe("abc");
+    });
+
+    it("should count ttl from each write", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("token", "", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("first");
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+      act(() => {
+        result.current[1]("second");
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+
+      expect(result.current[0]).toBe("second");
+    });
+
+    it("should reset to the initial value and remove the item when the ttl passes", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("token", "none", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+      act(() => {
+        vi.advanceTimersByTime(4999);
+      });
+      expect(result.current[0]).toBe("abc");
+
+      act(() => {
+        vi.advanceTimersByTime(1);
+      });
+
+      expect(result.current[0]).toBe("none");
+      expect(localStorageMock.getItem("token")).toBeNull();
+    });
+
+    it("should use expiresAt as a fixed expiry time", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("banner", true, {
+          expiresAt: new Date(1_002_000),
+          ttl: 60_000,
+        })
+      );
+
+      act(() => {
+        result.current[1](false);
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("banner")!).__expiresAt).toBe(
+        1_002_000
+      );
+
+      act(() => {
+        vi.advanceTimersByTime(2000);
+      });
+
+      expect(result.current[0]).toBe(true);
+    });
+
+    it("should treat values that expired before mount as missing", () => {
+      localStorageMock.setItem(
+        "token",
+        JSON.stringify({ __expiresAt: 999_000, value: JSON.stringify("old") })
+      );
+
+      const { result } = renderHook(() => useLocalStorage("token", "none"));
+
+      expect(result.current[0]).toBe("none");
+      expect(localStorageMock.getItem("token")).toBeNull();
+    });
+
+    it("should read values that have not expired", () => {
+      localStorageMock.setItem(
+        "token",
+        JSON.stringify({ __expiresAt: 1_001_000, value: JSON.stringify("abc") })
+      );
+
+      const { result } = renderHook(() => useLocalStorage("token", "none"));
+
+      expect(result.current[0]).toBe("abc");
+    });
+
+    it("should expire the value for every instance using the key", () => {
+      const { result: writer } = renderHook(() =>
+        useLocalStorage("token", "none", { ttl: 1000 })
+      );
+      const { result: reader } = renderHook(() =>
+        useLocalStorage("token", "none")
+      );
+
+      act(() => {
+        writer.current[1]("abc");
+      });
+      expect(reader.current[0]).toBe("abc");
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(writer.current[0]).toBe("none");
+      expect(reader.current[0]).toBe("none");
+    });
+
+    it("should cancel the scheduled expiry on unmount", () => {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorage("token", "none", { ttl: 1000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+      unmount();
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should store plain values when no expiry is set", () => {
+      const { result } = renderHook(() => useLocalStorage("token", ""));
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      expect(localStorageMock.getItem("token")).toBe(JSON.stringify("abc"));
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should store version and expiry in the same envelope", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light" }, {
+          version: 2,
+          ttl: 1000,
+        })
+      );
+
+      act(() => {
+        result.current[1]({ theme: "dark" });
+      });
+
+      expect(JSON.parse(localStorageMock.getItem("settings")!)).toEqual({
+        __version: 2,
+        __expiresAt: 1_001_000,
+        value: JSON.stringify({ theme: "dark" }),
+      });
+    });
+
+    it("should not validate or migrate expired values", () => {
+      localStorageMock.setItem(
+        "settings",
+        JSON.stringify({ __version: 1, __expiresAt: 1, value: "{}" })
+      );
+      const migration = vi.fn();
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light" }, {
+          version: 2,
+          migrate: { 1: migration },
+          validate: () => false,
+          onError,
+        })
+      );
+
+      expect(result.current[0]).toEqual({ theme: "light" });
+      expect(migration).not.toHaveBeenCalled();
+      expect(onError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("quota handling", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      localStorageMock.setItem.mockImplementation(setItemImplementation);
+    });
+
+    // Write a value through a namespaced hook at the given time
+    function writeAt(time: number, key: string, value: string) {
+      vi.setSystemTime(time);
+      const hook = renderHook(() =>
+        useLocalStorage(key, "", { namespace: "app" })
+      );
+      act(() => {
+        hook.result.current[1](value);
+      });
+      return hook;
+    }
+
+    it("should evict the least recently used keys of the namespace", () => {
+      const { result: oldest } = writeAt(1_000, "a", "x".repeat(100));
+      writeAt(2_000, "b", "x".repeat(100));
+      writeAt(3_000, "c", "x".repeat(100));
+      limitStorage(800);
+
+      const { result } = writeAt(4_000, "d", "x".repeat(200));
+
+      expect(result.current[0]).toBe("x".repeat(200));
+      expect(localStorageMock.getItem("a")).toBeNull();
+      expect(localStorageMock.getItem("b")).toBeNull();
+      expect(localStorageMock.getItem("c")).not.toBeNull();
+      expect(oldest.current[0]).toBe("");
+      expect(getStorageUsage({ namespace: "app" }).keys.map((k) => k.key)).toEqual([
+        "d",
+        "c",
+      ]);
+    });
+
+    it("should evict keys used least recently, counting mounts as use", () => {
+      writeAt(1_000, "a", "x".repeat(100));
+      writeAt(2_000, "b", "x".repeat(100));
+      vi.setSystemTime(3_000);
+      renderHook(() => useLocalStorage("a", "", { namespace: "app" }));
+      limitStorage(600);
+
+      writeAt(4_000, "c", "x".repeat(100));
+
+      expect(localStorageMock.getItem("a")).not.toBeNull();
+      expect(localStorageMock.getItem("b")).toBeNull();
+    });
+
+    it("should not evict keys outside the namespace", () => {
+      localStorageMock.setItem("other", JSON.stringify("x".repeat(100)));
+      writeAt(1_000, "a", "x".repeat(10));
+      limitStorage(300);
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorage("a", "", { namespace: "app", onError })
+      );
+
+      act(() => {
+        result.current[1]("x".repeat(100));
+      });
+
+      expect(result.current[0]).toBe("x".repeat(10));
+      expect(localStorageMock.getItem("other")).not.toBeNull();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "QuotaExceededError" })
+      );
+    });
+
+    it("should let onQuotaExceeded free space and retry", () => {
+      localStorageMock.setItem("cache", "x".repeat(200));
+      limitStorage(500);
+      const onQuotaExceeded = vi.fn(() => {
+        localStorageMock.removeItem("cache");
+        return true;
+      });
+      const { result } = renderHook(() =>
+        useLocalStorage("draft", "", { onQuotaExceeded })
+      );
+
+      act(() => {
+        result.current[1]("x".repeat(100));
+      });
+
+      expect(onQuotaExceeded).toHaveBeenCalledWith({
+        key: "draft",
+        bytes: (5 + 102) * 2,
+        error: expect.objectContaining({ name: "QuotaExceededError" }),
+      });
+      expect(result.current[0]).toBe("x".repeat(100));
+    });
+
+    it("should evict after onQuotaExceeded when it does not ask for a retry", () => {
+      writeAt(1_000, "a", "x".repeat(100));
+      limitStorage(300);
+      const onQuotaExceeded = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorage("b", "", { namespace: "app", onQuotaExceeded })
+      );
+
+      act(() => {
+        result.current[1]("x".repeat(100));
+      });
+
+      expect(onQuotaExceeded).toHaveBeenCalledTimes(1);
+      expect(localStorageMock.getItem("a")).toBeNull();
+      expect(result.current[0]).toBe("x".repeat(100));
+    });
+
+    it("should report errors other than quota errors without handling them", () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error("SecurityError");
+      });
+      const onQuotaExceeded = vi.fn();
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorage("key", "", { namespace: "app", onQuotaExceeded, onError })
+      );
+
+      act(() => {
+        result.current[1]("value");
+      });
+
+      expect(onQuotaExceeded).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(new Error("SecurityError"));
+    });
+
+    it("should stop tracking removed keys", () => {
+      const { result } = writeAt(1_000, "a", "value");
+
+      act(() => {
+        result.current[2]();
+      });
+
+      expect(localStorageMock.getItem("__usefy_lru__:app")).toBeNull();
+    });
+
+    it("should report storage usage per key, largest first", () => {
+      localStorageMock.setItem("small", "1");
+      localStorageMock.setItem("large", "123456789");
+
+      expect(getStorageUsage()).toEqual({
+        totalBytes: (5 + 1) * 2 + (5 + 9) * 2,
+        keys: [
+          { key: "large", bytes: 28 },
+          { key: "small", bytes: 12 },
+        ],
+      });
+    });
+
+    it("should report the usage and last use of namespace keys", () => {
+      localStorageMock.setItem("other", "1");
+      writeAt(1_000, "a", "value");
+
+      expect(getStorageUsage({ namespace: "app" })).toEqual({
+        totalBytes: (1 + 7) * 2,
+        keys: [{ key: "a", bytes: 16, lastUsed: 1_000 }],
+      });
+    });
+
+    it("should report the usage of a given storage", () => {
+      const storage = createLocalStorageMock();
+      storage.setItem("key", "value");
+
+      expect(getStorageUsage({ storage: storage as Storage })).toEqual({
+        totalBytes: 16,
+        keys: [{ key: "key", bytes: 16 }],
+      });
+    });
+  });
+
+  describe("encryption", () => {
+    let cryptoKey: CryptoKey;
+
+    beforeEach(async () => {
+      clearEncryptionState();
+      cryptoKey = await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+    });
+
+    // Write a value through an encrypted hook and wait until it is stored
+    async function writeEncryptedValue(
+      key: string,
+      value: unknown,
+      encryptionKey: CryptoKey | string,
+      options: { ttl?: number } = {}
+    ) {
+      const { result, unmount } = renderHook(() =>
+        useLocalStorage<unknown>(key, null, {
+          ...options,
+          encryption: { key: encryptionKey },
+        })
+      );
+      act(() => {
+        result.current[1](value);
+      });
+      await waitFor(() => {
+        expect(localStorageMock.setItem).toHaveBeenCalledWith(
+          key,
+          expect.any(String)
+        );
+      });
+      unmount();
+    }
+
+    it("should store encrypted values and decrypt them on read", async () => {
+      await writeEncryptedValue("secret", { token: "abc" }, cryptoKey);
+
+      expect(localStorageMock.getItem("secret")).not.toContain("abc");
+      clearEncryptionState();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", { token: "" }, {
+          encryption: { key: cryptoKey },
+        })
+      );
+
+      expect(result.current[0]).toEqual({ token: "" });
+      expect(result.current[3]).toBe("loading");
+
+      await waitFor(() => {
+        expect(result.current[3]).toBe("ready");
+      });
+      expect(result.current[0]).toEqual({ token: "abc" });
+    });
+
+    it("should derive the key from a passphrase", async () => {
+      await writeEncryptedValue("secret", "abc", "correct horse");
+      clearEncryptionState();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "", { encryption: { key: "correct horse" } })
+      );
+
+      await waitFor(() => {
+        expect(result.current[0]).toBe("abc");
+      });
+      expect(result.current[3]).toBe("ready");
+    });
+
+    it("should be ready right away when nothing is stored", () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", { encryption: { key: cryptoKey } })
+      );
+
+      expect(result.current[0]).toBe("none");
+      expect(result.current[3]).toBe("ready");
+    });
+
+    it("should report a StorageDecryptionError for a wrong key", async () => {
+      await writeEncryptedValue("secret", "abc", cryptoKey);
+      const otherKey = await crypto.subtle.generateKey(
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+      );
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", {
+          encryption: { key: otherKey },
+          onError,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current[3]).toBe("error");
+      });
+      expect(result.current[0]).toBe("none");
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(StorageDecryptionError);
+      expect(onError.mock.calls[0][0].key).toBe("secret");
+    });
+
+    it("should report tampered data", async () => {
+      await writeEncryptedValue("secret", "abc", cryptoKey);
+      const [salt, iv, ciphertext] = localStorageMock
+        .getItem("secret")!
+        .split(".");
+      const tampered = ciphertext.startsWith("A")
+        ? `B${ciphertext.slice(1)}`
+        : `A${ciphertext.slice(1)}`;
+      localStorageMock.setItem("secret", [salt, iv, tampered].join("."));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", {
+          encryption: { key: cryptoKey },
+          onError,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current[3]).toBe("error");
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageDecryptionError));
+    });
+
+    it("should report unencrypted data", async () => {
+      localStorageMock.setItem("secret", JSON.stringify("abc"));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", {
+          encryption: { key: cryptoKey },
+          onError,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current[3]).toBe("error");
+      });
+      expect(result.current[0]).toBe("none");
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageDecryptionError));
+    });
+
+    it("should overwrite values that cannot be decrypted", async () => {
+      localStorageMock.setItem("secret", JSON.stringify("abc"));
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", {
+          encryption: { key: cryptoKey },
+          onError: () => {},
+        })
+      );
+      await waitFor(() => {
+        expect(result.current[3]).toBe("error");
+      });
+
+      act(() => {
+        result.current[1]("new");
+      });
+
+      expect(result.current[0]).toBe("new");
+      expect(result.current[3]).toBe("ready");
+    });
+
+    it("should show writes before they are encrypted", async () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", { encryption: { key: cryptoKey } })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      expect(result.current[0]).toBe("abc");
+      expect(localStorageMock.getItem("secret")).toBeNull();
+
+      await waitFor(() => {
+        expect(localStorageMock.getItem("secret")).not.toBeNull();
+      });
+      expect(result.current[0]).toBe("abc");
+      expect(localStorageMock.getItem("secret")).not.toContain("abc");
+    });
+
+    it("should only store the latest write", async () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, { encryption: { key: cryptoKey } })
+      );
+
+      act(() => {
+        result.current[1](1);
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(2);
+      await waitFor(() => {
+        expect(localStorageMock.setItem).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it("should apply functional updates once the stored value is decrypted", async () => {
+      await writeEncryptedValue("count", 5, cryptoKey);
+      clearEncryptionState();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("count", 0, { encryption: { key: cryptoKey } })
+      );
+      expect(result.current[3]).toBe("loading");
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+      });
+
+      await waitFor(() => {
+        expect(result.current[0]).toBe(6);
+      });
+    });
+
+    it("should keep values removed while their write is encrypted", async () => {
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", { encryption: { key: cryptoKey } })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+        result.current[2]();
+      });
+
+      expect(result.current[0]).toBe("none");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(localStorageMock.getItem("secret")).toBeNull();
+      expect(result.current[0]).toBe("none");
+    });
+
+    it("should keep the expiry time readable", async () => {
+      await writeEncryptedValue("token", "abc", cryptoKey, { ttl: 60_000 });
+
+      const stored = JSON.parse(localStorageMock.getItem("token")!);
+      expect(stored.__expiresAt).toBeGreaterThan(Date.now());
+      expect(stored.value).not.toContain("abc");
+    });
+
+    it("should report a tampered expiry time", async () => {
+      await writeEncryptedValue("token", "abc", cryptoKey, { ttl: 60_000 });
+      const stored = JSON.parse(localStorageMock.getItem("token")!);
+      localStorageMock.setItem(
+        "token",
+        JSON.stringify({ ...stored, __expiresAt: stored.__expiresAt + 60_000 })
+      );
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorage("token", "none", {
+          encryption: { key: cryptoKey },
+          onError,
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current[3]).toBe("error");
+      });
+      expect(onError).toHaveBeenCalledWith(expect.any(StorageDecryptionError));
+    });
+
+    it("should call onError when storing fails", async () => {
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error("Storage unavailable");
+      });
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useLocalStorage("secret", "none", {
+          encryption: { key: cryptoKey },
+          onError,
+        })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(expect.any(Error));
+      });
+      await waitFor(() => {
+        expect(result.current[0]).toBe("none");
+      });
+    });
+
+    it("should sync encrypted values across hooks", async () => {
+      const { result: first } = renderHook(() =>
+        useLocalStorage("secret", "none", { encryption: { key: cryptoKey } })
+      );
+      const { result: second } = renderHook(() =>
+        useLocalStorage("secret", "none", { encryption: { key: cryptoKey } })
+      );
+
+      act(() => {
+        first.current[1]("abc");
+      });
+
+      expect(second.current[0]).toBe("abc");
+    });
+  });
+
   describe("cross-tab synchronization", () => {
     it("should update value when storage event is fired", () => {
       const { result } = renderHook(() =>
@@ -692,6 +1686,45 @@ describe("useLocalStorage", () => {
       expect(componentB.current[0]).toBe("updated");
     });
 
+    it("should drop the shared value once the last component unmounts", () => {
+      localStorageMock.setItem("cleanup-test", JSON.stringify("stored"));
+      const deserializer = vi.fn((value: string) => JSON.parse(value));
+
+      const { unmount } = renderHook(() =>
+        useLocalStorage("cleanup-test", "initial", { deserializer })
+      );
+      expect(deserializer).toHaveBeenCalledTimes(1);
+      unmount();
+
+      renderHook(() =>
+        useLocalStorage("cleanup-test", "initial", { deserializer })
+      );
+      expect(deserializer).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not hand the shared value to migrations", () => {
+      localStorageMock.setItem("settings", JSON.stringify({ theme: "dark" }));
+
+      const { result: componentA } = renderHook(() =>
+        useLocalStorage("settings", { theme: "light" })
+      );
+      const { result: componentB } = renderHook(() =>
+        useLocalStorage<{ theme: string; fontSize?: number }>(
+          "settings",
+          { theme: "light" },
+          {
+            version: 1,
+            migrate: {
+              0: (value) => Object.assign(value as object, { fontSize: 14 }),
+            },
+          }
+        )
+      );
+
+      expect(componentB.current[0]).toEqual({ theme: "dark", fontSize: 14 });
+      expect(componentA.current[0]).toEqual({ theme: "dark" });
+    });
+
     it("should work with object values and preserve reference equality for same values", () => {
       interface Settings {
         theme: string;
@@ -1,11 +1,86 @@
-import { useCallback, useRef, useSyncExternalStore } from "react";
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  localStorageAdapter,
+  unwrapEnvelope,
+  wrapEnvelope,
+  isExpired,
+  resolveExpiresAt,
+  scheduleExpiry,
+} from "@usefy/use-persistent-state";
 import { subscribe, notifyListeners } from "./store";
+import { readValue } from "./read";
+import { forgetKey, setItemWithQuota, touchKey } from "./quota";
+import type { QuotaExceededInfo } from "./quota";
+import {
+  cancelEncryptedWrite,
+  readDecrypted,
+  writeEncrypted,
+} from "./encryption";
 
 /**
  * Type for initial value that can be a value or a function returning a value (lazy initialization)
  */
 export type InitialValue<T> = T | (() => T);
 
+/**
+ * Minimal Standard Schema v1 interface (https://standardschema.dev),
+ * implemented by zod, valibot, arktype and others
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) =>
+      | StandardSchemaV1Result<Output>
+      | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+/**
+ * Result of a Standard Schema validation
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<{ readonly message: string }> };
+
+/**
+ * Validator for values read from storage:
+ * - a type guard: `(value) => value is T`
+ * - a synchronous Standard Schema (zod, valibot, ...)
+ * - any object with a throwing `parse(value)` method
+ */
+export type StorageValidator<T> =
+  | ((value: unknown) => boolean)
+  | StandardSchemaV1<unknown, T>
+  | { parse: (value: unknown) => T };
+
+/**
+ * Migrations keyed by the version they upgrade from
+ * `{ 1: (v1) => v2 }` upgrades values stored with version 1 to version 2.
+ * Stored values are untrusted, so migrations receive `unknown` and narrow
+ * the value themselves; `validate` checks the final result.
+ */
+export type StorageMigrations = Record<number, (value: unknown) => unknown>;
+
+/**
+ * Encryption settings for stored values
+ */
+export interface StorageEncryption {
+  /**
+   * AES-GCM CryptoKey, or a passphrase to derive one from (PBKDF2)
+   */
+  key: CryptoKey | string;
+}
+
+/**
+ * Read status of encrypted values:
+ * "loading" while the stored value is decrypted, "error" when it cannot be
+ */
+export type LocalStorageStatus = "loading" | "ready" | "error";
+
 /**
  * Options for useLocalStorage hook
  */
@@ -29,6 +104,49 @@ export interface UseLocalStorageOptions<T> {
    * Callback function called when an error occurs
    */
   onError?: (error: Error) => void;
+  /**
+   * Validate values read from storage (after migration).
+   * Invalid values are reported through onError and replaced by the initial value;
+   * the stored value itself is left untouched.
+   */
+  validate?: StorageValidator<T>;
+  /**
+   * Schema version of the stored value. When set, values are stored in a
+   * version envelope and values with an older version are migrated on read.
+   * Values stored without a version count as version 0.
+   */
+  version?: number;
+  /**
+   * Migrations keyed by the version they upgrade from (requires `version`)
+   * Missing steps leave the value unchanged.
+   */
+  migrate?: StorageMigrations;
+  /**
+   * Time to live in milliseconds, counted from each write.
+   * Expired values read as the initial value and are removed from storage.
+   */
+  ttl?: number;
+  /**
+   * Fixed expiry time for written values (takes precedence over `ttl`)
+   */
+  expiresAt?: number | Date;
+  /**
+   * Managed namespace of the key. The least recently used keys of the
+   * namespace are evicted when a write exceeds the storage quota.
+   */
+  namespace?: string;
+  /**
+   * Called when a write exceeds the storage quota, before any eviction.
+   * Return true after freeing space to retry the write.
+   */
+  onQuotaExceeded?: (info: QuotaExceededInfo) => boolean | void;
+  /**
+   * Encrypt stored values with AES-GCM through the Web Crypto API.
+   * Values are decrypted asynchronously, so the hook also returns a status.
+   * Values that cannot be decrypted are reported through onError as a
+   * StorageDecryptionError and read as the initial value.
+   */
+  encryption?: StorageEncryption;
 }
 
 /**
@@ -43,6 +161,36 @@ export type UseLocalStorageReturn<T> = readonly [
   () => void
 ];
 
+/**
+ * Return type for useLocalStorage hook with encryption - tuple with the read status
+ */
+export type UseEncryptedLocalStorageReturn<T> = readonly [
+  /** Current stored value (the initial value while loading) */
+  T,
+  /** Function to update the value (same signature as useState setter) */
+  React.Dispatch<React.SetStateAction<T>>,
+  /** Function to remove the value from localStorage */
+  () => void,
+  /** Whether the stored value has been decrypted */
+  LocalStorageStatus
+];
+
+/**
+ * Stored value as read by the hook, cached per raw string
+ */
+interface StoredEntry<T> {
+  /** Raw string in storage */
+  rawValue: string | null;
+  /** Value returned by the hook */
+  parsedValue: T;
+  /** Expiry time of the stored value */
+  expiresAt?: number;
+  /** Whether the stored value had expired when read */
+  expired: boolean;
+  /** Read status (only "ready" without encryption) */
+  status: LocalStorageStatus;
+}
+
 /**
  * Helper function to resolve initial value (supports lazy initialization)
  */
@@ -133,41 +281,148 @@ function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
  *
  * @example
  * ```tsx
+ * // With validation and versioned migrations
+ * const [settings, setSettings] = useLocalStorage<Settings>('settings', defaults, {
+ *   validate: SettingsSchema, // zod schema, Standard Schema or type guard
+ *   version: 2,
+ *   migrate: {
+ *     0: (old) => ({ ...old, theme: old.darkMode ? 'dark' : 'light' }),
+ *     1: (old) => ({ ...old, fontSize: 14 }),
+ *   },
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With an expiring value (removed one hour after each write)
+ * const [token, setToken] = useLocalStorage('token', null, { ttl: 60 * 60 * 1000 });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With quota handling: evict the least recently used "app" keys when full
+ * const [draft, setDraft] = useLocalStorage('draft', '', {
+ *   namespace: 'app',
+ *   onQuotaExceeded: ({ key, bytes }) => {
+ *     clearImageCache();
+ *     return true; // retry the write
+ *   },
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With encryption (status is "loading" until the stored value is decrypted)
+ * const [draft, setDraft, removeDraft, status] = useLocalStorage('draft', '', {
+ *   encryption: { key: cryptoKey },
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
  * // With error handling
  * const [value, setValue] = useLocalStorage('key', 'default', {
  *   onError: (error) => console.error('Storage error:', error),
  * });
  * ```
  */
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: InitialValue<T>,
+  options: UseLocalStorageOptions<T> & { encryption: StorageEncryption }
+): UseEncryptedLocalStorageReturn<T>;
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: InitialValue<T>,
+  options?: UseLocalStorageOptions<T>
+): UseLocalStorageReturn<T>;
 export function useLocalStorage<T>(
   key: string,
   initialValue: InitialValue<T>,
   options: UseLocalStorageOptions<T> = {}
-): UseLocalStorageReturn<T> {
+): UseLocalStorageReturn<T> | UseEncryptedLocalStorageReturn<T> {
   const {
     serializer = JSON.stringify,
     deserializer = JSON.parse,
     syncTabs = true,
     onError,
+    validate,
+    version,
+    migrate,
+    ttl,
+    expiresAt,
+    namespace,
+    onQuotaExceeded,
+    encryption,
   } = options;
 
+  const encryptionKey = encryption?.key;
+
   // Store options in refs for stable references and access to latest values
   const serializerRef = useRef(serializer);
   const deserializerRef = useRef(deserializer);
   const onErrorRef = useRef(onError);
   const initialValueRef = useRef(initialValue);
+  const validateRef = useRef(validate);
+  const versionRef = useRef(version);
+  const migrateRef = useRef(migrate);
+  const ttlRef = useRef(ttl);
+  const expiresAtRef = useRef(expiresAt);
+  const namespaceRef = useRef(namespace);
+  const onQuotaExceededRef = useRef(onQuotaExceeded);
+  const encryptionKeyRef = useRef(encryptionKey);
 
   serializerRef.current = serializer;
   deserializerRef.current = deserializer;
   onErrorRef.current = onError;
   initialValueRef.current = initialValue;
+  validateRef.current = validate;
+  versionRef.current = version;
+  migrateRef.current = migrate;
+  ttlRef.current = ttl;
+  expiresAtRef.current = expiresAt;
+  namespaceRef.current = namespace;
+  onQuotaExceededRef.current = onQuotaExceeded;
+  encryptionKeyRef.current = encryptionKey;
+
+  // Read a stored string: unwrap, then migrate and validate unless expired
+  const readStored = useCallback(
+    (rawValue: string): StoredEntry<T> => {
+      const { value, expiresAt, expired } = readValue<T>(key, rawValue, {
+        deserializer: deserializerRef.current,
+        version: versionRef.current,
+        migrate: migrateRef.current,
+        validate: validateRef.current,
+      });
+
+      return {
+        rawValue,
+        parsedValue: expired
+          ? resolveInitialValue(initialValueRef.current)
+          : (value as T),
+        expiresAt,
+        expired,
+        status: "ready",
+      };
+    },
+    [key]
+  );
 
   // Cache for getSnapshot to ensure stable returns and prevent infinite loops
   // useSyncExternalStore requires getSnapshot to return the same reference
   // if the data hasn't changed
-  const cacheRef = useRef<{ rawValue: string | null; parsedValue: T } | null>(
-    null
-  );
+  const cacheRef = useRef<StoredEntry<T> | null>(null);
+
+  // Reset the cache when the key changes, so values of the old key are not
+  // shown while the new one is decrypted
+  const cacheKeyRef = useRef(key);
+  if (cacheKeyRef.current !== key) {
+    cacheKeyRef.current = key;
+    cacheRef.current = null;
+  }
+
+  // Entry rendered on the server and during hydration
+  const serverEntryRef = useRef<StoredEntry<T> | null>(null);
 
   // SSR check
   const isClient = typeof window !== "undefined";
@@ -202,62 +457,177 @@ export function useLocalStorage<T>(
     [key, syncTabs, isClient]
   );
 
+  // getServerSnapshot: Return initial value for SSR
+  const getServerSnapshot = useCallback((): StoredEntry<T> => {
+    if (!serverEntryRef.current) {
+      serverEntryRef.current = {
+        rawValue: null,
+        parsedValue: resolveInitialValue(initialValueRef.current),
+        expired: false,
+        status: encryptionKeyRef.current !== undefined ? "loading" : "ready",
+      };
+    }
+    return serverEntryRef.current;
+  }, []);
+
   // getSnapshot: Read current value from localStorage with caching
-  const getSnapshot = useCallback((): T => {
+  const getSnapshot = useCallback((): StoredEntry<T> => {
     if (!isClient) {
-      return resolveInitialValue(initialValueRef.current);
+      return getServerSnapshot();
     }
 
+    let rawValue: string | null = null;
     try {
-      const rawValue = window.localStorage.getItem(key);
+      rawValue = localStorageAdapter.get(key);
 
-      // Check cache: if rawValue is the same, return cached parsed value
-      if (cacheRef.current && cacheRef.current.rawValue === rawValue) {
-        return cacheRef.current.parsedValue;
+      // Encrypted values: read the decrypted string once available
+      let status: LocalStorageStatus = "ready";
+      let decryptionError: Error | undefined;
+      if (encryptionKey !== undefined) {
+        const result = readDecrypted(key, rawValue, encryptionKey, () =>
+          notifyListeners(key)
+        );
+        if (result?.status === "ready") {
+          rawValue = result.raw;
+        } else if (result) {
+          status = result.status;
+          decryptionError =
+            result.status === "error" ? result.error : undefined;
+        }
+      }
+
+      // Check cache: if rawValue is the same and has not expired since, return cached entry
+      const cache = cacheRef.current;
+      if (
+        cache &&
+        cache.rawValue === rawValue &&
+        cache.status === status &&
+        (cache.expired || !isExpired(cache.expiresAt))
+      ) {
+        return cache;
+      }
+
+      if (status === "loading") {
+        // Keep showing the previous value while a changed value is decrypted
+        cacheRef.current = {
+          rawValue,
+          parsedValue: cache
+            ? cache.parsedValue
+            : resolveInitialValue(initialValueRef.current),
+          expired: false,
+          status,
+        };
+        return cacheRef.current;
       }
 
-      // Parse new value
-      let parsedValue: T;
-      if (rawValue !== null) {
-        parsedValue = deserializerRef.current(rawValue);
-      } else {
-        parsedValue = resolveInitialValue(initialValueRef.current);
+      if (decryptionError) {
+        onErrorRef.current?.(decryptionError);
+        cacheRef.current = {
+          rawValue,
+          parsedValue: resolveInitialValue(initialValueRef.current),
+          expired: false,
+          status,
+        };
+        return cacheRef.current;
       }
 
-      // Update cache
-      cacheRef.current = { rawValue, parsedValue };
+      // Parse new value and update cache
+      cacheRef.current =
+        rawValue !== null
+          ? readStored(rawValue)
+          : {
+              rawValue,
+              parsedValue: resolveInitialValue(initialValueRef.current),
+              expired: false,
+              status,
+            };
 
-      return parsedValue;
+      return cacheRef.current;
     } catch (error) {
       onErrorRef.current?.(error as Error);
-      const fallbackValue = resolveInitialValue(initialValueRef.current);
-      cacheRef.current = { rawValue: null, parsedValue: fallbackValue };
-      return fallbackValue;
+      // Cache the unreadable value too, so it is reported once per change
+      cacheRef.current = {
+        rawValue,
+        parsedValue: resolveInitialValue(initialValueRef.current),
+        expired: false,
+        status: "ready",
+      };
+      return cacheRef.current;
     }
-  }, [key, isClient]);
-
-  // getServerSnapshot: Return initial value for SSR
-  const getServerSnapshot = useCallback((): T => {
-    return resolveInitialValue(initialValueRef.current);
-  }, []);
+  }, [key, isClient, encryptionKey, readStored, getServerSnapshot]);
 
   // Use useSyncExternalStore for synchronized state
-  const storedValue = useSyncExternalStore(
+  const { parsedValue: storedValue, status } = useSyncExternalStore(
     subscribeToStore,
     getSnapshot,
     getServerSnapshot
   );
 
+  // Remove the value once it has expired, so every subscriber re-renders
+  const purgeExpired = useCallback(() => {
+    try {
+      const rawValue = localStorageAdapter.get(key);
+      if (rawValue !== null && isExpired(unwrapEnvelope(rawValue).expiresAt)) {
+        localStorageAdapter.remove(key);
+        if (namespaceRef.current !== undefined) {
+          forgetKey(namespaceRef.current, key);
+        }
+        notifyListeners(key);
+      }
+    } catch (error) {
+      onErrorRef.current?.(error as Error);
+    }
+  }, [key]);
+
+  // Schedule the purge for the expiry time of the current value
+  const currentExpiresAt = cacheRef.current?.expiresAt;
+  useEffect(() => {
+    if (currentExpiresAt === undefined) {
+      return;
+    }
+    return scheduleExpiry(currentExpiresAt, purgeExpired);
+  }, [currentExpiresAt, purgeExpired]);
+
+  // Mark the key as used when mounted, so it is evicted after unused keys
+  useEffect(() => {
+    if (namespace === undefined) {
+      return;
+    }
+    try {
+      if (localStorageAdapter.get(key) !== null) {
+        touchKey(namespace, key);
+      }
+    } catch (error) {
+      onErrorRef.current?.(error as Error);
+    }
+  }, [key, namespace]);
+
   // setValue - stable reference that updates localStorage and notifies listeners
   const setValue = useCallback<React.Dispatch<React.SetStateAction<T>>>(
-    (value) => {
+    function update(value) {
       try {
+        const encryptionKey = encryptionKeyRef.current;
+
+        // Read the stored string (decrypted for encrypted values)
+        let item = localStorageAdapter.get(key);
+        if (encryptionKey !== undefined) {
+          const result = readDecrypted(key, item, encryptionKey, () =>
+            notifyListeners(key)
+          );
+          if (result?.status === "loading") {
+            // Apply the update once the stored value is decrypted
+            result.promise.then(() => update(value));
+            return;
+          }
+          // Values that cannot be decrypted are overwritten
+          item = result?.status === "ready" ? result.raw : null;
+        }
+
         // Get current value for functional updates
         const currentValue = (() => {
           try {
-            const item = window.localStorage.getItem(key);
             if (item !== null) {
-              return deserializerRef.current(item);
+              return readStored(item).parsedValue;
             }
             return resolveInitialValue(initialValueRef.current);
           } catch {
@@ -269,13 +639,48 @@ export function useLocalStorage<T>(
           value instanceof Function ? value(currentValue) : value;
 
         if (typeof window !== "undefined") {
-          const serialized = serializerRef.current(valueToStore);
-          window.localStorage.setItem(key, serialized);
+          const itemExpiresAt = resolveExpiresAt({
+            ttl: ttlRef.current,
+            expiresAt: expiresAtRef.current,
+          });
+          const serialized = wrapEnvelope(serializerRef.current(valueToStore), {
+            version: versionRef.current,
+            expiresAt: itemExpiresAt,
+          });
+          const store = (stored: string) => {
+            setItemWithQuota(
+              key,
+              stored,
+              {
+                namespace: namespaceRef.current,
+                onQuotaExceeded: onQuotaExceededRef.current,
+              },
+              notifyListeners
+            );
+            if (namespaceRef.current !== undefined) {
+              touchKey(namespaceRef.current, key);
+            }
+          };
+
+          if (encryptionKey !== undefined) {
+            // Shown right away, stored once encrypted; read back when storing fails
+            writeEncrypted(key, serialized, encryptionKey, store).catch(
+              (error) => {
+                onErrorRef.current?.(error as Error);
+                notifyListeners(key);
+              }
+            );
+          } else {
+            store(serialized);
+          }
 
           // Invalidate cache so next getSnapshot reads fresh value
           cacheRef.current = {
             rawValue: serialized,
             parsedValue: valueToStore,
+            expiresAt: itemExpiresAt,
+            expired: false,
+            status: "ready",
           };
 
           // Notify all same-tab listeners
@@ -285,18 +690,27 @@ export function useLocalStorage<T>(
         onErrorRef.current?.(error as Error);
       }
     },
-    [key]
+    [key, readStored]
   );
 
   // removeValue - stable reference
   const removeValue = useCallback(() => {
     try {
       if (typeof window !== "undefined") {
-        window.localStorage.removeItem(key);
+        cancelEncryptedWrite(key);
+        localStorageAdapter.remove(key);
+        if (namespaceRef.current !== undefined) {
+          forgetKey(namespaceRef.current, key);
+        }
 
         // Invalidate cache
         const initialVal = resolveInitialValue(initialValueRef.current);
-        cacheRef.current = { rawValue: null, parsedValue: initialVal };
+        cacheRef.current = {
+          rawValue: null,
+          parsedValue: initialVal,
+          expired: false,
+          status: "ready",
+        };
 
         // Notify all same-tab listeners
         notifyListeners(key);
@@ -306,5 +720,7 @@ export function useLocalStorage<T>(
     }
   }, [key]);
 
-  return [storedValue, setValue, removeValue] as const;
+  return encryption
+    ? ([storedValue, setValue, removeValue, status] as const)
+    : ([storedValue, setValue, removeValue] as const);
 }
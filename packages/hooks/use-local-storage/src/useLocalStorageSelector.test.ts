@@ -0,0 +1,446 @@
+import { renderHook, act } from "@testing-library/react";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { useLocalStorageSelector } from "./useLocalStorageSelector";
+import { useLocalStorage } from "./useLocalStorage";
+import { clearAllListeners, notifyListeners } from "./store";
+
+interface Settings {
+  theme: string;
+  fontSize: number;
+}
+
+const defaultSettings: Settings = { theme: "light", fontSize: 14 };
+
+// Helper to create and dispatch storage event (jsdom compatible)
+function dispatchStorageEvent(key: string, newValue: string | null) {
+  window.dispatchEvent(
+    new StorageEvent("storage", {
+      key,
+      newValue,
+      oldValue: null,
+      url: window.location.href,
+    })
+  );
+}
+
+// Write a value the way another tab would
+function writeFromOtherTab(key: string, value: unknown) {
+  const rawValue = JSON.stringify(value);
+  window.localStorage.setItem(key, rawValue);
+  dispatchStorageEvent(key, rawValue);
+}
+
+describe("useLocalStorageSelector", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    clearAllListeners();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("selection", () => {
+    it("should select from the stored value", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({ theme: "dark", fontSize: 16 })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        )
+      );
+
+      expect(result.current).toBe("dark");
+    });
+
+    it("should select from the initial value when nothing is stored", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: () => defaultSettings,
+          }
+        )
+      );
+
+      expect(result.current).toBe("light");
+    });
+
+    it("should pass undefined without an initial value", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s?: Settings) => s?.theme ?? "none"
+        )
+      );
+
+      expect(result.current).toBe("none");
+    });
+
+    it("should select again when the selector changes", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({ theme: "dark", fontSize: 16 })
+      );
+
+      const { result, rerender } = renderHook(
+        ({ field }: { field: keyof Settings }) =>
+          useLocalStorageSelector(
+            "settings",
+            (s: Settings) => s[field],
+            undefined,
+            {
+              initialValue: defaultSettings,
+            }
+          ),
+        { initialProps: { field: "theme" as keyof Settings } }
+      );
+      expect(result.current).toBe("dark");
+
+      rerender({ field: "fontSize" });
+      expect(result.current).toBe(16);
+    });
+
+    it("should read the new key when the key changes", () => {
+      window.localStorage.setItem(
+        "a",
+        JSON.stringify({ theme: "dark", fontSize: 1 })
+      );
+      window.localStorage.setItem(
+        "b",
+        JSON.stringify({ theme: "blue", fontSize: 1 })
+      );
+
+      const { result, rerender } = renderHook(
+        ({ key }) =>
+          useLocalStorageSelector(key, (s: Settings) => s.theme, undefined, {
+            initialValue: defaultSettings,
+          }),
+        { initialProps: { key: "a" } }
+      );
+      expect(result.current).toBe("dark");
+
+      rerender({ key: "b" });
+      expect(result.current).toBe("blue");
+    });
+  });
+
+  describe("re-renders", () => {
+    it("should only re-render when the selected slice changes", () => {
+      let renders = 0;
+      const { result: writer } = renderHook(() =>
+        useLocalStorage("settings", defaultSettings)
+      );
+      const { result } = renderHook(() => {
+        renders++;
+        return useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        );
+      });
+      const initialRenders = renders;
+
+      act(() => {
+        writer.current[1]((prev) => ({ ...prev, fontSize: 20 }));
+      });
+      expect(renders).toBe(initialRenders);
+
+      act(() => {
+        writer.current[1]((prev) => ({ ...prev, theme: "dark" }));
+      });
+      expect(renders).toBe(initialRenders + 1);
+      expect(result.current).toBe("dark");
+    });
+
+    it("should keep the previous slice while equalityFn considers it equal", () => {
+      const { result: writer } = renderHook(() =>
+        useLocalStorage("settings", defaultSettings)
+      );
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => ({ theme: s.theme }),
+          (a, b) => a.theme === b.theme,
+          { initialValue: defaultSettings }
+        )
+      );
+      const first = result.current;
+
+      act(() => {
+        writer.current[1]((prev) => ({ ...prev, fontSize: 20 }));
+      });
+      expect(result.current).toBe(first);
+
+      act(() => {
+        writer.current[1]((prev) => ({ ...prev, theme: "dark" }));
+      });
+      expect(result.current).toEqual({ theme: "dark" });
+    });
+
+    it("should re-render with the initial value when the key is removed", () => {
+      const { result: writer } = renderHook(() =>
+        useLocalStorage("settings", { theme: "dark", fontSize: 14 })
+      );
+      act(() => {
+        writer.current[1]({ theme: "dark", fontSize: 14 });
+      });
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        )
+      );
+      expect(result.current).toBe("dark");
+
+      act(() => {
+        writer.current[2]();
+      });
+      expect(result.current).toBe("light");
+    });
+  });
+
+  describe("shared parsing", () => {
+    it("should deserialize each stored string once for every hook", () => {
+      const deserializer = vi.fn((value: string) => JSON.parse(value));
+      renderHook(() =>
+        useLocalStorage("settings", defaultSettings, { deserializer })
+      );
+      renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            deserializer,
+          }
+        )
+      );
+      renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.fontSize,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            deserializer,
+          }
+        )
+      );
+
+      act(() => {
+        writeFromOtherTab("settings", { theme: "dark", fontSize: 16 });
+      });
+
+      expect(deserializer).toHaveBeenCalledTimes(1);
+    });
+
+    it("should share the parsed value with useLocalStorage", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({ theme: "dark", fontSize: 16 })
+      );
+
+      const { result: full } = renderHook(() =>
+        useLocalStorage("settings", defaultSettings)
+      );
+      const { result: selected } = renderHook(() =>
+        useLocalStorageSelector("settings", (s: Settings) => s, undefined, {
+          initialValue: defaultSettings,
+        })
+      );
+
+      expect(selected.current).toBe(full.current[0]);
+    });
+  });
+
+  describe("cross-tab synchronization", () => {
+    it("should update on storage events", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        )
+      );
+
+      act(() => {
+        writeFromOtherTab("settings", { theme: "dark", fontSize: 16 });
+      });
+
+      expect(result.current).toBe("dark");
+    });
+
+    it("should not sync when syncTabs is false", () => {
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            syncTabs: false,
+          }
+        )
+      );
+
+      act(() => {
+        writeFromOtherTab("settings", { theme: "dark", fontSize: 16 });
+      });
+
+      expect(result.current).toBe("light");
+    });
+  });
+
+  describe("read options", () => {
+    it("should report unreadable values once and select from the initial value", () => {
+      window.localStorage.setItem("settings", "not-json");
+      const onError = vi.fn();
+
+      const { result, rerender } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            onError,
+          }
+        )
+      );
+      rerender();
+
+      expect(result.current).toBe("light");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should validate read values", () => {
+      window.localStorage.setItem("settings", JSON.stringify({ theme: 1 }));
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            validate: (value) => typeof (value as Settings).theme === "string",
+            onError,
+          }
+        )
+      );
+
+      expect(result.current).toBe("light");
+      expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it("should migrate versioned values", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({
+          __version: 1,
+          value: JSON.stringify({ color: "dark" }),
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+            version: 2,
+            migrate: {
+              1: (v1) => ({
+                theme: (v1 as { color: string }).color,
+                fontSize: 14,
+              }),
+            },
+          }
+        )
+      );
+
+      expect(result.current).toBe("dark");
+    });
+
+    it("should select from the initial value once the value expires", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000);
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({
+          __expiresAt: 2_000,
+          value: JSON.stringify({ theme: "dark", fontSize: 14 }),
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        )
+      );
+      expect(result.current).toBe("dark");
+
+      act(() => {
+        vi.advanceTimersByTime(1_000);
+      });
+
+      expect(result.current).toBe("light");
+      expect(window.localStorage.getItem("settings")).toBeNull();
+    });
+
+    it("should read values expired before mount as missing", () => {
+      window.localStorage.setItem(
+        "settings",
+        JSON.stringify({
+          __expiresAt: Date.now() - 1,
+          value: JSON.stringify({ theme: "dark", fontSize: 14 }),
+        })
+      );
+
+      const { result } = renderHook(() =>
+        useLocalStorageSelector(
+          "settings",
+          (s: Settings) => s.theme,
+          undefined,
+          {
+            initialValue: defaultSettings,
+          }
+        )
+      );
+      act(() => {
+        notifyListeners("settings");
+      });
+
+      expect(result.current).toBe("light");
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  localStorageAdapter,
+  unwrapEnvelope,
+  isExpired,
+  scheduleExpiry,
+} from "@usefy/use-persistent-state";
+import { subscribe, notifyListeners } from "./store";
+import { readValue } from "./read";
+import type { InitialValue, UseLocalStorageOptions } from "./useLocalStorage";
+
+/**
+ * Options for useLocalStorageSelector hook
+ * Read options should match those of the useLocalStorage hooks writing the key.
+ */
+export interface UseLocalStorageSelectorOptions<T>
+  extends Pick<
+    UseLocalStorageOptions<T>,
+    "deserializer" | "syncTabs" | "onError" | "validate" | "version" | "migrate"
+  > {
+  /**
+   * Value selected from when nothing is stored, or the stored value cannot be read
+   */
+  initialValue?: InitialValue<T>;
+}
+
+/**
+ * Value read and selected by the hook, cached per raw string and selector
+ */
+interface SelectedEntry<T, S> {
+  /** Raw string in storage */
+  rawValue: string | null;
+  /** Value read from storage */
+  value: T;
+  /** Expiry time of the stored value */
+  expiresAt?: number;
+  /** Selector the slice was selected with */
+  selector: (value: T) => S;
+  /** Selected slice returned by the hook */
+  selected: S;
+}
+
+/**
+ * Helper function to resolve initial value (supports lazy initialization)
+ */
+function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
+  return typeof initialValue === "function"
+    ? (initialValue as () => T)()
+    : initialValue;
+}
+
+/**
+ * A hook that reads a slice of a localStorage value, re-rendering only when
+ * the slice changes.
+ * Subscribes to the same key as useLocalStorage, so it updates on every
+ * write in this tab (and in other tabs), but skips re-renders while
+ * `equalityFn` considers the selected slice unchanged. The stored string is
+ * deserialized once for every hook reading the key.
+ *
+ * @template T - The type of the stored value
+ * @template S - The type of the selected slice
+ * @param key - The localStorage key to read
+ * @param selector - Selects the slice from the stored value
+ * @param equalityFn - Compares the previous and next slices (default: Object.is)
+ * @param options - Initial value and read options
+ * @returns The selected slice
+ *
+ * @example
+ * ```tsx
+ * // Only re-renders when the theme changes, not on every settings update
+ * function ThemeBadge() {
+ *   const theme = useLocalStorageSelector(
+ *     'settings',
+ *     (settings: Settings) => settings.theme,
+ *     undefined,
+ *     { initialValue: defaultSettings }
+ *   );
+ *   return <span>{theme}</span>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Derived slices with a custom equality function
+ * const unreadIds = useLocalStorageSelector(
+ *   'inbox',
+ *   (inbox: Inbox) => inbox.messages.filter((m) => !m.read).map((m) => m.id),
+ *   (a, b) => a.length === b.length && a.every((id, i) => id === b[i]),
+ *   { initialValue: { messages: [] } }
+ * );
+ * ```
+ */
+export function useLocalStorageSelector<T, S>(
+  key: string,
+  selector: (value: T) => S,
+  equalityFn: ((a: S, b: S) => boolean) | undefined,
+  options: UseLocalStorageSelectorOptions<T> & {
+    initialValue: InitialValue<T>;
+  }
+): S;
+export function useLocalStorageSelector<T, S>(
+  key: string,
+  selector: (value: T | undefined) => S,
+  equalityFn?: (a: S, b: S) => boolean,
+  options?: UseLocalStorageSelectorOptions<T>
+): S;
+export function useLocalStorageSelector<T, S>(
+  key: string,
+  selector: (value: T) => S,
+  equalityFn: (a: S, b: S) => boolean = Object.is,
+  options: UseLocalStorageSelectorOptions<T> = {}
+): S {
+  const {
+    deserializer = JSON.parse,
+    syncTabs = true,
+    onError,
+    validate,
+    version,
+    migrate,
+    initialValue,
+  } = options;
+
+  // Store options in refs for stable references and access to latest values
+  const selectorRef = useRef(selector);
+  const equalityFnRef = useRef(equalityFn);
+  const deserializerRef = useRef(deserializer);
+  const onErrorRef = useRef(onError);
+  const initialValueRef = useRef(initialValue);
+  const validateRef = useRef(validate);
+  const versionRef = useRef(version);
+  const migrateRef = useRef(migrate);
+
+  selectorRef.current = selector;
+  equalityFnRef.current = equalityFn;
+  deserializerRef.current = deserializer;
+  onErrorRef.current = onError;
+  initialValueRef.current = initialValue;
+  validateRef.current = validate;
+  versionRef.current = version;
+  migrateRef.current = migrate;
+
+  // Cache for getSnapshot: the selected slice keeps its reference while equal
+  const cacheRef = useRef<SelectedEntry<T, S> | null>(null);
+
+  // Reset the cache when the key changes
+  const cacheKeyRef = useRef(key);
+  if (cacheKeyRef.current !== key) {
+    cacheKeyRef.current = key;
+    cacheRef.current = null;
+  }
+
+  // SSR check
+  const isClient = typeof window !== "undefined";
+
+  // Subscribe function for useSyncExternalStore
+  // Handles both same-tab and cross-tab synchronization
+  const subscribeToStore = useCallback(
+    (onStoreChange: () => void) => {
+      const unsubscribeStore = subscribe(key, onStoreChange);
+
+      let handleStorageEvent: ((event: StorageEvent) => void) | null = null;
+      if (isClient && syncTabs) {
+        handleStorageEvent = (event: StorageEvent) => {
+          if (event.key === key) {
+            onStoreChange();
+          }
+        };
+        window.addEventListener("storage", handleStorageEvent);
+      }
+
+      return () => {
+        unsubscribeStore();
+        if (handleStorageEvent) {
+          window.removeEventListener("storage", handleStorageEvent);
+        }
+      };
+    },
+    [key, syncTabs, isClient]
+  );
+
+  // Select from a read value, keeping the previous slice while equal
+  const select = useCallback(
+    (
+      rawValue: string | null,
+      value: T,
+      expiresAt?: number
+    ): SelectedEntry<T, S> => {
+      const cache = cacheRef.current;
+      const nextSelector = selectorRef.current;
+      let selected = nextSelector(value);
+      if (cache && equalityFnRef.current(cache.selected, selected)) {
+        selected = cache.selected;
+      }
+
+      cacheRef.current = {
+        rawValue,
+        value,
+        expiresAt,
+        selector: nextSelector,
+        selected,
+      };
+      return cacheRef.current;
+    },
+    []
+  );
+
+  // getServerSnapshot: Select from the initial value for SSR
+  const serverSelectedRef = useRef<{ selected: S } | null>(null);
+  const getServerSnapshot = useCallback((): S => {
+    if (!serverSelectedRef.current) {
+      serverSelectedRef.current = {
+        selected: selectorRef.current(
+          resolveInitialValue(initialValueRef.current) as T
+        ),
+      };
+    }
+    return serverSelectedRef.current.selected;
+  }, []);
+
+  // getSnapshot: Read the current value and select the slice
+  const getSnapshot = useCallback((): S => {
+    if (!isClient) {
+      return getServerSnapshot();
+    }
+
+    let rawValue: string | null = null;
+    try {
+      rawValue = localStorageAdapter.get(key);
+
+      // Check cache: same raw string, not expired since
+      const cache = cacheRef.current;
+      if (cache && cache.rawValue === rawValue && !isExpired(cache.expiresAt)) {
+        return cache.selector === selectorRef.current
+          ? cache.selected
+          : select(rawValue, cache.value, cache.expiresAt).selected;
+      }
+
+      if (rawValue === null) {
+        return select(
+          rawValue,
+          resolveInitialValue(initialValueRef.current) as T
+        ).selected;
+      }
+
+      const { value, expiresAt, expired } = readValue<T>(key, rawValue, {
+        deserializer: deserializerRef.current,
+        version: versionRef.current,
+        migrate: migrateRef.current,
+        validate: validateRef.current,
+      });
+      return expired
+        ? select(rawValue, resolveInitialValue(initialValueRef.current) as T)
+            .selected
+        : select(rawValue, value as T, expiresAt).selected;
+    } catch (error) {
+      onErrorRef.current?.(error as Error);
+      // Cache the unreadable value too, so it is reported once per change
+      return select(rawValue, resolveInitialValue(initialValueRef.current) as T)
+        .selected;
+    }
+  }, [key, isClient, select, getServerSnapshot]);
+
+  const selected = useSyncExternalStore(
+    subscribeToStore,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  // Remove the value once it has expired, so every subscriber re-renders
+  const currentExpiresAt = cacheRef.current?.expiresAt;
+  useEffect(() => {
+    if (currentExpiresAt === undefined) {
+      return;
+    }
+    return scheduleExpiry(currentExpiresAt, () => {
+      try {
+        const rawValue = localStorageAdapter.get(key);
+        if (
+          rawValue !== null &&
+          isExpired(unwrapEnvelope(rawValue).expiresAt)
+        ) {
+          localStorageAdapter.remove(key);
+          notifyListeners(key);
+        }
+      } catch (error) {
+        onErrorRef.current?.(error as Error);
+      }
+    });
+  }, [key, currentExpiresAt]);
+
+  return selected;
+}
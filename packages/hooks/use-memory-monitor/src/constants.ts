@@ -17,6 +17,21 @@ export const DEFAULT_INTERVAL = 5000;
  */
 export const DEFAULT_HISTORY_SIZE = 50;
 
+/**
+ * Maximum number of markers kept (oldest are dropped first)
+ */
+export const MAX_MARKERS = 100;
+
+/**
+ * Maximum number of attribution events kept (oldest are dropped first)
+ */
+export const MAX_ATTRIBUTION_EVENTS = 1000;
+
+/**
+ * Maximum number of leak suspects reported
+ */
+export const MAX_LEAK_SUSPECTS = 5;
+
 /**
  * Default warning threshold percentage
  */
@@ -138,6 +153,7 @@ export const DEFAULT_OPTIONS: Required<
     sensitivity: "medium",
     windowSize: DEFAULT_LEAK_WINDOW_SIZE,
     threshold: undefined,
+    attribution: false,
   },
   devMode: false,
   trackDOMNodes: false,
@@ -166,6 +182,7 @@ export const SSR_INITIAL_STATE: MemoryStoreState = {
   eventListeners: null,
   isMonitoring: false,
   severity: DEFAULT_SEVERITY,
+  markers: [],
   lastUpdated: 0,
 };
 
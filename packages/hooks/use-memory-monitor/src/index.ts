@@ -1,13 +1,20 @@
 // Main hook
 export { useMemoryMonitor } from "./useMemoryMonitor";
 
+// Scope hook (for leak attribution)
+export { useMemoryScope } from "./useMemoryScope";
+
 // Types
 export type {
   // Core types
   MemoryInfo,
   MemorySnapshot,
+  MemoryMarker,
   SnapshotDiff,
   LeakAnalysis,
+  LeakSuspect,
+  AttributionEvent,
+  AttributionEventType,
   UnsupportedInfo,
 
   // Configuration types
@@ -61,3 +68,11 @@ export {
   analyzeLeakProbability,
   type RegressionResult,
 } from "./utils/leakDetection";
+
+export {
+  analyzeAttribution,
+  recordAttributionEvent,
+  getAttributionEvents,
+  clearAttributionEvents,
+  trackNavigation,
+} from "./utils/attribution";
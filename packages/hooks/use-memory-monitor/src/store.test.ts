@@ -6,8 +6,8 @@ import {
   countDOMNodes,
   estimateEventListeners,
 } from "./store";
-import type { MemoryInfo } from "./types";
-import { SSR_INITIAL_STATE } from "./constants";
+import type { MemoryInfo, MemoryMarker } from "./types";
+import { MAX_MARKERS, SSR_INITIAL_STATE } from "./constants";
 
 describe("createStore", () => {
   describe("basic store operations", () => {
@@ -350,6 +350,63 @@ describe("createStore", () => {
     });
   });
 
+  describe("markers", () => {
+    const createMarker = (index: number): MemoryMarker => ({
+      id: `marker-${index}`,
+      label: `Marker ${index}`,
+      timestamp: 1000 + index,
+    });
+
+    it("should add markers in order", () => {
+      const store = createStore();
+      const listener = vi.fn();
+      store.subscribe(listener);
+
+      store.addMarker(createMarker(1));
+      store.addMarker(createMarker(2));
+
+      expect(store.getSnapshot().markers.map((m) => m.id)).toEqual([
+        "marker-1",
+        "marker-2",
+      ]);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep at most MAX_MARKERS markers", () => {
+      const store = createStore();
+
+      for (let i = 0; i < MAX_MARKERS + 5; i++) {
+        store.addMarker(createMarker(i));
+      }
+
+      const { markers } = store.getSnapshot();
+      expect(markers).toHaveLength(MAX_MARKERS);
+      expect(markers[0].id).toBe("marker-5");
+    });
+
+    it("should clear markers", () => {
+      const store = createStore();
+      const listener = vi.fn();
+
+      store.addMarker(createMarker(1));
+      store.subscribe(listener);
+      store.clearMarkers();
+
+      expect(store.getSnapshot().markers).toEqual([]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not notify when clearing no markers", () => {
+      const store = createStore();
+      const listener = vi.fn();
+
+      store.subscribe(listener);
+      store.clearMarkers();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   describe("batchUpdate", () => {
     it("should update multiple state properties at once", () => {
       const store = createStore();
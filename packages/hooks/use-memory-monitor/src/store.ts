@@ -1,5 +1,10 @@
-import type { MemoryInfo, MemoryStoreState, Severity } from "./types";
-import { SSR_INITIAL_STATE } from "./constants";
+import type {
+  MemoryInfo,
+  MemoryMarker,
+  MemoryStoreState,
+  Severity,
+} from "./types";
+import { MAX_MARKERS, SSR_INITIAL_STATE } from "./constants";
 import { isServer } from "./utils/detection";
 
 type Listener = () => void;
@@ -113,6 +118,32 @@ function createMemoryStore() {
     notify();
   }
 
+  /**
+   * Add a marker, dropping the oldest beyond MAX_MARKERS
+   */
+  function addMarker(marker: MemoryMarker): void {
+    state = {
+      ...state,
+      markers: [...state.markers, marker].slice(-MAX_MARKERS),
+      lastUpdated: Date.now(),
+    };
+    notify();
+  }
+
+  /**
+   * Remove all markers
+   */
+  function clearMarkers(): void {
+    if (state.markers.length === 0) return;
+
+    state = {
+      ...state,
+      markers: [],
+      lastUpdated: Date.now(),
+    };
+    notify();
+  }
+
   /**
    * Batch update multiple state properties
    */
@@ -154,6 +185,8 @@ function createMemoryStore() {
     updateEventListeners,
     updateMonitoringStatus,
     updateSeverity,
+    addMarker,
+    clearMarkers,
     batchUpdate,
     reset,
     getSubscriberCount,
@@ -186,6 +219,8 @@ export function createSSRSafeStore(): MemoryStore {
       updateEventListeners: () => {},
       updateMonitoringStatus: () => {},
       updateSeverity: () => {},
+      addMarker: () => {},
+      clearMarkers: () => {},
       batchUpdate: () => {},
       reset: () => {},
       getSubscriberCount: () => 0,
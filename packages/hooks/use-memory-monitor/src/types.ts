@@ -12,6 +12,22 @@ export interface MemoryInfo {
   timestamp: number;
 }
 
+/**
+ * Timestamped marker of an action, recorded with markMemory
+ */
+export interface MemoryMarker {
+  /** Unique identifier for this marker */
+  id: string;
+  /** Marker label (e.g. "route: /settings", "open: UserModal") */
+  label: string;
+  /** Timestamp when the marker was recorded */
+  timestamp: number;
+  /** Used JS heap in bytes when the marker was recorded (if available) */
+  heapUsed?: number;
+  /** Additional data attached to the marker */
+  meta?: Record<string, unknown>;
+}
+
 /**
  * A named memory snapshot for comparison
  */
@@ -26,6 +42,8 @@ export interface MemorySnapshot {
   eventListeners?: number;
   /** Timestamp when snapshot was taken */
   timestamp: number;
+  /** Markers recorded since the previous snapshot */
+  markers?: MemoryMarker[];
 }
 
 /**
@@ -124,6 +142,43 @@ export interface LeakAnalysis {
   confidence?: number;
   /** Reasons contributing to the probability score */
   factors?: LeakProbabilityFactors;
+  /** Ranked leak suspects (when attribution is enabled) */
+  suspects?: LeakSuspect[];
+}
+
+/**
+ * Type of attribution event
+ */
+export type AttributionEventType = "mount" | "unmount" | "navigation";
+
+/**
+ * Scope mount/unmount or navigation recorded for leak attribution
+ */
+export interface AttributionEvent {
+  /** Event type */
+  type: AttributionEventType;
+  /** Scope name, or pathname for navigations */
+  name: string;
+  /** Timestamp when the event was recorded */
+  timestamp: number;
+}
+
+/**
+ * Scope or route correlated with memory growth
+ */
+export interface LeakSuspect {
+  /** Whether the suspect is a memory scope or a visited route */
+  type: "scope" | "route";
+  /** Scope name or route pathname */
+  name: string;
+  /** Suspicion score (0-100), used for ranking */
+  score: number;
+  /** Heap growth (bytes) correlated with the suspect */
+  growth: number;
+  /** Instances mounted but never unmounted (scopes), or visits (routes) */
+  count: number;
+  /** Human-readable reason */
+  reason: string;
 }
 
 /**
@@ -272,6 +327,11 @@ export interface LeakDetectionOptions {
   windowSize?: number;
   /** Custom growth rate threshold (bytes/sample) */
   threshold?: number;
+  /**
+   * Correlate memory growth with useMemoryScope scopes and History API
+   * navigations, reported as ranked leak suspects (default: false)
+   */
+  attribution?: boolean;
 }
 
 /**
@@ -384,6 +444,10 @@ export interface UseMemoryMonitorReturn {
   trend: Trend;
   /** Probability of memory leak (0-100) */
   leakProbability: number;
+  /** Recorded markers, oldest first (at most MAX_MARKERS) */
+  markers: MemoryMarker[];
+  /** Ranked leak suspects (empty unless leak detection attribution is enabled) */
+  leakSuspects: LeakSuspect[];
 
   // Actions
   /** Start monitoring */
@@ -396,6 +460,16 @@ export interface UseMemoryMonitorReturn {
   compareSnapshots: (id1: string, id2: string) => SnapshotDiff | null;
   /** Clear history */
   clearHistory: () => void;
+  /**
+   * Record a marker of an action (route change, modal open, ...) so memory
+   * changes can be attributed to it. Returns null during SSR.
+   */
+  markMemory: (
+    label: string,
+    meta?: Record<string, unknown>
+  ) => MemoryMarker | null;
+  /** Clear recorded markers */
+  clearMarkers: () => void;
   /**
    * Request garbage collection (hint only, not guaranteed).
    *
@@ -423,5 +497,6 @@ export interface MemoryStoreState {
   eventListeners: number | null;
   isMonitoring: boolean;
   severity: Severity;
+  markers: MemoryMarker[];
   lastUpdated: number;
 }
@@ -1,6 +1,10 @@
 import { renderHook, act } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { useMemoryMonitor } from "./useMemoryMonitor";
+import {
+  clearAttributionEvents,
+  recordAttributionEvent,
+} from "./utils/attribution";
 import {
   mockSupportedBrowser,
   mockUnsupportedBrowser,
@@ -450,6 +454,162 @@ describe("useMemoryMonitor", () => {
     });
   });
 
+  describe("markers", () => {
+    it("should record markers with the current heap usage", () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({ interval: 1000 })
+      );
+
+      let marker = null as ReturnType<typeof result.current.markMemory>;
+      act(() => {
+        marker = result.current.markMemory("route:/settings", {
+          from: "/",
+        });
+      });
+
+      expect(marker).not.toBeNull();
+      expect(marker!.label).toBe("route:/settings");
+      expect(marker!.heapUsed).toBe(50 * 1024 * 1024);
+      expect(marker!.meta).toEqual({ from: "/" });
+      expect(result.current.markers).toEqual([marker]);
+    });
+
+    it("should give markers unique IDs", () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({ interval: 1000 })
+      );
+
+      act(() => {
+        result.current.markMemory("a");
+        result.current.markMemory("b");
+      });
+
+      const [first, second] = result.current.markers;
+      expect(first.id).not.toBe(second.id);
+    });
+
+    it("should clear markers", () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({ interval: 1000 })
+      );
+
+      act(() => {
+        result.current.markMemory("modal:open");
+      });
+      act(() => {
+        result.current.clearMarkers();
+      });
+
+      expect(result.current.markers).toEqual([]);
+    });
+
+    it("should include markers recorded since the previous snapshot", async () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({ interval: 1000 })
+      );
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(100);
+      });
+
+      act(() => {
+        result.current.markMemory("first");
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10);
+      });
+
+      let before = null as ReturnType<typeof result.current.takeSnapshot>;
+      act(() => {
+        before = result.current.takeSnapshot("before");
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10);
+      });
+
+      act(() => {
+        result.current.markMemory("second");
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(10);
+      });
+
+      let after = null as ReturnType<typeof result.current.takeSnapshot>;
+      act(() => {
+        after = result.current.takeSnapshot("after");
+      });
+
+      expect(before!.markers!.map((m) => m.label)).toEqual(["first"]);
+      expect(after!.markers!.map((m) => m.label)).toEqual(["second"]);
+    });
+  });
+
+  describe("leak attribution", () => {
+    beforeEach(() => {
+      clearAttributionEvents();
+    });
+
+    it("should not report suspects by default", async () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({
+          interval: 1000,
+          enableHistory: true,
+          leakDetection: { enabled: true },
+        })
+      );
+
+      recordAttributionEvent("mount", "ChatWidget");
+      mockSupportedBrowser({ usedJSHeapSize: 60 * 1024 * 1024 });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(1100);
+      });
+
+      expect(result.current.leakSuspects).toEqual([]);
+    });
+
+    it("should correlate growth with mounted scopes", async () => {
+      const { result } = renderHook(() =>
+        useMemoryMonitor({
+          interval: 1000,
+          enableHistory: true,
+          leakDetection: { enabled: true, attribution: true },
+        })
+      );
+
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(500);
+      });
+      recordAttributionEvent("mount", "ChatWidget");
+      mockSupportedBrowser({ usedJSHeapSize: 60 * 1024 * 1024 });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(600);
+      });
+
+      expect(result.current.leakSuspects).toEqual([
+        expect.objectContaining({
+          type: "scope",
+          name: "ChatWidget",
+          count: 1,
+          growth: 10 * 1024 * 1024,
+        }),
+      ]);
+    });
+
+    it("should track navigations while mounted", () => {
+      const pushState = window.history.pushState;
+      const { unmount } = renderHook(() =>
+        useMemoryMonitor({
+          enableHistory: true,
+          leakDetection: { enabled: true, attribution: true },
+        })
+      );
+      expect(window.history.pushState).not.toBe(pushState);
+
+      unmount();
+      expect(window.history.pushState).toBe(pushState);
+    });
+  });
+
   describe("fallback strategies", () => {
     // Note: In jsdom test environment, performance.memory mock may persist
     // These tests verify the fallback strategy options are applied
@@ -9,8 +9,10 @@ import type {
   AvailableMetric,
   FormattedMemory,
   LeakAnalysis,
+  LeakSuspect,
   MemoryCritical,
   MemoryInfo,
+  MemoryMarker,
   MemorySnapshot,
   MemoryWarning,
   Severity,
@@ -45,6 +47,16 @@ import {
 } from "./utils/formatting";
 import { CircularBuffer } from "./utils/circularBuffer";
 import { analyzeLeakProbability, calculateTrend } from "./utils/leakDetection";
+import {
+  analyzeAttribution,
+  getAttributionEvents,
+  trackNavigation,
+} from "./utils/attribution";
+
+/**
+ * Leak suspects when attribution is disabled (stable reference)
+ */
+const NO_LEAK_SUSPECTS: LeakSuspect[] = [];
 
 /**
  * A React hook for monitoring browser memory usage in real-time.
@@ -179,6 +191,12 @@ export function useMemoryMonitor(
   // Snapshot storage
   const snapshotsRef = useRef<Map<string, MemorySnapshot>>(new Map());
 
+  // Time of the latest snapshot, to attach the markers recorded since
+  const lastSnapshotTimeRef = useRef<number>(0);
+
+  // Counter for unique marker IDs
+  const markerCounterRef = useRef<number>(0);
+
   // Interval ID ref
   const intervalIdRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
@@ -224,6 +242,7 @@ export function useMemoryMonitor(
   const usagePercentage = calculateUsagePercentage(heapUsed, heapLimit);
   const domNodes = storeState.domNodes;
   const eventListeners = storeState.eventListeners;
+  const markers = storeState.markers;
 
   // Calculate severity based on thresholds
   const severity = useMemo((): Severity => {
@@ -251,6 +270,15 @@ export function useMemoryMonitor(
     return calculateTrend(history);
   }, [enableHistory, history]);
 
+  // Leak attribution: correlate growth over the whole history with
+  // memory scopes and navigations
+  const attributionEnabled =
+    !!leakDetection.enabled && !!leakDetection.attribution && enableHistory;
+  const leakSuspects = useMemo((): LeakSuspect[] => {
+    if (!attributionEnabled) return NO_LEAK_SUSPECTS;
+    return analyzeAttribution(history, getAttributionEvents());
+  }, [attributionEnabled, history]);
+
   // Leak analysis
   const leakAnalysis = useMemo((): LeakAnalysis | null => {
     if (!leakDetection.enabled || !enableHistory) return null;
@@ -260,11 +288,14 @@ export function useMemoryMonitor(
 
     if (samples.length < 5) return null;
 
-    return analyzeLeakProbability(
+    const analysis = analyzeLeakProbability(
       samples,
       leakDetection.sensitivity ?? "medium",
       leakDetection.threshold
     );
+    return attributionEnabled
+      ? { ...analysis, suspects: leakSuspects }
+      : analysis;
   }, [
     leakDetection.enabled,
     leakDetection.sensitivity,
@@ -272,6 +303,8 @@ export function useMemoryMonitor(
     leakDetection.threshold,
     enableHistory,
     history,
+    attributionEnabled,
+    leakSuspects,
   ]);
 
   const isLeakDetected = leakAnalysis?.isLeaking ?? false;
@@ -373,18 +406,25 @@ export function useMemoryMonitor(
     (id: string): MemorySnapshot | null => {
       if (!isSupported || !memory) return null;
 
+      const timestamp = Date.now();
       const snapshot: MemorySnapshot = {
         id,
         memory: { ...memory },
         domNodes: domNodes ?? undefined,
         eventListeners: eventListeners ?? undefined,
-        timestamp: Date.now(),
+        timestamp,
+        markers: store
+          .getSnapshot()
+          .markers.filter(
+            (marker) => marker.timestamp > lastSnapshotTimeRef.current
+          ),
       };
 
       snapshotsRef.current.set(id, snapshot);
+      lastSnapshotTimeRef.current = timestamp;
       return snapshot;
     },
-    [isSupported, memory, domNodes, eventListeners]
+    [isSupported, memory, domNodes, eventListeners, store]
   );
 
   // Compare snapshots
@@ -424,6 +464,34 @@ export function useMemoryMonitor(
     }
   }, []);
 
+  // Record a marker, with the current heap usage when available
+  const markMemory = useCallback(
+    (label: string, meta?: Record<string, unknown>): MemoryMarker => {
+      markerCounterRef.current += 1;
+      const timestamp = Date.now();
+      const marker: MemoryMarker = {
+        id: `marker-${timestamp}-${markerCounterRef.current}`,
+        label,
+        timestamp,
+        heapUsed: readMemoryFromAPI()?.heapUsed,
+        meta,
+      };
+
+      store.addMarker(marker);
+
+      if (devMode && logToConsole) {
+        console.log("[useMemoryMonitor] Marker", label, meta ?? "");
+      }
+      return marker;
+    },
+    [store, devMode, logToConsole]
+  );
+
+  // Clear markers
+  const clearMarkers = useCallback(() => {
+    store.clearMarkers();
+  }, [store]);
+
   // Request GC (hint only, NOT guaranteed in standard browsers)
   // JavaScript cannot force GC - this only works with --expose-gc flag
   const requestGC = useCallback(() => {
@@ -466,6 +534,12 @@ export function useMemoryMonitor(
     };
   }, [autoStart, isSupported, enabled, shouldDisable, start, stop]);
 
+  // Navigation tracking effect (for leak attribution)
+  useEffect(() => {
+    if (!attributionEnabled || !enabled || shouldDisable) return;
+    return trackNavigation();
+  }, [attributionEnabled, enabled, shouldDisable]);
+
   // Visibility change effect (pause when tab is hidden)
   useEffect(() => {
     if (isServer()) return;
@@ -547,11 +621,15 @@ export function useMemoryMonitor(
       history: [],
       trend: DEFAULT_TREND,
       leakProbability: 0,
+      markers: [],
+      leakSuspects: [],
       start: () => {},
       stop: () => {},
       takeSnapshot: () => null,
       compareSnapshots: () => null,
       clearHistory: () => {},
+      markMemory: () => null,
+      clearMarkers: () => {},
       requestGC: () => {},
       formatted: SSR_FORMATTED_MEMORY,
     };
@@ -583,6 +661,8 @@ export function useMemoryMonitor(
     history,
     trend,
     leakProbability,
+    markers,
+    leakSuspects,
 
     // Actions
     start,
@@ -590,6 +670,8 @@ export function useMemoryMonitor(
     takeSnapshot,
     compareSnapshots,
     clearHistory,
+    markMemory,
+    clearMarkers,
     requestGC,
 
     // Formatting
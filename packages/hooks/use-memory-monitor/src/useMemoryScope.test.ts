@@ -0,0 +1,45 @@
+import { renderHook } from "@testing-library/react";
+import { describe, it, expect, beforeEach } from "vitest";
+import { useMemoryScope } from "./useMemoryScope";
+import {
+  clearAttributionEvents,
+  getAttributionEvents,
+} from "./utils/attribution";
+
+describe("useMemoryScope", () => {
+  beforeEach(() => {
+    clearAttributionEvents();
+  });
+
+  const recorded = () =>
+    getAttributionEvents().map((e) => `${e.type}:${e.name}`);
+
+  it("should record mount and unmount", () => {
+    const { unmount } = renderHook(() => useMemoryScope("ChatWidget"));
+    expect(recorded()).toEqual(["mount:ChatWidget"]);
+
+    unmount();
+    expect(recorded()).toEqual(["mount:ChatWidget", "unmount:ChatWidget"]);
+  });
+
+  it("should record each instance", () => {
+    renderHook(() => useMemoryScope("Row"));
+    renderHook(() => useMemoryScope("Row"));
+
+    expect(recorded()).toEqual(["mount:Row", "mount:Row"]);
+  });
+
+  it("should move to the new scope when the name changes", () => {
+    const { rerender } = renderHook(({ name }) => useMemoryScope(name), {
+      initialProps: { name: "Step 1" },
+    });
+
+    rerender({ name: "Step 2" });
+
+    expect(recorded()).toEqual([
+      "mount:Step 1",
+      "unmount:Step 1",
+      "mount:Step 2",
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { recordAttributionEvent } from "./utils/attribution";
+
+/**
+ * A React hook that registers a component as a memory scope.
+ * Records the component's mount and unmount, so leak analysis with
+ * `leakDetection.attribution` enabled can correlate memory growth with
+ * scopes that were mounted but never unmounted.
+ *
+ * @param name - Scope name, shared by every instance of the component
+ *
+ * @example
+ * ```tsx
+ * function ChatWidget() {
+ *   useMemoryScope("ChatWidget");
+ *   // ...
+ * }
+ *
+ * const monitor = useMemoryMonitor({
+ *   enableHistory: true,
+ *   leakDetection: { enabled: true, attribution: true },
+ * });
+ * console.log(monitor.leakSuspects);
+ * ```
+ */
+export function useMemoryScope(name: string): void {
+  useEffect(() => {
+    recordAttributionEvent("mount", name);
+    return () => {
+      recordAttributionEvent("unmount", name);
+    };
+  }, [name]);
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  analyzeAttribution,
+  recordAttributionEvent,
+  getAttributionEvents,
+  clearAttributionEvents,
+  trackNavigation,
+} from "./attribution";
+import type { AttributionEvent, MemoryInfo } from "../types";
+import { MAX_ATTRIBUTION_EVENTS } from "../constants";
+
+const MB = 1024 * 1024;
+
+// Helper to create memory samples, one per second from t=0
+function createMemorySamples(heapValuesMB: number[]): MemoryInfo[] {
+  return heapValuesMB.map((heapUsed, index) => ({
+    heapUsed: heapUsed * MB,
+    heapTotal: heapUsed * 2 * MB,
+    heapLimit: 2048 * MB,
+    timestamp: index * 1000,
+  }));
+}
+
+function event(
+  type: AttributionEvent["type"],
+  name: string,
+  timestamp: number
+): AttributionEvent {
+  return { type, name, timestamp };
+}
+
+describe("attribution events", () => {
+  beforeEach(() => {
+    clearAttributionEvents();
+  });
+
+  it("should record events in order", () => {
+    recordAttributionEvent("mount", "Modal");
+    recordAttributionEvent("unmount", "Modal");
+
+    expect(getAttributionEvents().map((e) => e.type)).toEqual([
+      "mount",
+      "unmount",
+    ]);
+  });
+
+  it("should keep at most MAX_ATTRIBUTION_EVENTS events", () => {
+    for (let i = 0; i < MAX_ATTRIBUTION_EVENTS + 3; i++) {
+      recordAttributionEvent("mount", `Scope ${i}`);
+    }
+
+    const events = getAttributionEvents();
+    expect(events).toHaveLength(MAX_ATTRIBUTION_EVENTS);
+    expect(events[0].name).toBe("Scope 3");
+  });
+
+  it("should clear events", () => {
+    recordAttributionEvent("mount", "Modal");
+    clearAttributionEvents();
+
+    expect(getAttributionEvents()).toEqual([]);
+  });
+});
+
+describe("trackNavigation", () => {
+  beforeEach(() => {
+    clearAttributionEvents();
+    window.history.replaceState(null, "", "/");
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  const navigations = () =>
+    getAttributionEvents()
+      .filter((e) => e.type === "navigation")
+      .map((e) => e.name);
+
+  it("should record the current path and pathname changes", () => {
+    const stop = trackNavigation();
+
+    window.history.pushState(null, "", "/settings");
+    window.history.pushState(null, "", "/settings?tab=2");
+    window.history.replaceState(null, "", "/profile");
+    stop();
+
+    expect(navigations()).toEqual(["/", "/settings", "/profile"]);
+  });
+
+  it("should record popstate navigations", () => {
+    const stop = trackNavigation();
+
+    window.history.pushState(null, "", "/settings");
+    window.history.replaceState(null, "", "/");
+    window.dispatchEvent(new PopStateEvent("popstate"));
+    stop();
+
+    expect(navigations()).toEqual(["/", "/settings", "/"]);
+  });
+
+  it("should stop tracking once every tracker stopped", () => {
+    const pushState = window.history.pushState;
+    const stopFirst = trackNavigation();
+    const stopSecond = trackNavigation();
+
+    stopFirst();
+    stopFirst();
+    window.history.pushState(null, "", "/a");
+    expect(navigations()).toEqual(["/", "/a"]);
+
+    stopSecond();
+    window.history.pushState(null, "", "/b");
+    expect(navigations()).toEqual(["/", "/a"]);
+    expect(window.history.pushState).toBe(pushState);
+  });
+
+  it("should leave methods patched by others in place", () => {
+    const stop = trackNavigation();
+    const otherPushState = vi.fn();
+    window.history.pushState = otherPushState;
+
+    stop();
+
+    expect(window.history.pushState).toBe(otherPushState);
+    window.history.pushState = History.prototype.pushState;
+  });
+});
+
+describe("analyzeAttribution", () => {
+  it("should return no suspects without growth", () => {
+    const samples = createMemorySamples([50, 50, 45, 45]);
+    const events = [event("mount", "Modal", 500)];
+
+    expect(analyzeAttribution(samples, events)).toEqual([]);
+  });
+
+  it("should credit growth to scopes mounted but never unmounted", () => {
+    const samples = createMemorySamples([50, 60, 60, 70]);
+    const events = [
+      event("mount", "ChatWidget", 500),
+      event("mount", "ChatWidget", 2500),
+      event("mount", "Modal", 1500),
+      event("unmount", "Modal", 1800),
+    ];
+
+    const suspects = analyzeAttribution(samples, events);
+
+    expect(suspects).toEqual([
+      {
+        type: "scope",
+        name: "ChatWidget",
+        score: 76,
+        growth: 20 * MB,
+        count: 2,
+        reason: "2 instances mounted but never unmounted",
+      },
+    ]);
+  });
+
+  it("should credit growth to routes visited repeatedly", () => {
+    const samples = createMemorySamples([50, 60, 60, 70, 80]);
+    const events = [
+      event("navigation", "/", 0),
+      event("navigation", "/editor", 500),
+      event("navigation", "/", 1500),
+      event("navigation", "/editor", 2500),
+    ];
+
+    const suspects = analyzeAttribution(samples, events);
+
+    expect(suspects).toHaveLength(1);
+    expect(suspects[0]).toMatchObject({
+      type: "route",
+      name: "/editor",
+      growth: 30 * MB,
+      count: 2,
+      reason: "Visited 2 times",
+    });
+  });
+
+  it("should rank suspects by score", () => {
+    const samples = createMemorySamples([50, 51, 80]);
+    const events = [
+      event("mount", "Tooltip", 500),
+      event("mount", "Editor", 1500),
+    ];
+
+    const suspects = analyzeAttribution(samples, events);
+
+    expect(suspects.map((s) => s.name)).toEqual(["Editor", "Tooltip"]);
+    expect(suspects[0].score).toBeGreaterThan(suspects[1].score);
+  });
+
+  it("should limit the number of suspects", () => {
+    const samples = createMemorySamples([50, 60]);
+    const events = ["A", "B", "C"].map((name) => event("mount", name, 500));
+
+    expect(analyzeAttribution(samples, events, 2)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,271 @@
+import type {
+  AttributionEvent,
+  AttributionEventType,
+  LeakSuspect,
+  MemoryInfo,
+} from "../types";
+import { MAX_ATTRIBUTION_EVENTS, MAX_LEAK_SUSPECTS } from "../constants";
+import { isServer } from "./detection";
+
+/**
+ * Weight of the share of heap growth in the suspect score
+ */
+const GROWTH_WEIGHT = 70;
+
+/**
+ * Weight of the instance/visit count in the suspect score
+ */
+const COUNT_WEIGHT = 30;
+
+/**
+ * Count at which the count part of the score is maxed out
+ */
+const COUNT_SATURATION = 10;
+
+/**
+ * Recorded attribution events, oldest first (shared by all monitors)
+ */
+let attributionEvents: AttributionEvent[] = [];
+
+/**
+ * Number of active navigation trackers, and how to stop tracking
+ */
+let navigationTrackerCount = 0;
+let stopNavigationListener: (() => void) | null = null;
+
+/**
+ * Record a scope mount/unmount or a navigation for leak attribution.
+ * Keeps the last MAX_ATTRIBUTION_EVENTS events.
+ *
+ * @param type - Event type
+ * @param name - Scope name, or pathname for navigations
+ * @returns The recorded event
+ */
+export function recordAttributionEvent(
+  type: AttributionEventType,
+  name: string
+): AttributionEvent {
+  const event: AttributionEvent = { type, name, timestamp: Date.now() };
+  attributionEvents = [...attributionEvents, event].slice(
+    -MAX_ATTRIBUTION_EVENTS
+  );
+  return event;
+}
+
+/**
+ * Get the recorded attribution events, oldest first.
+ *
+ * @returns Attribution events
+ */
+export function getAttributionEvents(): AttributionEvent[] {
+  return attributionEvents;
+}
+
+/**
+ * Remove all recorded attribution events.
+ */
+export function clearAttributionEvents(): void {
+  attributionEvents = [];
+}
+
+/**
+ * Listen to History API navigations (pushState, replaceState, popstate).
+ * Records the current pathname, then every pathname change.
+ *
+ * @returns Function to remove the listeners
+ */
+function listenToNavigation(): () => void {
+  let currentPath: string | null = null;
+  const recordLocation = () => {
+    const path = window.location.pathname;
+    if (path === currentPath) return;
+    currentPath = path;
+    recordAttributionEvent("navigation", path);
+  };
+
+  const { pushState, replaceState } = window.history;
+  const patchedPushState = function (
+    this: History,
+    ...args: Parameters<History["pushState"]>
+  ) {
+    pushState.apply(this, args);
+    recordLocation();
+  };
+  const patchedReplaceState = function (
+    this: History,
+    ...args: Parameters<History["replaceState"]>
+  ) {
+    replaceState.apply(this, args);
+    recordLocation();
+  };
+
+  window.history.pushState = patchedPushState;
+  window.history.replaceState = patchedReplaceState;
+  window.addEventListener("popstate", recordLocation);
+  recordLocation();
+
+  return () => {
+    // Leave the methods alone if they were patched again since
+    if (window.history.pushState === patchedPushState) {
+      window.history.pushState = pushState;
+    }
+    if (window.history.replaceState === patchedReplaceState) {
+      window.history.replaceState = replaceState;
+    }
+    window.removeEventListener("popstate", recordLocation);
+  };
+}
+
+/**
+ * Record History API navigations as attribution events.
+ * Navigation is tracked once, however many callers track it.
+ *
+ * @returns Function to stop tracking for this caller
+ */
+export function trackNavigation(): () => void {
+  if (isServer()) {
+    return () => {};
+  }
+
+  navigationTrackerCount += 1;
+  if (navigationTrackerCount === 1) {
+    stopNavigationListener = listenToNavigation();
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+
+    navigationTrackerCount -= 1;
+    if (navigationTrackerCount === 0) {
+      stopNavigationListener?.();
+      stopNavigationListener = null;
+    }
+  };
+}
+
+/**
+ * Score a suspect from its share of the growth and its count.
+ */
+function scoreSuspect(
+  growth: number,
+  totalGrowth: number,
+  count: number
+): number {
+  const growthScore = (growth / totalGrowth) * GROWTH_WEIGHT;
+  const countScore =
+    (Math.min(count, COUNT_SATURATION) / COUNT_SATURATION) * COUNT_WEIGHT;
+  return Math.round(growthScore + countScore);
+}
+
+/**
+ * Correlate memory growth with scopes and routes, and rank the suspects.
+ *
+ * Growth segments are consecutive samples where used heap increased.
+ * - Scopes that are mounted but never unmounted are credited with the
+ *   growth of the segments they were mounted in.
+ * - Routes visited more than once are credited with the growth of the
+ *   segments that ended while they were the current route.
+ *
+ * @param samples - Memory samples, oldest first
+ * @param events - Attribution events, oldest first
+ * @param limit - Maximum number of suspects (default: MAX_LEAK_SUSPECTS)
+ * @returns Suspects, most suspicious first
+ */
+export function analyzeAttribution(
+  samples: MemoryInfo[],
+  events: AttributionEvent[],
+  limit: number = MAX_LEAK_SUSPECTS
+): LeakSuspect[] {
+  const segments: { start: number; end: number; growth: number }[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const growth = samples[i].heapUsed - samples[i - 1].heapUsed;
+    if (growth > 0) {
+      segments.push({
+        start: samples[i - 1].timestamp,
+        end: samples[i].timestamp,
+        growth,
+      });
+    }
+  }
+
+  const totalGrowth = segments.reduce((sum, s) => sum + s.growth, 0);
+  if (totalGrowth <= 0) {
+    return [];
+  }
+
+  const suspects: LeakSuspect[] = [];
+
+  // Scopes mounted but never unmounted
+  const openScopes = new Map<string, number>();
+  for (const event of events) {
+    if (event.type === "mount" || event.type === "unmount") {
+      const open = openScopes.get(event.name) ?? 0;
+      openScopes.set(event.name, open + (event.type === "mount" ? 1 : -1));
+    }
+  }
+  openScopes.forEach((count, name) => {
+    if (count <= 0) return;
+
+    const growth = segments
+      .filter((segment) =>
+        events.some(
+          (event) =>
+            event.type === "mount" &&
+            event.name === name &&
+            event.timestamp > segment.start &&
+            event.timestamp <= segment.end
+        )
+      )
+      .reduce((sum, segment) => sum + segment.growth, 0);
+    if (growth <= 0) return;
+
+    suspects.push({
+      type: "scope",
+      name,
+      score: scoreSuspect(growth, totalGrowth, count),
+      growth,
+      count,
+      reason: `${count} ${
+        count === 1 ? "instance" : "instances"
+      } mounted but never unmounted`,
+    });
+  });
+
+  // Routes visited repeatedly
+  const navigations = events.filter((event) => event.type === "navigation");
+  const visits = new Map<string, number>();
+  navigations.forEach((event) => {
+    visits.set(event.name, (visits.get(event.name) ?? 0) + 1);
+  });
+  visits.forEach((count, name) => {
+    if (count < 2) return;
+
+    const growth = segments
+      .filter((segment) => {
+        // Route that was current when the segment ended
+        let current: AttributionEvent | undefined;
+        for (const event of navigations) {
+          if (event.timestamp > segment.end) break;
+          current = event;
+        }
+        return current?.name === name;
+      })
+      .reduce((sum, segment) => sum + segment.growth, 0);
+    if (growth <= 0) return;
+
+    suspects.push({
+      type: "route",
+      name,
+      score: scoreSuspect(growth, totalGrowth, count),
+      growth,
+      count,
+      reason: `Visited ${count} times`,
+    });
+  });
+
+  return suspects
+    .sort((a, b) => b.score - a.score || b.growth - a.growth)
+    .slice(0, limit);
+}
@@ -42,3 +42,12 @@ export {
   isMemoryGrowing,
   type RegressionResult,
 } from "./leakDetection";
+
+// Leak attribution utilities
+export {
+  analyzeAttribution,
+  recordAttributionEvent,
+  getAttributionEvents,
+  clearAttributionEvents,
+  trackNavigation,
+} from "./attribution";
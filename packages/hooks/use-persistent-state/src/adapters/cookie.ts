@@ -0,0 +1,181 @@
+import type { SyncStorageAdapter } from "../types";
+
+/**
+ * Attributes of the cookies written by the cookie adapter
+ */
+export interface CookieAdapterOptions {
+  /**
+   * Lifetime in seconds (session cookie when omitted)
+   */
+  maxAge?: number;
+  /**
+   * Path the cookie is sent for
+   * @default "/"
+   */
+  path?: string;
+  /**
+   * Domain the cookie is sent to (current host when omitted)
+   */
+  domain?: string;
+  /**
+   * SameSite attribute
+   * @default "lax"
+   */
+  sameSite?: "strict" | "lax" | "none";
+  /**
+   * Only send the cookie over HTTPS (required by browsers for sameSite "none")
+   * @default false
+   */
+  secure?: boolean;
+}
+
+/** Minimal Cookie Store API, available in Chromium-based browsers */
+interface CookieStoreLike {
+  addEventListener(type: "change", listener: (event: Event) => void): void;
+  removeEventListener(type: "change", listener: (event: Event) => void): void;
+}
+
+/** Minimal cookie change event of the Cookie Store API */
+interface CookieChangeEventLike extends Event {
+  changed?: ReadonlyArray<{ name: string }>;
+  deleted?: ReadonlyArray<{ name: string }>;
+}
+
+/** Listeners of cookie adapters in this document, by cookie name */
+const writeListeners = new Map<string, Set<() => void>>();
+
+/**
+ * Notify the subscribers of every cookie adapter that a cookie was written
+ * Adapters created with different attributes share the same cookies.
+ */
+function notifyWrite(key: string): void {
+  writeListeners.get(key)?.forEach((listener) => listener());
+}
+
+/**
+ * Read a cookie from a cookie string (document.cookie or a Cookie request header)
+ * Names and values are URI-decoded, matching what the cookie adapter writes.
+ *
+ * @param cookies - Cookie string, e.g. `"theme=%22dark%22; locale=%22en%22"`
+ * @param name - Cookie name
+ * @returns The cookie value, or null when the cookie is not set
+ *
+ * @example
+ * ```ts
+ * // Server code
+ * const theme = readCookie(request.headers.get('cookie') ?? '', 'theme');
+ * ```
+ */
+export function readCookie(cookies: string, name: string): string | null {
+  for (const part of cookies.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) {
+      continue;
+    }
+
+    try {
+      if (decodeURIComponent(part.slice(0, separator).trim()) === name) {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      }
+    } catch {
+      // Ignore cookies not written with URI encoding
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the attribute part of a Set-Cookie string
+ */
+function formatAttributes(options: CookieAdapterOptions): string {
+  const { maxAge, path = "/", domain, sameSite = "lax", secure } = options;
+
+  let attributes = `; path=${path}; samesite=${sameSite}`;
+  if (maxAge !== undefined) {
+    attributes += `; max-age=${maxAge}`;
+  }
+  if (domain) {
+    attributes += `; domain=${domain}`;
+  }
+  if (secure) {
+    attributes += "; secure";
+  }
+  return attributes;
+}
+
+/**
+ * Create an adapter storing values in cookies
+ * Cookies are sent with every request, so keep values small (browsers limit
+ * cookies to about 4KB). Writes through any cookie adapter are picked up by
+ * the others in the same document, and changes in other tabs where the
+ * Cookie Store API is available.
+ *
+ * @param options - Cookie attributes
+ * @returns Storage adapter
+ *
+ * @example
+ * ```tsx
+ * const cookieAdapter = createCookieAdapter({ maxAge: 60 * 60 * 24 * 365 });
+ * const [theme, setTheme] = usePersistentState('theme', 'light', {
+ *   adapter: cookieAdapter,
+ * });
+ * ```
+ */
+export function createCookieAdapter(
+  options: CookieAdapterOptions = {}
+): SyncStorageAdapter {
+  return {
+    get: (key) => readCookie(document.cookie, key),
+    set: (key, value) => {
+      document.cookie = `${encodeURIComponent(key)}=${encodeURIComponent(
+        value
+      )}${formatAttributes(options)}`;
+      notifyWrite(key);
+    },
+    remove: (key) => {
+      document.cookie = `${encodeURIComponent(key)}=${formatAttributes({
+        ...options,
+        maxAge: 0,
+      })}`;
+      notifyWrite(key);
+    },
+    subscribe: (key, onChange) => {
+      if (!writeListeners.has(key)) {
+        writeListeners.set(key, new Set());
+      }
+
+      const keyListeners = writeListeners.get(key)!;
+      keyListeners.add(onChange);
+
+      const unsubscribeWrites = () => {
+        keyListeners.delete(onChange);
+        if (keyListeners.size === 0) {
+          writeListeners.delete(key);
+        }
+      };
+
+      const cookieStore =
+        typeof window !== "undefined"
+          ? (window as Window & { cookieStore?: CookieStoreLike }).cookieStore
+          : undefined;
+      if (!cookieStore) {
+        return unsubscribeWrites;
+      }
+
+      // Cookie Store names are not decoded, compare with the written name
+      const name = encodeURIComponent(key);
+      const handleChange = (event: Event) => {
+        const { changed = [], deleted = [] } = event as CookieChangeEventLike;
+        if ([...changed, ...deleted].some((cookie) => cookie.name === name)) {
+          onChange();
+        }
+      };
+      cookieStore.addEventListener("change", handleChange);
+
+      return () => {
+        unsubscribeWrites();
+        cookieStore.removeEventListener("change", handleChange);
+      };
+    },
+  };
+}
@@ -0,0 +1,7 @@
+export { localStorageAdapter, sessionStorageAdapter } from "./webStorage";
+export { createMemoryAdapter } from "./memory";
+export {
+  createCookieAdapter,
+  readCookie,
+  type CookieAdapterOptions,
+} from "./cookie";
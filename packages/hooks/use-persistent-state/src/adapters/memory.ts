@@ -0,0 +1,53 @@
+import type { SyncStorageAdapter } from "../types";
+
+/**
+ * Create an adapter keeping values in memory
+ * Useful for tests, server rendering, and as a fallback when storage is blocked.
+ * Values are lost on reload.
+ *
+ * @param initialValues - Strings to start with, keyed by storage key
+ * @returns Storage adapter
+ *
+ * @example
+ * ```tsx
+ * const adapter = createMemoryAdapter({ theme: '"dark"' });
+ * const [theme] = usePersistentState('theme', 'light', { adapter });
+ * ```
+ */
+export function createMemoryAdapter(
+  initialValues: Record<string, string> = {}
+): SyncStorageAdapter {
+  const values = new Map(Object.entries(initialValues));
+  const listeners = new Map<string, Set<() => void>>();
+
+  const notify = (key: string) => {
+    listeners.get(key)?.forEach((listener) => listener());
+  };
+
+  return {
+    get: (key) => values.get(key) ?? null,
+    set: (key, value) => {
+      values.set(key, value);
+      notify(key);
+    },
+    remove: (key) => {
+      values.delete(key);
+      notify(key);
+    },
+    subscribe: (key, onChange) => {
+      if (!listeners.has(key)) {
+        listeners.set(key, new Set());
+      }
+
+      const keyListeners = listeners.get(key)!;
+      keyListeners.add(onChange);
+
+      return () => {
+        keyListeners.delete(onChange);
+        if (keyListeners.size === 0) {
+          listeners.delete(key);
+        }
+      };
+    },
+  };
+}
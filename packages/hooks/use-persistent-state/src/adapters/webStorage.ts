@@ -0,0 +1,44 @@
+import type { SyncStorageAdapter } from "../types";
+
+/**
+ * Create an adapter for a Web Storage area
+ * The storage area is looked up on every call, so the adapter can be created
+ * during server rendering.
+ */
+function createWebStorageAdapter(
+  getStorage: () => Storage
+): SyncStorageAdapter {
+  return {
+    get: (key) => getStorage().getItem(key),
+    set: (key, value) => getStorage().setItem(key, value),
+    remove: (key) => getStorage().removeItem(key),
+    subscribe: (key, onChange) => {
+      if (typeof window === "undefined") {
+        return () => {};
+      }
+
+      // Fired for changes made by other documents (tabs, windows, iframes)
+      const handleStorageEvent = (event: StorageEvent) => {
+        if (event.key === key && event.storageArea === getStorage()) {
+          onChange();
+        }
+      };
+      window.addEventListener("storage", handleStorageEvent);
+
+      return () => window.removeEventListener("storage", handleStorageEvent);
+    },
+  };
+}
+
+/**
+ * Adapter for window.localStorage, synchronized across tabs
+ */
+export const localStorageAdapter: SyncStorageAdapter = createWebStorageAdapter(
+  () => window.localStorage
+);
+
+/**
+ * Adapter for window.sessionStorage
+ */
+export const sessionStorageAdapter: SyncStorageAdapter =
+  createWebStorageAdapter(() => window.sessionStorage);
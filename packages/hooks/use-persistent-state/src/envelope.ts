@@ -0,0 +1,92 @@
+/**
+ * Value envelope shared by the storage hooks (use-local-storage, use-session-storage)
+ * Values with metadata (schema version, expiry) are stored as
+ * {"__version":2,"__expiresAt":1700000000000,"value":"<serializer output>"};
+ * values without metadata are stored as the plain serializer output.
+ *
+ * @internal Exported for the storage hooks, not part of the documented API
+ */
+
+/** Metadata stored alongside a value */
+export interface EnvelopeMeta {
+  /** Schema version the value was written with */
+  version?: number;
+  /** Time (ms since epoch) after which the value is expired */
+  expiresAt?: number;
+}
+
+/** Stored shape of an envelope */
+interface StorageEnvelope {
+  __version?: number;
+  __expiresAt?: number;
+  value: string;
+}
+
+/** Keys an envelope may contain */
+const ENVELOPE_KEYS = new Set(["__version", "__expiresAt", "value"]);
+
+/**
+ * Check whether a parsed value is an envelope
+ */
+function isEnvelope(value: unknown): value is StorageEnvelope {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const envelope = value as Record<string, unknown>;
+  const keys = Object.keys(envelope);
+  return (
+    keys.length >= 2 &&
+    keys.every((key) => ENVELOPE_KEYS.has(key)) &&
+    typeof envelope.value === "string" &&
+    (envelope.__version === undefined ||
+      Number.isInteger(envelope.__version)) &&
+    (envelope.__expiresAt === undefined ||
+      Number.isFinite(envelope.__expiresAt))
+  );
+}
+
+/**
+ * Wrap a serialized value with its metadata
+ * @param serialized - Serializer output
+ * @param meta - Metadata to store
+ * @returns String to store (the serialized value itself when there is no metadata)
+ */
+export function wrapEnvelope(serialized: string, meta: EnvelopeMeta): string {
+  if (meta.version === undefined && meta.expiresAt === undefined) {
+    return serialized;
+  }
+
+  const envelope: StorageEnvelope = {
+    __version: meta.version,
+    __expiresAt: meta.expiresAt,
+    value: serialized,
+  };
+  return JSON.stringify(envelope);
+}
+
+/**
+ * Unwrap a stored string
+ * @param raw - Stored string
+ * @returns Serializer output and metadata (none for plain values)
+ */
+export function unwrapEnvelope(
+  raw: string
+): EnvelopeMeta & { serialized: string } {
+  // Envelopes always start with a metadata key, skip parsing everything else
+  if (raw.startsWith('{"__')) {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (isEnvelope(parsed)) {
+        return {
+          version: parsed.__version,
+          expiresAt: parsed.__expiresAt,
+          serialized: parsed.value,
+        };
+      }
+    } catch {
+      // Not JSON, so not an envelope
+    }
+  }
+  return { serialized: raw };
+}
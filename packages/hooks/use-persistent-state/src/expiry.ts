@@ -0,0 +1,72 @@
+/**
+ * Expiry utilities shared by the storage hooks (use-local-storage, use-session-storage)
+ *
+ * @internal Exported for the storage hooks, not part of the documented API
+ */
+
+/** Largest delay setTimeout supports (about 24.8 days) */
+const MAX_TIMEOUT = 2_147_483_647;
+
+/**
+ * Expiry options shared by the storage hooks
+ */
+export interface ExpiryOptions {
+  /** Time to live in milliseconds, counted from each write */
+  ttl?: number;
+  /** Fixed expiry time (takes precedence over ttl) */
+  expiresAt?: number | Date;
+}
+
+/**
+ * Compute the expiry time of a value written now
+ * @returns Time in ms since epoch, or undefined when the value does not expire
+ */
+export function resolveExpiresAt(
+  options: ExpiryOptions,
+  now: number = Date.now()
+): number | undefined {
+  if (options.expiresAt !== undefined) {
+    return options.expiresAt instanceof Date
+      ? options.expiresAt.getTime()
+      : options.expiresAt;
+  }
+  if (options.ttl !== undefined) {
+    return now + options.ttl;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an expiry time has passed
+ */
+export function isExpired(
+  expiresAt: number | undefined,
+  now: number = Date.now()
+): boolean {
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+/**
+ * Call a function once an expiry time has passed
+ * Runs it immediately when the time has already passed; long delays are split
+ * into several timeouts.
+ * @returns Cancel function
+ */
+export function scheduleExpiry(
+  expiresAt: number,
+  onExpire: () => void
+): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const check = () => {
+    const delay = expiresAt - Date.now();
+    if (delay <= 0) {
+      onExpire();
+      return;
+    }
+    timer = setTimeout(check, Math.min(delay, MAX_TIMEOUT));
+  };
+  check();
+
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,28 @@
+export {
+  usePersistentState,
+  type UsePersistentStateOptions,
+  type UsePersistentStateReturn,
+  type InitialValue,
+} from "./usePersistentState";
+export type {
+  StorageAdapter,
+  SyncStorageAdapter,
+  PersistentStateStatus,
+} from "./types";
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryAdapter,
+  createCookieAdapter,
+  readCookie,
+  type CookieAdapterOptions,
+} from "./adapters";
+
+// Value envelope and expiry, shared by the storage hooks
+export { wrapEnvelope, unwrapEnvelope, type EnvelopeMeta } from "./envelope";
+export {
+  resolveExpiresAt,
+  isExpired,
+  scheduleExpiry,
+  type ExpiryOptions,
+} from "./expiry";
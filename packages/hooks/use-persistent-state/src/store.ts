@@ -0,0 +1,323 @@
+/**
+ * Internal Store Manager for usePersistentState
+ * Caches the stored string of every key per adapter, keeps components using
+ * the same adapter and key in sync, and forwards adapter change events.
+ *
+ * Sync adapters are read on every snapshot, like useLocalStorage does.
+ * Async adapters are read once per subscription and refreshed on writes and
+ * adapter change events.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import type { PersistentStateStatus, StorageAdapter } from "./types";
+
+/**
+ * Cached stored string of a key
+ */
+export interface RawEntry {
+  /** Whether the stored string has been read */
+  status: PersistentStateStatus;
+  /** Stored string, or null when nothing is stored */
+  raw: string | null;
+}
+
+/**
+ * State of a key for one adapter
+ */
+interface KeyState {
+  /** Cached entry */
+  entry?: RawEntry;
+  /** Subscribed listeners */
+  listeners: Set<() => void>;
+  /** Updates waiting for the first read of an async adapter */
+  pendingUpdates: Array<() => void>;
+  /** Revision, bumped by every read and write to ignore stale async reads */
+  revision: number;
+  /** Whether the last sync read threw (not retried until the key changes) */
+  failed: boolean;
+  /** Unsubscribe from the adapter's change events */
+  unsubscribeAdapter?: () => void;
+}
+
+/** Entry of keys that have not been read yet */
+const LOADING_ENTRY: RawEntry = { status: "loading", raw: null };
+
+/** Map of adapter -> key -> state */
+const adapterStates = new WeakMap<StorageAdapter, Map<string, KeyState>>();
+
+/** Adapters whose get returned a promise */
+const asyncAdapters = new WeakSet<StorageAdapter>();
+
+/**
+ * Check whether a value is a promise (or any thenable)
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === "function"
+  );
+}
+
+/**
+ * Get the state of a key, creating it on first use
+ */
+function getKeyState(adapter: StorageAdapter, key: string): KeyState {
+  let states = adapterStates.get(adapter);
+  if (!states) {
+    states = new Map();
+    adapterStates.set(adapter, states);
+  }
+
+  let state = states.get(key);
+  if (!state) {
+    state = {
+      listeners: new Set(),
+      pendingUpdates: [],
+      revision: 0,
+      failed: false,
+    };
+    states.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Forget the state of a key nobody is subscribed to
+ */
+function releaseKeyState(adapter: StorageAdapter, key: string): void {
+  const states = adapterStates.get(adapter);
+  const state = states?.get(key);
+  if (
+    state &&
+    state.listeners.size === 0 &&
+    state.pendingUpdates.length === 0
+  ) {
+    states!.delete(key);
+  }
+}
+
+/**
+ * Store an entry and notify the listeners of the key
+ */
+function setEntry(state: KeyState, entry: RawEntry): void {
+  state.entry = entry;
+  state.failed = false;
+  state.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Read a key from an async adapter and store the result
+ * Results are ignored when the key was read or written again meanwhile.
+ */
+function readAsync(
+  adapter: StorageAdapter,
+  key: string,
+  state: KeyState,
+  result: PromiseLike<string | null>,
+  onError: (error: Error) => void
+): void {
+  const revision = ++state.revision;
+
+  Promise.resolve(result)
+    .then(
+      (raw): RawEntry => ({ status: "ready", raw }),
+      (error): RawEntry => {
+        onError(error as Error);
+        return state.entry?.status === "ready"
+          ? state.entry
+          : { status: "ready", raw: null };
+      }
+    )
+    .then((entry) => {
+      if (state.revision !== revision) {
+        return;
+      }
+      setEntry(state, entry);
+
+      const updates = state.pendingUpdates;
+      state.pendingUpdates = [];
+      updates.forEach((update) => update());
+      releaseKeyState(adapter, key);
+    });
+}
+
+/**
+ * Call adapter.get and handle its result
+ * @returns The entry for sync results, LOADING_ENTRY while an async read runs
+ */
+function read(
+  adapter: StorageAdapter,
+  key: string,
+  state: KeyState,
+  onError: (error: Error) => void
+): RawEntry {
+  let result: string | null | Promise<string | null>;
+  try {
+    result = adapter.get(key);
+  } catch (error) {
+    onError(error as Error);
+    state.entry = { status: "ready", raw: null };
+    state.failed = true;
+    return state.entry;
+  }
+
+  if (isPromiseLike<string | null>(result)) {
+    asyncAdapters.add(adapter);
+    state.entry ??= LOADING_ENTRY;
+    readAsync(adapter, key, state, result, onError);
+    return state.entry;
+  }
+
+  // Keep the cached entry while the stored string is unchanged
+  if (state.entry?.status !== "ready" || state.entry.raw !== result) {
+    state.entry = { status: "ready", raw: result };
+  }
+  return state.entry;
+}
+
+/**
+ * Get the entry of a key
+ * Sync adapters are read on every call, async adapters only when not cached.
+ */
+export function getEntry(
+  adapter: StorageAdapter,
+  key: string,
+  onError: (error: Error) => void
+): RawEntry {
+  const state = getKeyState(adapter, key);
+  if (
+    state.entry &&
+    (state.failed ||
+      state.entry.status === "loading" ||
+      asyncAdapters.has(adapter))
+  ) {
+    return state.entry;
+  }
+  return read(adapter, key, state, onError);
+}
+
+/**
+ * Get the entry used during server rendering
+ */
+export function getServerEntry(): RawEntry {
+  return LOADING_ENTRY;
+}
+
+/**
+ * Handle a change reported by the adapter
+ */
+function handleAdapterChange(
+  adapter: StorageAdapter,
+  key: string,
+  onError: (error: Error) => void
+): void {
+  const state = getKeyState(adapter, key);
+  if (asyncAdapters.has(adapter)) {
+    if (state.entry?.status === "ready") {
+      read(adapter, key, state, onError);
+    }
+    return;
+  }
+
+  // Sync adapters are read again by the snapshot
+  state.failed = false;
+  state.listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe a listener to a key
+ * @param adapter - Storage adapter
+ * @param key - Storage key
+ * @param listener - Callback to invoke when the stored string changes
+ * @param onError - Callback for read errors
+ * @returns Unsubscribe function
+ */
+export function subscribe(
+  adapter: StorageAdapter,
+  key: string,
+  listener: () => void,
+  onError: (error: Error) => void
+): () => void {
+  const state = getKeyState(adapter, key);
+  state.listeners.add(listener);
+
+  if (!state.unsubscribeAdapter && adapter.subscribe) {
+    state.unsubscribeAdapter = adapter.subscribe(key, () =>
+      handleAdapterChange(adapter, key, onError)
+    );
+  }
+
+  // Start reading async adapters before the first snapshot after mount
+  getEntry(adapter, key, onError);
+
+  return () => {
+    state.listeners.delete(listener);
+
+    // Cleanup: stop listening to the adapter and forget the key if no more listeners
+    if (state.listeners.size === 0) {
+      state.unsubscribeAdapter?.();
+      state.unsubscribeAdapter = undefined;
+      releaseKeyState(adapter, key);
+    }
+  };
+}
+
+/**
+ * Update the stored string of a key
+ * Sync writes that throw leave the value unchanged. Async writes are shown
+ * right away and read back when they fail. Updates made before the first read
+ * of an async adapter are applied once the stored string is read.
+ * @param adapter - Storage adapter
+ * @param key - Storage key
+ * @param update - Computes the next stored string (null to remove) from the current one
+ * @param onError - Callback for update and write errors
+ */
+export function updateEntry(
+  adapter: StorageAdapter,
+  key: string,
+  update: (current: string | null) => string | null,
+  onError: (error: Error) => void
+): void {
+  const state = getKeyState(adapter, key);
+
+  const apply = () => {
+    let result: void | Promise<void>;
+    let raw: string | null;
+    try {
+      raw = update(getEntry(adapter, key, onError).raw);
+      result = raw === null ? adapter.remove(key) : adapter.set(key, raw);
+    } catch (error) {
+      onError(error as Error);
+      return;
+    }
+
+    state.revision += 1;
+    setEntry(state, { status: "ready", raw });
+
+    if (isPromiseLike<void>(result)) {
+      Promise.resolve(result).catch((error) => {
+        onError(error as Error);
+        // Show what is actually stored again
+        if (state.listeners.size > 0) {
+          read(adapter, key, state, onError);
+        }
+      });
+    }
+  };
+
+  if (getEntry(adapter, key, onError).status === "ready") {
+    apply();
+    return;
+  }
+  state.pendingUpdates.push(apply);
+}
+
+/**
+ * Get the count of listeners for a key (for testing purposes)
+ * @internal
+ */
+export function getListenerCount(adapter: StorageAdapter, key: string): number {
+  return adapterStates.get(adapter)?.get(key)?.listeners.size ?? 0;
+}
@@ -0,0 +1,46 @@
+/**
+ * Storage backend for usePersistentState
+ * Values are passed as strings (the serializer output). Methods may return
+ * promises, for backends such as React Native AsyncStorage or an encrypted store;
+ * the hook then reports status "loading" until the first read completes.
+ */
+export interface StorageAdapter {
+  /**
+   * Read the stored string
+   * @returns The stored string, or null when nothing is stored
+   */
+  get(key: string): string | null | Promise<string | null>;
+  /**
+   * Store a string
+   * @throws When the value cannot be stored (e.g. quota exceeded); async adapters reject instead
+   */
+  set(key: string, value: string): void | Promise<void>;
+  /**
+   * Remove the stored string
+   */
+  remove(key: string): void | Promise<void>;
+  /**
+   * Listen for changes not made through usePersistentState in this tab,
+   * e.g. writes in other tabs
+   * @returns Unsubscribe function
+   */
+  subscribe?(key: string, onChange: () => void): () => void;
+}
+
+/**
+ * Storage backend answering synchronously, like the built-in adapters
+ * Lets code outside usePersistentState (e.g. other storage hooks) use an
+ * adapter without handling promises.
+ */
+export interface SyncStorageAdapter extends StorageAdapter {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+  remove(key: string): void;
+}
+
+/**
+ * Status of the stored value
+ * - `loading`: an async adapter is reading the value, the initial value is returned meanwhile
+ * - `ready`: the stored value (or the initial value when nothing is stored) is returned
+ */
+export type PersistentStateStatus = "loading" | "ready";
@@ -0,0 +1,576 @@
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { usePersistentState } from "./usePersistentState";
+import { getListenerCount } from "./store";
+import {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createMemoryAdapter,
+  createCookieAdapter,
+  readCookie,
+} from "./adapters";
+import type { StorageAdapter } from "./types";
+
+// Adapter with async methods, resolving reads on demand
+function createAsyncAdapter(initialValues: Record<string, string> = {}) {
+  const values = new Map(Object.entries(initialValues));
+  const pendingReads: Array<() => void> = [];
+
+  const adapter = {
+    get: vi.fn(
+      (key: string) =>
+        new Promise<string | null>((resolve) => {
+          pendingReads.push(() => resolve(values.get(key) ?? null));
+        })
+    ),
+    set: vi.fn(async (key: string, value: string) => {
+      values.set(key, value);
+    }),
+    remove: vi.fn(async (key: string) => {
+      values.delete(key);
+    }),
+  } satisfies StorageAdapter;
+
+  // Resolve all pending reads and wait for the resulting updates
+  const resolveReads = () =>
+    act(async () => {
+      pendingReads.splice(0).forEach((resolve) => resolve());
+      await Promise.resolve();
+    });
+
+  return { adapter, values, resolveReads };
+}
+
+// Remove all cookies set through document.cookie
+function clearCookies() {
+  document.cookie.split(";").forEach((cookie) => {
+    const name = cookie.split("=")[0].trim();
+    if (name) {
+      document.cookie = `${name}=; path=/; max-age=0`;
+    }
+  });
+}
+
+describe("usePersistentState", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    clearCookies();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe("default adapter", () => {
+    it("should use localStorage by default", () => {
+      window.localStorage.setItem("theme", JSON.stringify("dark"));
+
+      const { result } = renderHook(() => usePersistentState("theme", "light"));
+
+      expect(result.current[0]).toBe("dark");
+      expect(result.current[3]).toBe("ready");
+    });
+
+    it("should write serialized values to localStorage", () => {
+      const { result } = renderHook(() =>
+        usePersistentState("settings", { compact: false })
+      );
+
+      act(() => {
+        result.current[1]({ compact: true });
+      });
+
+      expect(result.current[0]).toEqual({ compact: true });
+      expect(window.localStorage.getItem("settings")).toBe(
+        JSON.stringify({ compact: true })
+      );
+    });
+  });
+
+  describe("initialization", () => {
+    it("should return the initial value when nothing is stored", () => {
+      const { result } = renderHook(() => usePersistentState("key", "initial"));
+
+      expect(result.current[0]).toBe("initial");
+      expect(result.current[3]).toBe("ready");
+    });
+
+    it("should support lazy initialization", () => {
+      const initializer = vi.fn(() => "lazy");
+
+      const { result } = renderHook(() =>
+        usePersistentState("key", initializer)
+      );
+
+      expect(result.current[0]).toBe("lazy");
+    });
+
+    it("should call onError and use the initial value for unparseable values", () => {
+      window.localStorage.setItem("key", "{not json");
+      const onError = vi.fn();
+
+      const { result, rerender } = renderHook(() =>
+        usePersistentState("key", "initial", { onError })
+      );
+      rerender();
+
+      expect(result.current[0]).toBe("initial");
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should use a custom serializer and deserializer", () => {
+      const adapter = createMemoryAdapter({ date: "1970-01-01T00:00:01.000Z" });
+
+      const { result } = renderHook(() =>
+        usePersistentState<Date>("date", new Date(0), {
+          adapter,
+          serializer: (date) => date.toISOString(),
+          deserializer: (value) => new Date(value),
+        })
+      );
+
+      expect(result.current[0].getTime()).toBe(1000);
+
+      act(() => {
+        result.current[1](new Date(2000));
+      });
+
+      expect(adapter.get("date")).toBe("1970-01-01T00:00:02.000Z");
+    });
+
+    it("should render serverRawValue during hydration", () => {
+      window.localStorage.setItem("theme", JSON.stringify("dark"));
+      const renders: string[] = [];
+
+      renderHook(
+        () => {
+          const [theme, , , status] = usePersistentState("theme", "light", {
+            serverRawValue: JSON.stringify("blue"),
+          });
+          renders.push(`${theme}:${status}`);
+        },
+        { hydrate: true }
+      );
+
+      expect(renders[0]).toBe("blue:ready");
+      expect(renders[renders.length - 1]).toBe("dark:ready");
+    });
+
+    it("should render the initial value while loading during hydration by default", () => {
+      window.localStorage.setItem("theme", JSON.stringify("dark"));
+      const renders: string[] = [];
+
+      renderHook(
+        () => {
+          const [theme, , , status] = usePersistentState("theme", "light");
+          renders.push(`${theme}:${status}`);
+        },
+        { hydrate: true }
+      );
+
+      expect(renders[0]).toBe("light:loading");
+      expect(renders[renders.length - 1]).toBe("dark:ready");
+    });
+  });
+
+  describe("setValue and removeValue", () => {
+    it("should support functional updates", () => {
+      const adapter = createMemoryAdapter({ count: "5" });
+      const { result } = renderHook(() =>
+        usePersistentState("count", 0, { adapter })
+      );
+
+      act(() => {
+        result.current[1]((prev) => prev + 1);
+        result.current[1]((prev) => prev + 1);
+      });
+
+      expect(result.current[0]).toBe(7);
+      expect(adapter.get("count")).toBe("7");
+    });
+
+    it("should remove the value and reset to the initial value", () => {
+      const adapter = createMemoryAdapter({ key: '"stored"' });
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter })
+      );
+
+      act(() => {
+        result.current[2]();
+      });
+
+      expect(result.current[0]).toBe("initial");
+      expect(adapter.get("key")).toBeNull();
+    });
+
+    it("should call onError and keep the value when a sync write throws", () => {
+      const adapter = createMemoryAdapter();
+      vi.spyOn(adapter, "set").mockImplementation(() => {
+        throw new Error("QuotaExceededError");
+      });
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter, onError })
+      );
+
+      act(() => {
+        result.current[1]("too big");
+      });
+
+      expect(result.current[0]).toBe("initial");
+      expect(onError).toHaveBeenCalledWith(new Error("QuotaExceededError"));
+    });
+
+    it("should keep setValue and removeValue stable across renders", () => {
+      const { result, rerender } = renderHook(() =>
+        usePersistentState("key", 0)
+      );
+      const [, setValue, removeValue] = result.current;
+
+      act(() => {
+        result.current[1](1);
+      });
+      rerender();
+
+      expect(result.current[1]).toBe(setValue);
+      expect(result.current[2]).toBe(removeValue);
+    });
+  });
+
+  describe("same-tab synchronization", () => {
+    it("should sync components using the same adapter and key", () => {
+      const adapter = createMemoryAdapter();
+      const { result: first } = renderHook(() =>
+        usePersistentState("shared", 0, { adapter })
+      );
+      const { result: second } = renderHook(() =>
+        usePersistentState("shared", 0, { adapter })
+      );
+
+      act(() => {
+        first.current[1](42);
+      });
+
+      expect(second.current[0]).toBe(42);
+    });
+
+    it("should not sync components using different adapters", () => {
+      const { result: local } = renderHook(() =>
+        usePersistentState("shared", 0)
+      );
+      const { result: session } = renderHook(() =>
+        usePersistentState("shared", 0, { adapter: sessionStorageAdapter })
+      );
+
+      act(() => {
+        local.current[1](42);
+      });
+
+      expect(session.current[0]).toBe(0);
+    });
+
+    it("should unsubscribe on unmount", () => {
+      const adapter = createMemoryAdapter();
+      const { unmount } = renderHook(() =>
+        usePersistentState("key", 0, { adapter })
+      );
+
+      expect(getListenerCount(adapter, "key")).toBe(1);
+
+      unmount();
+
+      expect(getListenerCount(adapter, "key")).toBe(0);
+    });
+
+    it("should read the new key when the key changes", () => {
+      const adapter = createMemoryAdapter({ a: '"value a"', b: '"value b"' });
+      const { result, rerender } = renderHook(
+        ({ storageKey }) => usePersistentState(storageKey, "", { adapter }),
+        { initialProps: { storageKey: "a" } }
+      );
+
+      expect(result.current[0]).toBe("value a");
+
+      rerender({ storageKey: "b" });
+
+      expect(result.current[0]).toBe("value b");
+    });
+  });
+
+  describe("built-in adapters", () => {
+    it("should pick up localStorage changes from other tabs", () => {
+      const { result } = renderHook(() => usePersistentState("key", "initial"));
+
+      act(() => {
+        window.localStorage.setItem("key", JSON.stringify("from other tab"));
+        window.dispatchEvent(
+          new StorageEvent("storage", {
+            key: "key",
+            storageArea: window.localStorage,
+          })
+        );
+      });
+
+      expect(result.current[0]).toBe("from other tab");
+    });
+
+    it("should ignore storage events of other storage areas", () => {
+      const listener = vi.fn();
+      const unsubscribe = localStorageAdapter.subscribe!("key", listener);
+
+      window.dispatchEvent(
+        new StorageEvent("storage", {
+          key: "key",
+          storageArea: window.sessionStorage,
+        })
+      );
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should store values in sessionStorage", () => {
+      const { result } = renderHook(() =>
+        usePersistentState("step", 1, { adapter: sessionStorageAdapter })
+      );
+
+      act(() => {
+        result.current[1](2);
+      });
+
+      expect(window.sessionStorage.getItem("step")).toBe("2");
+    });
+
+    it("should reflect writes made directly through a memory adapter", () => {
+      const adapter = createMemoryAdapter();
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter })
+      );
+
+      act(() => {
+        adapter.set("key", JSON.stringify("external"));
+      });
+
+      expect(result.current[0]).toBe("external");
+    });
+
+    it("should store values in cookies", () => {
+      const adapter = createCookieAdapter({ maxAge: 3600 });
+      const { result } = renderHook(() =>
+        usePersistentState("user prefs", { lang: "en" }, { adapter })
+      );
+
+      act(() => {
+        result.current[1]({ lang: "fr" });
+      });
+
+      expect(document.cookie).toContain(
+        `user%20prefs=${encodeURIComponent(JSON.stringify({ lang: "fr" }))}`
+      );
+      expect(adapter.get("user prefs")).toBe(JSON.stringify({ lang: "fr" }));
+
+      act(() => {
+        result.current[2]();
+      });
+
+      expect(adapter.get("user prefs")).toBeNull();
+      expect(result.current[0]).toEqual({ lang: "en" });
+    });
+
+    it("should write cookie attributes", () => {
+      const cookieSetter = vi.spyOn(document, "cookie", "set");
+      const adapter = createCookieAdapter({
+        maxAge: 60,
+        path: "/app",
+        domain: "example.com",
+        sameSite: "strict",
+        secure: true,
+      });
+
+      adapter.set("key", "value");
+
+      expect(cookieSetter).toHaveBeenCalledWith(
+        "key=value; path=/app; samesite=strict; max-age=60; domain=example.com; secure"
+      );
+    });
+
+    it("should pick up cookie changes reported by the Cookie Store API", () => {
+      const cookieStore = new EventTarget();
+      vi.stubGlobal("cookieStore", cookieStore);
+      const adapter = createCookieAdapter();
+      const { result } = renderHook(() =>
+        usePersistentState("theme", "light", { adapter })
+      );
+
+      act(() => {
+        document.cookie = `theme=${encodeURIComponent('"dark"')}; path=/`;
+        cookieStore.dispatchEvent(
+          Object.assign(new Event("change"), {
+            changed: [{ name: "other" }],
+          })
+        );
+      });
+      expect(result.current[0]).toBe("light");
+
+      act(() => {
+        cookieStore.dispatchEvent(
+          Object.assign(new Event("change"), { changed: [{ name: "theme" }] })
+        );
+      });
+      expect(result.current[0]).toBe("dark");
+    });
+
+    it("should sync cookie adapters created with different attributes", () => {
+      const { result: first } = renderHook(() =>
+        usePersistentState("theme", "light", {
+          adapter: createCookieAdapter(),
+        })
+      );
+      const { result: second } = renderHook(() =>
+        usePersistentState("theme", "light", {
+          adapter: createCookieAdapter({ maxAge: 60 }),
+        })
+      );
+
+      act(() => {
+        first.current[1]("dark");
+      });
+      expect(second.current[0]).toBe("dark");
+
+      act(() => {
+        second.current[2]();
+      });
+      expect(first.current[0]).toBe("light");
+    });
+
+    it("should read cookies from a Cookie header", () => {
+      const header = `theme=${encodeURIComponent('"dark"')}; other=1; bad=%E0%A4%A`;
+
+      expect(readCookie(header, "theme")).toBe('"dark"');
+      expect(readCookie(header, "missing")).toBeNull();
+      expect(readCookie(header, "bad")).toBeNull();
+    });
+  });
+
+  describe("async adapters", () => {
+    it("should return the initial value with status loading until the first read", async () => {
+      const { adapter, resolveReads } = createAsyncAdapter({
+        todos: JSON.stringify(["a"]),
+      });
+
+      const { result } = renderHook(() =>
+        usePersistentState<string[]>("todos", [], { adapter })
+      );
+
+      expect(result.current[0]).toEqual([]);
+      expect(result.current[3]).toBe("loading");
+
+      await resolveReads();
+
+      expect(result.current[0]).toEqual(["a"]);
+      expect(result.current[3]).toBe("ready");
+      expect(adapter.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply updates made while loading to the stored value", async () => {
+      const { adapter, values, resolveReads } = createAsyncAdapter({
+        todos: JSON.stringify(["a"]),
+      });
+      const { result } = renderHook(() =>
+        usePersistentState<string[]>("todos", [], { adapter })
+      );
+
+      act(() => {
+        result.current[1]((prev) => [...prev, "b"]);
+      });
+      expect(adapter.set).not.toHaveBeenCalled();
+
+      await resolveReads();
+
+      expect(result.current[0]).toEqual(["a", "b"]);
+      expect(values.get("todos")).toBe(JSON.stringify(["a", "b"]));
+    });
+
+    it("should show writes right away without reading again", async () => {
+      const { adapter, resolveReads } = createAsyncAdapter();
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter })
+      );
+      await resolveReads();
+
+      act(() => {
+        result.current[1]("updated");
+      });
+
+      expect(result.current[0]).toBe("updated");
+      expect(adapter.set).toHaveBeenCalledWith(
+        "key",
+        JSON.stringify("updated")
+      );
+      expect(adapter.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("should call onError and read the stored value again when a write fails", async () => {
+      const { adapter, resolveReads } = createAsyncAdapter({
+        key: JSON.stringify("stored"),
+      });
+      adapter.set.mockRejectedValueOnce(new Error("Write failed"));
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter, onError })
+      );
+      await resolveReads();
+
+      await act(async () => {
+        result.current[1]("lost");
+      });
+      expect(onError).toHaveBeenCalledWith(new Error("Write failed"));
+
+      await resolveReads();
+
+      expect(result.current[0]).toBe("stored");
+    });
+
+    it("should call onError and become ready when the read fails", async () => {
+      const adapter: StorageAdapter = {
+        get: () => Promise.reject(new Error("Read failed")),
+        set: async () => {},
+        remove: async () => {},
+      };
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter, onError })
+      );
+
+      await waitFor(() => expect(result.current[3]).toBe("ready"));
+      expect(result.current[0]).toBe("initial");
+      expect(onError).toHaveBeenCalledWith(new Error("Read failed"));
+    });
+
+    it("should read again when the adapter reports a change", async () => {
+      const { adapter, values, resolveReads } = createAsyncAdapter();
+      let notifyChange = () => {};
+      const subscribing: StorageAdapter = {
+        ...adapter,
+        subscribe: (_key, onChange) => {
+          notifyChange = onChange;
+          return () => {};
+        },
+      };
+      const { result } = renderHook(() =>
+        usePersistentState("key", "initial", { adapter: subscribing })
+      );
+      await resolveReads();
+
+      values.set("key", JSON.stringify("changed elsewhere"));
+      act(() => notifyChange());
+      expect(result.current[3]).toBe("ready");
+      await resolveReads();
+
+      expect(result.current[0]).toBe("changed elsewhere");
+    });
+  });
+});
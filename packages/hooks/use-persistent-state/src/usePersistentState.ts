@@ -0,0 +1,255 @@
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { subscribe, getEntry, getServerEntry, updateEntry } from "./store";
+import type { RawEntry } from "./store";
+import { localStorageAdapter } from "./adapters/webStorage";
+import type { PersistentStateStatus, StorageAdapter } from "./types";
+
+/**
+ * Type for initial value that can be a value or a function returning a value (lazy initialization)
+ */
+export type InitialValue<T> = T | (() => T);
+
+/**
+ * Options for usePersistentState hook
+ */
+export interface UsePersistentStateOptions<T> {
+  /**
+   * Storage backend
+   * @default localStorageAdapter
+   */
+  adapter?: StorageAdapter;
+  /**
+   * Custom serializer function for converting value to string
+   * @default JSON.stringify
+   */
+  serializer?: (value: T) => string;
+  /**
+   * Custom deserializer function for parsing stored string to value
+   * @default JSON.parse
+   */
+  deserializer?: (value: string) => T;
+  /**
+   * Stored string to render on the server and during hydration, e.g. read
+   * from the request (null when nothing is stored). The initial value with
+   * status "loading" is rendered when omitted.
+   */
+  serverRawValue?: string | null;
+  /**
+   * Callback function called when an error occurs
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Return type for usePersistentState hook - useLocalStorage tuple with the read status
+ */
+export type UsePersistentStateReturn<T> = readonly [
+  /** Current stored value (the initial value while loading) */
+  T,
+  /** Function to update the value (same signature as useState setter) */
+  React.Dispatch<React.SetStateAction<T>>,
+  /** Function to remove the value from storage */
+  () => void,
+  /** Whether the stored value has been read */
+  PersistentStateStatus
+];
+
+/**
+ * Helper function to resolve initial value (supports lazy initialization)
+ */
+function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
+  return typeof initialValue === "function"
+    ? (initialValue as () => T)()
+    : initialValue;
+}
+
+/**
+ * A hook for persisting state through a pluggable storage adapter.
+ * Works like useLocalStorage, with the storage backend as an option:
+ * built-in adapters cover localStorage, sessionStorage, memory and cookies,
+ * and any object implementing StorageAdapter can be plugged in.
+ *
+ * Features:
+ * - Same-tab synchronization: Components using the same adapter and key stay in sync
+ * - Adapter change events: Changes in other tabs are reflected when the adapter reports them
+ * - Async adapters: `status` is "loading" until the first read completes
+ * - SSR compatible: Returns the initial value with status "loading" on the server,
+ *   or the value of `serverRawValue` when the stored string is known there
+ *
+ * @template T - The type of the stored value
+ * @param key - The key to store the value under
+ * @param initialValue - Initial value or function returning initial value (lazy initialization)
+ * @param options - Configuration options for the adapter, serialization, and error handling
+ * @returns Tuple of [storedValue, setValue, removeValue, status]
+ *
+ * @example
+ * ```tsx
+ * // localStorage by default
+ * const [theme, setTheme, removeTheme] = usePersistentState('theme', 'light');
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Built-in adapters
+ * const [step, setStep] = usePersistentState('wizard-step', 1, {
+ *   adapter: sessionStorageAdapter,
+ * });
+ * const [locale, setLocale] = usePersistentState('locale', 'en', {
+ *   adapter: createCookieAdapter({ maxAge: 60 * 60 * 24 * 365 }),
+ * });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Custom async adapter (React Native AsyncStorage)
+ * const asyncStorageAdapter: StorageAdapter = {
+ *   get: (key) => AsyncStorage.getItem(key),
+ *   set: (key, value) => AsyncStorage.setItem(key, value),
+ *   remove: (key) => AsyncStorage.removeItem(key),
+ * };
+ *
+ * const [todos, setTodos, , status] = usePersistentState<Todo[]>('todos', [], {
+ *   adapter: asyncStorageAdapter,
+ * });
+ * ```
+ */
+export function usePersistentState<T>(
+  key: string,
+  initialValue: InitialValue<T>,
+  options: UsePersistentStateOptions<T> = {}
+): UsePersistentStateReturn<T> {
+  const {
+    adapter = localStorageAdapter,
+    serializer = JSON.stringify,
+    deserializer = JSON.parse,
+    serverRawValue,
+    onError,
+  } = options;
+
+  // Store options in refs for stable references and access to latest values
+  const serializerRef = useRef(serializer);
+  const deserializerRef = useRef(deserializer);
+  const onErrorRef = useRef(onError);
+  const initialValueRef = useRef(initialValue);
+
+  serializerRef.current = serializer;
+  deserializerRef.current = deserializer;
+  onErrorRef.current = onError;
+  initialValueRef.current = initialValue;
+
+  // Report errors to the latest onError
+  const reportError = useCallback((error: Error) => {
+    onErrorRef.current?.(error);
+  }, []);
+
+  // Parse a stored string, falling back to the initial value
+  const parseRaw = useCallback(
+    (raw: string | null): T => {
+      if (raw === null) {
+        return resolveInitialValue(initialValueRef.current);
+      }
+      try {
+        return deserializerRef.current(raw);
+      } catch (error) {
+        reportError(error as Error);
+        return resolveInitialValue(initialValueRef.current);
+      }
+    },
+    [reportError]
+  );
+
+  // Cache for getSnapshot to ensure stable returns and prevent infinite loops
+  // useSyncExternalStore requires getSnapshot to return the same reference
+  // if the data hasn't changed
+  const cacheRef = useRef<{
+    entry: RawEntry;
+    snapshot: { value: T; status: PersistentStateStatus };
+  } | null>(null);
+
+  // Derive the snapshot of an entry, parsing its string once
+  const toSnapshot = useCallback(
+    (entry: RawEntry) => {
+      const cache = cacheRef.current;
+      if (cache && cache.entry === entry) {
+        return cache.snapshot;
+      }
+
+      const snapshot =
+        cache && cache.entry.raw === entry.raw
+          ? { value: cache.snapshot.value, status: entry.status }
+          : { value: parseRaw(entry.raw), status: entry.status };
+      cacheRef.current = { entry, snapshot };
+      return snapshot;
+    },
+    [parseRaw]
+  );
+
+  // Reset the cache when the adapter or key changes
+  const cacheKeyRef = useRef({ adapter, key });
+  if (
+    cacheKeyRef.current.adapter !== adapter ||
+    cacheKeyRef.current.key !== key
+  ) {
+    cacheKeyRef.current = { adapter, key };
+    cacheRef.current = null;
+  }
+
+  // Subscribe function for useSyncExternalStore
+  const subscribeToStore = useCallback(
+    (onStoreChange: () => void) =>
+      subscribe(adapter, key, onStoreChange, reportError),
+    [adapter, key, reportError]
+  );
+
+  // getSnapshot: Read the stored string (cached for async adapters)
+  const getSnapshot = useCallback(
+    () => toSnapshot(getEntry(adapter, key, reportError)),
+    [adapter, key, reportError, toSnapshot]
+  );
+
+  // Entry rendered on the server and during hydration
+  const serverEntry = useMemo<RawEntry>(
+    () =>
+      serverRawValue === undefined
+        ? getServerEntry()
+        : { status: "ready", raw: serverRawValue },
+    [serverRawValue]
+  );
+
+  // getServerSnapshot: Return the server value, or the initial value, for SSR
+  const getServerSnapshot = useCallback(
+    () => toSnapshot(serverEntry),
+    [serverEntry, toSnapshot]
+  );
+
+  // Use useSyncExternalStore for synchronized state
+  const { value: storedValue, status } = useSyncExternalStore(
+    subscribeToStore,
+    getSnapshot,
+    getServerSnapshot
+  );
+
+  // setValue - stable reference that updates storage and notifies listeners
+  const setValue = useCallback<React.Dispatch<React.SetStateAction<T>>>(
+    (value) => {
+      updateEntry(
+        adapter,
+        key,
+        (current) => {
+          const valueToStore =
+            value instanceof Function ? value(parseRaw(current)) : value;
+          return serializerRef.current(valueToStore);
+        },
+        reportError
+      );
+    },
+    [adapter, key, parseRaw, reportError]
+  );
+
+  // removeValue - stable reference
+  const removeValue = useCallback(() => {
+    updateEntry(adapter, key, () => null, reportError);
+  }, [adapter, key, reportError]);
+
+  return [storedValue, setValue, removeValue, status] as const;
+}
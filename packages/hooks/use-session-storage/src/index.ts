@@ -3,4 +3,5 @@ export {
   type UseSessionStorageOptions,
   type UseSessionStorageReturn,
   type InitialValue,
+  type SessionStorageShareMode,
 } from "./useSessionStorage";
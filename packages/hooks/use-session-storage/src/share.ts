@@ -0,0 +1,237 @@
+/**
+ * Internal tab sharing for the useSessionStorage hook
+ * Hands sessionStorage values over between tabs of the same origin via
+ * BroadcastChannel: a tab missing a value asks the other tabs for it, and
+ * updates are mirrored to tabs sharing the key with "all-tabs".
+ *
+ * @internal This module is not exported publicly
+ */
+
+import {
+  sessionStorageAdapter,
+  unwrapEnvelope,
+  isExpired,
+} from "@usefy/use-persistent-state";
+import { notifyListeners } from "./store";
+import type { SessionStorageShareMode } from "./useSessionStorage";
+
+/** BroadcastChannel name shared by all tabs */
+const CHANNEL_NAME = "usefy:session-storage";
+
+/** Message relayed between tabs */
+type ShareMessage =
+  /** A tab asks for the value of a key it does not hold */
+  | { type: "request"; source: string; key: string }
+  /** A tab answers a request with its stored string */
+  | {
+      type: "value";
+      source: string;
+      target: string;
+      key: string;
+      rawValue: string;
+    }
+  /** A tab mirrors a write (rawValue) or a removal (null) */
+  | { type: "update"; source: string; key: string; rawValue: string | null };
+
+/** Connected hooks of a key */
+interface Connection {
+  /** Number of connected hooks */
+  count: number;
+  /** Number of connected hooks mirroring updates ("all-tabs") */
+  mirrors: number;
+}
+
+/** Unique id of this tab (JS realm) */
+const tabId = `${Date.now().toString(36)}-${Math.random()
+  .toString(36)
+  .slice(2)}`;
+
+/** Map of key -> connected hooks */
+const connections = new Map<string, Connection>();
+
+/** Keys asked for and not answered yet */
+const pendingSeeds = new Set<string>();
+
+let channel: BroadcastChannel | null = null;
+
+/**
+ * Check whether a value has the shape of a share message
+ */
+function isShareMessage(value: unknown): value is ShareMessage {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.type === "string" &&
+    typeof message.source === "string" &&
+    typeof message.key === "string"
+  );
+}
+
+/**
+ * Read the stored string of a key, ignoring expired values
+ */
+function readShareable(key: string): string | null {
+  const rawValue = sessionStorageAdapter.get(key);
+  return rawValue !== null && !isExpired(unwrapEnvelope(rawValue).expiresAt)
+    ? rawValue
+    : null;
+}
+
+/**
+ * Apply a message from another tab
+ * Storage errors are ignored: the value is simply not handed over.
+ */
+function handleMessage(value: unknown): void {
+  if (
+    !isShareMessage(value) ||
+    value.source === tabId ||
+    !connections.has(value.key)
+  ) {
+    return;
+  }
+
+  try {
+    switch (value.type) {
+      case "request": {
+        const rawValue = readShareable(value.key);
+        if (rawValue !== null) {
+          post({
+            type: "value",
+            source: tabId,
+            target: value.source,
+            key: value.key,
+            rawValue,
+          });
+        }
+        break;
+      }
+      case "value": {
+        // The first answer wins; values written meanwhile are kept
+        if (value.target !== tabId || !pendingSeeds.has(value.key)) {
+          return;
+        }
+        pendingSeeds.delete(value.key);
+        if (sessionStorageAdapter.get(value.key) === null) {
+          sessionStorageAdapter.set(value.key, value.rawValue);
+          notifyListeners(value.key);
+        }
+        break;
+      }
+      case "update": {
+        if (connections.get(value.key)!.mirrors === 0) {
+          return;
+        }
+        pendingSeeds.delete(value.key);
+        if (value.rawValue === null) {
+          sessionStorageAdapter.remove(value.key);
+        } else {
+          sessionStorageAdapter.set(value.key, value.rawValue);
+        }
+        notifyListeners(value.key);
+        break;
+      }
+    }
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Send a message to other tabs
+ */
+function post(message: ShareMessage): void {
+  channel?.postMessage(message);
+}
+
+/**
+ * Connect a hook sharing a key with other tabs
+ * Opens the channel on the first connection, and asks the other tabs for the
+ * value when this tab does not hold it. Does nothing where BroadcastChannel is
+ * unavailable.
+ *
+ * @param key - The sessionStorage key
+ * @param mode - How the key is shared
+ * @returns Disconnect function
+ */
+export function connect(
+  key: string,
+  mode: SessionStorageShareMode
+): () => void {
+  if (
+    typeof window === "undefined" ||
+    typeof BroadcastChannel === "undefined"
+  ) {
+    return () => {};
+  }
+
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => handleMessage(event.data);
+  }
+
+  const connection = connections.get(key) ?? { count: 0, mirrors: 0 };
+  connection.count += 1;
+  if (mode === "all-tabs") {
+    connection.mirrors += 1;
+  }
+  connections.set(key, connection);
+
+  try {
+    if (sessionStorageAdapter.get(key) === null && !pendingSeeds.has(key)) {
+      pendingSeeds.add(key);
+      post({ type: "request", source: tabId, key });
+    }
+  } catch {
+    // Ignore storage errors
+  }
+
+  let connected = true;
+  return () => {
+    if (!connected) {
+      return;
+    }
+    connected = false;
+
+    connection.count -= 1;
+    if (mode === "all-tabs") {
+      connection.mirrors -= 1;
+    }
+    if (connection.count === 0) {
+      connections.delete(key);
+      pendingSeeds.delete(key);
+    }
+
+    if (connections.size === 0) {
+      channel?.close();
+      channel = null;
+    }
+  };
+}
+
+/**
+ * Mirror a write or removal to other tabs, when the key is shared with "all-tabs"
+ * A local write also settles a pending request for the key.
+ *
+ * @param key - The sessionStorage key
+ * @param rawValue - The stored string, or null for a removal
+ */
+export function shareUpdate(key: string, rawValue: string | null): void {
+  pendingSeeds.delete(key);
+  if (connections.get(key)?.mirrors) {
+    post({ type: "update", source: tabId, key, rawValue });
+  }
+}
+
+/**
+ * Close the channel and forget all connections (for testing purposes)
+ * @internal
+ */
+export function resetShare(): void {
+  channel?.close();
+  channel = null;
+  connections.clear();
+  pendingSeeds.clear();
+}
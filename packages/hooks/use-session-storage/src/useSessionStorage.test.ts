@@ -2,6 +2,7 @@ import { renderHook, act } from "@testing-library/react";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { useSessionStorage } from "./useSessionStorage";
 import { clearAllListeners, getListenerCount } from "./store";
+import { resetShare } from "./share";
 
 // Mock sessionStorage
 const createSessionStorageMock = () => {
@@ -316,6 +317,463 @@ describe("useSessionStorage", () => {
     });
   });
 
+  describe("expiry", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should store values with an expiry time when ttl is set", () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("token", "", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      expect(JSON.parse(sessionStorageMock.getItem("token")!)).toEqual({
+        __expiresAt: 1_005_000,
+        value: JSON.stringify("abc"),
+      });
+      expect(result.current[0]).toBe("abc");
+    });
+
+    it("should count ttl from each write", () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("token", "", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("first");
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+      act(() => {
+        result.current[1]("second");
+      });
+      act(() => {
+        vi.advanceTimersByTime(3000);
+      });
+
+      expect(result.current[0]).toBe("second");
+    });
+
+    it("should reset to the initial value and remove the item when the ttl passes", () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("token", "none", { ttl: 5000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+      act(() => {
+        vi.advanceTimersByTime(4999);
+      });
+      expect(result.current[0]).toBe("abc");
+
+      act(() => {
+        vi.advanceTimersByTime(1);
+      });
+
+      expect(result.current[0]).toBe("none");
+      expect(sessionStorageMock.getItem("token")).toBeNull();
+    });
+
+    it("should use expiresAt as a fixed expiry time", () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("banner", true, {
+          expiresAt: new Date(1_002_000),
+          ttl: 60_000,
+        })
+      );
+
+      act(() => {
+        result.current[1](false);
+      });
+
+      expect(JSON.parse(sessionStorageMock.getItem("banner")!).__expiresAt).toBe(
+        1_002_000
+      );
+
+      act(() => {
+        vi.advanceTimersByTime(2000);
+      });
+
+      expect(result.current[0]).toBe(true);
+    });
+
+    it("should treat values that expired before mount as missing", () => {
+      sessionStorageMock.setItem(
+        "token",
+        JSON.stringify({ __expiresAt: 999_000, value: JSON.stringify("old") })
+      );
+
+      const { result } = renderHook(() => useSessionStorage("token", "none"));
+
+      expect(result.current[0]).toBe("none");
+      expect(sessionStorageMock.getItem("token")).toBeNull();
+    });
+
+    it("should read values that have not expired", () => {
+      sessionStorageMock.setItem(
+        "token",
+        JSON.stringify({ __expiresAt: 1_001_000, value: JSON.stringify("abc") })
+      );
+
+      const { result } = renderHook(() => useSessionStorage("token", "none"));
+
+      expect(result.current[0]).toBe("abc");
+    });
+
+    it("should expire the value for every instance using the key", () => {
+      const { result: writer } = renderHook(() =>
+        useSessionStorage("token", "none", { ttl: 1000 })
+      );
+      const { result: reader } = renderHook(() =>
+        useSessionStorage("token", "none")
+      );
+
+      act(() => {
+        writer.current[1]("abc");
+      });
+      expect(reader.current[0]).toBe("abc");
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(writer.current[0]).toBe("none");
+      expect(reader.current[0]).toBe("none");
+    });
+
+    it("should cancel the scheduled expiry on unmount", () => {
+      const { result, unmount } = renderHook(() =>
+        useSessionStorage("token", "none", { ttl: 1000 })
+      );
+
+      act(() => {
+        result.current[1]("abc");
+      });
+      unmount();
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it("should store plain values when no expiry is set", () => {
+      const { result } = renderHook(() => useSessionStorage("token", ""));
+
+      act(() => {
+        result.current[1]("abc");
+      });
+
+      expect(sessionStorageMock.getItem("token")).toBe(JSON.stringify("abc"));
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe("shareWith", () => {
+    let otherTab: BroadcastChannel;
+    let received: Array<Record<string, unknown>>;
+
+    beforeEach(() => {
+      received = [];
+      otherTab = new BroadcastChannel("usefy:session-storage");
+      otherTab.onmessage = (event) => received.push(event.data);
+    });
+
+    afterEach(() => {
+      otherTab.close();
+      resetShare();
+      vi.unstubAllGlobals();
+    });
+
+    // Post messages from another tab and wait until they are delivered
+    const postFromOtherTab = async (...messages: unknown[]) => {
+      await act(async () => {
+        messages.forEach((item) => otherTab.postMessage(item));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+    };
+
+    // Wait until the messages of this tab reach the other tab
+    const flushMessages = () =>
+      act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+
+    it("should not use BroadcastChannel by default", async () => {
+      const { result } = renderHook(() => useSessionStorage("filters", "all"));
+
+      act(() => {
+        result.current[1]("open");
+      });
+      await flushMessages();
+
+      expect(received).toEqual([]);
+    });
+
+    it("should ask other tabs for a missing value and seed it", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      await flushMessages();
+
+      expect(received).toEqual([
+        { type: "request", source: expect.any(String), key: "filters" },
+      ]);
+
+      await postFromOtherTab({
+        type: "value",
+        source: "other-tab",
+        target: received[0].source,
+        key: "filters",
+        rawValue: JSON.stringify("open"),
+      });
+
+      expect(result.current[0]).toBe("open");
+      expect(sessionStorageMock.getItem("filters")).toBe(
+        JSON.stringify("open")
+      );
+    });
+
+    it("should not ask for values the tab already holds", async () => {
+      sessionStorageMock.setItem("filters", JSON.stringify("open"));
+
+      renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      await flushMessages();
+
+      expect(received).toEqual([]);
+    });
+
+    it("should only accept the first answer addressed to the tab", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      await flushMessages();
+      const answer = {
+        type: "value",
+        source: "other-tab",
+        target: received[0].source,
+        key: "filters",
+      };
+
+      await postFromOtherTab(
+        { ...answer, target: "third-tab", rawValue: JSON.stringify("wrong") },
+        { ...answer, rawValue: JSON.stringify("first") },
+        { ...answer, rawValue: JSON.stringify("second") }
+      );
+
+      expect(result.current[0]).toBe("first");
+    });
+
+    it("should keep values written before the answer arrives", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      await flushMessages();
+
+      act(() => {
+        result.current[1]("mine");
+      });
+      await postFromOtherTab({
+        type: "value",
+        source: "other-tab",
+        target: received[0].source,
+        key: "filters",
+        rawValue: JSON.stringify("open"),
+      });
+
+      expect(result.current[0]).toBe("mine");
+    });
+
+    it("should answer requests of other tabs with the stored value", async () => {
+      renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      sessionStorageMock.setItem("filters", JSON.stringify("open"));
+
+      await postFromOtherTab(
+        { type: "request", source: "other-tab", key: "filters" },
+        { type: "request", source: "other-tab", key: "unshared" }
+      );
+      await flushMessages();
+
+      expect(received).toContainEqual({
+        type: "value",
+        source: expect.any(String),
+        target: "other-tab",
+        key: "filters",
+        rawValue: JSON.stringify("open"),
+      });
+      expect(received).toHaveLength(2);
+    });
+
+    it("should not hand over expired values", async () => {
+      renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      sessionStorageMock.setItem(
+        "filters",
+        JSON.stringify({ __expiresAt: Date.now() - 1, value: '"open"' })
+      );
+
+      await postFromOtherTab({
+        type: "request",
+        source: "other-tab",
+        key: "filters",
+      });
+      await flushMessages();
+
+      expect(received.map((message) => message.type)).toEqual(["request"]);
+    });
+
+    it("should not mirror updates with opener", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "opener" })
+      );
+      act(() => {
+        result.current[1]("mine");
+      });
+
+      await postFromOtherTab({
+        type: "update",
+        source: "other-tab",
+        key: "filters",
+        rawValue: JSON.stringify("theirs"),
+      });
+
+      expect(result.current[0]).toBe("mine");
+      expect(received.map((message) => message.type)).toEqual(["request"]);
+    });
+
+    it("should mirror updates and removals with all-tabs", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "all-tabs" })
+      );
+
+      act(() => {
+        result.current[1]("mine");
+      });
+      act(() => {
+        result.current[2]();
+      });
+      await flushMessages();
+
+      expect(received.slice(1)).toEqual([
+        {
+          type: "update",
+          source: expect.any(String),
+          key: "filters",
+          rawValue: JSON.stringify("mine"),
+        },
+        {
+          type: "update",
+          source: expect.any(String),
+          key: "filters",
+          rawValue: null,
+        },
+      ]);
+
+      await postFromOtherTab({
+        type: "update",
+        source: "other-tab",
+        key: "filters",
+        rawValue: JSON.stringify("theirs"),
+      });
+      expect(result.current[0]).toBe("theirs");
+
+      await postFromOtherTab({
+        type: "update",
+        source: "other-tab",
+        key: "filters",
+        rawValue: null,
+      });
+      expect(result.current[0]).toBe("all");
+    });
+
+    it("should mirror the removal of an expired value with all-tabs", async () => {
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", {
+          shareWith: "all-tabs",
+          ttl: 30,
+        })
+      );
+
+      act(() => {
+        result.current[1]("mine");
+      });
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 60));
+      });
+
+      expect(result.current[0]).toBe("all");
+      expect(received[received.length - 1]).toEqual({
+        type: "update",
+        source: expect.any(String),
+        key: "filters",
+        rawValue: null,
+      });
+    });
+
+    it("should update hooks without shareWith in the receiving tab", async () => {
+      renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "all-tabs" })
+      );
+      const { result } = renderHook(() => useSessionStorage("filters", "all"));
+
+      await postFromOtherTab({
+        type: "update",
+        source: "other-tab",
+        key: "filters",
+        rawValue: JSON.stringify("theirs"),
+      });
+
+      expect(result.current[0]).toBe("theirs");
+    });
+
+    it("should ignore malformed messages and keys no longer shared", async () => {
+      const { result, unmount } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "all-tabs" })
+      );
+      const { result: plain } = renderHook(() =>
+        useSessionStorage("filters", "all")
+      );
+
+      await postFromOtherTab(null, { type: "update", key: "filters" });
+      expect(result.current[0]).toBe("all");
+
+      unmount();
+      await postFromOtherTab({
+        type: "update",
+        source: "other-tab",
+        key: "filters",
+        rawValue: JSON.stringify("theirs"),
+      });
+      expect(plain.current[0]).toBe("all");
+    });
+
+    it("should keep working without BroadcastChannel", () => {
+      vi.stubGlobal("BroadcastChannel", undefined);
+
+      const { result } = renderHook(() =>
+        useSessionStorage("filters", "all", { shareWith: "all-tabs" })
+      );
+      act(() => {
+        result.current[1]("mine");
+      });
+
+      expect(result.current[0]).toBe("mine");
+    });
+  });
+
   describe("key changes", () => {
     it("should read new key value when key changes", () => {
       sessionStorageMock.setItem("key1", JSON.stringify("value1"));
@@ -1,11 +1,27 @@
-import { useCallback, useRef, useSyncExternalStore } from "react";
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  sessionStorageAdapter,
+  unwrapEnvelope,
+  wrapEnvelope,
+  isExpired,
+  resolveExpiresAt,
+  scheduleExpiry,
+} from "@usefy/use-persistent-state";
 import { subscribe, notifyListeners } from "./store";
+import { connect, shareUpdate } from "./share";
 
 /**
  * Type for initial value that can be a value or a function returning a value (lazy initialization)
  */
 export type InitialValue<T> = T | (() => T);
 
+/**
+ * How a value is shared with other tabs:
+ * - "opener": seeded once from a tab holding the value, then kept per tab
+ * - "all-tabs": seeded, then updates and removals are mirrored between tabs
+ */
+export type SessionStorageShareMode = "opener" | "all-tabs";
+
 /**
  * Options for useSessionStorage hook
  */
@@ -24,6 +40,26 @@ export interface UseSessionStorageOptions<T> {
    * Callback function called when an error occurs
    */
   onError?: (error: Error) => void;
+  /**
+   * Time to live in milliseconds, counted from each write.
+   * Expired values read as the initial value and are removed from storage.
+   */
+  ttl?: number;
+  /**
+   * Fixed expiry time for written values (takes precedence over `ttl`)
+   */
+  expiresAt?: number | Date;
+  /**
+   * Share the value with other tabs of the same origin via BroadcastChannel:
+   * - "opener": a tab without the value is seeded from a tab holding it, then
+   *   keeps its own value. BroadcastChannel cannot tell which tab opened this
+   *   one, so the seed comes from the first tab that answers: the opener when
+   *   it is the only tab holding the value, any of them otherwise
+   * - "all-tabs": seeded the same way, and updates and removals are mirrored
+   *   between all tabs sharing the key with "all-tabs"
+   * By default the value stays in its tab.
+   */
+  shareWith?: SessionStorageShareMode;
 }
 
 /**
@@ -38,6 +74,20 @@ export type UseSessionStorageReturn<T> = readonly [
   () => void
 ];
 
+/**
+ * Stored value as read by the hook, cached per raw string
+ */
+interface StoredEntry<T> {
+  /** Raw string in storage */
+  rawValue: string | null;
+  /** Value returned by the hook */
+  parsedValue: T;
+  /** Expiry time of the stored value */
+  expiresAt?: number;
+  /** Whether the stored value had expired when read */
+  expired: boolean;
+}
+
 /**
  * Helper function to resolve initial value (supports lazy initialization)
  */
@@ -57,7 +107,7 @@ function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
  *
  * Unlike localStorage, sessionStorage data:
  * - Is cleared when the tab/window is closed
- * - Is not shared between tabs (each tab has its own session)
+ * - Is not shared between tabs (each tab has its own session), unless `shareWith` is set
  *
  * @template T - The type of the stored value
  * @param key - The sessionStorage key to store the value under
@@ -121,6 +171,18 @@ function resolveInitialValue<T>(initialValue: InitialValue<T>): T {
  *   deserializer: (s) => new Date(s),
  * });
  * ```
+ *
+ * @example
+ * ```tsx
+ * // With an expiring value (removed 15 minutes after each write)
+ * const [draft, setDraft] = useSessionStorage('draft', '', { ttl: 15 * 60 * 1000 });
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Hand the value over to tabs opened with "open in new window"
+ * const [filters, setFilters] = useSessionStorage('filters', {}, { shareWith: 'opener' });
+ * ```
  */
 export function useSessionStorage<T>(
   key: string,
@@ -131,6 +193,9 @@ export function useSessionStorage<T>(
     serializer = JSON.stringify,
     deserializer = JSON.parse,
     onError,
+    ttl,
+    expiresAt,
+    shareWith,
   } = options;
 
   // Store options in refs for stable references and access to latest values
@@ -138,18 +203,35 @@ export function useSessionStorage<T>(
   const deserializerRef = useRef(deserializer);
   const onErrorRef = useRef(onError);
   const initialValueRef = useRef(initialValue);
+  const ttlRef = useRef(ttl);
+  const expiresAtRef = useRef(expiresAt);
 
   serializerRef.current = serializer;
   deserializerRef.current = deserializer;
   onErrorRef.current = onError;
   initialValueRef.current = initialValue;
+  ttlRef.current = ttl;
+  expiresAtRef.current = expiresAt;
+
+  // Read a stored string: unwrap, then deserialize unless expired
+  const readStored = useCallback((rawValue: string): StoredEntry<T> => {
+    const { expiresAt: storedExpiresAt, serialized } = unwrapEnvelope(rawValue);
+    const expired = isExpired(storedExpiresAt);
+
+    return {
+      rawValue,
+      parsedValue: expired
+        ? resolveInitialValue(initialValueRef.current)
+        : deserializerRef.current(serialized),
+      expiresAt: storedExpiresAt,
+      expired,
+    };
+  }, []);
 
   // Cache for getSnapshot to ensure stable returns and prevent infinite loops
   // useSyncExternalStore requires getSnapshot to return the same reference
   // if the data hasn't changed
-  const cacheRef = useRef<{ rawValue: string | null; parsedValue: T } | null>(
-    null
-  );
+  const cacheRef = useRef<StoredEntry<T> | null>(null);
 
   // SSR check
   const isClient = typeof window !== "undefined";
@@ -179,32 +261,40 @@ export function useSessionStorage<T>(
     }
 
     try {
-      const rawValue = window.sessionStorage.getItem(key);
-
-      // Check cache: if rawValue is the same, return cached parsed value
-      if (cacheRef.current && cacheRef.current.rawValue === rawValue) {
-        return cacheRef.current.parsedValue;
-      }
+      const rawValue = sessionStorageAdapter.get(key);
 
-      // Parse new value
-      let parsedValue: T;
-      if (rawValue !== null) {
-        parsedValue = deserializerRef.current(rawValue);
-      } else {
-        parsedValue = resolveInitialValue(initialValueRef.current);
+      // Check cache: if rawValue is the same and has not expired since, return cached parsed value
+      const cache = cacheRef.current;
+      if (
+        cache &&
+        cache.rawValue === rawValue &&
+        (cache.expired || !isExpired(cache.expiresAt))
+      ) {
+        return cache.parsedValue;
       }
 
-      // Update cache
-      cacheRef.current = { rawValue, parsedValue };
+      // Parse new value and update cache
+      cacheRef.current =
+        rawValue !== null
+          ? readStored(rawValue)
+          : {
+              rawValue,
+              parsedValue: resolveInitialValue(initialValueRef.current),
+              expired: false,
+            };
 
-      return parsedValue;
+      return cacheRef.current.parsedValue;
     } catch (error) {
       onErrorRef.current?.(error as Error);
       const fallbackValue = resolveInitialValue(initialValueRef.current);
-      cacheRef.current = { rawValue: null, parsedValue: fallbackValue };
+      cacheRef.current = {
+        rawValue: null,
+        parsedValue: fallbackValue,
+        expired: false,
+      };
       return fallbackValue;
     }
-  }, [key, isClient]);
+  }, [key, isClient, readStored]);
 
   // getServerSnapshot: Return initial value for SSR
   const getServerSnapshot = useCallback((): T => {
@@ -218,6 +308,37 @@ export function useSessionStorage<T>(
     getServerSnapshot
   );
 
+  // Remove the value once it has expired, so every subscriber re-renders
+  const purgeExpired = useCallback(() => {
+    try {
+      const rawValue = sessionStorageAdapter.get(key);
+      if (rawValue !== null && isExpired(unwrapEnvelope(rawValue).expiresAt)) {
+        sessionStorageAdapter.remove(key);
+        shareUpdate(key, null);
+        notifyListeners(key);
+      }
+    } catch (error) {
+      onErrorRef.current?.(error as Error);
+    }
+  }, [key]);
+
+  // Schedule the purge for the expiry time of the current value
+  const currentExpiresAt = cacheRef.current?.expiresAt;
+  useEffect(() => {
+    if (currentExpiresAt === undefined) {
+      return;
+    }
+    return scheduleExpiry(currentExpiresAt, purgeExpired);
+  }, [currentExpiresAt, purgeExpired]);
+
+  // Share the key with other tabs while mounted
+  useEffect(() => {
+    if (shareWith === undefined) {
+      return;
+    }
+    return connect(key, shareWith);
+  }, [key, shareWith]);
+
   // setValue - stable reference that updates sessionStorage and notifies listeners
   const setValue = useCallback<React.Dispatch<React.SetStateAction<T>>>(
     (value) => {
@@ -225,9 +346,9 @@ export function useSessionStorage<T>(
         // Get current value for functional updates
         const currentValue = (() => {
           try {
-            const item = window.sessionStorage.getItem(key);
+            const item = sessionStorageAdapter.get(key);
             if (item !== null) {
-              return deserializerRef.current(item);
+              return readStored(item).parsedValue;
             }
             return resolveInitialValue(initialValueRef.current);
           } catch {
@@ -239,13 +360,22 @@ export function useSessionStorage<T>(
           value instanceof Function ? value(currentValue) : value;
 
         if (typeof window !== "undefined") {
-          const serialized = serializerRef.current(valueToStore);
-          window.sessionStorage.setItem(key, serialized);
+          const itemExpiresAt = resolveExpiresAt({
+            ttl: ttlRef.current,
+            expiresAt: expiresAtRef.current,
+          });
+          const serialized = wrapEnvelope(serializerRef.current(valueToStore), {
+            expiresAt: itemExpiresAt,
+          });
+          sessionStorageAdapter.set(key, serialized);
+          shareUpdate(key, serialized);
 
           // Invalidate cache so next getSnapshot reads fresh value
           cacheRef.current = {
             rawValue: serialized,
             parsedValue: valueToStore,
+            expiresAt: itemExpiresAt,
+            expired: false,
           };
 
           // Notify all same-tab listeners
@@ -255,18 +385,23 @@ export function useSessionStorage<T>(
         onErrorRef.current?.(error as Error);
       }
     },
-    [key]
+    [key, readStored]
   );
 
   // removeValue - stable reference
   const removeValue = useCallback(() => {
     try {
       if (typeof window !== "undefined") {
-        window.sessionStorage.removeItem(key);
+        sessionStorageAdapter.remove(key);
+        shareUpdate(key, null);
 
         // Invalidate cache
         const initialVal = resolveInitialValue(initialValueRef.current);
-        cacheRef.current = { rawValue: null, parsedValue: initialVal };
+        cacheRef.current = {
+          rawValue: null,
+          parsedValue: initialVal,
+          expired: false,
+        };
 
         // Notify all same-tab listeners
         notifyListeners(key);
@@ -0,0 +1,154 @@
+import {
+  subscribe as storeSubscribe,
+  emit as storeEmit,
+  getSubscriberCount,
+  getEmitCount,
+  getTimestamp,
+  getData,
+  getEmittedName,
+  getHistory,
+  getLastEvent,
+  setHistorySize,
+} from "./store";
+import { connect, emitCrossTab } from "./crossTab";
+import type { SignalEvent, SignalInfo } from "./useSignal";
+
+/**
+ * Emit function of a typed signal
+ * The payload is optional only when the payload type allows undefined (e.g. void).
+ */
+export type SignalEmit<T> = undefined extends T
+  ? (data?: T) => void
+  : (data: T) => void;
+
+/**
+ * Typed handle for a named signal, usable with useSignal and outside React
+ */
+export interface SignalHandle<T = void> {
+  /** Signal name */
+  readonly name: string;
+  /**
+   * Emit the signal with its payload and notify all subscribers
+   * Relayed to other tabs when the handle was created with `crossTab`.
+   */
+  emit: SignalEmit<T>;
+  /**
+   * Subscribe to the signal outside React
+   * @param listener - Called with the data and the emit of every new emit
+   * (including emits from other tabs when the handle was created with `crossTab`)
+   * @param options - `replay`: number of buffered emits delivered immediately, oldest first
+   * @returns Unsubscribe function
+   */
+  subscribe: (
+    listener: (data: T, event: SignalEvent<T>) => void,
+    options?: { replay?: number }
+  ) => () => void;
+  /** Live metadata of the signal */
+  readonly info: SignalInfo<T>;
+}
+
+/**
+ * Options for createSignal
+ */
+export interface CreateSignalOptions {
+  /** Number of recent emits kept for replay and info.history (default: 1) */
+  historySize?: number;
+  /**
+   * Relay emits of the handle to other tabs of the same origin, and apply
+   * emits from other tabs while the handle has subscribers (default: false)
+   */
+  crossTab?: boolean;
+  /** Callback executed when relaying an emit to other tabs fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Create a typed handle for a signal.
+ * The payload type is declared once, so every emitter and subscriber
+ * using the handle agrees on the name and the data shape.
+ *
+ * @template T - The payload type (void for signals without data)
+ * @param name - Unique identifier string for the signal channel (ending in "*" for a wildcard)
+ * @param options - Configuration options
+ * @returns Typed signal handle
+ *
+ * @example
+ * ```tsx
+ * // signals.ts
+ * export const dashboardRefresh = createSignal("dashboard:refresh");
+ * export const userSelected = createSignal<{ userId: string }>("user:selected");
+ *
+ * // In a component
+ * const { signal, info } = useSignal(userSelected);
+ * // info.data is { userId: string } | undefined
+ *
+ * // Outside React
+ * userSelected.emit({ userId: "123" });
+ * const unsubscribe = userSelected.subscribe(({ userId }) => {
+ *   console.log("Selected", userId);
+ * });
+ *
+ * // Late subscribers can catch up on the last emits
+ * userSelected.subscribe(({ userId }) => log(userId), { replay: 3 });
+ * ```
+ */
+export function createSignal<T = void>(
+  name: string,
+  options: CreateSignalOptions = {}
+): SignalHandle<T> {
+  const { historySize, crossTab = false, onError } = options;
+
+  if (historySize !== undefined) {
+    setHistorySize(name, historySize);
+  }
+
+  const info = {
+    get name() {
+      return name;
+    },
+    get subscriberCount() {
+      return getSubscriberCount(name);
+    },
+    get timestamp() {
+      return getTimestamp(name);
+    },
+    get emitCount() {
+      return getEmitCount(name);
+    },
+    get data() {
+      return getData(name) as T | undefined;
+    },
+    get emittedName() {
+      return getEmittedName(name);
+    },
+    get history() {
+      return getHistory(name) as SignalEvent<T>[];
+    },
+  } as SignalInfo<T>;
+
+  return {
+    name,
+    emit: ((data?: T) =>
+      crossTab
+        ? emitCrossTab(name, data, onError)
+        : storeEmit(name, data)) as SignalEmit<T>,
+    subscribe: (listener, { replay = 0 } = {}) => {
+      const unsubscribeStore = storeSubscribe(name, () => {
+        const event = getLastEvent(name) as SignalEvent<T>;
+        listener(event.data as T, event);
+      });
+      const disconnect = crossTab ? connect(name) : null;
+      const unsubscribe = () => {
+        unsubscribeStore();
+        disconnect?.();
+      };
+      if (replay > 0) {
+        (getHistory(name) as SignalEvent<T>[])
+          .slice(-replay)
+          .forEach((event) => listener(event.data as T, event));
+      }
+      return unsubscribe;
+    },
+    info,
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Internal cross-tab relay for the useSignal hook
+ * Relays emits to other tabs of the same origin via BroadcastChannel,
+ * falling back to the storage event where BroadcastChannel is unavailable.
+ * Received emits are applied to the local signal store.
+ *
+ * @internal This module is not exported publicly
+ */
+
+import { emit, getTimestamp, isWildcard, matchesWildcard } from "./store";
+
+/** BroadcastChannel name shared by all tabs */
+const CHANNEL_NAME = "usefy:signal";
+
+/** localStorage key used by the storage event fallback */
+const STORAGE_KEY = "usefy:signal";
+
+/** Number of recent message ids remembered for de-duplication */
+const MAX_SEEN_MESSAGES = 100;
+
+/** Message relayed between tabs */
+interface SignalMessage {
+  /** Id of the sending tab */
+  source: string;
+  /** Unique id of this message */
+  id: string;
+  /** Signal name */
+  name: string;
+  /** Data passed with the emit */
+  data: unknown;
+  /** Timestamp of the emit in the sending tab */
+  timestamp: number;
+}
+
+/** Unique id of this tab (JS realm) */
+const tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/** Counter used to build unique message ids */
+let messageCounter = 0;
+
+/** Map of signal name -> number of connected hooks */
+const connections = new Map<string, number>();
+
+/** Recently sent or received message ids, oldest first */
+const seenMessages = new Set<string>();
+
+let channel: BroadcastChannel | null = null;
+let storageListener: ((event: StorageEvent) => void) | null = null;
+
+/**
+ * Remember a message id, forgetting the oldest ones beyond the limit
+ */
+function markSeen(id: string): void {
+  seenMessages.add(id);
+  if (seenMessages.size > MAX_SEEN_MESSAGES) {
+    seenMessages.delete(seenMessages.values().next().value!);
+  }
+}
+
+/**
+ * Check whether a value has the shape of a signal message
+ */
+function isSignalMessage(value: unknown): value is SignalMessage {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const message = value as Record<string, unknown>;
+  return (
+    typeof message.source === "string" &&
+    typeof message.id === "string" &&
+    typeof message.name === "string" &&
+    typeof message.timestamp === "number"
+  );
+}
+
+/**
+ * Check whether a signal name has a connection, directly or through a wildcard
+ */
+function isConnected(name: string): boolean {
+  if (connections.has(name)) {
+    return true;
+  }
+  for (const connected of connections.keys()) {
+    if (isWildcard(connected) && matchesWildcard(connected, name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Apply a message from another tab to the local store
+ * Own messages and messages already seen (echoes) are ignored.
+ */
+function handleMessage(value: unknown): void {
+  if (
+    !isSignalMessage(value) ||
+    value.source === tabId ||
+    seenMessages.has(value.id) ||
+    !isConnected(value.name)
+  ) {
+    return;
+  }
+
+  markSeen(value.id);
+  emit(value.name, value.data, value.timestamp);
+}
+
+/**
+ * Start listening for messages from other tabs
+ */
+function start(): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => handleMessage(event.data);
+    return;
+  }
+
+  storageListener = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || event.newValue === null) {
+      return;
+    }
+    try {
+      handleMessage(JSON.parse(event.newValue));
+    } catch {
+      // Ignore values not written by this module
+    }
+  };
+  window.addEventListener("storage", storageListener);
+}
+
+/**
+ * Stop listening for messages from other tabs
+ */
+function stop(): void {
+  channel?.close();
+  channel = null;
+
+  if (storageListener) {
+    window.removeEventListener("storage", storageListener);
+    storageListener = null;
+  }
+}
+
+/**
+ * Connect a hook to the relay for a signal name
+ * Emits from other tabs are only applied to names with at least one connection.
+ * @param name - The signal name
+ * @returns Disconnect function
+ */
+export function connect(name: string): () => void {
+  if (connections.size === 0) {
+    start();
+  }
+  connections.set(name, (connections.get(name) ?? 0) + 1);
+
+  let connected = true;
+  return () => {
+    if (!connected) {
+      return;
+    }
+    connected = false;
+
+    const count = connections.get(name)! - 1;
+    if (count > 0) {
+      connections.set(name, count);
+    } else {
+      connections.delete(name);
+    }
+
+    if (connections.size === 0) {
+      stop();
+    }
+  };
+}
+
+/**
+ * Relay an emit to other tabs
+ * @param name - The signal name
+ * @param data - Data passed with the emit (must be structured-cloneable, or JSON-serializable for the storage fallback)
+ * @param timestamp - Timestamp of the emit
+ * @throws When the data cannot be sent or storage is not accessible
+ */
+export function broadcast(name: string, data: unknown, timestamp: number): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  messageCounter += 1;
+  const message: SignalMessage = {
+    source: tabId,
+    id: `${tabId}-${messageCounter.toString(36)}`,
+    name,
+    data,
+    timestamp,
+  };
+  markSeen(message.id);
+
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+
+  if (!storageListener && typeof BroadcastChannel !== "undefined") {
+    // Not listening to other tabs (e.g. an emit from a signal handle)
+    const sender = new BroadcastChannel(CHANNEL_NAME);
+    try {
+      sender.postMessage(message);
+    } finally {
+      sender.close();
+    }
+    return;
+  }
+
+  // The storage event only fires in other tabs, and only when the value changes
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+  window.localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Emit a signal in this tab and relay it to other tabs
+ * The emit reaches the current tab even when relaying fails.
+ * @param name - The signal name
+ * @param data - Data passed with the emit
+ * @param onError - Called when the emit cannot be relayed
+ */
+export function emitCrossTab(
+  name: string,
+  data: unknown,
+  onError?: (error: Error) => void
+): void {
+  emit(name, data);
+
+  try {
+    broadcast(name, data, getTimestamp(name));
+  } catch (error) {
+    onError?.(error as Error);
+  }
+}
+
+/**
+ * Close the relay and forget all connections (for testing purposes)
+ * @internal
+ */
+export function resetCrossTab(): void {
+  stop();
+  connections.clear();
+  seenMessages.clear();
+}
@@ -3,4 +3,12 @@ export {
   type UseSignalReturn,
   type SignalOptions,
   type SignalInfo,
+  type SignalEvent,
 } from "./useSignal";
+export {
+  createSignal,
+  type SignalHandle,
+  type SignalEmit,
+  type CreateSignalOptions,
+} from "./createSignal";
+export { inspectSignals, subscribeToSignals } from "./inspect";
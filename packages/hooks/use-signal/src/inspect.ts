@@ -0,0 +1,57 @@
+import {
+  getSignalNames,
+  subscribeToStore,
+  getSubscriberCount,
+  getEmitCount,
+  getTimestamp,
+  getData,
+  getEmittedName,
+  getHistory,
+} from "./store";
+import type { SignalEvent, SignalInfo } from "./useSignal";
+
+/**
+ * Get a snapshot of every registered signal, for devtools and debugging.
+ * A signal is registered while it has subscribers, and after its first emit.
+ * Wildcard signals ("cart:*") are listed while they have subscribers.
+ *
+ * @returns Plain (non-live) info objects, sorted by name
+ *
+ * @example
+ * ```ts
+ * inspectSignals().forEach((signal) => {
+ *   console.log(signal.name, signal.subscriberCount, signal.emitCount);
+ * });
+ * ```
+ */
+export function inspectSignals(): SignalInfo[] {
+  return getSignalNames()
+    .sort()
+    .map((name) => ({
+      name,
+      subscriberCount: getSubscriberCount(name),
+      timestamp: getTimestamp(name),
+      emitCount: getEmitCount(name),
+      data: getData(name),
+      emittedName: getEmittedName(name),
+      history: getHistory(name) as SignalEvent[],
+    }));
+}
+
+/**
+ * Subscribe to changes of any signal, for devtools and debugging.
+ * The listener is called after every subscribe, unsubscribe and emit.
+ *
+ * @param listener - Called on every change
+ * @returns Unsubscribe function
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToSignals(() => {
+ *   render(inspectSignals());
+ * });
+ * ```
+ */
+export function subscribeToSignals(listener: () => void): () => void {
+  return subscribeToStore(listener);
+}
@@ -1,10 +1,25 @@
 /**
  * Internal Signal Store for cross-component communication
  * This module manages signal versions and subscribers for the useSignal hook.
+ * Each signal can keep a bounded history of its recent emits. Names ending in
+ * "*" are wildcard subscriptions that receive every emit of a matching name
+ * (e.g. "cart:*" receives "cart:add" and "cart:remove").
  *
  * @internal This module is not exported publicly
  */
 
+/** A single recorded emit */
+export interface SignalEventRecord {
+  /** Name the signal was emitted with */
+  name: string;
+  /** Data passed with the emit */
+  data: unknown;
+  /** Timestamp of the emit */
+  timestamp: number;
+  /** Emit count of the receiving signal after this emit (starts at 1) */
+  sequence: number;
+}
+
 /** Signal data structure for each named signal */
 interface SignalData {
   version: number;
@@ -12,11 +27,56 @@ interface SignalData {
   emitCount: number;
   timestamp: number;
   data: unknown;
+  emittedName: string | undefined;
+  history: SignalEventRecord[];
 }
 
+/**
+ * Default number of emits kept in each signal's history
+ * Only the last emit, whose data the signal holds anyway, so late
+ * subscribers can replay it without retaining older payloads.
+ */
+export const DEFAULT_HISTORY_SIZE = 1;
+
+/** Number of emits kept in each signal's history while the store is inspected */
+export const INSPECTION_HISTORY_SIZE = 10;
+
 /** Map of signal name -> SignalData */
 const signalStore = new Map<string, SignalData>();
 
+/** Names of the wildcard signals currently in the store */
+const wildcardNames = new Set<string>();
+
+/** Map of signal name -> configured history size (kept across cleanup) */
+const historySizes = new Map<string, number>();
+
+/** Listeners notified on any change to any signal (used by inspectors) */
+const storeListeners = new Set<() => void>();
+
+/**
+ * Notify store listeners that a signal was added, removed, subscribed to or emitted
+ */
+function notifyStoreListeners(): void {
+  storeListeners.forEach((listener) => listener());
+}
+
+/**
+ * Check whether a signal name is a wildcard pattern (ends with "*")
+ * @param name - The signal name
+ */
+export function isWildcard(name: string): boolean {
+  return name.endsWith("*");
+}
+
+/**
+ * Check whether a wildcard pattern matches a concrete signal name
+ * @param pattern - Wildcard pattern such as "cart:*" ("*" matches every name)
+ * @param name - The emitted signal name
+ */
+export function matchesWildcard(pattern: string, name: string): boolean {
+  return name !== pattern && name.startsWith(pattern.slice(0, -1));
+}
+
 /**
  * Get or create signal data for a given name
  * @param name - The signal name
@@ -30,11 +90,90 @@ function getOrCreateSignal(name: string): SignalData {
       emitCount: 0,
       timestamp: 0,
       data: undefined,
+      emittedName: undefined,
+      history: [],
     });
+    if (isWildcard(name)) {
+      seedWildcard(name, signalStore.get(name)!);
+      wildcardNames.add(name);
+    }
   }
   return signalStore.get(name)!;
 }
 
+/**
+ * Fill a new wildcard signal from the signals it matches,
+ * so late wildcard subscribers see (and can replay) earlier emits
+ */
+function seedWildcard(pattern: string, wildcard: SignalData): void {
+  const events: SignalEventRecord[] = [];
+  let latest: SignalData | null = null;
+
+  signalStore.forEach((signal, name) => {
+    if (
+      isWildcard(name) ||
+      !matchesWildcard(pattern, name) ||
+      signal.emitCount === 0
+    ) {
+      return;
+    }
+    wildcard.emitCount += signal.emitCount;
+    events.push(...signal.history);
+    if (!latest || signal.timestamp >= latest.timestamp) {
+      latest = signal;
+    }
+  });
+
+  if (!latest) {
+    return;
+  }
+
+  const last: SignalData = latest;
+  wildcard.version = wildcard.emitCount;
+  wildcard.data = last.data;
+  wildcard.emittedName = last.emittedName;
+  wildcard.timestamp = last.timestamp;
+
+  const size = getHistorySize(pattern);
+  const recent =
+    size > 0
+      ? events.sort((a, b) => a.timestamp - b.timestamp).slice(-size)
+      : [];
+  wildcard.history = recent.map((event, index) => ({
+    ...event,
+    sequence: wildcard.emitCount - recent.length + index + 1,
+  }));
+}
+
+/**
+ * Record an emit on a signal without notifying subscribers
+ */
+function record(
+  signalName: string,
+  signal: SignalData,
+  name: string,
+  data: unknown,
+  timestamp: number
+): void {
+  // Set data FIRST before incrementing version
+  // This ensures that when useEffect runs due to signal change,
+  // info.data already contains the latest value
+  signal.data = data;
+  signal.emittedName = name;
+
+  signal.version += 1;
+  signal.emitCount += 1;
+  signal.timestamp = timestamp;
+
+  const size = getHistorySize(signalName);
+  if (size > 0) {
+    signal.history.push({ name, data, timestamp, sequence: signal.emitCount });
+    if (signal.history.length > size) {
+      signal.history.splice(0, signal.history.length - size);
+    }
+  }
+}
+
 /**
  * Subscribe a listener to changes for a specific signal name
  * @param name - The signal name to subscribe to
@@ -44,14 +183,27 @@ function getOrCreateSignal(name: string): SignalData {
 export function subscribe(name: string, listener: () => void): () => void {
   const signal = getOrCreateSignal(name);
   signal.subscribers.add(listener);
+  notifyStoreListeners();
 
+  let subscribed = true;
   return () => {
+    if (!subscribed) {
+      return;
+    }
+    subscribed = false;
     signal.subscribers.delete(listener);
 
     // Cleanup: remove the signal entry if no more subscribers and never emitted
-    if (signal.subscribers.size === 0 && signal.emitCount === 0) {
+    // Wildcard entries only exist for their subscribers
+    if (
+      signal.subscribers.size === 0 &&
+      (signal.emitCount === 0 || isWildcard(name)) &&
+      signalStore.get(name) === signal
+    ) {
       signalStore.delete(name);
+      wildcardNames.delete(name);
     }
+    notifyStoreListeners();
   };
 }
 
@@ -62,29 +214,43 @@ export function subscribe(name: string, listener: () => void): () => void {
  */
 export function getSnapshot(name: string): number {
   const signal = signalStore.get(name);
+  if (!signal && isWildcard(name)) {
+    // Matches the version a wildcard is seeded with on its first subscriber
+    return getEmitCount(name);
+  }
   return signal?.version ?? 0;
 }
 
 /**
  * Emit a signal - update data, increment version, update metadata, and notify all subscribers
+ * Matching wildcard signals are updated as well.
  * Data is set BEFORE version increment to ensure useEffect callbacks see the latest data.
  * @param name - The signal name to emit
  * @param data - Optional data to pass with the signal
+ * @param timestamp - Time of the emit (defaults to now; set for emits relayed from other tabs)
  */
-export function emit(name: string, data?: unknown): void {
+export function emit(
+  name: string,
+  data?: unknown,
+  timestamp: number = Date.now()
+): void {
   const signal = getOrCreateSignal(name);
+  record(name, signal, name, data, timestamp);
 
-  // Set data FIRST before incrementing version
-  // This ensures that when useEffect runs due to signal change,
-  // info.data already contains the latest value
-  signal.data = data;
-
-  signal.version += 1;
-  signal.emitCount += 1;
-  signal.timestamp = Date.now();
+  const notified = [signal];
+  wildcardNames.forEach((pattern) => {
+    if (matchesWildcard(pattern, name)) {
+      const wildcard = signalStore.get(pattern)!;
+      record(pattern, wildcard, name, data, timestamp);
+      notified.push(wildcard);
+    }
+  });
 
-  // Notify all subscribers
-  signal.subscribers.forEach((listener) => listener());
+  // Notify all subscribers after every signal is updated
+  notified.forEach((target) =>
+    target.subscribers.forEach((listener) => listener())
+  );
+  notifyStoreListeners();
 }
 
 /**
@@ -102,7 +268,19 @@ export function getSubscriberCount(name: string): number {
  * @returns Total number of times the signal has been emitted
  */
 export function getEmitCount(name: string): number {
-  return signalStore.get(name)?.emitCount ?? 0;
+  const signal = signalStore.get(name);
+  if (signal || !isWildcard(name)) {
+    return signal?.emitCount ?? 0;
+  }
+
+  // Wildcards without subscribers count the emits of their matching signals
+  let count = 0;
+  signalStore.forEach((other, otherName) => {
+    if (!isWildcard(otherName) && matchesWildcard(name, otherName)) {
+      count += other.emitCount;
+    }
+  });
+  return count;
 }
 
 /**
@@ -123,10 +301,120 @@ export function getData(name: string): unknown {
   return signalStore.get(name)?.data;
 }
 
+/**
+ * Get the concrete name of the last emit for a signal
+ * (differs from the signal name for wildcard signals)
+ * @param name - The signal name
+ * @returns Name of the last emit (undefined if never emitted)
+ */
+export function getEmittedName(name: string): string | undefined {
+  return signalStore.get(name)?.emittedName;
+}
+
+/**
+ * Get the recent emits of a signal, oldest first
+ * @param name - The signal name
+ * @returns Copy of the signal's history (at most its history size)
+ */
+export function getHistory(name: string): SignalEventRecord[] {
+  return signalStore.get(name)?.history.slice() ?? [];
+}
+
+/**
+ * Get the last emit of a signal
+ * @param name - The signal name
+ * @returns The last emit (null if never emitted)
+ */
+export function getLastEvent(name: string): SignalEventRecord | null {
+  const signal = signalStore.get(name);
+  if (!signal || signal.emitCount === 0) {
+    return null;
+  }
+  return {
+    name: signal.emittedName!,
+    data: signal.data,
+    timestamp: signal.timestamp,
+    sequence: signal.emitCount,
+  };
+}
+
+/**
+ * Get the number of emits kept in a signal's history
+ * @param name - The signal name
+ */
+export function getHistorySize(name: string): number {
+  return (
+    historySizes.get(name) ??
+    (storeListeners.size > 0 ? INSPECTION_HISTORY_SIZE : DEFAULT_HISTORY_SIZE)
+  );
+}
+
+/**
+ * Set the number of emits kept in a signal's history
+ * The existing history is trimmed when the size shrinks.
+ * @param name - The signal name
+ * @param size - Number of emits to keep (0 disables the history)
+ */
+export function setHistorySize(name: string, size: number): void {
+  const normalized = Math.max(0, Math.floor(size));
+  historySizes.set(name, normalized);
+
+  const signal = signalStore.get(name);
+  if (signal && signal.history.length > normalized) {
+    signal.history.splice(0, signal.history.length - normalized);
+  }
+}
+
+/**
+ * Grow the configured history size of a signal to at least the given size
+ * @param name - The signal name
+ * @param size - Minimum number of emits to keep
+ */
+export function reserveHistorySize(name: string, size: number): void {
+  if (size > (historySizes.get(name) ?? DEFAULT_HISTORY_SIZE)) {
+    setHistorySize(name, size);
+  }
+}
+
+/**
+ * Get the names of all signals in the store
+ * (signals with subscribers, signals emitted at least once, and active wildcards)
+ */
+export function getSignalNames(): string[] {
+  return Array.from(signalStore.keys());
+}
+
+/**
+ * Subscribe to changes of any signal
+ * Signals without a configured history size keep INSPECTION_HISTORY_SIZE
+ * emits while any listener is subscribed.
+ * @param listener - Called after any subscribe, unsubscribe or emit
+ * @returns Unsubscribe function
+ */
+export function subscribeToStore(listener: () => void): () => void {
+  storeListeners.add(listener);
+  return () => {
+    if (!storeListeners.delete(listener) || storeListeners.size > 0) {
+      return;
+    }
+
+    // Drop the payloads only kept for inspection
+    signalStore.forEach((signal, name) => {
+      const size = getHistorySize(name);
+      if (signal.history.length > size) {
+        signal.history.splice(0, signal.history.length - size);
+      }
+    });
+  };
+}
+
 /**
  * Clear all signals (for testing purposes)
  * @internal
  */
 export function clearAllSignals(): void {
   signalStore.clear();
+  wildcardNames.clear();
+  historySizes.clear();
+  notifyStoreListeners();
 }
@@ -2,6 +2,9 @@ import { renderHook, act } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { useSignal } from "./useSignal";
 import { clearAllSignals } from "./store";
+import { resetCrossTab } from "./crossTab";
+import { createSignal } from "./createSignal";
+import { inspectSignals, subscribeToSignals } from "./inspect";
 
 describe("useSignal", () => {
   beforeEach(() => {
@@ -438,9 +441,7 @@ describe("useSignal", () => {
       });
 
       it("should not debounce when debounce is 0", () => {
-        const { result } = renderHook(() =>
-          useSignal("test", { debounce: 0 })
-        );
+        const { result } = renderHook(() => useSignal("test", { debounce: 0 }));
 
         act(() => {
           result.current.emit();
@@ -478,6 +479,659 @@ describe("useSignal", () => {
     });
   });
 
+  describe("crossTab", () => {
+    let otherTab: BroadcastChannel;
+
+    beforeEach(() => {
+      vi.useRealTimers();
+      otherTab = new BroadcastChannel("usefy:signal");
+    });
+
+    afterEach(() => {
+      otherTab.close();
+      resetCrossTab();
+      vi.unstubAllGlobals();
+    });
+
+    const message = (overrides: Record<string, unknown> = {}) => ({
+      source: "other-tab",
+      id: "other-tab-1",
+      name: "refresh",
+      data: { page: 2 },
+      timestamp: 1234,
+      ...overrides,
+    });
+
+    // Post messages from another tab and wait until they are delivered
+    const postFromOtherTab = async (...messages: object[]) => {
+      await act(async () => {
+        messages.forEach((item) => otherTab.postMessage(item));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+    };
+
+    it("should relay emits with their data to other tabs", async () => {
+      const received = vi.fn();
+      otherTab.onmessage = (event) => received(event.data);
+
+      const { result } = renderHook(() =>
+        useSignal("refresh", { crossTab: true })
+      );
+
+      act(() => {
+        result.current.emit({ page: 1 });
+      });
+
+      await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1));
+      expect(received).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "refresh",
+          data: { page: 1 },
+          timestamp: result.current.info.timestamp,
+        })
+      );
+    });
+
+    it("should apply emits from other tabs", async () => {
+      const { result } = renderHook(() =>
+        useSignal("refresh", { crossTab: true })
+      );
+
+      await postFromOtherTab(message());
+
+      expect(result.current.signal).toBe(1);
+      expect(result.current.info.data).toEqual({ page: 2 });
+      expect(result.current.info.emitCount).toBe(1);
+      expect(result.current.info.timestamp).toBe(1234);
+    });
+
+    it("should notify subscribers without crossTab in the receiving tab", async () => {
+      renderHook(() => useSignal("refresh", { crossTab: true }));
+      const { result } = renderHook(() => useSignal("refresh"));
+
+      await postFromOtherTab(message());
+
+      expect(result.current.signal).toBe(1);
+    });
+
+    it("should de-duplicate echoed messages", async () => {
+      const { result } = renderHook(() =>
+        useSignal("refresh", { crossTab: true })
+      );
+
+      await postFromOtherTab(
+        message(),
+        message(),
+        message({ id: "other-tab-2" })
+      );
+
+      expect(result.current.signal).toBe(2);
+      expect(result.current.info.emitCount).toBe(2);
+    });
+
+    it("should receive namespace emits with a wildcard", async () => {
+      const { result } = renderHook(() =>
+        useSignal("refresh:*", { crossTab: true })
+      );
+
+      await postFromOtherTab(message({ name: "refresh:users" }));
+
+      expect(result.current.signal).toBe(1);
+      expect(result.current.info.emittedName).toBe("refresh:users");
+    });
+
+    it("should ignore emits from other tabs without crossTab", async () => {
+      const { result } = renderHook(() => useSignal("refresh"));
+
+      await postFromOtherTab(message());
+
+      expect(result.current.signal).toBe(0);
+    });
+
+    it("should stop receiving after unmount", async () => {
+      const { unmount } = renderHook(() =>
+        useSignal("refresh", { crossTab: true })
+      );
+      const { result } = renderHook(() => useSignal("refresh"));
+
+      unmount();
+      await postFromOtherTab(message());
+
+      expect(result.current.signal).toBe(0);
+    });
+
+    it("should call onError and still emit locally when relaying fails", () => {
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        useSignal<() => void>("refresh", { crossTab: true, onError })
+      );
+
+      act(() => {
+        // Functions cannot be cloned
+        result.current.emit(() => {});
+      });
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(result.current.signal).toBe(1);
+    });
+
+    it("should relay emits of a crossTab handle", async () => {
+      const received = vi.fn();
+      otherTab.onmessage = (event) => received(event.data);
+      const refresh = createSignal<{ page: number }>("refresh", {
+        crossTab: true,
+      });
+
+      refresh.emit({ page: 1 });
+
+      await vi.waitFor(() => expect(received).toHaveBeenCalledTimes(1));
+      expect(received).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "refresh",
+          data: { page: 1 },
+          timestamp: refresh.info.timestamp,
+        })
+      );
+    });
+
+    it("should not relay emits of a handle without crossTab", async () => {
+      const received = vi.fn();
+      otherTab.onmessage = (event) => received(event.data);
+      renderHook(() => useSignal("refresh", { crossTab: true }));
+
+      createSignal<{ page: number }>("refresh").emit({ page: 1 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(received).not.toHaveBeenCalled();
+    });
+
+    it("should apply emits from other tabs to crossTab handle subscribers", async () => {
+      const listener = vi.fn();
+      const unsubscribe = createSignal<{ page: number }>("refresh", {
+        crossTab: true,
+      }).subscribe(listener);
+
+      await postFromOtherTab(message());
+      unsubscribe();
+      await postFromOtherTab(message({ id: "other-tab-2" }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        { page: 2 },
+        expect.objectContaining({ timestamp: 1234 })
+      );
+    });
+
+    it("should call the handle's onError when relaying fails", () => {
+      const onError = vi.fn();
+      const refresh = createSignal<() => void>("refresh", {
+        crossTab: true,
+        onError,
+      });
+
+      // Functions cannot be cloned
+      refresh.emit(() => {});
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(refresh.info.emitCount).toBe(1);
+    });
+
+    describe("storage event fallback", () => {
+      beforeEach(() => {
+        vi.stubGlobal("BroadcastChannel", undefined);
+      });
+
+      it("should relay emits through localStorage", () => {
+        const setItem = vi.spyOn(Storage.prototype, "setItem");
+        const { result } = renderHook(() =>
+          useSignal("refresh", { crossTab: true })
+        );
+
+        act(() => {
+          result.current.emit({ page: 1 });
+        });
+
+        expect(setItem).toHaveBeenCalledWith(
+          "usefy:signal",
+          expect.stringContaining('"name":"refresh"')
+        );
+        expect(window.localStorage.getItem("usefy:signal")).toBeNull();
+        setItem.mockRestore();
+      });
+
+      it("should relay emits of a crossTab handle through localStorage", () => {
+        const setItem = vi.spyOn(Storage.prototype, "setItem");
+
+        createSignal("refresh", { crossTab: true }).emit();
+
+        expect(setItem).toHaveBeenCalledWith(
+          "usefy:signal",
+          expect.stringContaining('"name":"refresh"')
+        );
+        setItem.mockRestore();
+      });
+
+      it("should apply emits from storage events", () => {
+        const { result } = renderHook(() =>
+          useSignal("refresh", { crossTab: true })
+        );
+
+        act(() => {
+          window.dispatchEvent(
+            new StorageEvent("storage", {
+              key: "usefy:signal",
+              newValue: JSON.stringify(message()),
+            })
+          );
+        });
+
+        expect(result.current.signal).toBe(1);
+        expect(result.current.info.timestamp).toBe(1234);
+      });
+
+      it("should ignore unrelated storage events", () => {
+        const { result } = renderHook(() =>
+          useSignal("refresh", { crossTab: true })
+        );
+
+        act(() => {
+          window.dispatchEvent(
+            new StorageEvent("storage", { key: "usefy:signal", newValue: "{" })
+          );
+          window.dispatchEvent(
+            new StorageEvent("storage", {
+              key: "other",
+              newValue: JSON.stringify(message()),
+            })
+          );
+        });
+
+        expect(result.current.signal).toBe(0);
+      });
+    });
+  });
+
+  describe("createSignal", () => {
+    it("should expose the signal name", () => {
+      const refresh = createSignal("refresh");
+      expect(refresh.name).toBe("refresh");
+    });
+
+    it("should be usable with useSignal", () => {
+      const userSelected = createSignal<{ userId: string }>("user:selected");
+      const { result } = renderHook(() => useSignal(userSelected));
+
+      act(() => {
+        result.current.emit({ userId: "1" });
+      });
+
+      expect(result.current.signal).toBe(1);
+      expect(result.current.info.name).toBe("user:selected");
+      expect(result.current.info.data?.userId).toBe("1");
+    });
+
+    it("should share the signal with string-based subscribers", () => {
+      const refresh = createSignal("refresh");
+      const { result } = renderHook(() => useSignal("refresh"));
+
+      act(() => {
+        refresh.emit();
+      });
+
+      expect(result.current.signal).toBe(1);
+    });
+
+    it("should emit outside React", () => {
+      const countChanged = createSignal<number>("count:changed");
+      const { result } = renderHook(() => useSignal(countChanged));
+
+      act(() => {
+        countChanged.emit(5);
+      });
+
+      expect(result.current.signal).toBe(1);
+      expect(result.current.info.data).toBe(5);
+      expect(countChanged.info.emitCount).toBe(1);
+      expect(countChanged.info.data).toBe(5);
+    });
+
+    it("should subscribe outside React with typed data", () => {
+      const countChanged = createSignal<number>("count:changed");
+      const listener = vi.fn();
+
+      const unsubscribe = countChanged.subscribe(listener);
+      countChanged.emit(1);
+      countChanged.emit(2);
+
+      expect(listener).toHaveBeenNthCalledWith(
+        1,
+        1,
+        expect.objectContaining({ name: "count:changed", sequence: 1 })
+      );
+      expect(listener).toHaveBeenNthCalledWith(
+        2,
+        2,
+        expect.objectContaining({ name: "count:changed", sequence: 2 })
+      );
+      expect(countChanged.info.subscriberCount).toBe(1);
+
+      unsubscribe();
+      countChanged.emit(3);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(countChanged.info.subscriberCount).toBe(0);
+    });
+
+    it("should type the payload", () => {
+      const refresh = createSignal("refresh");
+      const userSelected = createSignal<{ userId: string }>("user:selected");
+
+      refresh.emit();
+      userSelected.emit({ userId: "1" });
+      // @ts-expect-error - payload is required
+      userSelected.emit();
+      // @ts-expect-error - payload shape is checked
+      userSelected.emit({ id: "1" });
+
+      expect(userSelected.info.emitCount).toBe(3);
+    });
+  });
+
+  describe("history and replay", () => {
+    it("should only list emits since mount by default", () => {
+      createSignal<number>("count", { historySize: 10 });
+      const emitter = renderHook(() => useSignal<number>("count"));
+      act(() => {
+        emitter.result.current.emit(1);
+      });
+
+      const { result } = renderHook(() => useSignal<number>("count"));
+      expect(result.current.info.history).toEqual([]);
+
+      act(() => {
+        emitter.result.current.emit(2);
+      });
+
+      expect(result.current.info.history).toEqual([
+        expect.objectContaining({ name: "count", data: 2, sequence: 2 }),
+      ]);
+    });
+
+    it("should replay emits from before mount", () => {
+      createSignal<number>("count", { historySize: 5 });
+      const emitter = renderHook(() => useSignal<number>("count"));
+      act(() => {
+        [1, 2, 3].forEach((value) => emitter.result.current.emit(value));
+      });
+
+      const { result } = renderHook(() =>
+        useSignal<number>("count", { replay: 2 })
+      );
+
+      expect(result.current.info.history.map((event) => event.data)).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it("should keep only the last emit by default", () => {
+      const count = createSignal<number>("count");
+      [1, 2].forEach((value) => count.emit(value));
+
+      expect(count.info.history).toEqual([
+        expect.objectContaining({ data: 2, sequence: 2 }),
+      ]);
+    });
+
+    it("should replay the last emit from before any replaying hook mounted", () => {
+      createSignal<number>("count").emit(1);
+
+      const { result } = renderHook(() =>
+        useSignal<number>("count", { replay: 1 })
+      );
+
+      expect(result.current.info.history).toEqual([
+        expect.objectContaining({ data: 1, sequence: 1 }),
+      ]);
+    });
+
+    it("should keep the last 10 emits while signals are inspected", () => {
+      const count = createSignal<number>("count");
+      const sized = createSignal<number>("sized", { historySize: 2 });
+      const unsubscribe = subscribeToSignals(() => {});
+      for (let value = 1; value <= 15; value++) {
+        count.emit(value);
+        sized.emit(value);
+      }
+
+      expect(count.info.history).toHaveLength(10);
+      expect(count.info.history[0].data).toBe(6);
+      expect(count.info.history[9]).toEqual(
+        expect.objectContaining({ data: 15, sequence: 15 })
+      );
+      expect(sized.info.history).toHaveLength(2);
+
+      unsubscribe();
+
+      expect(count.info.history.map((event) => event.data)).toEqual([15]);
+      expect(sized.info.history).toHaveLength(2);
+    });
+
+    it("should configure the history size per signal", () => {
+      const count = createSignal<number>("count", { historySize: 2 });
+      const other = createSignal<number>("other", { historySize: 0 });
+      [1, 2, 3].forEach((value) => {
+        count.emit(value);
+        other.emit(value);
+      });
+
+      expect(count.info.history.map((event) => event.data)).toEqual([2, 3]);
+      expect(other.info.history).toEqual([]);
+      expect(other.info.data).toBe(3);
+    });
+
+    it("should grow the history to the requested replay", () => {
+      createSignal<number>("count", { historySize: 1 });
+      renderHook(() => useSignal<number>("count", { replay: 3 }));
+
+      const count = createSignal<number>("count");
+      act(() => {
+        [1, 2, 3].forEach((value) => count.emit(value));
+      });
+
+      const { result } = renderHook(() =>
+        useSignal<number>("count", { replay: 3 })
+      );
+      expect(result.current.info.history).toHaveLength(3);
+    });
+
+    it("should replay buffered emits to handle subscribers", () => {
+      const count = createSignal<number>("count", { historySize: 3 });
+      [1, 2, 3].forEach((value) => count.emit(value));
+
+      const listener = vi.fn();
+      count.subscribe(listener, { replay: 2 });
+      count.emit(4);
+
+      expect(listener.mock.calls.map(([data]) => data)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe("wildcards", () => {
+    it("should fire for every signal of the namespace", () => {
+      const { result } = renderHook(() => useSignal<{ id: string }>("cart:*"));
+
+      act(() => {
+        createSignal<{ id: string }>("cart:add").emit({ id: "a" });
+      });
+
+      expect(result.current.signal).toBe(1);
+      expect(result.current.info.emittedName).toBe("cart:add");
+      expect(result.current.info.data).toEqual({ id: "a" });
+
+      act(() => {
+        createSignal<{ id: string }>("cart:remove").emit({ id: "a" });
+      });
+
+      expect(result.current.signal).toBe(2);
+      expect(result.current.info.emittedName).toBe("cart:remove");
+      expect(result.current.info.name).toBe("cart:*");
+      expect(result.current.info.emitCount).toBe(2);
+    });
+
+    it("should not fire for other namespaces", () => {
+      const { result } = renderHook(() => useSignal("cart:*"));
+
+      act(() => {
+        createSignal("user:login").emit();
+        createSignal("cart").emit();
+      });
+
+      expect(result.current.signal).toBe(0);
+    });
+
+    it("should match every signal with a bare *", () => {
+      const { result } = renderHook(() => useSignal("*"));
+
+      act(() => {
+        createSignal("cart:add").emit();
+        createSignal("refresh").emit();
+      });
+
+      expect(result.current.signal).toBe(2);
+    });
+
+    it("should still notify exact subscribers", () => {
+      const exact = renderHook(() => useSignal("cart:add"));
+      const wildcard = renderHook(() => useSignal("cart:*"));
+
+      act(() => {
+        exact.result.current.emit();
+      });
+
+      expect(exact.result.current.signal).toBe(1);
+      expect(wildcard.result.current.signal).toBe(1);
+      expect(exact.result.current.info.emittedName).toBe("cart:add");
+    });
+
+    it("should record concrete names in the history", () => {
+      createSignal("cart:*", { historySize: 5 });
+      const { result } = renderHook(() => useSignal("cart:*"));
+
+      act(() => {
+        createSignal("cart:add").emit();
+        createSignal("cart:remove").emit();
+      });
+
+      expect(result.current.info.history.map((event) => event.name)).toEqual([
+        "cart:add",
+        "cart:remove",
+      ]);
+    });
+
+    it("should replay namespace emits from before mount", () => {
+      createSignal<number>("cart:add", { historySize: 5 });
+      createSignal<number>("cart:remove", { historySize: 5 });
+      createSignal<number>("cart:*", { historySize: 5 });
+      vi.setSystemTime(1000);
+      createSignal<number>("cart:add").emit(1);
+      vi.setSystemTime(2000);
+      createSignal<number>("cart:remove").emit(2);
+      vi.setSystemTime(3000);
+      createSignal<number>("cart:add").emit(3);
+
+      const withoutReplay = renderHook(() => useSignal<number>("cart:*"));
+      const { result } = renderHook(() =>
+        useSignal<number>("cart:*", { replay: 2 })
+      );
+
+      expect(withoutReplay.result.current.info.history).toEqual([]);
+      expect(result.current.signal).toBe(3);
+      expect(result.current.info.emittedName).toBe("cart:add");
+      expect(result.current.info.history.map((event) => event.name)).toEqual([
+        "cart:remove",
+        "cart:add",
+      ]);
+    });
+
+    it("should seed a new wildcard with its first subscriber's replay", () => {
+      createSignal<number>("cart:add", { historySize: 5 });
+      [1, 2, 3].forEach((value) =>
+        createSignal<number>("cart:add").emit(value)
+      );
+
+      const { result } = renderHook(() =>
+        useSignal<number>("cart:*", { replay: 2 })
+      );
+
+      expect(result.current.info.history.map((event) => event.data)).toEqual([
+        2, 3,
+      ]);
+    });
+
+    it("should deliver concrete names to handle subscribers", () => {
+      const cart = createSignal<number>("cart:*");
+      const listener = vi.fn();
+      cart.subscribe(listener);
+
+      createSignal<number>("cart:add").emit(1);
+
+      expect(listener).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ name: "cart:add", sequence: 1 })
+      );
+    });
+  });
+
+  describe("inspection", () => {
+    it("should list subscribed and emitted signals", () => {
+      renderHook(() => useSignal("b:subscribed"));
+      renderHook(() => useSignal("b:subscribed"));
+      createSignal<number>("a:emitted", { historySize: 1 }).emit(1);
+
+      expect(inspectSignals()).toEqual([
+        expect.objectContaining({
+          name: "a:emitted",
+          subscriberCount: 0,
+          emitCount: 1,
+          data: 1,
+          history: [expect.objectContaining({ data: 1 })],
+        }),
+        expect.objectContaining({
+          name: "b:subscribed",
+          subscriberCount: 2,
+          emitCount: 0,
+        }),
+      ]);
+    });
+
+    it("should drop signals that were never emitted after unmount", () => {
+      const { unmount } = renderHook(() => useSignal("temporary"));
+      unmount();
+
+      expect(inspectSignals()).toEqual([]);
+    });
+
+    it("should notify on subscribe, emit and unsubscribe", () => {
+      const listener = vi.fn();
+      const unsubscribe = subscribeToSignals(listener);
+
+      const { result, unmount } = renderHook(() => useSignal("refresh"));
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      act(() => {
+        result.current.emit();
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      unmount();
+      expect(listener).toHaveBeenCalledTimes(3);
+
+      unsubscribe();
+      createSignal("refresh").emit();
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("stable references", () => {
     it("should maintain stable emit function reference", () => {
       const { result, rerender } = renderHook(() => useSignal("test"));
@@ -548,10 +1202,9 @@ describe("useSignal", () => {
     });
 
     it("should handle changing signal name", () => {
-      const { result, rerender } = renderHook(
-        ({ name }) => useSignal(name),
-        { initialProps: { name: "signal-a" } }
-      );
+      const { result, rerender } = renderHook(({ name }) => useSignal(name), {
+        initialProps: { name: "signal-a" },
+      });
 
       act(() => {
         result.current.emit();
@@ -13,7 +13,26 @@ import {
   getEmitCount,
   getTimestamp,
   getData,
+  getEmittedName,
+  getHistory,
+  reserveHistorySize,
 } from "./store";
+import { connect, emitCrossTab } from "./crossTab";
+import type { SignalHandle } from "./createSignal";
+
+/**
+ * A recorded emit of a signal
+ */
+export interface SignalEvent<T = unknown> {
+  /** Name the signal was emitted with (the concrete name for wildcard signals) */
+  name: string;
+  /** Data passed with the emit */
+  data: T | undefined;
+  /** Timestamp of the emit (Date.now()) */
+  timestamp: number;
+  /** Emit count of the signal after this emit (starts at 1) */
+  sequence: number;
+}
 
 /**
  * Signal metadata object for debugging and monitoring
@@ -29,6 +48,18 @@ export interface SignalInfo<T = unknown> {
   emitCount: number;
   /** Data passed with the last emit */
   data: T | undefined;
+  /**
+   * Name the last emit was sent with
+   * For wildcard signals ("cart:*") this is the concrete name ("cart:add").
+   */
+  emittedName: string | undefined;
+  /**
+   * Recent emits, oldest first
+   * Holds the last emit by default; more with a history size (set by
+   * createSignal's `historySize` or a `replay`), and while signals are inspected.
+   * For useSignal: emits since the hook mounted, plus up to `replay` earlier ones.
+   */
+  history: SignalEvent<T>[];
 }
 
 /**
@@ -43,6 +74,21 @@ export interface SignalOptions {
   enabled?: boolean;
   /** Debounce emit calls in milliseconds */
   debounce?: number;
+  /**
+   * Relay emits (with their data) to other tabs of the same origin and
+   * receive theirs, via BroadcastChannel with a storage event fallback.
+   * Data must be structured-cloneable (JSON-serializable for the fallback).
+   * (default: false)
+   */
+  crossTab?: boolean;
+  /** Callback executed when relaying an emit to other tabs fails */
+  onError?: (error: Error) => void;
+  /**
+   * Number of emits from before mount to include in info.history.
+   * Once mounted, the signal's history buffer grows to hold at least this many emits.
+   * (default: 0)
+   */
+  replay?: number;
 }
 
 /**
@@ -60,9 +106,10 @@ export interface UseSignalReturn<T = unknown> {
 /**
  * A hook for event-driven communication between components without prop drilling.
  * Components subscribe to a shared signal by name. When any component emits,
- * all subscribers receive a new version number.
+ * all subscribers receive a new version number. Names ending in "*" subscribe
+ * to every signal of a namespace ("cart:*" fires for "cart:add", "cart:remove").
  *
- * @param name - Unique identifier string for the signal channel
+ * @param nameOrHandle - Unique identifier string for the signal channel, or a typed handle from createSignal
  * @param options - Configuration options
  * @returns Object containing signal value, emit function, and info metadata
  *
@@ -106,6 +153,44 @@ export interface UseSignalReturn<T = unknown> {
  *
  * @example
  * ```tsx
+ * // With a typed handle - the payload type is inferred
+ * const userSelected = createSignal<{ userId: string }>("user:selected");
+ *
+ * function UserPanel() {
+ *   const { signal, emit, info } = useSignal(userSelected);
+ *   // emit: (data?: { userId: string }) => void
+ *   // info.data: { userId: string } | undefined
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Wildcard subscription with replay of emits from before mount
+ * function CartActivity() {
+ *   const { info } = useSignal<CartItem>("cart:*", { replay: 5 });
+ *
+ *   return (
+ *     <ul>
+ *       {info.history.map((event) => (
+ *         <li key={event.sequence}>{event.name}</li> // "cart:add", "cart:remove"
+ *       ))}
+ *     </ul>
+ *   );
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // Refresh dashboards open in other tabs too
+ * function RefreshButton() {
+ *   const { emit } = useSignal("Dashboard Refresh", { crossTab: true });
+ *
+ *   return <button onClick={() => emit()}>Refresh All Tabs</button>;
+ * }
+ * ```
+ *
+ * @example
+ * ```tsx
  * // With data payload
  * function DataEmitter() {
  *   const { emit } = useSignal<{ userId: string }>("user-action");
@@ -130,24 +215,55 @@ export interface UseSignalReturn<T = unknown> {
  * }
  * ```
  */
+export function useSignal<T>(
+  handle: SignalHandle<T>,
+  options?: SignalOptions
+): UseSignalReturn<T>;
 export function useSignal<T = unknown>(
   name: string,
+  options?: SignalOptions
+): UseSignalReturn<T>;
+export function useSignal<T = unknown>(
+  nameOrHandle: string | SignalHandle<T>,
   options: SignalOptions = {}
 ): UseSignalReturn<T> {
+  const name =
+    typeof nameOrHandle === "string" ? nameOrHandle : nameOrHandle.name;
   const {
     emitOnMount = false,
     onEmit,
     enabled = true,
     debounce,
+    crossTab = false,
+    onError,
+    replay = 0,
   } = options;
 
   // Store options in refs for stable references
   const onEmitRef = useRef(onEmit);
   onEmitRef.current = onEmit;
+  const crossTabRef = useRef(crossTab);
+  crossTabRef.current = crossTab;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
 
   // Stable name ref for info object
   const nameRef = useRef(name);
   nameRef.current = name;
+  const replayRef = useRef(replay);
+  replayRef.current = Math.max(0, Math.floor(replay));
+
+  // Emit count when the hook started listening to the current name
+  const startRef = useRef<{ name: string; sequence: number } | null>(null);
+  if (startRef.current?.name !== name) {
+    startRef.current = { name, sequence: getEmitCount(name) };
+  }
+
+  // Keep enough history for the requested replay
+  // (before subscribing, so a new wildcard is seeded with it)
+  useEffect(() => {
+    reserveHistorySize(name, replayRef.current);
+  }, [name, replay]);
 
   // Info object with stable reference using getters for live data
   const infoRef = useRef<SignalInfo<T> | null>(null);
@@ -168,6 +284,15 @@ export function useSignal<T = unknown>(
       get data() {
         return getData(nameRef.current) as T | undefined;
       },
+      get emittedName() {
+        return getEmittedName(nameRef.current);
+      },
+      get history() {
+        const from = startRef.current!.sequence - replayRef.current;
+        return getHistory(nameRef.current).filter(
+          (event) => event.sequence > from
+        ) as SignalEvent<T>[];
+      },
     } as SignalInfo<T>;
   }
 
@@ -202,10 +327,23 @@ export function useSignal<T = unknown>(
     getServerSnapshot
   );
 
+  // Receive emits of this signal from other tabs
+  useEffect(() => {
+    if (!crossTab) {
+      return;
+    }
+    return connect(name);
+  }, [name, crossTab]);
+
   // Base emit function
   const baseEmit = useCallback(
     (data?: T) => {
-      storeEmit(name, data);
+      if (crossTabRef.current) {
+        emitCrossTab(name, data, onErrorRef.current);
+      } else {
+        storeEmit(name, data);
+      }
+
       onEmitRef.current?.();
     },
     [name]